@@ -0,0 +1,24 @@
+// Shows push notifications sent by deliver-notifications and opens the app
+// when one is tapped. Payload: { title, body, url }.
+
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Nava", {
+      body: data.body || "",
+      icon: "/favicon.png",
+      data: { url: data.url || "/" },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => w.url.startsWith(self.location.origin));
+      return open ? open.focus() : self.clients.openWindow(url);
+    }),
+  );
+});
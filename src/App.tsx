@@ -15,6 +15,9 @@ import { WalletsPage } from "@/admin/pages/WalletsPage";
 import { TransactionsPage } from "@/admin/pages/TransactionsPage";
 import { ScheduledPage } from "@/admin/pages/ScheduledPage";
 import { AnalyticsPage } from "@/admin/pages/AnalyticsPage";
+import { SuspensePage } from "@/admin/pages/SuspensePage";
+import { ReconciliationPage } from "@/admin/pages/ReconciliationPage";
+import { KycReviewsPage } from "@/admin/pages/KycReviewsPage";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import ResetPassword from "./pages/ResetPassword";
@@ -53,6 +56,9 @@ const App = () => {
                       <Route path="transactions" element={<TransactionsPage />} />
                       <Route path="scheduled" element={<ScheduledPage />} />
                       <Route path="analytics" element={<AnalyticsPage />} />
+                      <Route path="suspense" element={<SuspensePage />} />
+                      <Route path="reconciliation" element={<ReconciliationPage />} />
+                      <Route path="kyc-reviews" element={<KycReviewsPage />} />
                     </Route>
 
                     <Route path="*" element={<NotFound />} />
@@ -14,6 +14,9 @@ import {
   ArrowLeftRight,
   CalendarClock,
   BarChart3,
+  Landmark,
+  Scale,
+  ScanFace,
   LogOut,
   Menu,
   X,
@@ -27,6 +30,9 @@ const navItems = [
   { to: "/admin/transactions", icon: ArrowLeftRight, label: "Transactions" },
   { to: "/admin/scheduled", icon: CalendarClock, label: "Scheduled Top-Ups" },
   { to: "/admin/analytics", icon: BarChart3, label: "Analytics" },
+  { to: "/admin/suspense", icon: Landmark, label: "Funding Suspense" },
+  { to: "/admin/reconciliation", icon: Scale, label: "Reconciliation" },
+  { to: "/admin/kyc-reviews", icon: ScanFace, label: "BVN Reviews" },
 ];
 
 export function AdminLayout() {
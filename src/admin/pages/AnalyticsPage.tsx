@@ -1,15 +1,16 @@
 /**
  * @fileoverview Admin Analytics Overview page.
- * Displays spending trends, active users, and platform-wide metrics.
+ * Displays spending trends, active users, platform-wide metrics and the
+ * referrals report.
  */
 
 import { useEffect, useState } from "react";
-import { getAnalytics } from "@/api/admin";
+import { getAnalytics, getReferralsReport } from "@/api/admin";
 import { Card } from "@/components/ui/card";
 import { StatCard } from "@/admin/components/StatCard";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, Users, Wallet, ArrowLeftRight } from "lucide-react";
+import { TrendingUp, Users, Wallet, ArrowLeftRight, Gift, ShieldAlert } from "lucide-react";
 
 interface AnalyticsData {
   activeUsersToday: number;
@@ -20,9 +21,35 @@ interface AnalyticsData {
   dailyTrend: { date: string; amount: number; count: number }[];
 }
 
+interface ReferralsReport {
+  signups: number;
+  pending: number;
+  rewarded: number;
+  rejected: number;
+  rewardsPaid: number;
+  rejectedByReason: Record<string, number>;
+  topReferrers: {
+    userId: string;
+    name: string | null;
+    referralCode: string | null;
+    referrals: number;
+    rewarded: number;
+    rejected: number;
+    earned: number;
+  }[];
+}
+
+const REJECTION_LABELS: Record<string, string> = {
+  same_device: "Same device",
+  same_phone: "Same phone",
+  same_nin: "Same NIN",
+};
+
 export function AnalyticsPage() {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [referrals, setReferrals] = useState<ReferralsReport | null>(null);
+  const [isReferralsLoading, setIsReferralsLoading] = useState(true);
   const [period, setPeriod] = useState("week");
 
   useEffect(() => {
@@ -31,6 +58,12 @@ export function AnalyticsPage() {
       .then(setData)
       .catch(() => setData(null))
       .finally(() => setIsLoading(false));
+
+    setIsReferralsLoading(true);
+    getReferralsReport({ period })
+      .then(setReferrals)
+      .catch(() => setReferrals(null))
+      .finally(() => setIsReferralsLoading(false));
   }, [period]);
 
   return (
@@ -134,6 +167,72 @@ export function AnalyticsPage() {
           <p className="text-sm text-muted-foreground">No trend data available</p>
         )}
       </Card>
+
+      {/* Referrals */}
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">Referrals</h2>
+        <p className="text-sm text-muted-foreground mt-1">Referrals made this {period}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Referred Signups"
+          value={referrals?.signups ?? 0}
+          icon={Users}
+          isLoading={isReferralsLoading}
+        />
+        <StatCard
+          title="Rewarded"
+          value={referrals?.rewarded ?? 0}
+          subtitle={`${referrals?.pending ?? 0} pending`}
+          icon={Gift}
+          isLoading={isReferralsLoading}
+        />
+        <StatCard
+          title="Rewards Paid"
+          value={`₦${(referrals?.rewardsPaid ?? 0).toLocaleString()}`}
+          icon={Wallet}
+          isLoading={isReferralsLoading}
+        />
+        <StatCard
+          title="Rejected"
+          value={referrals?.rejected ?? 0}
+          subtitle={Object.entries(referrals?.rejectedByReason ?? {})
+            .filter(([, count]) => count > 0)
+            .map(([reason, count]) => `${REJECTION_LABELS[reason] ?? reason}: ${count}`)
+            .join(" · ") || undefined}
+          icon={ShieldAlert}
+          isLoading={isReferralsLoading}
+        />
+      </div>
+
+      <Card className="p-5">
+        <h3 className="text-sm font-semibold text-foreground mb-4">Top Referrers</h3>
+        {isReferralsLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : referrals?.topReferrers && referrals.topReferrers.length > 0 ? (
+          <div className="space-y-3">
+            {referrals.topReferrers.map((r) => (
+              <div key={r.userId} className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">{r.name || "Unnamed user"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {r.referralCode} · {r.referrals} referred · {r.rewarded} rewarded
+                    {r.rejected > 0 && <span className="text-destructive"> · {r.rejected} rejected</span>}
+                  </p>
+                </div>
+                <p className="text-sm font-semibold">₦{r.earned.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No referrals yet</p>
+        )}
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Admin BVN Review queue page.
+ *
+ * Lists BVN verifications where the name on the BVN only partly matched the
+ * user's profile name, and lets admins approve (verify, Tier 2) or reject them.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { getBvnReviews, resolveBvnReview } from "@/api/admin";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface BvnReview {
+  id: string;
+  user_id: string;
+  full_name: string | null;
+  kyc_tier: number | null;
+  profile_name: string;
+  bvn_name: string;
+  match_score: number;
+  provider: string;
+  provider_reference: string | null;
+  status: string;
+  resolution_note: string | null;
+  created_at: string;
+}
+
+type Resolution = "approved" | "rejected";
+
+export function KycReviewsPage() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<BvnReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const limit = 20;
+
+  const [selected, setSelected] = useState<BvnReview | null>(null);
+  const [resolution, setResolution] = useState<Resolution>("approved");
+  const [note, setNote] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+
+  const fetchData = useCallback(() => {
+    setIsLoading(true);
+    getBvnReviews({ page, limit, status: statusFilter !== "all" ? statusFilter : undefined })
+      .then((data) => { setItems(data.items || []); setTotal(data.total || 0); })
+      .catch(() => setItems([]))
+      .finally(() => setIsLoading(false));
+  }, [page, statusFilter]);
+
+  useEffect(() => { fetchData(); }, [fetchData]);
+
+  // Changing a filter refetches on its own; this returns to the first page
+  const handleFilter = () => setPage(1);
+
+  const openResolve = (item: BvnReview) => {
+    setSelected(item);
+    setResolution("approved");
+    setNote("");
+  };
+
+  const handleResolve = async () => {
+    if (!selected) return;
+    setIsResolving(true);
+    try {
+      await resolveBvnReview({ reviewId: selected.id, resolution, note: note.trim() });
+      toast({ title: resolution === "approved" ? "BVN approved" : "BVN rejected" });
+      setSelected(null);
+      fetchData();
+    } catch (e) {
+      toast({ title: "Could not resolve", description: (e as Error).message, variant: "destructive" });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">BVN Reviews</h1>
+        <p className="text-sm text-muted-foreground mt-1">{total} partial name matches</p>
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handleFilter}>Filter</Button>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Submitted</TableHead>
+              <TableHead>Profile name</TableHead>
+              <TableHead>Name on BVN</TableHead>
+              <TableHead>Match</TableHead>
+              <TableHead>Tier</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 7 }).map((_, j) => (
+                    <TableCell key={j}><Skeleton className="h-4 w-16" /></TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                  No BVN reviews found
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {new Date(r.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {r.profile_name}
+                    {r.full_name && r.full_name !== r.profile_name && (
+                      <span className="block text-xs text-muted-foreground">now: {r.full_name}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{r.bvn_name}</TableCell>
+                  <TableCell className="font-semibold">{Math.round(Number(r.match_score) * 100)}%</TableCell>
+                  <TableCell className="text-xs">{r.kyc_tier ? `Tier ${r.kyc_tier}` : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={r.status === "open" ? "destructive" : "secondary"}>{r.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {r.status === "open" ? (
+                      <Button variant="outline" size="sm" onClick={() => openResolve(r)}>Review</Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{r.resolution_note}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {total > limit && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">Page {page} of {Math.ceil(total / limit)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= Math.ceil(total / limit)} onClick={() => setPage(page + 1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Review BVN match</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4">
+              <div className="space-y-1 text-sm">
+                <p><span className="text-muted-foreground">Profile:</span> {selected.full_name || selected.profile_name}</p>
+                <p><span className="text-muted-foreground">BVN record:</span> {selected.bvn_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {Math.round(Number(selected.match_score) * 100)}% match • {selected.provider}
+                  {selected.provider_reference && ` • ${selected.provider_reference}`}
+                </p>
+              </div>
+              <Select value={resolution} onValueChange={(v) => setResolution(v as Resolution)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="approved">Approve — same person, verify and raise to Tier 2</SelectItem>
+                  <SelectItem value="rejected">Reject — different person</SelectItem>
+                </SelectContent>
+              </Select>
+              <Textarea
+                placeholder="Resolution note (required), e.g. nickname, married name"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button onClick={handleResolve} disabled={isResolving || !note.trim()}>
+              {isResolving ? "Saving..." : "Resolve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Admin provider reconciliation page.
+ *
+ * Shows recent nightly reconciliation runs and the mismatches they found
+ * between our purchases and each VTU provider's report.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { getReconciliation, resolveReconciliationItem } from "@/api/admin";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface ReconciliationItem {
+  id: string;
+  run_date: string;
+  provider: string;
+  kind: string;
+  reference: string | null;
+  provider_reference: string | null;
+  full_name: string | null;
+  local_status: string | null;
+  provider_status: string | null;
+  local_amount: number | null;
+  provider_amount: number | null;
+  status: string;
+  resolution_note: string | null;
+}
+
+interface ReconciliationRun {
+  id: string;
+  run_date: string;
+  provider: string;
+  status: string;
+  provider_entries: number;
+  local_transactions: number;
+  mismatches: number;
+  unmatched_provider_entries: number;
+  error: string | null;
+}
+
+type Resolution = "refund" | "resolved" | "ignored";
+
+const kindLabels: Record<string, string> = {
+  charged_not_delivered: "Charged, not delivered",
+  delivered_but_refunded: "Delivered, but refunded",
+  amount_drift: "Amount drift",
+};
+
+export function ReconciliationPage() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<ReconciliationItem[]>([]);
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [kindFilter, setKindFilter] = useState("all");
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const limit = 20;
+
+  const [selected, setSelected] = useState<ReconciliationItem | null>(null);
+  const [resolution, setResolution] = useState<Resolution>("resolved");
+  const [note, setNote] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+
+  const fetchData = useCallback(() => {
+    setIsLoading(true);
+    getReconciliation({
+      page,
+      limit,
+      status: statusFilter !== "all" ? statusFilter : undefined,
+      kind: kindFilter !== "all" ? kindFilter : undefined,
+    })
+      .then((data) => { setItems(data.items || []); setRuns(data.runs || []); setTotal(data.total || 0); })
+      .catch(() => setItems([]))
+      .finally(() => setIsLoading(false));
+  }, [page, statusFilter, kindFilter]);
+
+  useEffect(() => { fetchData(); }, [fetchData]);
+
+  // Changing a filter refetches on its own; this returns to the first page
+  const handleFilter = () => setPage(1);
+
+  const openResolve = (item: ReconciliationItem) => {
+    setSelected(item);
+    setResolution(item.kind === "charged_not_delivered" ? "refund" : "resolved");
+    setNote("");
+  };
+
+  const handleResolve = async () => {
+    if (!selected) return;
+    setIsResolving(true);
+    try {
+      await resolveReconciliationItem({ itemId: selected.id, resolution, note: note.trim() });
+      toast({ title: resolution === "refund" ? "Customer refunded" : "Mismatch resolved" });
+      setSelected(null);
+      fetchData();
+    } catch (e) {
+      toast({ title: "Could not resolve", description: (e as Error).message, variant: "destructive" });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Reconciliation</h1>
+        <p className="text-sm text-muted-foreground mt-1">{total} mismatches</p>
+      </div>
+
+      {runs.length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {runs.slice(0, 4).map((r) => (
+            <Card key={r.id} className="p-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium capitalize">{r.provider} • {r.run_date}</p>
+                <Badge variant={r.status === "failed" ? "destructive" : "secondary"}>{r.status}</Badge>
+              </div>
+              {r.status === "failed" ? (
+                <p className="text-xs text-destructive mt-2">{r.error}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {r.local_transactions} ours • {r.provider_entries} provider • {r.mismatches} mismatches
+                  {r.unmatched_provider_entries > 0 && ` • ${r.unmatched_provider_entries} unknown to us`}
+                </p>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="refunded">Refunded</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+            <SelectItem value="ignored">Ignored</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={kindFilter} onValueChange={setKindFilter}>
+          <SelectTrigger className="w-52">
+            <SelectValue placeholder="Kind" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All kinds</SelectItem>
+            {Object.entries(kindLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handleFilter}>Filter</Button>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Provider</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Ours</TableHead>
+              <TableHead>Provider</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 9 }).map((_, j) => (
+                    <TableCell key={j}><Skeleton className="h-4 w-16" /></TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                  No mismatches found
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell className="text-xs text-muted-foreground">{r.run_date}</TableCell>
+                  <TableCell className="capitalize">{r.provider}</TableCell>
+                  <TableCell className="text-xs">{kindLabels[r.kind] || r.kind}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {r.reference || "—"}
+                    {r.provider_reference && <span className="block text-muted-foreground">{r.provider_reference}</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">{r.full_name || "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {r.local_amount !== null ? `₦${Number(r.local_amount).toLocaleString()}` : "—"}
+                    <span className="block text-muted-foreground">{r.local_status || "—"}</span>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {r.provider_amount !== null ? `₦${Number(r.provider_amount).toLocaleString()}` : "—"}
+                    <span className="block text-muted-foreground">{r.provider_status || "no record"}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={r.status === "open" ? "destructive" : "secondary"}>{r.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {r.status === "open" ? (
+                      <Button variant="outline" size="sm" onClick={() => openResolve(r)}>Resolve</Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{r.resolution_note}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {total > limit && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">Page {page} of {Math.ceil(total / limit)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= Math.ceil(total / limit)} onClick={() => setPage(page + 1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve {selected ? kindLabels[selected.kind] || selected.kind : ""}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              {selected?.provider} • {selected?.reference || selected?.provider_reference}
+            </p>
+            <Select value={resolution} onValueChange={(v) => setResolution(v as Resolution)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {selected?.kind === "charged_not_delivered" && (
+                  <SelectItem value="refund">Refund customer</SelectItem>
+                )}
+                <SelectItem value="resolved">Mark resolved</SelectItem>
+                <SelectItem value="ignored">Ignore</SelectItem>
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="Resolution note (required)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button onClick={handleResolve} disabled={isResolving || !note.trim()}>
+              {isResolving ? "Saving..." : "Resolve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Admin Funding Suspense queue page.
+ *
+ * Lists bank transfers into virtual accounts that could not be credited
+ * automatically (unknown account or over the balance cap) and lets admins
+ * credit, refund or dismiss them.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { getFundingSuspense, resolveFundingSuspense } from "@/api/admin";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface SuspenseItem {
+  id: string;
+  provider: string;
+  provider_reference: string;
+  account_number: string;
+  amount: number;
+  reason: string;
+  status: string;
+  matched_user_id: string | null;
+  full_name: string | null;
+  sender_name: string | null;
+  sender_bank: string | null;
+  narration: string | null;
+  resolution_note: string | null;
+  received_at: string;
+}
+
+type Resolution = "credit" | "refunded" | "dismissed";
+
+const reasonLabels: Record<string, string> = {
+  unmatched_account: "Unknown account",
+  over_limit: "Over balance cap",
+};
+
+export function SuspensePage() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<SuspenseItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const limit = 20;
+
+  const [selected, setSelected] = useState<SuspenseItem | null>(null);
+  const [resolution, setResolution] = useState<Resolution>("credit");
+  const [targetUserId, setTargetUserId] = useState("");
+  const [note, setNote] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+
+  const fetchData = useCallback(() => {
+    setIsLoading(true);
+    getFundingSuspense({ page, limit, status: statusFilter !== "all" ? statusFilter : undefined })
+      .then((data) => { setItems(data.items || []); setTotal(data.total || 0); })
+      .catch(() => setItems([]))
+      .finally(() => setIsLoading(false));
+  }, [page, statusFilter]);
+
+  useEffect(() => { fetchData(); }, [fetchData]);
+
+  // Changing a filter refetches on its own; this returns to the first page
+  const handleFilter = () => setPage(1);
+
+  const openResolve = (item: SuspenseItem) => {
+    setSelected(item);
+    setResolution("credit");
+    setTargetUserId(item.matched_user_id || "");
+    setNote("");
+  };
+
+  const handleResolve = async () => {
+    if (!selected) return;
+    setIsResolving(true);
+    try {
+      await resolveFundingSuspense({
+        suspenseId: selected.id,
+        resolution,
+        userId: resolution === "credit" ? targetUserId.trim() : undefined,
+        note: note.trim(),
+      });
+      toast({ title: "Suspense item resolved" });
+      setSelected(null);
+      fetchData();
+    } catch (e) {
+      toast({ title: "Could not resolve", description: (e as Error).message, variant: "destructive" });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Funding Suspense</h1>
+        <p className="text-sm text-muted-foreground mt-1">{total} transfers</p>
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="credited">Credited</SelectItem>
+            <SelectItem value="refunded">Refunded</SelectItem>
+            <SelectItem value="dismissed">Dismissed</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handleFilter}>Filter</Button>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Received</TableHead>
+              <TableHead>Account</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Sender</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 8 }).map((_, j) => (
+                    <TableCell key={j}><Skeleton className="h-4 w-16" /></TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                  No suspense items found
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((s) => (
+                <TableRow key={s.id}>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {new Date(s.received_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{s.account_number}</TableCell>
+                  <TableCell className="text-sm">{s.full_name || "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {s.sender_name || "—"}
+                    {s.sender_bank && <span className="block text-muted-foreground">{s.sender_bank}</span>}
+                  </TableCell>
+                  <TableCell className="font-semibold">₦{Number(s.amount).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs">{reasonLabels[s.reason] || s.reason}</TableCell>
+                  <TableCell>
+                    <Badge variant={s.status === "open" ? "destructive" : "secondary"}>{s.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {s.status === "open" ? (
+                      <Button variant="outline" size="sm" onClick={() => openResolve(s)}>Resolve</Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{s.resolution_note}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {total > limit && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">Page {page} of {Math.ceil(total / limit)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= Math.ceil(total / limit)} onClick={() => setPage(page + 1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve ₦{Number(selected?.amount || 0).toLocaleString()} transfer</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              {selected?.provider} • {selected?.provider_reference}
+              {selected?.narration && ` • "${selected.narration}"`}
+            </p>
+            <Select value={resolution} onValueChange={(v) => setResolution(v as Resolution)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="credit">Credit a wallet</SelectItem>
+                <SelectItem value="refunded">Refunded to sender</SelectItem>
+                <SelectItem value="dismissed">Dismiss</SelectItem>
+              </SelectContent>
+            </Select>
+            {resolution === "credit" && (
+              <Input
+                placeholder="User ID to credit"
+                value={targetUserId}
+                onChange={(e) => setTargetUserId(e.target.value)}
+              />
+            )}
+            <Textarea
+              placeholder="Resolution note (required)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button
+              onClick={handleResolve}
+              disabled={isResolving || !note.trim() || (resolution === "credit" && !targetUserId.trim())}
+            >
+              {isResolving ? "Saving..." : "Resolve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,29 +1,40 @@
 /**
  * @fileoverview Admin Users Management page.
- * List, search, and view user details.
+ * List, search, and view user details; change a user's KYC tier; reveal a
+ * user's NIN (logged with a reason).
  */
 
 import { useEffect, useState } from "react";
-import { getUsers } from "@/api/admin";
+import { getUsers, revealNin, setKycTier } from "@/api/admin";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from "@/components/ui/table";
-import { Search, ChevronLeft, ChevronRight } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Search, ChevronLeft, ChevronRight, Eye } from "lucide-react";
 
 interface User {
   user_id: string;
   full_name: string | null;
   phone_number: string | null;
   kyc_status: string;
+  kyc_tier: number;
   created_at: string;
 }
 
 export function UsersPage() {
+  const { toast } = useToast();
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [search, setSearch] = useState("");
@@ -31,6 +42,16 @@ export function UsersPage() {
   const [total, setTotal] = useState(0);
   const limit = 20;
 
+  const [selected, setSelected] = useState<User | null>(null);
+  const [tier, setTier] = useState("1");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [revealFor, setRevealFor] = useState<User | null>(null);
+  const [revealReason, setRevealReason] = useState("");
+  const [revealedNin, setRevealedNin] = useState<string | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+
   const fetchUsers = () => {
     setIsLoading(true);
     getUsers({ page, limit, search: search || undefined })
@@ -49,6 +70,51 @@ export function UsersPage() {
     fetchUsers();
   };
 
+  const openTierChange = (u: User) => {
+    setSelected(u);
+    setTier(String(u.kyc_tier));
+    setNote("");
+  };
+
+  const handleTierChange = async () => {
+    if (!selected) return;
+    setIsSaving(true);
+    try {
+      await setKycTier({ userId: selected.user_id, tier: Number(tier), note: note.trim() });
+      toast({ title: "KYC tier updated" });
+      setSelected(null);
+      fetchUsers();
+    } catch (e) {
+      toast({ title: "Could not update tier", description: (e as Error).message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openReveal = (u: User) => {
+    setRevealFor(u);
+    setRevealReason("");
+    setRevealedNin(null);
+  };
+
+  const closeReveal = () => {
+    setRevealFor(null);
+    setRevealedNin(null);
+  };
+
+  const handleReveal = async () => {
+    if (!revealFor) return;
+    setIsRevealing(true);
+    try {
+      const data = await revealNin({ userId: revealFor.user_id, reason: revealReason.trim() });
+      setRevealedNin(data.nin);
+    } catch (e) {
+      toast({ title: "Could not reveal NIN", description: (e as Error).message, variant: "destructive" });
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -77,21 +143,23 @@ export function UsersPage() {
               <TableHead>Name</TableHead>
               <TableHead>Phone</TableHead>
               <TableHead>KYC Status</TableHead>
+              <TableHead>Tier</TableHead>
               <TableHead>Joined</TableHead>
+              <TableHead />
             </TableRow>
           </TableHeader>
           <TableBody>
             {isLoading ? (
               Array.from({ length: 5 }).map((_, i) => (
                 <TableRow key={i}>
-                  {Array.from({ length: 4 }).map((_, j) => (
+                  {Array.from({ length: 6 }).map((_, j) => (
                     <TableCell key={j}><Skeleton className="h-4 w-24" /></TableCell>
                   ))}
                 </TableRow>
               ))
             ) : users.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
                   No users found
                 </TableCell>
               </TableRow>
@@ -105,9 +173,21 @@ export function UsersPage() {
                       {u.kyc_status}
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => openTierChange(u)}>
+                      Tier {u.kyc_tier}
+                    </Button>
+                  </TableCell>
                   <TableCell className="text-muted-foreground text-xs">
                     {new Date(u.created_at).toLocaleDateString()}
                   </TableCell>
+                  <TableCell>
+                    {u.kyc_status === "verified" && (
+                      <Button variant="ghost" size="sm" onClick={() => openReveal(u)}>
+                        <Eye className="w-4 h-4 mr-1" /> NIN
+                      </Button>
+                    )}
+                  </TableCell>
                 </TableRow>
               ))
             )}
@@ -130,6 +210,79 @@ export function UsersPage() {
           </div>
         </div>
       )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change KYC Tier</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {selected.full_name || selected.user_id} is on Tier {selected.kyc_tier}.
+                Balances above a lower tier's cap are kept, but can't be topped up further.
+              </p>
+              <Select value={tier} onValueChange={setTier}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Tier 1 — unverified</SelectItem>
+                  <SelectItem value="2">Tier 2 — NIN or BVN verified</SelectItem>
+                  <SelectItem value="3">Tier 3 — BVN and address verified</SelectItem>
+                </SelectContent>
+              </Select>
+              <Textarea
+                placeholder="Reason (required), e.g. documents reviewed"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button
+              onClick={handleTierChange}
+              disabled={isSaving || !note.trim() || tier === String(selected?.kyc_tier)}
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealFor} onOpenChange={(open) => !open && closeReveal()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reveal NIN</DialogTitle>
+          </DialogHeader>
+          {revealFor && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Decrypting {revealFor.full_name || revealFor.user_id}'s NIN is recorded in the PII access log
+                under your account, with the reason below.
+              </p>
+              {revealedNin ? (
+                <p className="font-mono text-lg text-center tracking-widest">{revealedNin}</p>
+              ) : (
+                <Textarea
+                  placeholder="Reason (required), e.g. support ticket reference"
+                  value={revealReason}
+                  onChange={(e) => setRevealReason(e.target.value)}
+                />
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReveal}>{revealedNin ? "Close" : "Cancel"}</Button>
+            {!revealedNin && (
+              <Button onClick={handleReveal} disabled={isRevealing || !revealReason.trim()}>
+                {isRevealing ? "Decrypting..." : "Reveal"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -101,9 +101,181 @@ export async function getAnalytics(params: { period?: string } = {}) {
   return adminFetch("get_analytics", params);
 }
 
+/**
+ * Fetch the referrals report: signups, outcomes, rejections by fraud guard
+ * and top referrers for referrals made in the period (default month).
+ */
+export async function getReferralsReport(params: { period?: string } = {}) {
+  return adminFetch("get_referrals_report", params);
+}
+
 /**
  * Admin wallet adjustment (credit/debit).
  */
 export async function adjustWallet(params: { userId: string; amount: number; type: "credit" | "debit"; reason: string }) {
   return adminFetch("adjust_wallet", params);
 }
+
+/**
+ * Move a user to another KYC tier (e.g. Tier 3 after reviewing BVN and address).
+ */
+export async function setKycTier(params: { userId: string; tier: number; note: string }) {
+  return adminFetch("set_kyc_tier", params);
+}
+
+/**
+ * Fetch unmatched or over-limit bank transfers held in suspense.
+ */
+export async function getFundingSuspense(params: { page?: number; limit?: number; status?: string } = {}) {
+  return adminFetch("get_funding_suspense", params);
+}
+
+/**
+ * Resolve a suspense item by crediting a wallet, or marking it refunded/dismissed.
+ */
+export async function resolveFundingSuspense(params: {
+  suspenseId: string;
+  resolution: "credit" | "refunded" | "dismissed";
+  userId?: string;
+  note: string;
+}) {
+  return adminFetch("resolve_funding_suspense", params);
+}
+
+/**
+ * Fetch provider reconciliation mismatches and recent runs.
+ */
+export async function getReconciliation(params: { page?: number; limit?: number; status?: string; kind?: string } = {}) {
+  return adminFetch("get_reconciliation", params);
+}
+
+/**
+ * Resolve a reconciliation mismatch, refunding the customer if requested.
+ */
+export async function resolveReconciliationItem(params: {
+  itemId: string;
+  resolution: "refund" | "resolved" | "ignored";
+  note: string;
+}) {
+  return adminFetch("resolve_reconciliation_item", params);
+}
+
+/**
+ * Fetch BVN verifications whose name only partly matched the profile.
+ */
+export async function getBvnReviews(params: { page?: number; limit?: number; status?: string } = {}) {
+  return adminFetch("get_bvn_reviews", params);
+}
+
+/**
+ * Approve (verify and raise to Tier 2) or reject a BVN review.
+ */
+export async function resolveBvnReview(params: {
+  reviewId: string;
+  resolution: "approved" | "rejected";
+  note: string;
+}) {
+  return adminFetch("resolve_bvn_review", params);
+}
+
+/**
+ * Decrypt a user's NIN. Every call is recorded in the PII access log with the reason given.
+ */
+export async function revealNin(params: { userId: string; reason: string }) {
+  return adminFetch("reveal_nin", params);
+}
+
+/**
+ * Fetch all pricing rules, active ones first by priority.
+ */
+export async function getPricingRules() {
+  return adminFetch("get_pricing_rules");
+}
+
+/**
+ * Create a pricing rule, or update one when `ruleId` is given. Set
+ * `is_active: false` to retire a rule; changes apply to the next quote.
+ */
+export async function savePricingRule(params: {
+  ruleId?: string;
+  rule: {
+    name?: string;
+    product?: "airtime" | "data" | null;
+    network?: string | null;
+    plan_category?: string | null;
+    kyc_tier?: number | null;
+    margin_percent?: number;
+    fixed_fee?: number;
+    min_markup?: number | null;
+    max_markup?: number | null;
+    priority?: number;
+    starts_at?: string | null;
+    ends_at?: string | null;
+    is_active?: boolean;
+  };
+}) {
+  return adminFetch("save_pricing_rule", params);
+}
+
+/**
+ * Fetch all promo codes, active ones first, each with its redemption count.
+ */
+export async function getPromoCodes() {
+  return adminFetch("get_promo_codes");
+}
+
+/**
+ * Create a promo code, or update one when `promoCodeId` is given. Set
+ * `is_active: false` to end a campaign early.
+ */
+export async function savePromoCode(params: {
+  promoCodeId?: string;
+  promo: {
+    code?: string;
+    description?: string | null;
+    discount_type?: "percent" | "fixed";
+    discount_value?: number;
+    max_discount?: number | null;
+    min_purchase?: number;
+    product?: "airtime" | "data" | null;
+    network?: string | null;
+    first_purchase_only?: boolean;
+    max_redemptions?: number | null;
+    max_redemptions_per_user?: number | null;
+    starts_at?: string | null;
+    ends_at?: string | null;
+    is_active?: boolean;
+  };
+}) {
+  return adminFetch("save_promo_code", params);
+}
+
+/**
+ * Fetch all cashback rules, active ones first by priority.
+ */
+export async function getCashbackRules() {
+  return adminFetch("get_cashback_rules");
+}
+
+/**
+ * Create a cashback rule, or update one when `ruleId` is given. Changes
+ * apply to purchases completing from then on.
+ */
+export async function saveCashbackRule(params: {
+  ruleId?: string;
+  rule: {
+    name?: string;
+    product?: "airtime" | "data" | null;
+    network?: string | null;
+    min_amount?: number;
+    percent?: number;
+    fixed_amount?: number;
+    max_cashback?: number | null;
+    priority?: number;
+    starts_at?: string | null;
+    ends_at?: string | null;
+    is_active?: boolean;
+  };
+}) {
+  return adminFetch("save_cashback_rule", params);
+}
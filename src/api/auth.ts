@@ -10,19 +10,22 @@
 
 import { supabase } from "@/integrations/supabase/client";
 import type { User, Session, AuthChangeEvent } from "@supabase/supabase-js";
+import { getDeviceId } from "@/lib/device";
+import { disablePush } from "./notifications";
 // import { api } from "./client"; // Uncomment for future external backend
 
 /**
- * Sign up a new user.
+ * Sign up a new user, attributed to the owner of `referralCode` if given.
+ * An unknown code doesn't stop the signup; it's just not attributed.
  */
-export async function registerUser(email: string, password: string, fullName: string) {
+export async function registerUser(email: string, password: string, fullName: string, referralCode?: string) {
   const redirectUrl = `${window.location.origin}/`;
   const { data, error } = await supabase.auth.signUp({
     email,
     password,
     options: {
       emailRedirectTo: redirectUrl,
-      data: { full_name: fullName },
+      data: { full_name: fullName, referral_code: referralCode || undefined, device_id: getDeviceId() },
     },
   });
   return { data, error };
@@ -40,6 +43,7 @@ export async function loginUser(email: string, password: string) {
  * Sign out the current user.
  */
 export async function logoutUser() {
+  await disablePush().catch((error) => console.error("Error removing push subscription:", error));
   await supabase.auth.signOut();
 }
 
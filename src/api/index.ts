@@ -17,3 +17,6 @@ export * as notificationService from "./notifications";
 export * as scheduledTopUpService from "./scheduled-topups";
 export * as greetingService from "./greeting";
 export * as adminService from "./admin";
+export * as pinService from "./pin";
+export * as pricingService from "./pricing";
+export * as referralService from "./referrals";
@@ -1,13 +1,31 @@
 /**
  * @fileoverview Notifications Service Layer
  * 
- * Abstracts notification CRUD and realtime subscriptions.
+ * Abstracts notification CRUD and realtime subscriptions, delivery
+ * preferences and this browser's push subscription. Notifications are also
+ * sent by email, SMS and web push, per the user's choice for each category.
  * 
  * @module api/notifications
  */
 
 import { supabase } from "@/integrations/supabase/client";
 
+/** Categories users choose delivery channels for. */
+export type NotificationCategory = "transaction" | "budget" | "schedule" | "security";
+
+export type NotificationChannel = "email" | "sms" | "push";
+
+/** Which channels, besides the app, a category is delivered on. */
+export interface NotificationPreference {
+  category: NotificationCategory;
+  email: boolean;
+  sms: boolean;
+  push: boolean;
+}
+
+const PUSH_SERVICE_WORKER = "/push-sw.js";
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
 /**
  * Fetch user notifications.
  */
@@ -83,3 +101,87 @@ export function subscribeToNotifications(
     supabase.removeChannel(channel);
   };
 }
+
+/**
+ * The user's channels for every category, with the defaults filled in for
+ * categories they haven't changed.
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreference[]> {
+  const { data, error } = await supabase.rpc("get_notification_preferences");
+  if (error) throw new Error(error.message);
+  return (data || []) as NotificationPreference[];
+}
+
+/**
+ * Save the user's channels for one category.
+ */
+export async function saveNotificationPreference(userId: string, preference: NotificationPreference) {
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert({ user_id: userId, ...preference });
+  if (error) throw new Error(error.message);
+}
+
+/** Whether this browser can receive push notifications from the app. */
+export function isPushSupported(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY) && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+async function getPushSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration("/");
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/** Whether this browser is subscribed to push notifications. */
+export async function isPushEnabled(): Promise<boolean> {
+  if (!isPushSupported() || Notification.permission !== "granted") return false;
+  return (await getPushSubscription()) !== null;
+}
+
+/** The VAPID key as the bytes `PushManager.subscribe` expects. */
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Ask for permission and subscribe this browser to the signed-in user's
+ * push notifications. Returns false if the user didn't allow them.
+ */
+export async function enablePush(): Promise<boolean> {
+  if (!isPushSupported()) return false;
+  if ((await Notification.requestPermission()) !== "granted") return false;
+
+  await navigator.serviceWorker.register(PUSH_SERVICE_WORKER);
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = (await registration.pushManager.getSubscription())
+    ?? (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { keys } = subscription.toJSON();
+  const { error } = await supabase.rpc("save_push_subscription", {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: keys?.p256dh ?? "",
+    p_auth: keys?.auth ?? "",
+    p_user_agent: navigator.userAgent,
+  });
+  if (error) throw new Error(error.message);
+  return true;
+}
+
+/**
+ * Unsubscribe this browser from push notifications. Called on logout too,
+ * so the next account to sign in here doesn't get them.
+ */
+export async function disablePush() {
+  if (!isPushSupported()) return;
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Transaction PIN Service Layer
+ *
+ * The 4-digit PIN that authorizes purchases. PINs are hashed and checked by
+ * the transaction-pin edge function; the client never sees the stored PIN.
+ *
+ * @module api/pin
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+const FUNCTIONS_BASE = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/transaction-pin`;
+
+/** Server error codes for PIN failures. */
+export type PinErrorCode = "PIN_REQUIRED" | "PIN_NOT_SET" | "PIN_LOCKED" | "PIN_INVALID" | "REAUTH_REQUIRED";
+
+/** An error from a PIN-protected endpoint, carrying the server's code. */
+export class PinError extends Error {
+  constructor(message: string, public code?: PinErrorCode) {
+    super(message);
+    this.name = "PinError";
+  }
+}
+
+export interface PinStatus {
+  hasPin: boolean;
+  locked: boolean;
+  lockedUntil: string | null;
+}
+
+async function getAuthHeaders() {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Session expired");
+  return {
+    Authorization: `Bearer ${session.access_token}`,
+    "Content-Type": "application/json",
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  };
+}
+
+async function post(route: string, body: Record<string, unknown> = {}) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(`${FUNCTIONS_BASE}/${route}`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok || !data?.success) throw new PinError(data?.error || "Request failed", data?.code);
+  return data;
+}
+
+/**
+ * Whether the user has set a PIN, and whether it is locked.
+ */
+export async function getPinStatus(): Promise<PinStatus> {
+  const data = await post("status");
+  return { hasPin: data.hasPin, locked: data.locked, lockedUntil: data.lockedUntil };
+}
+
+/**
+ * Set a first PIN, or change it (currentPin required once a PIN exists).
+ */
+export async function setPin(pin: string, currentPin?: string) {
+  return post("set", { pin, currentPin });
+}
+
+/**
+ * Email a one-time sign-in link that lets the user reset a forgotten PIN.
+ * The link returns to `/?pin_reset=1`.
+ */
+export async function sendPinResetEmail(email: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false, emailRedirectTo: `${window.location.origin}/?pin_reset=1` },
+  });
+  if (error) throw error;
+}
+
+/**
+ * Replace the PIN. Only accepted shortly after signing in via the reset email.
+ */
+export async function resetPin(pin: string) {
+  return post("reset", { pin });
+}
+
+/**
+ * Authorize an auto top-up rule or scheduled top-up to run without the user present.
+ */
+export async function authorizeTopUp(target: "auto_topup_rule" | "scheduled_topup", id: string, pin: string) {
+  return post("authorize", { target, id, pin });
+}
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Pricing Service Layer
+ *
+ * Prices come from the server's pricing rules and can differ by KYC tier,
+ * so the app asks for them rather than adding a margin itself. To buy, the
+ * app gets a quote, which holds the price for a few minutes; purchases send
+ * the quote id and are charged exactly the quoted price. A promo code is
+ * applied to the quote, so its price is already discounted. List prices
+ * come with the cashback the purchase earns under the cashback rules.
+ *
+ * @module api/pricing
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+/** A price the server quoted, broken down into what it's made of. */
+export interface QuotedPrice {
+  price: number;
+  margin: number;
+  fee: number;
+}
+
+export interface AirtimePrice extends QuotedPrice {
+  /** Face value of the airtime */
+  amount: number;
+  /** Cashback earned when paid from the main balance */
+  cashback: number;
+}
+
+export interface DataPlanPrice extends QuotedPrice {
+  id: string;
+  name: string;
+  dataAmount: string;
+  validity: string;
+  category: string;
+  tag: string | null;
+  /** Cashback earned when paid from the main balance */
+  cashback: number;
+}
+
+/** A signed price held for one purchase until `expiresAt`. */
+export interface PriceQuote extends QuotedPrice {
+  id: string;
+  type: "airtime" | "data";
+  network: string;
+  /** Airtime face value; null for data */
+  amount: number | null;
+  /** Data plan; null for airtime */
+  planId: string | null;
+  /** Promo discount already taken off `price` */
+  discount: number;
+  expiresAt: string;
+  signature: string;
+}
+
+/** What a quote is for: an airtime face value, or a data plan. */
+export type QuoteItem =
+  | { type: "airtime"; network: string; amount: number }
+  | { type: "data"; network: string; planId: string };
+
+/** A promo code checked against a purchase; `price` is after `discount`. */
+export interface PromoPreview {
+  code: string;
+  description: string | null;
+  discount: number;
+  price: number;
+}
+
+export type QuoteErrorCode =
+  | "QUOTE_NOT_FOUND"
+  | "QUOTE_EXPIRED"
+  | "QUOTE_USED"
+  | "QUOTE_INVALID"
+  // The quote's promo code ran out before the purchase
+  | "PROMO_EXPIRED"
+  | "PROMO_LIMIT_REACHED"
+  | "PROMO_FIRST_PURCHASE_ONLY";
+
+/** A purchase refused because its quote can't be used; nothing was charged. */
+export class QuoteError extends Error {
+  constructor(message: string, public code: QuoteErrorCode) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+async function invokePricing<T>(path: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(path, { body });
+  if (error) {
+    const response = await (error as { context?: Response }).context?.json().catch(() => null);
+    throw new Error(response?.error || "Could not fetch prices");
+  }
+  return data;
+}
+
+/**
+ * Prices for airtime face values on a network.
+ *
+ * @param amounts - Up to 20 whole amounts from ₦50 to ₦50,000
+ */
+export async function getAirtimePrices(network: string, amounts: number[]): Promise<AirtimePrice[]> {
+  const { prices } = await invokePricing<{ prices: AirtimePrice[] }>("pricing", { type: "airtime", network, amounts });
+  return prices;
+}
+
+/**
+ * Every data plan on sale for a network, priced for the user, cheapest first.
+ */
+export async function getDataPlanPrices(network: string): Promise<DataPlanPrice[]> {
+  const { plans } = await invokePricing<{ plans: DataPlanPrice[] }>("pricing", { type: "data", network });
+  return plans;
+}
+
+/**
+ * Holds the price of one purchase: an airtime face value or a data plan,
+ * less the discount of `promoCode` if given. Pass the quote's id to the
+ * purchase before it expires.
+ */
+export async function getQuote(item: QuoteItem, promoCode?: string): Promise<PriceQuote> {
+  const { quote } = await invokePricing<{ quote: PriceQuote }>("pricing/quote", { ...item, promoCode });
+  return quote;
+}
+
+/**
+ * Checks a promo code against a purchase without holding a price.
+ * Throws with the reason when the code can't be used.
+ */
+export async function checkPromoCode(item: QuoteItem, promoCode: string): Promise<PromoPreview> {
+  const { promo } = await invokePricing<{ promo: PromoPreview }>("pricing/promo", { ...item, promoCode });
+  return promo;
+}
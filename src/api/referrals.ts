@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Referrals Service Layer
+ *
+ * Every user has a referral code on their profile. Someone who signs up with
+ * it is attributed to them, and both are rewarded to their cashback balance
+ * once the new user has verified their identity and made a qualifying
+ * purchase. Accounts that share a device, phone number or NIN don't earn
+ * rewards for each other.
+ *
+ * @module api/referrals
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { getDeviceId } from "@/lib/device";
+
+export type ReferralStatus = "pending" | "rewarded" | "rejected";
+
+/** A referral as its referrer sees it; the referee isn't identified. */
+export interface Referral {
+  id: string;
+  status: ReferralStatus;
+  referrer_reward: number;
+  rewarded_at: string | null;
+  created_at: string;
+}
+
+/** Link that opens signup with `code` filled in. */
+export function referralLink(code: string): string {
+  return `${window.location.origin}/auth?ref=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Referrals the user has made, newest first.
+ */
+export async function getMyReferrals(userId: string): Promise<Referral[]> {
+  const { data, error } = await supabase
+    .from("referrals")
+    .select("id, status, referrer_reward, rewarded_at, created_at")
+    .eq("referrer_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map((r) => ({
+    ...r,
+    status: r.status as ReferralStatus,
+    referrer_reward: Number(r.referrer_reward),
+  }));
+}
+
+/**
+ * Records that the signed-in user is on this device. Best effort: a
+ * failure only weakens the referral checks, so it's logged, not thrown.
+ */
+export async function recordDevice(): Promise<void> {
+  const { error } = await supabase.rpc("record_user_device", { p_device_id: getDeviceId() });
+  if (error) console.error("Error recording device:", error);
+}
@@ -9,6 +9,7 @@
 import { supabase } from "@/integrations/supabase/client";
 
 const FUNCTIONS_BASE = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/scheduled-topups`;
+const MANAGE_BASE = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/cancel-managed-topup`;
 
 async function getAuthHeaders() {
   const { data: { session } } = await supabase.auth.getSession();
@@ -31,6 +32,36 @@ export async function getScheduledTopUps() {
   return data;
 }
 
+/** One day of a schedule forecast (dates are in the user's timezone). */
+export interface ForecastDay {
+  date: string;
+  /** Total scheduled to run that day */
+  due: number;
+  runs: number;
+  /** Wallet balance left after the day's runs, if nothing is funded meanwhile */
+  balance: number;
+}
+
+export interface ScheduleForecast {
+  timeZone: string;
+  balance: number;
+  days: ForecastDay[];
+  totalDue: number;
+  /** How much the wallet is short of the week's runs */
+  shortfall: number;
+}
+
+/**
+ * What the user's active schedules will charge each day for the next 7 days.
+ */
+export async function getScheduleForecast(): Promise<ScheduleForecast> {
+  const headers = await getAuthHeaders();
+  const res = await fetch(`${FUNCTIONS_BASE}?forecast=true`, { method: "GET", headers });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Failed to fetch forecast");
+  return data;
+}
+
 /**
  * Create a new scheduled top-up.
  */
@@ -47,6 +78,21 @@ export async function createScheduledTopUp(payload: Record<string, unknown>) {
   return data;
 }
 
+/**
+ * Next run times (ISO) the server computes for a schedule, without saving it.
+ */
+export async function previewScheduledTopUp(rule: Record<string, unknown>): Promise<{ runs: string[]; timeZone: string }> {
+  const headers = await getAuthHeaders();
+  const res = await fetch(`${FUNCTIONS_BASE}?preview=true`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(rule),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Failed to preview schedule");
+  return data;
+}
+
 /**
  * Update an existing scheduled top-up.
  */
@@ -77,3 +123,23 @@ export async function cancelScheduledTopUp(id: string) {
   if (!data?.success) throw new Error(data?.error || "Failed to cancel");
   return data;
 }
+
+/**
+ * Skip, snooze or reschedule one run of a schedule (the next run unless
+ * `occurrence` is given), leaving the rest of the series as it is.
+ */
+export async function changeScheduledRun(
+  id: string,
+  action: "skip" | "snooze" | "reschedule",
+  options: { occurrence?: string; hours?: number; to?: string } = {},
+) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(`${MANAGE_BASE}?id=${id}&action=${action}`, {
+    method: "PATCH",
+    headers,
+    body: JSON.stringify(options),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.message || data?.error || `Failed to ${action} run`);
+  return data;
+}
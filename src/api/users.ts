@@ -44,6 +44,76 @@ export async function submitKYCVerification(ninNumber: string) {
   return data;
 }
 
+/**
+ * Submit a BVN for KYC verification, as an alternative to NIN.
+ *
+ * @returns status "verified", or "in_review" when the name on the BVN only partly
+ *   matches the profile and an admin needs to confirm it
+ */
+export async function submitBVNVerification(bvn: string) {
+  const { data, error } = await supabase.functions.invoke("verify-bvn", {
+    body: { bvn },
+  });
+  if (error) throw new Error(await functionErrorMessage(error, "BVN verification failed"));
+  if (!data?.success) throw new Error(data?.error || "BVN verification failed");
+  return data as { status: "verified" | "in_review"; message: string; verifiedAt?: string; kycTier?: number };
+}
+
+/** Server error codes for purchases and funding refused by KYC tier limits. */
+export type KycLimitErrorCode = "KYC_SINGLE_LIMIT" | "KYC_DAILY_LIMIT" | "KYC_BALANCE_LIMIT";
+
+/** A request refused because it exceeds the user's KYC tier limits. */
+export class KycLimitError extends Error {
+  constructor(message: string, public code: KycLimitErrorCode) {
+    super(message);
+    this.name = "KycLimitError";
+  }
+}
+
+/**
+ * Fetch the KYC tiers and the limits each one allows.
+ */
+export async function getKycTiers() {
+  const { data, error } = await supabase
+    .from("kyc_tiers")
+    .select("tier, name, requirements, max_balance, daily_spend_limit, single_transaction_limit")
+    .order("tier");
+  return { data, error };
+}
+
+/** Pulls the server's message out of a non-2xx edge function response. */
+async function functionErrorMessage(error: unknown, fallback: string): Promise<string> {
+  const body = await (error as { context?: Response }).context?.json().catch(() => null);
+  return body?.error || fallback;
+}
+
+/**
+ * Text a one-time verification code to a phone number.
+ *
+ * @param phoneNumberId - Saved phone number id, or null for the primary number on the profile
+ * @returns verificationId to pass to verifyPhoneCode, the masked number and resend cooldown
+ */
+export async function sendPhoneVerificationCode(phoneNumberId: string | null) {
+  const { data, error } = await supabase.functions.invoke("phone-verification/send", {
+    body: { phoneNumberId },
+  });
+  if (error) throw new Error(await functionErrorMessage(error, "Could not send verification code"));
+  if (!data?.success) throw new Error(data?.error || "Could not send verification code");
+  return data as { verificationId: string; maskedPhone: string; expiresAt: string; resendAfter: number };
+}
+
+/**
+ * Check a verification code. On success the server marks the number verified.
+ */
+export async function verifyPhoneCode(verificationId: string, code: string) {
+  const { data, error } = await supabase.functions.invoke("phone-verification/verify", {
+    body: { verificationId, code },
+  });
+  if (error) throw new Error(await functionErrorMessage(error, "Verification failed"));
+  if (!data?.success) throw new Error(data?.error || "Verification failed");
+  return data;
+}
+
 /**
  * Fetch user phone numbers.
  */
@@ -64,10 +134,9 @@ export async function addPhoneNumber(params: {
   phone_number: string;
   network_provider: string | null;
   label: string | null;
-  is_verified?: boolean;
 }) {
-  const { error } = await supabase.from("phone_numbers").insert(params);
-  return { error };
+  const { data, error } = await supabase.from("phone_numbers").insert(params).select("id").single();
+  return { data, error };
 }
 
 /**
@@ -10,6 +10,9 @@
 
 import { supabase } from "@/integrations/supabase/client";
 import type { Json } from "@/integrations/supabase/types";
+import { PinError } from "./pin";
+import { KycLimitError } from "./users";
+import { QuoteError } from "./pricing";
 
 /**
  * Fetch the user's wallet.
@@ -23,46 +26,98 @@ export async function getWallet(userId: string) {
   return { data, error };
 }
 
+export type FundingChannel = "card" | "bank_transfer";
+
+/**
+ * Start a gateway-backed wallet funding. Creates a pending deposit and returns
+ * the gateway checkout URL; the wallet is only credited once the gateway
+ * confirms payment (webhook or {@link verifyFunding}).
+ */
+export async function initializeFunding(amount: number, channel: FundingChannel, callbackUrl: string) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Session expired");
+
+  const { data, error } = await supabase.functions.invoke(
+    "wallet-funding/initialize",
+    {
+      body: { amount, channel, callbackUrl },
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    }
+  );
+  if (error) {
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    if (body?.code?.startsWith("KYC_")) throw new KycLimitError(body.error, body.code);
+    throw error;
+  }
+  return data as { success: boolean; reference?: string; transactionId?: string; authorizationUrl?: string; error?: string };
+}
+
 /**
- * Fund wallet via secure edge function (uses atomic fund_wallet_atomic DB function).
+ * Re-check a deposit with the gateway after returning from checkout.
+ * Credits the wallet if the payment succeeded and the webhook hasn't yet.
  */
-export async function fundWallet(amount: number, reference?: string) {
+export async function verifyFunding(reference: string) {
   const { data: { session } } = await supabase.auth.getSession();
   if (!session) throw new Error("Session expired");
 
   const { data, error } = await supabase.functions.invoke(
-    "secure-transaction-update/fund-wallet",
+    "wallet-funding/verify",
     {
-      body: { amount, reference },
+      body: { reference },
       headers: { Authorization: `Bearer ${session.access_token}` },
     }
   );
   if (error) throw error;
-  return data;
+  return data as { success: boolean; status?: string; amount?: number; error?: string };
+}
+
+/**
+ * Get the wallet's dedicated bank account for transfer funding, reserving
+ * one with the gateway on first use. Transfers into it credit the wallet.
+ */
+export async function getVirtualAccount() {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Session expired");
+
+  const { data, error } = await supabase.functions.invoke(
+    "wallet-funding/virtual-account",
+    {
+      body: {},
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    }
+  );
+  if (error) throw error;
+  return data as { success: boolean; accountNumber?: string; accountName?: string; bankName?: string; error?: string };
 }
 
 /**
  * Execute a complete airtime or data purchase through the transaction-safe
  * edge function. The edge function handles the entire lifecycle:
  * 1. Idempotency check
- * 2. Atomic wallet lock & deduction
- * 3. Transaction record creation
- * 4. Provider API call with retry
- * 5. Auto-refund on failure
- * 6. Spending & budget tracking
+ * 2. Transaction PIN verification
+ * 3. Atomic wallet lock & deduction (cashback first, when asked)
+ * 4. Transaction record creation
+ * 5. Provider API call with retry
+ * 6. Auto-refund on failure
+ * 7. Spending & budget tracking
  *
  * @param type - "airtime" or "data"
- * @param params - Purchase parameters
+ * @param params - Purchase parameters, including the user's transaction PIN
  * @returns Purchase result with transactionId and reference
+ * @throws PinError when the PIN is missing, wrong, locked, or not yet set
+ * @throws KycLimitError when the purchase is over the user's KYC tier limits
+ * @throws QuoteError when the price quote is missing, expired or already used
  */
 export async function executePurchase(
   type: "airtime" | "data",
   params: {
     phoneNumber: string;
-    amount: number;
-    network: string;
-    planId?: string;
+    /** From `pricingService.getQuote`; refused with `QuoteError` once expired or used */
+    quoteId: string;
+    pin: string;
     idempotencyKey?: string;
+    /** Pay as much as the cashback balance covers from it, the rest from the main balance */
+    useCashback?: boolean;
   }
 ) {
   const { data: { session } } = await supabase.auth.getSession();
@@ -75,7 +130,14 @@ export async function executePurchase(
     headers: { Authorization: `Bearer ${session.access_token}` },
   });
 
-  if (error) throw error;
+  if (error) {
+    // Rejections (e.g. a wrong PIN) explain themselves in the response body
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    if (body?.code?.startsWith("QUOTE_") || body?.code?.startsWith("PROMO_")) throw new QuoteError(body.error, body.code);
+    if (body?.code?.startsWith("KYC_")) throw new KycLimitError(body.error, body.code);
+    if (body?.code) throw new PinError(body.error, body.code);
+    throw error;
+  }
   return data;
 }
 
@@ -119,9 +181,11 @@ export async function createAutoTopUpRule(params: {
   topup_amount: number;
   is_enabled: boolean;
   phone_number_id: string | null;
+  network?: string | null;
+  plan_id?: string | null;
 }) {
-  const { error } = await supabase.from("auto_topup_rules").insert(params);
-  return { error };
+  const { data, error } = await supabase.from("auto_topup_rules").insert(params).select("id").single();
+  return { data, error };
 }
 
 /**
@@ -146,6 +210,35 @@ export async function deleteAutoTopUpRule(id: string) {
   return { error };
 }
 
+/**
+ * Report a balance/usage reading for a phone number. The auto top-up engine
+ * evaluates readings against the matching rule and fires when the threshold is crossed.
+ *
+ * @param params.phoneNumberId - Saved phone number id, or null for the primary phone
+ * @param params.balance - Remaining airtime (NGN) or data (MB)
+ * @param params.baseline - Reference amount the balance is measured against
+ */
+export async function reportUsageReading(params: {
+  phoneNumberId: string | null;
+  type: "airtime" | "data";
+  balance: number;
+  baseline: number;
+  source?: string;
+}) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Session expired");
+
+  const { data, error } = await supabase.functions.invoke(
+    "execute-auto-topups/readings",
+    {
+      body: params,
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    }
+  );
+  if (error) throw error;
+  return data;
+}
+
 /**
  * @deprecated Use executePurchase instead. Kept for backward compatibility.
  * Create a pending transaction record.
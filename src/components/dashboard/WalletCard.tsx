@@ -1,21 +1,26 @@
 import { motion } from "framer-motion";
-import { Eye, EyeOff, Plus } from "lucide-react";
+import { Eye, EyeOff, Gift, Plus } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 
 interface WalletCardProps {
   balance: number;
+  /** Cashback earned on purchases, spendable towards the next ones */
+  cashbackBalance?: number;
   onAddFunds: () => void;
 }
 
-export function WalletCard({ balance, onAddFunds }: WalletCardProps) {
-  const [showBalance, setShowBalance] = useState(true);
-
-  const formattedBalance = new Intl.NumberFormat("en-NG", {
+const formatNaira = (amount: number) =>
+  new Intl.NumberFormat("en-NG", {
     style: "currency",
     currency: "NGN",
     minimumFractionDigits: 2,
-  }).format(balance);
+  }).format(amount);
+
+export function WalletCard({ balance, cashbackBalance = 0, onAddFunds }: WalletCardProps) {
+  const [showBalance, setShowBalance] = useState(true);
+
+  const formattedBalance = formatNaira(balance);
 
   return (
     <motion.div
@@ -53,6 +58,10 @@ export function WalletCard({ balance, onAddFunds }: WalletCardProps) {
               )}
             </button>
           </div>
+          <p className="flex items-center gap-1 mt-1 text-primary-foreground/70 text-xs">
+            <Gift className="w-3 h-3" />
+            Cashback: {showBalance ? formatNaira(cashbackBalance) : "₦••••"}
+          </p>
         </div>
 
         <Button
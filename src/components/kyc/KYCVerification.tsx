@@ -1,11 +1,15 @@
 import { motion } from "framer-motion";
 import { useState } from "react";
-import { Shield, CheckCircle, AlertCircle, Loader2, Info } from "lucide-react";
+import { Shield, CheckCircle, AlertCircle, Loader2, Info, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useKycLimits } from "@/hooks/useKycLimits";
+import { formatCurrency } from "@/lib/constants";
+import { KycTierSummary } from "./KycTierSummary";
 
 /**
  * SECURITY NOTE: KYC Verification Component
@@ -13,7 +17,7 @@ import { useToast } from "@/hooks/use-toast";
  * NIN (National Identity Number) is stored in a separate `user_kyc` table
  * with restricted RLS policies for enhanced security:
  * - Users can only INSERT their NIN (no SELECT/UPDATE/DELETE)
- * - NIN is encoded (base64) and hashed (SHA-256) before storage
+ * - NIN is encrypted (AES-GCM, rotatable keys) and hashed (SHA-256) before storage
  * - Only backend services with service_role can read NIN data
  * 
  * This protects sensitive PII from:
@@ -21,6 +25,10 @@ import { useToast } from "@/hooks/use-toast";
  * 2. Session hijacking attacks (stolen session cannot read NIN)
  * 3. Client-side data exposure
  * 
+ * Users without their NIN to hand can verify with their BVN instead. Only a
+ * keyed hash of the BVN is kept; if the name on it only partly matches the
+ * profile, the account stays "in_review" until an admin confirms it.
+ * 
  * See: security finding "profiles_table_nin_exposure"
  */
 interface KYCVerificationProps {
@@ -28,17 +36,24 @@ interface KYCVerificationProps {
   onSkip?: () => void;
 }
 
+type IdMethod = "nin" | "bvn";
+
 export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
-  const { submitKYC, profile } = useAuth();
+  const { submitKYC, submitBVN, profile } = useAuth();
   const { toast } = useToast();
-  const [ninNumber, setNinNumber] = useState("");
+  const { tiers } = useKycLimits();
+  const ninTier = tiers.find((t) => t.tier === 2);
+  const [method, setMethod] = useState<IdMethod>("nin");
+  const [idNumber, setIdNumber] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const methodLabel = method === "nin" ? "NIN" : "BVN";
 
-  // NIN validation - Nigerian NIN is 11 digits
-  const isValidNIN = (nin: string) => {
-    const cleanNIN = nin.replace(/\s/g, "");
-    return /^\d{11}$/.test(cleanNIN);
+  // NIN and BVN are both 11 digits
+  const isValidIdNumber = (value: string) => {
+    const cleanValue = value.replace(/\s/g, "");
+    return /^\d{11}$/.test(cleanValue);
   };
 
   const formatNIN = (value: string) => {
@@ -50,24 +65,29 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
     return `${digits.slice(0, 3)}-${digits.slice(3, 7)}-${digits.slice(7)}`;
   };
 
-  const handleNINChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const formatted = formatNIN(e.target.value);
-    setNinNumber(formatted);
+  const handleIdNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setIdNumber(method === "nin" ? formatNIN(e.target.value) : e.target.value.replace(/\D/g, "").slice(0, 11));
+    setError(null);
+  };
+
+  const handleMethodChange = (value: string) => {
+    setMethod(value as IdMethod);
+    setIdNumber("");
     setError(null);
   };
 
   const handleSubmit = async () => {
-    const cleanNIN = ninNumber.replace(/\D/g, "");
+    const cleanValue = idNumber.replace(/\D/g, "");
     
-    if (!isValidNIN(cleanNIN)) {
-      setError("Please enter a valid 11-digit NIN number");
+    if (!isValidIdNumber(cleanValue)) {
+      setError(`Please enter a valid 11-digit ${methodLabel}`);
       return;
     }
 
     setIsLoading(true);
     setError(null);
 
-    const { error: submitError } = await submitKYC(cleanNIN);
+    const { error: submitError } = method === "nin" ? await submitKYC(cleanValue) : await submitBVN(cleanValue);
     setIsLoading(false);
 
     if (submitError) {
@@ -77,6 +97,10 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
         description: submitError.message,
         variant: "destructive",
       });
+    } else if (method === "bvn") {
+      // A partial name match re-renders into the review screen below
+      setShowForm(false);
+      toast({ title: "BVN Submitted", description: "We've received your BVN" });
     } else {
       toast({
         title: "KYC Submitted",
@@ -102,6 +126,9 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
           <p className="text-muted-foreground mb-6">
             Your identity has been verified successfully
           </p>
+          <div className="text-left mb-6">
+            <KycTierSummary />
+          </div>
           <Button onClick={onComplete} className="w-full">
             Continue
           </Button>
@@ -110,6 +137,38 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
     );
   }
 
+  // A partial BVN name match is waiting on our team
+  if (profile?.kyc_status === "in_review" && !showForm) {
+    return (
+      <div className="min-h-screen gradient-hero flex items-center justify-center p-5">
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          className="text-center max-w-md"
+        >
+          <div className="w-20 h-20 rounded-full bg-yellow-500/20 flex items-center justify-center mx-auto mb-4">
+            <Clock className="w-10 h-10 text-yellow-500" />
+          </div>
+          <h2 className="text-2xl font-bold text-foreground mb-2">Verification In Review</h2>
+          <p className="text-muted-foreground mb-6">
+            The name on your BVN doesn't exactly match your profile, so our team is checking it.
+            This usually takes less than a day.
+          </p>
+          <Button onClick={onComplete} className="w-full mb-3">
+            Continue
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => { handleMethodChange("nin"); setShowForm(true); }}
+            className="w-full text-muted-foreground"
+          >
+            Verify with NIN instead
+          </Button>
+        </motion.div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen gradient-hero flex flex-col">
       {/* Header */}
@@ -134,32 +193,47 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.1 }}
         >
+          <Tabs value={method} onValueChange={handleMethodChange} className="mb-4">
+            <TabsList className="w-full grid grid-cols-2">
+              <TabsTrigger value="nin">NIN</TabsTrigger>
+              <TabsTrigger value="bvn">BVN</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
           {/* Info Card - Updated to reflect enhanced security */}
           <Card variant="gradient" className="p-4 mb-6 border-primary/30">
             <div className="flex items-start gap-3">
               <Info className="w-5 h-5 text-primary shrink-0 mt-0.5" />
               <div>
-                <h3 className="font-medium text-foreground text-sm mb-1">Why we need your NIN</h3>
-                <p className="text-xs text-muted-foreground">
-                  To comply with Nigerian financial regulations and prevent fraud, we require NIN verification. 
-                  Your NIN is encrypted with industry-standard security and stored in a protected system 
-                  that prevents unauthorized access.
-                </p>
+                <h3 className="font-medium text-foreground text-sm mb-1">Why we need your {methodLabel}</h3>
+                {method === "nin" ? (
+                  <p className="text-xs text-muted-foreground">
+                    To comply with Nigerian financial regulations and prevent fraud, we require NIN verification. 
+                    Your NIN is encrypted with industry-standard security and stored in a protected system 
+                    that prevents unauthorized access.
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No NIN slip to hand? Your BVN works too. We check that the name on it matches your profile
+                    and never store the number itself. Dial *565*0# to find your BVN.
+                  </p>
+                )}
               </div>
             </div>
           </Card>
 
-          {/* NIN Input */}
+          {/* ID Number Input */}
           <div className="space-y-4">
             <div>
               <label className="text-sm font-medium text-foreground mb-2 block">
-                National Identification Number (NIN)
+                {method === "nin" ? "National Identification Number (NIN)" : "Bank Verification Number (BVN)"}
               </label>
               <Input
                 type="text"
-                placeholder="XXX-XXXX-XXXX"
-                value={ninNumber}
-                onChange={handleNINChange}
+                inputMode="numeric"
+                placeholder={method === "nin" ? "XXX-XXXX-XXXX" : "XXXXXXXXXXX"}
+                value={idNumber}
+                onChange={handleIdNumberChange}
                 className={`h-14 text-lg text-center tracking-widest ${error ? "border-destructive" : ""}`}
                 maxLength={13}
               />
@@ -170,7 +244,9 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
                 </p>
               )}
               <p className="text-xs text-muted-foreground mt-2">
-                Enter your 11-digit NIN number
+                {method === "nin"
+                  ? "Enter your 11-digit NIN number"
+                  : `Enter your 11-digit BVN. The name on it should match "${profile?.full_name || "your profile name"}".`}
               </p>
             </div>
 
@@ -179,10 +255,14 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
               <h4 className="font-medium text-foreground text-sm mb-3">After verification, you can:</h4>
               <ul className="space-y-2">
                 {[
-                  "Top up your wallet up to ₦8,000,000",
-                  "Make unlimited airtime & data purchases",
+                  ninTier
+                    ? `Keep up to ${formatCurrency(ninTier.max_balance)} in your wallet`
+                    : "Keep a higher wallet balance",
+                  ninTier
+                    ? `Buy up to ${formatCurrency(ninTier.daily_spend_limit)} of airtime & data a day`
+                    : "Buy more airtime & data each day",
                   "Set up automatic top-up rules",
-                  "Access premium features",
+                  "Upgrade further with your BVN and proof of address",
                 ].map((benefit, i) => (
                   <li key={i} className="flex items-center gap-2 text-sm text-muted-foreground">
                     <CheckCircle className="w-4 h-4 text-primary" />
@@ -204,7 +284,7 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
       >
         <Button
           onClick={handleSubmit}
-          disabled={!isValidNIN(ninNumber.replace(/\D/g, "")) || isLoading}
+          disabled={!isValidIdNumber(idNumber.replace(/\D/g, "")) || isLoading}
           className="w-full h-14"
         >
           {isLoading ? (
@@ -213,7 +293,7 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
               Verifying...
             </>
           ) : (
-            "Verify NIN"
+            `Verify ${methodLabel}`
           )}
         </Button>
         
@@ -228,7 +308,7 @@ export function KYCVerification({ onComplete, onSkip }: KYCVerificationProps) {
         )}
         
         <p className="text-xs text-center text-muted-foreground">
-          By continuing, you agree to our KYC verification process and consent to the use of your NIN for identity verification.
+          By continuing, you agree to our KYC verification process and consent to the use of your {methodLabel} for identity verification.
         </p>
       </motion.div>
     </div>
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview KYC Tier Summary Component
+ *
+ * Shows the user's KYC tier, the balance and spend limits it allows, and
+ * what it takes to reach the next tier.
+ *
+ * ## Upgrade path
+ * - **Tier 1 → 2**: verify NIN or BVN in the app (`onVerifyIdentity`)
+ * - **Tier 2 → 3**: BVN and proof of address, reviewed by our team
+ *
+ * @module KycTierSummary
+ */
+
+import { ArrowUpCircle, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useKycLimits } from "@/hooks/useKycLimits";
+import type { KycTier } from "@/hooks/useKycLimits";
+import { formatCurrency } from "@/lib/constants";
+
+interface KycTierSummaryProps {
+  /** Starts NIN/BVN verification; shown as the upgrade action on Tier 1 */
+  onVerifyIdentity?: () => void;
+}
+
+function LimitRows({ tier }: { tier: KycTier }) {
+  const rows = [
+    { label: "Maximum wallet balance", value: tier.max_balance },
+    { label: "Daily purchases", value: tier.daily_spend_limit },
+    { label: "Per purchase", value: tier.single_transaction_limit },
+  ];
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.label} className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{row.label}</span>
+          <span className="font-medium text-foreground">{formatCurrency(row.value)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function KycTierSummary({ onVerifyIdentity }: KycTierSummaryProps) {
+  const { currentTier, nextTier, loading } = useKycLimits();
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-20 w-full" />
+      </div>
+    );
+  }
+
+  if (!currentTier) {
+    return <p className="text-sm text-muted-foreground">Your account limits are unavailable right now.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card variant="gradient" className="p-4 space-y-3 border-primary/30">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          <h4 className="font-semibold text-foreground">{currentTier.name}</h4>
+          <span className="text-xs text-muted-foreground">· {currentTier.requirements}</span>
+        </div>
+        <LimitRows tier={currentTier} />
+      </Card>
+
+      {nextTier && (
+        <Card variant="gradient" className="p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <ArrowUpCircle className="w-5 h-5 text-muted-foreground" />
+            <h4 className="font-semibold text-foreground">Upgrade to {nextTier.name}</h4>
+          </div>
+          <LimitRows tier={nextTier} />
+          <p className="text-xs text-muted-foreground">Requires: {nextTier.requirements}</p>
+          {currentTier.tier === 1 && onVerifyIdentity ? (
+            <Button className="w-full" onClick={onVerifyIdentity}>
+              Verify NIN or BVN
+            </Button>
+          ) : currentTier.tier >= 2 ? (
+            <p className="text-xs text-muted-foreground">
+              Contact support with your BVN and a recent utility bill or bank statement; we'll review it and upgrade your account.
+            </p>
+          ) : null}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
-import { Bell, Check, Trash2, CheckCircle, XCircle, AlertTriangle, Info } from "lucide-react";
+import { Bell, Check, Trash2, CheckCircle, XCircle, AlertTriangle, Info, Wallet } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { notificationService } from "@/api";
+import { useFundWalletRequest } from "@/hooks/useFundWalletRequest";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
@@ -18,11 +19,20 @@ interface Notification {
   metadata: Record<string, unknown>;
 }
 
+/** One-tap action a notification can carry in `metadata.action` */
+type NotificationAction = { type: "fund_wallet"; amount: number };
+
+function actionOf(notification: Notification): NotificationAction | null {
+  const action = notification.metadata?.action as NotificationAction | undefined;
+  return action?.type === "fund_wallet" && Number(action.amount) > 0 ? action : null;
+}
+
 export function NotificationDropdown() {
   const { user } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(false);
+  const requestFunding = useFundWalletRequest();
 
   const unreadCount = notifications.filter((n) => !n.is_read).length;
 
@@ -162,6 +172,22 @@ export function NotificationDropdown() {
                             {!notification.is_read && <span className="w-2 h-2 bg-primary rounded-full shrink-0 mt-1.5" />}
                           </div>
                           <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{notification.message}</p>
+                          {actionOf(notification) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-7 mt-2 text-xs"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                if (!notification.is_read) markAsRead(notification.id);
+                                setIsOpen(false);
+                                requestFunding(actionOf(notification)!.amount);
+                              }}
+                            >
+                              <Wallet className="w-3 h-3 mr-1" />
+                              Fund wallet
+                            </Button>
+                          )}
                           <p className="text-[10px] text-muted-foreground mt-1">
                             {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
                           </p>
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { userService } from "@/api";
+
+interface PhoneCodeEntryProps {
+  /** Saved phone number id, or null for the primary number on the profile */
+  phoneNumberId: string | null;
+  onVerified: () => void;
+}
+
+/**
+ * Texts a one-time code to the number as soon as it mounts, then lets the
+ * user enter it (or request another once the resend cooldown has passed).
+ */
+export function PhoneCodeEntry({ phoneNumberId, onVerified }: PhoneCodeEntryProps) {
+  const { toast } = useToast();
+  const [verificationId, setVerificationId] = useState<string | null>(null);
+  const [maskedPhone, setMaskedPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const sentOnMount = useRef(false);
+
+  const sendCode = useCallback(async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const result = await userService.sendPhoneVerificationCode(phoneNumberId);
+      setVerificationId(result.verificationId);
+      setMaskedPhone(result.maskedPhone);
+      setResendIn(result.resendAfter);
+      setCode("");
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsSending(false);
+    }
+  }, [phoneNumberId]);
+
+  useEffect(() => {
+    // Guard against StrictMode's double mount sending two texts
+    if (sentOnMount.current) return;
+    sentOnMount.current = true;
+    sendCode();
+  }, [sendCode]);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleVerify = async () => {
+    if (!verificationId || code.length !== 6) return;
+    setIsVerifying(true);
+    setError(null);
+    try {
+      await userService.verifyPhoneCode(verificationId, code);
+      toast({ title: "Phone number verified!", description: `${maskedPhone} is now verified.` });
+      onVerified();
+    } catch (e) {
+      setError((e as Error).message);
+      setCode("");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-muted-foreground text-center">
+        {isSending && !verificationId
+          ? "Sending your code..."
+          : maskedPhone
+            ? `Enter the 6-digit code we sent to ${maskedPhone}.`
+            : "We couldn't send a code yet."}
+      </p>
+
+      <InputOTP
+        maxLength={6}
+        value={code}
+        onChange={setCode}
+        pattern={REGEXP_ONLY_DIGITS}
+        disabled={!verificationId || isVerifying}
+        inputMode="numeric"
+        containerClassName="justify-center"
+      >
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map((i) => (
+            <InputOTPSlot key={i} index={i} className="h-12 w-11 text-lg" />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+      <Button className="w-full h-12" onClick={handleVerify} disabled={!verificationId || code.length !== 6 || isVerifying}>
+        {isVerifying ? (
+          <>
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Verify"
+        )}
+      </Button>
+
+      <Button variant="ghost" className="w-full text-muted-foreground" onClick={sendCode} disabled={isSending || resendIn > 0}>
+        {resendIn > 0 ? `Resend code in ${resendIn}s` : isSending ? "Sending..." : "Resend code"}
+      </Button>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { ArrowLeft, Phone, ChevronDown, Check, Loader2 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { PhoneCodeEntry } from "./PhoneCodeEntry";
 import { z } from "zod";
 
 const nigerianPhoneSchema = z
@@ -41,8 +42,9 @@ export const PhoneVerification = ({ onComplete, onSkip }: PhoneVerificationProps
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [consentGiven, setConsentGiven] = useState(false);
+  const [step, setStep] = useState<"phone" | "code">("phone");
 
-  const { updateProfile } = useAuth();
+  const { updateProfile, refreshProfile } = useAuth();
   const { toast } = useToast();
 
   const handlePhoneChange = (value: string) => {
@@ -71,10 +73,10 @@ export const PhoneVerification = ({ onComplete, onSkip }: PhoneVerificationProps
 
     setIsLoading(true);
     try {
+      // Saved unverified; the server flips phone_verified once the SMS code checks out
       const { error } = await updateProfile({
         phone_number: phone,
         network_provider: detectedNetwork,
-        phone_verified: true, // For demo; in production, verify via OTP
       });
 
       if (error) {
@@ -84,17 +86,18 @@ export const PhoneVerification = ({ onComplete, onSkip }: PhoneVerificationProps
           variant: "destructive",
         });
       } else {
-        toast({
-          title: "Phone number verified!",
-          description: `Your ${detectedNetwork || "phone"} number has been linked.`,
-        });
-        onComplete();
+        setStep("code");
       }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleVerified = async () => {
+    await refreshProfile();
+    onComplete();
+  };
+
   const networkColor = detectedNetwork
     ? networks.find((n) => n.name === detectedNetwork)?.color
     : undefined;
@@ -104,95 +107,119 @@ export const PhoneVerification = ({ onComplete, onSkip }: PhoneVerificationProps
       {/* Header */}
       <div className="px-6 pt-12 pb-6">
         <div className="flex items-center gap-4 mb-6">
-          <h1 className="text-xl font-bold text-foreground">Link Your Phone</h1>
+          {step === "code" && (
+            <button
+              type="button"
+              onClick={() => setStep("phone")}
+              className="w-10 h-10 rounded-full bg-secondary flex items-center justify-center"
+            >
+              <ArrowLeft className="w-5 h-5 text-foreground" />
+            </button>
+          )}
+          <h1 className="text-xl font-bold text-foreground">
+            {step === "phone" ? "Link Your Phone" : "Enter Code"}
+          </h1>
         </div>
         <p className="text-muted-foreground">
-          Add your Nigerian phone number to enable automatic top-ups.
+          {step === "phone"
+            ? "Add your Nigerian phone number to enable automatic top-ups."
+            : "We've texted you a verification code to confirm this number is yours."}
         </p>
       </div>
 
       {/* Content */}
       <div className="flex-1 px-6 py-4">
-        <Card className="border-border/50">
-          <CardContent className="pt-6 space-y-6">
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-foreground">Phone Number</label>
-              <div className="relative">
-                <Phone className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                <Input
-                  type="tel"
-                  placeholder="08012345678"
-                  value={phone}
-                  onChange={(e) => handlePhoneChange(e.target.value)}
-                  className="pl-11 pr-24 text-lg h-14"
-                  disabled={isLoading}
-                />
-                {detectedNetwork && (
-                  <motion.div
-                    initial={{ opacity: 0, scale: 0.9 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 px-3 py-1 rounded-full text-sm font-semibold"
-                    style={{ backgroundColor: networkColor, color: detectedNetwork === "MTN" ? "#000" : "#fff" }}
-                  >
-                    {detectedNetwork}
-                  </motion.div>
-                )}
+        {step === "code" ? (
+          <Card className="border-border/50">
+            <CardContent className="pt-6 space-y-4">
+              <PhoneCodeEntry phoneNumberId={null} onVerified={handleVerified} />
+              <Button variant="ghost" onClick={onSkip} className="w-full text-muted-foreground">
+                Skip for now
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-border/50">
+            <CardContent className="pt-6 space-y-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Phone Number</label>
+                <div className="relative">
+                  <Phone className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                  <Input
+                    type="tel"
+                    placeholder="08012345678"
+                    value={phone}
+                    onChange={(e) => handlePhoneChange(e.target.value)}
+                    className="pl-11 pr-24 text-lg h-14"
+                    disabled={isLoading}
+                  />
+                  {detectedNetwork && (
+                    <motion.div
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 px-3 py-1 rounded-full text-sm font-semibold"
+                      style={{ backgroundColor: networkColor, color: detectedNetwork === "MTN" ? "#000" : "#fff" }}
+                    >
+                      {detectedNetwork}
+                    </motion.div>
+                  )}
+                </div>
+                {error && <p className="text-sm text-destructive">{error}</p>}
               </div>
-              {error && <p className="text-sm text-destructive">{error}</p>}
-            </div>
-
-            {/* Network indicator */}
-            {phone.length >= 4 && !detectedNetwork && (
-              <p className="text-sm text-muted-foreground">
-                We couldn't detect your network. Please check the number.
-              </p>
-            )}
-
-            {/* Consent checkbox */}
-            <div className="flex items-start gap-3 p-4 bg-secondary/50 rounded-xl">
-              <button
-                type="button"
-                onClick={() => setConsentGiven(!consentGiven)}
-                className={`flex-shrink-0 w-6 h-6 rounded-md border-2 flex items-center justify-center transition-colors ${
-                  consentGiven
-                    ? "bg-primary border-primary"
-                    : "border-muted-foreground"
-                }`}
-              >
-                {consentGiven && <Check className="w-4 h-4 text-primary-foreground" />}
-              </button>
-              <p className="text-sm text-muted-foreground">
-                I consent to Nava monitoring my data/airtime balance and automatically topping up
-                when it falls below my set thresholds. I understand this is required for the service to
-                work.
-              </p>
-            </div>
-
-            <Button
-              onClick={handleSubmit}
-              className="w-full h-12 text-base font-semibold"
-              disabled={isLoading || phone.length < 11 || !consentGiven}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                  Verifying...
-                </>
-              ) : (
-                "Verify & Continue"
+
+              {/* Network indicator */}
+              {phone.length >= 4 && !detectedNetwork && (
+                <p className="text-sm text-muted-foreground">
+                  We couldn't detect your network. Please check the number.
+                </p>
               )}
-            </Button>
 
-            <Button
-              variant="ghost"
-              onClick={onSkip}
-              className="w-full text-muted-foreground"
-              disabled={isLoading}
-            >
-              Skip for now
-            </Button>
-          </CardContent>
-        </Card>
+              {/* Consent checkbox */}
+              <div className="flex items-start gap-3 p-4 bg-secondary/50 rounded-xl">
+                <button
+                  type="button"
+                  onClick={() => setConsentGiven(!consentGiven)}
+                  className={`flex-shrink-0 w-6 h-6 rounded-md border-2 flex items-center justify-center transition-colors ${
+                    consentGiven
+                      ? "bg-primary border-primary"
+                      : "border-muted-foreground"
+                  }`}
+                >
+                  {consentGiven && <Check className="w-4 h-4 text-primary-foreground" />}
+                </button>
+                <p className="text-sm text-muted-foreground">
+                  I consent to Nava monitoring my data/airtime balance and automatically topping up
+                  when it falls below my set thresholds. I understand this is required for the service to
+                  work.
+                </p>
+              </div>
+
+              <Button
+                onClick={handleSubmit}
+                className="w-full h-12 text-base font-semibold"
+                disabled={isLoading || phone.length < 11 || !consentGiven}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Send Code"
+                )}
+              </Button>
+
+              <Button
+                variant="ghost"
+                onClick={onSkip}
+                className="w-full text-muted-foreground"
+                disabled={isLoading}
+              >
+                Skip for now
+              </Button>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
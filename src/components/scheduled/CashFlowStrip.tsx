@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Wallet } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { scheduledTopUpService } from "@/api";
+import type { ScheduleForecast } from "@/api/scheduled-topups";
+import { useFundWalletRequest } from "@/hooks/useFundWalletRequest";
+import { useWallet } from "@/contexts/WalletContext";
+import { formatCurrency } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+interface CashFlowStripProps {
+  /** Changes whenever the schedules do, so the forecast is refetched */
+  refreshKey: string;
+}
+
+const compact = new Intl.NumberFormat("en-NG", { notation: "compact", maximumFractionDigits: 1 });
+
+// Forecast dates are calendar dates in the user's timezone
+const weekday = (date: string) => new Date(`${date}T00:00`).toLocaleDateString("en-NG", { weekday: "short" });
+
+/**
+ * The next 7 days of scheduled charges and the wallet balance they leave,
+ * with a shortcut to fund the wallet when it won't cover them.
+ */
+export function CashFlowStrip({ refreshKey }: CashFlowStripProps) {
+  const [forecast, setForecast] = useState<ScheduleForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const requestFunding = useFundWalletRequest();
+  const { wallet } = useWallet();
+  const walletBalance = wallet?.balance;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    scheduledTopUpService.getScheduleForecast()
+      .then((data) => !cancelled && setForecast(data))
+      .catch((e) => {
+        console.error("Error fetching schedule forecast:", e);
+        if (!cancelled) setForecast(null);
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, walletBalance]);
+
+  if (loading && !forecast) return <Skeleton className="h-32 w-full rounded-xl" />;
+  if (!forecast || forecast.totalDue === 0) return null;
+
+  const firstShortDay = forecast.days.find((day) => day.balance < 0);
+  const endBalance = forecast.days[forecast.days.length - 1]?.balance ?? forecast.balance;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-foreground">Next 7 days</p>
+        <p className="text-xs text-muted-foreground">{formatCurrency(forecast.totalDue)} due</p>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {forecast.days.map((day, i) => (
+          <div
+            key={day.date}
+            title={`${formatCurrency(day.due)} due, ${formatCurrency(day.balance)} left`}
+            className={cn(
+              "rounded-lg py-1.5 text-center",
+              day.balance < 0 ? "bg-destructive/10" : day.due > 0 ? "bg-primary/10" : "bg-secondary",
+            )}
+          >
+            <p className="text-[10px] text-muted-foreground">{i === 0 ? "Today" : weekday(day.date)}</p>
+            <p className={cn("text-[11px] font-semibold", day.balance < 0 ? "text-destructive" : "text-foreground")}>
+              {day.due > 0 ? `₦${compact.format(day.due)}` : "–"}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {firstShortDay ? (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-destructive">
+            Short by {formatCurrency(forecast.shortfall)} from{" "}
+            {firstShortDay === forecast.days[0] ? "today" : weekday(firstShortDay.date)}
+          </p>
+          <Button size="sm" onClick={() => requestFunding(forecast.shortfall)}>
+            <Wallet className="w-4 h-4 mr-1" />
+            Fund wallet
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Your balance covers these; {formatCurrency(endBalance)} left after
+        </p>
+      )}
+    </Card>
+  );
+}
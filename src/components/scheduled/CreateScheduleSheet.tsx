@@ -3,20 +3,30 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sh
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useScheduledTopUps, CreateSchedulePayload } from "@/hooks/useScheduledTopUps";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useScheduledTopUps, CreateSchedulePayload, type MonthRule } from "@/hooks/useScheduledTopUps";
 import { useAuth } from "@/contexts/AuthContext";
-import { NETWORK_PROVIDERS, DATA_PLANS, type DataPlan, type NetworkProvider } from "@/lib/constants";
+import { NETWORK_PROVIDERS, type DataPlan, type NetworkProvider } from "@/lib/constants";
 import { validateNigerianPhoneNumber, getNetworkFromPhone } from "@/lib/validation";
 import { TimePicker12h } from "./TimePicker12h";
 import { DataPlanPicker } from "./DataPlanPicker";
+import { SchedulePreview } from "./SchedulePreview";
+import { TransactionPinInput } from "@/components/wallet/TransactionPinInput";
 
 interface CreateScheduleSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const INTERVAL_UNITS: Record<string, [string, string]> = {
+  daily: ["day", "days"],
+  weekly: ["week", "weeks"],
+  monthly: ["month", "months"],
+};
 
 export function CreateScheduleSheet({ open, onOpenChange }: CreateScheduleSheetProps) {
   const { createSchedule } = useScheduledTopUps();
@@ -33,9 +43,20 @@ export function CreateScheduleSheet({ open, onOpenChange }: CreateScheduleSheetP
   const [scheduledDate, setScheduledDate] = useState("");
   const [scheduledTime, setScheduledTime] = useState("09:00");
   const [recurringTime, setRecurringTime] = useState("09:00");
-  const [dayOfWeek, setDayOfWeek] = useState("1");
+  const [repeatEvery, setRepeatEvery] = useState("1");
+  const [daysOfWeek, setDaysOfWeek] = useState<string[]>(["1"]);
   const [dayOfMonth, setDayOfMonth] = useState("1");
+  const [monthRule, setMonthRule] = useState<MonthRule>("day_of_month");
+  const [startsOn, setStartsOn] = useState("");
+  const [endsOn, setEndsOn] = useState("");
   const [maxExecutions, setMaxExecutions] = useState("10");
+  const [retryInterval, setRetryInterval] = useState("30");
+  const [retryWindow, setRetryWindow] = useState("6");
+  const [holdUntilFunded, setHoldUntilFunded] = useState(false);
+  const [pin, setPin] = useState("");
+
+  const timeZone = profile?.timezone || "Africa/Lagos";
+  const timeZoneHint = timeZone === "Africa/Lagos" ? "Nigeria time (WAT)" : `Time in ${timeZone.replace(/_/g, " ")}`;
 
   // Reset data plan when network or type changes
   useEffect(() => {
@@ -95,9 +116,41 @@ export function CreateScheduleSheet({ open, onOpenChange }: CreateScheduleSheetP
     setScheduledDate("");
     setScheduledTime("09:00");
     setRecurringTime("09:00");
-    setDayOfWeek("1");
+    setRepeatEvery("1");
+    setDaysOfWeek(["1"]);
     setDayOfMonth("1");
+    setMonthRule("day_of_month");
+    setStartsOn("");
+    setEndsOn("");
     setMaxExecutions("10");
+    setRetryInterval("30");
+    setRetryWindow("6");
+    setHoldUntilFunded(false);
+    setPin("");
+  };
+
+  // The schedule fields of the payload; null while incomplete
+  const scheduleRule = (): Partial<CreateSchedulePayload> | null => {
+    if (scheduleType === "one_time") {
+      // Wall-clock time; the server reads it in the user's timezone
+      return scheduledDate ? { schedule_type: scheduleType, scheduled_at: `${scheduledDate}T${scheduledTime}` } : null;
+    }
+    if (scheduleType === "weekly" && daysOfWeek.length === 0) return null;
+
+    const rule: Partial<CreateSchedulePayload> = {
+      schedule_type: scheduleType,
+      recurring_time: recurringTime,
+      recurring_interval: Math.max(1, Number(repeatEvery) || 1),
+      max_executions: Number(maxExecutions) || 10,
+    };
+    if (scheduleType === "weekly") rule.recurring_days_of_week = daysOfWeek.map(Number).sort((a, b) => a - b);
+    if (scheduleType === "monthly") {
+      rule.recurring_month_rule = monthRule;
+      if (monthRule !== "last_business_day") rule.recurring_day_of_month = Number(dayOfMonth);
+    }
+    if (startsOn) rule.starts_on = startsOn;
+    if (endsOn) rule.ends_on = endsOn;
+    return rule;
   };
 
   const isFormValid = () => {
@@ -107,7 +160,8 @@ export function CreateScheduleSheet({ open, onOpenChange }: CreateScheduleSheetP
     } else {
       if (!selectedDataPlan) return false;
     }
-    if (scheduleType === "one_time" && !scheduledDate) return false;
+    if (!scheduleRule()) return false;
+    if (pin.length !== 4) return false;
     return true;
   };
 
@@ -127,29 +181,22 @@ export function CreateScheduleSheet({ open, onOpenChange }: CreateScheduleSheetP
       amount: effectiveAmount,
       schedule_type: scheduleType,
       phone_number: cleanedNumber,
+      pin,
     };
 
     if (type === "data" && selectedDataPlan) {
       payload.plan_id = selectedDataPlan.id;
     }
 
-    if (scheduleType === "one_time") {
-      if (!scheduledDate) { setSubmitting(false); return; }
-      payload.scheduled_at = new Date(`${scheduledDate}T${scheduledTime}`).toISOString();
-    } else {
-      payload.recurring_time = recurringTime;
-      payload.max_executions = Number(maxExecutions) || 10;
-
-      if (scheduleType === "weekly") {
-        payload.recurring_day_of_week = Number(dayOfWeek);
-      }
-      if (scheduleType === "monthly") {
-        payload.recurring_day_of_month = Number(dayOfMonth);
-      }
-    }
+    Object.assign(payload, scheduleRule(), {
+      retry_interval_minutes: retryInterval === "none" ? null : Number(retryInterval),
+      retry_window_hours: Number(retryWindow),
+      hold_until_funded: holdUntilFunded,
+    });
 
     const result = await createSchedule(payload);
     setSubmitting(false);
+    setPin("");
 
     if (!result.error) {
       resetForm();
@@ -249,6 +296,7 @@ export function CreateScheduleSheet({ open, onOpenChange }: CreateScheduleSheetP
                 <Input type="date" value={scheduledDate} onChange={(e) => setScheduledDate(e.target.value)} />
               </div>
               <TimePicker12h label="Time" value={scheduledTime} onChange={setScheduledTime} />
+              <p className="text-xs text-muted-foreground">{timeZoneHint}</p>
             </div>
           )}
 
@@ -256,43 +304,132 @@ export function CreateScheduleSheet({ open, onOpenChange }: CreateScheduleSheetP
           {scheduleType !== "one_time" && (
             <>
               <TimePicker12h label="Time of Day" value={recurringTime} onChange={setRecurringTime} />
+              <p className="text-xs text-muted-foreground">{timeZoneHint}</p>
+
+              <div className="space-y-2">
+                <Label>Repeat Every</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number" value={repeatEvery} onChange={(e) => setRepeatEvery(e.target.value)}
+                    min={1} max={365} className="w-20"
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {INTERVAL_UNITS[scheduleType][Number(repeatEvery) === 1 ? 0 : 1]}
+                  </span>
+                </div>
+              </div>
 
               {scheduleType === "weekly" && (
                 <div className="space-y-2">
-                  <Label>Day of Week</Label>
-                  <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                  <Label>Days of Week</Label>
+                  <ToggleGroup
+                    type="multiple" variant="outline" size="sm" value={daysOfWeek} onValueChange={setDaysOfWeek}
+                    className="justify-start flex-wrap"
+                  >
+                    {DAY_NAMES.map((day, i) => (
+                      <ToggleGroupItem key={i} value={String(i)} aria-label={day}>{day}</ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  {daysOfWeek.length === 0 && (
+                    <p className="text-xs text-destructive">Pick at least one day.</p>
+                  )}
+                </div>
+              )}
+
+              {scheduleType === "monthly" && (
+                <div className="space-y-2">
+                  <Label>Runs On</Label>
+                  <Select value={monthRule} onValueChange={(v) => setMonthRule(v as MonthRule)}>
                     <SelectTrigger><SelectValue /></SelectTrigger>
                     <SelectContent>
-                      {DAY_NAMES.map((day, i) => (
-                        <SelectItem key={i} value={String(i)}>{day}</SelectItem>
-                      ))}
+                      <SelectItem value="day_of_month">A day of the month</SelectItem>
+                      <SelectItem value="payday">Payday (or the Friday before, at weekends)</SelectItem>
+                      <SelectItem value="last_business_day">Last business day</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               )}
 
-              {scheduleType === "monthly" && (
+              {scheduleType === "monthly" && monthRule !== "last_business_day" && (
                 <div className="space-y-2">
                   <Label>Day of Month</Label>
                   <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
                     <SelectTrigger><SelectValue /></SelectTrigger>
                     <SelectContent>
-                      {Array.from({ length: 28 }, (_, i) => (
+                      {Array.from({ length: 31 }, (_, i) => (
                         <SelectItem key={i + 1} value={String(i + 1)}>{i + 1}</SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  {Number(dayOfMonth) > 28 && (
+                    <p className="text-xs text-muted-foreground">In shorter months this runs on the last day.</p>
+                  )}
                 </div>
               )}
 
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Starts On</Label>
+                  <Input type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Ends On</Label>
+                  <Input type="date" value={endsOn} min={startsOn || undefined} onChange={(e) => setEndsOn(e.target.value)} />
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label>Max Executions</Label>
                 <Input type="number" value={maxExecutions} onChange={(e) => setMaxExecutions(e.target.value)} min={1} max={365} />
-                <p className="text-xs text-muted-foreground">The schedule will stop after this many executions.</p>
+                <p className="text-xs text-muted-foreground">The schedule will stop after this many executions, or on the end date.</p>
               </div>
             </>
           )}
 
+          <SchedulePreview rule={scheduleRule()} timeZone={timeZone} />
+
+          {/* If a run fails (low wallet or network error) */}
+          <div className="space-y-3">
+            <Label>If a Run Fails</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Select value={retryInterval} onValueChange={setRetryInterval}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Don't retry</SelectItem>
+                  <SelectItem value="15">Retry every 15 min</SelectItem>
+                  <SelectItem value="30">Retry every 30 min</SelectItem>
+                  <SelectItem value="60">Retry every hour</SelectItem>
+                  <SelectItem value="120">Retry every 2 hours</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={retryWindow} onValueChange={setRetryWindow} disabled={retryInterval === "none" && !holdUntilFunded}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[1, 3, 6, 12, 24].map((hours) => (
+                    <SelectItem key={hours} value={String(hours)}>for {hours === 1 ? "1 hour" : `${hours} hours`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-foreground">Wait for funds</p>
+                <p className="text-xs text-muted-foreground">
+                  If your wallet is low, run as soon as you fund it instead of retrying.
+                </p>
+              </div>
+              <Switch checked={holdUntilFunded} onCheckedChange={setHoldUntilFunded} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Transaction PIN</Label>
+            <TransactionPinInput value={pin} onChange={setPin} disabled={submitting} />
+            <p className="text-xs text-muted-foreground text-center">
+              Authorizes this schedule to top up without asking again.
+            </p>
+          </div>
+
           <Button onClick={handleSubmit} disabled={submitting || !isFormValid()} className="w-full" size="lg">
             {submitting ? "Creating..." : "Create Schedule"}
           </Button>
@@ -2,7 +2,9 @@ import { useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { DATA_PLANS, DATA_PLAN_CATEGORIES, formatCurrency, type NetworkProvider, type DataPlan, type DataPlanCategory } from "@/lib/constants";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DATA_PLAN_CATEGORIES, formatCurrency, type DataPlan, type DataPlanCategory } from "@/lib/constants";
+import { useDataPlans } from "@/hooks/useDataPlans";
 import { cn } from "@/lib/utils";
 
 interface DataPlanPickerProps {
@@ -12,17 +14,33 @@ interface DataPlanPickerProps {
 }
 
 export function DataPlanPicker({ network, selectedPlanId, onSelect }: DataPlanPickerProps) {
-  const plans = DATA_PLANS[network as NetworkProvider] || [];
+  const { plans, loading } = useDataPlans(network);
   const availableCategories = DATA_PLAN_CATEGORIES.filter(
     (cat) => plans.some((p) => p.category === cat)
   );
-  const [category, setCategory] = useState<DataPlanCategory>(availableCategories[0] || "Monthly");
+  const [chosenCategory, setCategory] = useState<DataPlanCategory | null>(null);
+  // Plans load after mount and differ by network, so fall back to the first category that has any
+  const category = chosenCategory && availableCategories.includes(chosenCategory)
+    ? chosenCategory
+    : availableCategories[0] || "Monthly";
 
   const filtered = plans.filter((p) => p.category === category);
 
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        <Label>Data Package</Label>
+        <Skeleton className="h-40 w-full rounded-xl" />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-2">
       <Label>Data Package</Label>
+      {plans.length === 0 && (
+        <p className="text-xs text-muted-foreground">No data packages are available for this network right now</p>
+      )}
       <Tabs value={category} onValueChange={(v) => setCategory(v as DataPlanCategory)}>
         <TabsList className="w-full flex-wrap h-auto gap-1">
           {availableCategories.map((cat) => (
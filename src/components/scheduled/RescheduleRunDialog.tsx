@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TimePicker12h } from "./TimePicker12h";
+
+interface RescheduleRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Current time of the run (ISO), to prefill the pickers */
+  runsAt: string | null;
+  timeZone: string;
+  /** Receives the new wall-clock time, `YYYY-MM-DDTHH:mm` in `timeZone` */
+  onConfirm: (to: string) => Promise<{ error: Error | null }>;
+}
+
+/**
+ * Moves the next run of a schedule to another date and time. Only that run
+ * moves; the rest of the series stays as it is.
+ */
+export function RescheduleRunDialog({ open, onOpenChange, runsAt, timeZone, onConfirm }: RescheduleRunDialogProps) {
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("09:00");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !runsAt) return;
+    // en-CA formats as YYYY-MM-DD; the hour cycle keeps it 00–23
+    const at = new Date(runsAt);
+    setDate(at.toLocaleDateString("en-CA", { timeZone }));
+    const hm = at.toLocaleTimeString("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+    // The picker works in 5-minute steps
+    const [h, m] = hm.split(":").map(Number);
+    setTime(`${String(h).padStart(2, "0")}:${String(Math.floor(m / 5) * 5).padStart(2, "0")}`);
+  }, [open, runsAt, timeZone]);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    const result = await onConfirm(`${date}T${time}`);
+    setSaving(false);
+    if (!result.error) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move next run</DialogTitle>
+          <DialogDescription>Only this run moves. Later runs stay on schedule.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <TimePicker12h label="Time" value={time} onChange={setTime} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={saving || !date}>
+            {saving ? "Saving..." : "Move Run"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { scheduledTopUpService } from "@/api";
+import type { CreateSchedulePayload } from "@/hooks/useScheduledTopUps";
+
+interface SchedulePreviewProps {
+  /** The schedule as it would be submitted, or null while it's incomplete */
+  rule: Partial<CreateSchedulePayload> | null;
+  timeZone: string;
+}
+
+/**
+ * The next few run times for a schedule, as the server will compute them
+ * (so intervals, payday and month-end rules show exactly as they'll run).
+ */
+export function SchedulePreview({ rule, timeZone }: SchedulePreviewProps) {
+  const [runs, setRuns] = useState<string[]>([]);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const key = rule ? JSON.stringify(rule) : "";
+
+  useEffect(() => {
+    if (!key) {
+      setRuns([]);
+      setError("");
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    // Wait for the user to stop changing fields
+    const timer = setTimeout(() => {
+      scheduledTopUpService.previewScheduledTopUp(JSON.parse(key))
+        .then((data) => {
+          if (cancelled) return;
+          setRuns(data.runs || []);
+          setError("");
+        })
+        .catch((e) => {
+          if (cancelled) return;
+          setRuns([]);
+          setError(e instanceof Error ? e.message : "Could not preview this schedule");
+        })
+        .finally(() => !cancelled && setLoading(false));
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  if (!rule) return null;
+
+  return (
+    <div className="rounded-xl border border-border p-3 space-y-2">
+      <p className="text-xs font-medium text-foreground flex items-center gap-1.5">
+        <CalendarClock className="w-3.5 h-3.5" /> Upcoming runs
+      </p>
+      {loading ? (
+        <div className="space-y-1.5">
+          {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-3 w-40" />)}
+        </div>
+      ) : error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : runs.length === 0 ? (
+        <p className="text-xs text-muted-foreground">This schedule has no runs left.</p>
+      ) : (
+        <ul className="space-y-1">
+          {runs.map((run) => (
+            <li key={run} className="text-xs text-muted-foreground">
+              {new Date(run).toLocaleString("en-NG", {
+                weekday: "short", day: "numeric", month: "short", year: "numeric",
+                hour: "numeric", minute: "2-digit", timeZone,
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Notification Settings Component
+ *
+ * Lets the user choose, per category, whether notifications also go out by
+ * email, SMS and push, and turn push on or off for this browser. Everything
+ * still appears in the app's notification list.
+ *
+ * @module NotificationSettings
+ */
+
+import { useEffect, useState } from "react";
+import { BellRing, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { notificationService } from "@/api";
+import type { NotificationCategory, NotificationChannel, NotificationPreference } from "@/api/notifications";
+
+const CATEGORIES: Record<NotificationCategory, { label: string; description: string }> = {
+  transaction: { label: "Purchases & wallet", description: "Purchases, refunds and deposits" },
+  budget: { label: "Budget", description: "Alerts as you approach your monthly budget" },
+  schedule: { label: "Scheduled & auto top-ups", description: "Runs that succeeded, failed or need attention" },
+  security: { label: "Security", description: "PIN changes and other account activity" },
+};
+
+const CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: "email", label: "Email" },
+  { channel: "sms", label: "SMS" },
+  { channel: "push", label: "Push" },
+];
+
+export function NotificationSettings() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreference[] | null>(null);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [isTogglingPush, setIsTogglingPush] = useState(false);
+  const pushSupported = notificationService.isPushSupported();
+
+  useEffect(() => {
+    notificationService.getNotificationPreferences()
+      .then(setPreferences)
+      .catch(() => setPreferences([]));
+    notificationService.isPushEnabled().then(setPushEnabled).catch(() => setPushEnabled(false));
+  }, []);
+
+  if (!preferences) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const handleChange = async (preference: NotificationPreference, channel: NotificationChannel, enabled: boolean) => {
+    if (!user) return;
+    const updated = { ...preference, [channel]: enabled };
+    setPreferences((current) => current?.map((p) => (p.category === updated.category ? updated : p)) ?? null);
+    try {
+      await notificationService.saveNotificationPreference(user.id, updated);
+    } catch {
+      setPreferences((current) => current?.map((p) => (p.category === preference.category ? preference : p)) ?? null);
+      toast({ title: "Could not save", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleTogglePush = async () => {
+    setIsTogglingPush(true);
+    try {
+      if (pushEnabled) {
+        await notificationService.disablePush();
+        setPushEnabled(false);
+      } else if (await notificationService.enablePush()) {
+        setPushEnabled(true);
+      } else {
+        toast({
+          title: "Notifications blocked",
+          description: "Allow notifications for this site in your browser settings.",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({ title: "Could not update push notifications", variant: "destructive" });
+    }
+    setIsTogglingPush(false);
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-muted-foreground">
+        Everything appears in your notifications list. Choose what else reaches you when you're not in the app.
+      </p>
+
+      <div className="divide-y divide-border">
+        {preferences.map((preference) => (
+          <div key={preference.category} className="py-3 space-y-2">
+            <div>
+              <p className="text-sm font-medium text-foreground">{CATEGORIES[preference.category].label}</p>
+              <p className="text-xs text-muted-foreground">{CATEGORIES[preference.category].description}</p>
+            </div>
+            <div className="flex gap-5">
+              {CHANNELS.map(({ channel, label }) => (
+                <label key={channel} className="flex items-center gap-2 text-sm text-foreground">
+                  <Switch
+                    checked={preference[channel]}
+                    onCheckedChange={(enabled) => handleChange(preference, channel, enabled)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!profile?.phone_verified && (
+        <p className="text-xs text-muted-foreground">SMS needs a verified phone number on your profile.</p>
+      )}
+
+      <div className="rounded-xl bg-secondary/50 p-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <BellRing className="w-5 h-5 text-foreground shrink-0" />
+          <p className="text-sm text-foreground">
+            {!pushSupported
+              ? "This browser can't receive push notifications."
+              : pushEnabled
+                ? "Push notifications are on for this device."
+                : "Turn on push notifications for this device."}
+          </p>
+        </div>
+        {pushSupported && (
+          <Button size="sm" variant={pushEnabled ? "outline" : "default"} onClick={handleTogglePush} disabled={isTogglingPush}>
+            {isTogglingPush && <Loader2 className="w-4 h-4 animate-spin" />}
+            {pushEnabled ? "Turn Off" : "Turn On"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Phone, Lock, Plus, Trash2, Edit2, X, Check, Loader2 } from "lucide-react";
+import { Phone, Lock, Plus, Trash2, Edit2, X, Check, Loader2, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -23,6 +23,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { usePhoneNumbers, DisplayPhoneNumber } from "@/contexts/PhoneNumberContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { PhoneCodeEntry } from "@/components/onboarding/PhoneCodeEntry";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 
@@ -64,7 +66,8 @@ interface PhoneNumberManagementProps {
 }
 
 export function PhoneNumberManagement({ onBack }: PhoneNumberManagementProps) {
-  const { allPhoneNumbers, addPhoneNumber, updatePhoneNumber, deletePhoneNumber, canAddMore, loading } = usePhoneNumbers();
+  const { allPhoneNumbers, addPhoneNumber, updatePhoneNumber, deletePhoneNumber, refreshPhoneNumbers, canAddMore, loading } = usePhoneNumbers();
+  const { refreshProfile } = useAuth();
   const { toast } = useToast();
   
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -80,6 +83,8 @@ export function PhoneNumberManagement({ onBack }: PhoneNumberManagementProps) {
   const [editingPhone, setEditingPhone] = useState<DisplayPhoneNumber | null>(null);
   const [editLabel, setEditLabel] = useState("");
 
+  const [verifyingPhone, setVerifyingPhone] = useState<DisplayPhoneNumber | null>(null);
+
   const handlePhoneChange = (value: string) => {
     const cleaned = value.replace(/\D/g, "").slice(0, 11);
     setNewPhone(cleaned);
@@ -95,7 +100,7 @@ export function PhoneNumberManagement({ onBack }: PhoneNumberManagementProps) {
     }
 
     setIsSubmitting(true);
-    const { error } = await addPhoneNumber(newPhone, detectedNetwork, newLabel || undefined);
+    const { error, id } = await addPhoneNumber(newPhone, detectedNetwork, newLabel || undefined);
     setIsSubmitting(false);
 
     if (error) {
@@ -107,17 +112,33 @@ export function PhoneNumberManagement({ onBack }: PhoneNumberManagementProps) {
         variant: "destructive",
       });
     } else {
-      toast({
-        title: "Phone added",
-        description: "New phone number has been added successfully.",
-      });
       setIsAddDialogOpen(false);
+      // Go straight to verification so the number can be used for auto top-up
+      if (id) {
+        setVerifyingPhone({
+          id,
+          phone_number: newPhone,
+          network_provider: detectedNetwork,
+          label: newLabel || null,
+          is_primary: false,
+          is_verified: false,
+        });
+      }
       setNewPhone("");
       setNewLabel("");
       setDetectedNetwork(null);
     }
   };
 
+  const handleVerified = async () => {
+    if (verifyingPhone?.is_primary) {
+      await refreshProfile();
+    } else {
+      await refreshPhoneNumbers();
+    }
+    setVerifyingPhone(null);
+  };
+
   const handleEditPhone = (phone: DisplayPhoneNumber) => {
     if (phone.is_primary) return;
     setEditingPhone(phone);
@@ -271,6 +292,11 @@ export function PhoneNumberManagement({ onBack }: PhoneNumberManagementProps) {
                           {phone.network_provider}
                         </Badge>
                       )}
+                      {!phone.is_verified && (
+                        <Badge variant="outline" className="text-xs text-yellow-500 border-yellow-500/40">
+                          Unverified
+                        </Badge>
+                      )}
                     </div>
                     {phone.is_primary ? (
                       <p className="text-xs text-primary">
@@ -284,10 +310,22 @@ export function PhoneNumberManagement({ onBack }: PhoneNumberManagementProps) {
 
                 {phone.is_primary ? (
                   <div className="flex items-center gap-2 text-muted-foreground">
+                    {!phone.is_verified && (
+                      <Button size="sm" variant="outline" onClick={() => setVerifyingPhone(phone)}>
+                        <ShieldCheck className="w-4 h-4 mr-1" />
+                        Verify
+                      </Button>
+                    )}
                     <Lock className="w-4 h-4" />
                   </div>
                 ) : (
                   <div className="flex items-center gap-2">
+                    {!phone.is_verified && (
+                      <Button size="sm" variant="outline" onClick={() => setVerifyingPhone(phone)}>
+                        <ShieldCheck className="w-4 h-4 mr-1" />
+                        Verify
+                      </Button>
+                    )}
                     <button
                       onClick={() => handleEditPhone(phone)}
                       className="p-2 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
@@ -349,6 +387,24 @@ export function PhoneNumberManagement({ onBack }: PhoneNumberManagementProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Verify Dialog */}
+      <Dialog open={!!verifyingPhone} onOpenChange={(open) => !open && setVerifyingPhone(null)}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Verify Phone Number</DialogTitle>
+          </DialogHeader>
+          <div className="py-4">
+            {verifyingPhone && (
+              <PhoneCodeEntry
+                key={verifyingPhone.id || "primary"}
+                phoneNumberId={verifyingPhone.is_primary ? null : verifyingPhone.id}
+                onVerified={handleVerified}
+              />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteConfirmId} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
         <AlertDialogContent className="bg-card border-border">
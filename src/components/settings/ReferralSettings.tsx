@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Referral Settings Component
+ *
+ * Shows the user's referral code and invite link, the terms, and how each
+ * of their referrals is going. Rewards go to the cashback balance once the
+ * friend has verified their identity and made a qualifying purchase.
+ *
+ * @module ReferralSettings
+ */
+
+import { useEffect, useState } from "react";
+import { Copy, Gift, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { referralService } from "@/api";
+import type { Referral, ReferralStatus } from "@/api/referrals";
+import { REFERRAL_REWARDS, formatCurrency } from "@/lib/constants";
+
+const STATUS_LABELS: Record<ReferralStatus, { label: string; color: string }> = {
+  pending: { label: "Waiting for first purchase", color: "text-yellow-500" },
+  rewarded: { label: "Rewarded", color: "text-primary" },
+  rejected: { label: "Not eligible", color: "text-muted-foreground" },
+};
+
+export function ReferralSettings() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [referrals, setReferrals] = useState<Referral[] | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    referralService.getMyReferrals(user.id)
+      .then(setReferrals)
+      .catch(() => setReferrals([]));
+  }, [user]);
+
+  if (!profile || !referrals) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  const link = referralService.referralLink(profile.referral_code);
+  const earned = referrals.reduce((sum, r) => sum + (r.status === "rewarded" ? r.referrer_reward : 0), 0);
+
+  const handleCopy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: `${what} copied` });
+    } catch {
+      toast({ title: "Could not copy", description: text, variant: "destructive" });
+    }
+  };
+
+  const handleShare = async () => {
+    if (!navigator.share) return handleCopy(link, "Invite link");
+    try {
+      await navigator.share({ title: "Join me on Nava", text: `Use my code ${profile.referral_code} when you sign up.`, url: link });
+    } catch {
+      // Share sheet dismissed
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center shrink-0">
+          <Gift className="w-5 h-5 text-foreground" />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Invite friends with your code. Once a friend verifies their identity and makes a first purchase of at
+          least {formatCurrency(REFERRAL_REWARDS.MIN_PURCHASE)}, you get {formatCurrency(REFERRAL_REWARDS.REFERRER)} and
+          they get {formatCurrency(REFERRAL_REWARDS.REFEREE)} in cashback.
+        </p>
+      </div>
+
+      <div className="rounded-xl bg-secondary/50 p-4 flex items-center justify-between">
+        <div>
+          <p className="text-xs text-muted-foreground">Your code</p>
+          <p className="text-2xl font-bold tracking-widest text-foreground">{profile.referral_code}</p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => handleCopy(profile.referral_code, "Code")}>
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Button className="w-full" onClick={handleShare}>
+        <Share2 className="w-4 h-4" />
+        Share Invite Link
+      </Button>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium text-foreground">Your referrals</span>
+          <span className="text-muted-foreground">{formatCurrency(earned)} earned</span>
+        </div>
+        {referrals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No one has signed up with your code yet.</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {referrals.map((r) => (
+              <div key={r.id} className="flex justify-between py-2 text-sm">
+                <span className="text-muted-foreground">
+                  Joined {new Date(r.created_at).toLocaleDateString("en-NG", { day: "numeric", month: "short" })}
+                </span>
+                <span className={STATUS_LABELS[r.status].color}>{STATUS_LABELS[r.status].label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Accounts that share a device, phone number or NIN can't earn rewards for each other.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Transaction PIN Settings Component
+ *
+ * Lets users create, change, or reset the 4-digit PIN that confirms
+ * purchases and authorizes scheduled and auto top-ups.
+ *
+ * ## States
+ * - **No PIN**: create and confirm a PIN
+ * - **Has PIN**: change it (current PIN required) or request a reset email
+ * - **Reset**: opened from the emailed link; choose a new PIN without the old one
+ *
+ * @module TransactionPinSettings
+ */
+
+import { useEffect, useState } from "react";
+import { KeyRound, Loader2, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TransactionPinInput } from "@/components/wallet/TransactionPinInput";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { pinService } from "@/api";
+import type { PinStatus } from "@/api/pin";
+
+interface TransactionPinSettingsProps {
+  /** True when the user arrived through the PIN reset email link */
+  resetMode?: boolean;
+  onDone?: () => void;
+}
+
+export function TransactionPinSettings({ resetMode = false, onDone }: TransactionPinSettingsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<PinStatus | null>(null);
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [resetSent, setResetSent] = useState(false);
+
+  useEffect(() => {
+    pinService.getPinStatus()
+      .then(setStatus)
+      .catch(() => setStatus({ hasPin: false, locked: false, lockedUntil: null }));
+  }, []);
+
+  const isChange = !!status?.hasPin && !resetMode;
+  const pinsMatch = newPin.length === 4 && newPin === confirmPin;
+  const canSave = pinsMatch && (!isChange || currentPin.length === 4);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      if (resetMode) {
+        await pinService.resetPin(newPin);
+      } else {
+        await pinService.setPin(newPin, isChange ? currentPin : undefined);
+      }
+      toast({ title: isChange || resetMode ? "PIN Updated" : "PIN Created", description: "Use it to confirm your purchases." });
+      setStatus({ hasPin: true, locked: false, lockedUntil: null });
+      onDone?.();
+    } catch (e) {
+      toast({ title: "Could not save PIN", description: (e as Error).message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+      setCurrentPin("");
+      setNewPin("");
+      setConfirmPin("");
+    }
+  };
+
+  const handleForgot = async () => {
+    if (!user?.email) return;
+    setIsSaving(true);
+    try {
+      await pinService.sendPinResetEmail(user.email);
+      setResetSent(true);
+    } catch (e) {
+      toast({ title: "Could not send reset email", description: (e as Error).message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  if (resetSent) {
+    return (
+      <div className="text-center space-y-3 py-4">
+        <div className="w-12 h-12 mx-auto rounded-full bg-primary/10 flex items-center justify-center">
+          <Mail className="w-6 h-6 text-primary" />
+        </div>
+        <p className="font-medium text-foreground">Check your email</p>
+        <p className="text-sm text-muted-foreground">
+          We sent a secure link to {user?.email}. Open it on this device within 15 minutes to choose a new PIN.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center shrink-0">
+          <KeyRound className="w-5 h-5 text-foreground" />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {resetMode
+            ? "Choose a new 4-digit PIN. Your old PIN will stop working."
+            : isChange
+              ? "Enter your current PIN, then choose a new one."
+              : "Create a 4-digit PIN. You'll need it to confirm purchases and set up automatic top-ups."}
+        </p>
+      </div>
+
+      {status.locked && !resetMode && (
+        <p className="text-sm text-destructive">
+          Your PIN is locked after too many incorrect attempts. Reset it by email to unlock now.
+        </p>
+      )}
+
+      {isChange && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">Current PIN</p>
+          <TransactionPinInput value={currentPin} onChange={setCurrentPin} disabled={isSaving} />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">New PIN</p>
+        <TransactionPinInput value={newPin} onChange={setNewPin} disabled={isSaving} />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">Confirm PIN</p>
+        <TransactionPinInput value={confirmPin} onChange={setConfirmPin} disabled={isSaving} />
+        {confirmPin.length === 4 && !pinsMatch && (
+          <p className="text-xs text-destructive text-center">PINs don't match</p>
+        )}
+      </div>
+
+      <Button className="w-full" onClick={handleSave} disabled={!canSave || isSaving}>
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : isChange || resetMode ? "Update PIN" : "Create PIN"}
+      </Button>
+
+      {isChange && (
+        <Button variant="ghost" className="w-full" onClick={handleForgot} disabled={isSaving}>
+          Forgot PIN?
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -74,6 +74,7 @@ export function HomeView({ onNavigate }: HomeViewProps) {
       <main id="main-content" className="px-5 py-6 space-y-6" role="main">
         <WalletCard
           balance={wallet?.balance || 0}
+          cashbackBalance={wallet?.cashback_balance || 0}
           onAddFunds={() => onNavigate("wallet")}
         />
 
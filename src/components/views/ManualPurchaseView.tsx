@@ -14,14 +14,19 @@ import {
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { TransactionPinInput } from "@/components/wallet/TransactionPinInput";
 import { useWallet } from "@/contexts/WalletContext";
 import { usePhoneNumbers, DisplayPhoneNumber } from "@/contexts/PhoneNumberContext";
+import { useToast } from "@/hooks/use-toast";
+import { useDataPlans } from "@/hooks/useDataPlans";
+import { useAirtimePlans } from "@/hooks/useAirtimePlans";
+import { pricingService } from "@/api";
+import { QuoteError, type PriceQuote, type PromoPreview, type QuoteItem } from "@/api/pricing";
 import { validateNigerianPhoneNumber, validatePurchaseAmount, formatPhoneNumber } from "@/lib/validation";
 import {
-  AIRTIME_PLANS,
-  DATA_PLANS,
   DATA_PLAN_CATEGORIES,
   NETWORK_PROVIDERS,
   formatCurrency,
@@ -107,10 +112,28 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
   const [dataCategory, setDataCategory] = useState<typeof DATA_PLAN_CATEGORIES[number]>("HOT");
   const [isProcessing, setIsProcessing] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [pin, setPin] = useState("");
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [promo, setPromo] = useState<PromoPreview | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+  const [payWithCashback, setPayWithCashback] = useState(false);
 
   const { wallet, purchaseAirtimeOrData } = useWallet();
+  const { toast } = useToast();
   const { allPhoneNumbers } = usePhoneNumbers();
+  const { plans: dataPlans, loading: dataPlansLoading, refresh: refreshDataPlans } = useDataPlans(selectedNetwork);
+  const {
+    plans: airtimePlans,
+    customPrice,
+    loading: airtimePlansLoading,
+    refresh: refreshAirtimePlans,
+  } = useAirtimePlans(selectedNetwork, parseInt(customAmount, 10) || undefined);
   const balance = wallet?.balance || 0;
+  const cashbackBalance = wallet?.cashback_balance || 0;
+  // Cashback pays first when the user opts in; the main balance covers the rest
+  const spendable = balance + (payWithCashback ? cashbackBalance : 0);
 
   // Phone validation
   const phoneValidation = validateNigerianPhoneNumber(phoneNumber);
@@ -141,8 +164,7 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
 
   const getPurchaseAmount = (): number => {
     if (purchaseType === "airtime" && customAmount) {
-      const amount = parseInt(customAmount, 10);
-      return isNaN(amount) ? 0 : Math.ceil(amount * 1.05); // Apply 5% margin
+      return customPrice ?? 0;
     }
     return selectedPlan?.finalPrice || 0;
   };
@@ -158,7 +180,37 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
   };
 
   const purchaseAmount = getPurchaseAmount();
-  const amountValidation = validatePurchaseAmount(purchaseAmount, balance, purchaseType);
+  const payableAmount = promo?.price ?? purchaseAmount;
+  const cashbackApplied = payWithCashback ? Math.min(cashbackBalance, payableAmount) : 0;
+  const amountValidation = validatePurchaseAmount(payableAmount, spendable, purchaseType);
+
+  // A promo was checked against one purchase; choosing another means checking again
+  useEffect(() => {
+    setPromo(null);
+  }, [purchaseType, selectedNetwork, selectedPlan?.id, customAmount]);
+
+  const getQuoteItem = (): QuoteItem =>
+    purchaseType === "airtime"
+      ? { type: "airtime", network: selectedNetwork, amount: getRawAmount() }
+      : { type: "data", network: selectedNetwork, planId: selectedPlan?.id ?? "" };
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+    setIsCheckingPromo(true);
+    try {
+      setPromo(await pricingService.checkPromoCode(getQuoteItem(), code));
+    } catch (error) {
+      setPromo(null);
+      toast({
+        title: "Promo Code Not Applied",
+        description: error instanceof Error ? error.message : "Could not check this promo code.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
   
   // Determine current step
   const getCurrentStep = () => {
@@ -171,33 +223,46 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
   const canPurchase = isPhoneValid && purchaseAmount > 0 && amountValidation.valid;
 
   const handlePurchase = async () => {
-    if (!canPurchase) return;
+    if (!canPurchase || !quote || pin.length !== 4) return;
     
     setShowConfirmation(false);
     setIsProcessing(true);
     
-    const planId = selectedPlan?.id;
-    
-    const { error } = await purchaseAirtimeOrData(
-      purchaseType,
-      purchaseAmount,
-      phoneNumber,
-      selectedPhoneId,
-      selectedNetwork,
-      planId
-    );
+    const { error } = await purchaseAirtimeOrData(quote, phoneNumber, selectedPhoneId, pin, payWithCashback);
     
     setIsProcessing(false);
+    setPin("");
+    setQuote(null);
 
     if (!error) {
       setSelectedPlan(null);
       setCustomAmount("");
       onBack();
+    } else if (error instanceof QuoteError) {
+      // Show current prices so the user can confirm again
+      if (error.code.startsWith("PROMO_")) setPromo(null);
+      if (purchaseType === "airtime") refreshAirtimePlans();
+      else refreshDataPlans();
     }
   };
 
-  const handlePurchaseClick = () => {
-    setShowConfirmation(true);
+  // Holds the price while the user confirms; the purchase charges exactly the quote
+  const handlePurchaseClick = async () => {
+    setPin("");
+    setIsQuoting(true);
+    try {
+      const held = await pricingService.getQuote(getQuoteItem(), promo?.code);
+      setQuote(held);
+      setShowConfirmation(true);
+    } catch (error) {
+      toast({
+        title: "Price Unavailable",
+        description: error instanceof Error ? error.message : "Could not get a price. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsQuoting(false);
+    }
   };
 
   return (
@@ -412,9 +477,9 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
               <Card variant="gradient" className="p-4 space-y-3">
                 <h3 className="text-sm font-medium text-foreground">Select Amount</h3>
                 <div className="grid grid-cols-3 gap-2">
-                  {AIRTIME_PLANS.map((plan) => {
+                  {airtimePlans.map((plan) => {
                     const isSelected = selectedPlan?.id === plan.id && !customAmount;
-                    const insufficientBalance = plan.finalPrice > balance;
+                    const insufficientBalance = plan.finalPrice > spendable;
                     
                     return (
                       <button
@@ -443,14 +508,19 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
                         <div className="text-xs text-muted-foreground">
                           Pay {formatCurrency(plan.finalPrice)}
                         </div>
-                        {plan.cashback && (
+                        {plan.cashback > 0 && (
                           <div className="text-xs text-primary mt-1">
-                            +₦{plan.cashback} bonus
+                            +{formatCurrency(plan.cashback)} cashback
                           </div>
                         )}
                       </button>
                     );
                   })}
+                  {airtimePlans.length === 0 && (
+                    <div className="col-span-3 py-6 text-center text-muted-foreground text-sm">
+                      {airtimePlansLoading ? "Loading prices..." : "Prices are unavailable right now"}
+                    </div>
+                  )}
                 </div>
               </Card>
 
@@ -479,10 +549,16 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
                 </div>
                 {customAmount && (
                   <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">
-                      You'll pay: <span className="text-foreground font-medium">{formatCurrency(getPurchaseAmount())}</span>
-                      <span className="text-xs ml-1">(includes 5% service fee)</span>
-                    </p>
+                    {customPrice !== null && (
+                      <p className="text-sm text-muted-foreground">
+                        You'll pay: <span className="text-foreground font-medium">{formatCurrency(customPrice)}</span>
+                        {customPrice > getRawAmount() && (
+                          <span className="text-xs ml-1">
+                            (includes {formatCurrency(customPrice - getRawAmount())} service fee)
+                          </span>
+                        )}
+                      </p>
+                    )}
                     {parseInt(customAmount) < PAYMENT_LIMITS.MIN_PURCHASE_AMOUNT && (
                       <p className="text-xs text-destructive">
                         Minimum amount is {formatCurrency(PAYMENT_LIMITS.MIN_PURCHASE_AMOUNT)}
@@ -520,11 +596,11 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
                   {DATA_PLAN_CATEGORIES.map((cat) => (
                     <TabsContent key={cat} value={cat} className="mt-3">
                       <div className="grid grid-cols-2 gap-2">
-                        {DATA_PLANS[selectedNetwork]
+                        {dataPlans
                           .filter((plan) => plan.category === cat)
                           .map((plan) => {
                             const isSelected = selectedPlan?.id === plan.id;
-                            const insufficientBalance = plan.finalPrice > balance;
+                            const insufficientBalance = plan.finalPrice > spendable;
 
                             return (
                               <button
@@ -558,12 +634,17 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
                                 <div className="text-sm font-semibold text-primary mt-1">
                                   {formatCurrency(plan.finalPrice)}
                                 </div>
+                                {plan.cashback > 0 && (
+                                  <div className="text-[10px] text-muted-foreground">
+                                    +{formatCurrency(plan.cashback)} cashback
+                                  </div>
+                                )}
                               </button>
                             );
                           })}
-                        {DATA_PLANS[selectedNetwork].filter((p) => p.category === cat).length === 0 && (
+                        {dataPlans.filter((p) => p.category === cat).length === 0 && (
                           <div className="col-span-2 py-8 text-center text-muted-foreground text-sm">
-                            No plans available in this category
+                            {dataPlansLoading ? "Loading plans..." : "No plans available in this category"}
                           </div>
                         )}
                       </div>
@@ -617,13 +698,62 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
                     </span>
                   </div>
                 )}
+                {promo && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Promo ({promo.code}){" "}
+                      <button className="text-xs text-primary underline" onClick={() => setPromo(null)} disabled={isProcessing}>
+                        Remove
+                      </button>
+                    </span>
+                    <span className="text-green-600">-{formatCurrency(promo.discount)}</span>
+                  </div>
+                )}
+                {cashbackApplied > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Paid from cashback</span>
+                    <span className="text-green-600">-{formatCurrency(cashbackApplied)}</span>
+                  </div>
+                )}
                 <div className="border-t border-border pt-2 flex justify-between">
                   <span className="text-foreground font-medium">Total</span>
                   <span className="text-xl font-bold text-primary">
-                    {formatCurrency(purchaseAmount)}
+                    {formatCurrency(payableAmount - cashbackApplied)}
                   </span>
                 </div>
               </div>
+
+              {cashbackBalance > 0 && (
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-foreground">Use cashback</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(cashbackBalance)} available. Only the part paid from your wallet earns cashback.
+                    </p>
+                  </div>
+                  <Switch checked={payWithCashback} onCheckedChange={setPayWithCashback} disabled={isProcessing} />
+                </div>
+              )}
+
+              {!promo && (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Promo code"
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                    className="bg-secondary/50"
+                    disabled={isProcessing || isCheckingPromo}
+                    maxLength={32}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleApplyPromo}
+                    disabled={!promoInput.trim() || isProcessing || isCheckingPromo}
+                  >
+                    {isCheckingPromo ? <Loader2 className="w-4 h-4 animate-spin" /> : "Apply"}
+                  </Button>
+                </div>
+              )}
               
               {!amountValidation.valid && (
                 <Alert variant="destructive">
@@ -635,10 +765,10 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
               <Button
                 className="w-full"
                 size="lg"
-                disabled={!canPurchase || isProcessing}
+                disabled={!canPurchase || isProcessing || isQuoting}
                 onClick={handlePurchaseClick}
               >
-                {isProcessing ? (
+                {isProcessing || isQuoting ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     Processing...
@@ -658,7 +788,7 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
 
       {/* Confirmation Dialog */}
       <AnimatePresence>
-        {showConfirmation && (
+        {showConfirmation && quote && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -684,14 +814,39 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
                   <span className="text-muted-foreground">Network</span>
                   <span className="font-medium">{selectedNetwork}</span>
                 </div>
+                {quote.discount > 0 && (
+                  <div className="flex justify-between py-2 border-b border-border">
+                    <span className="text-muted-foreground">Promo discount</span>
+                    <span className="font-medium text-green-600">-{formatCurrency(quote.discount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between py-2 border-b border-border">
                   <span className="text-muted-foreground">Amount</span>
-                  <span className="font-bold text-primary">{formatCurrency(purchaseAmount)}</span>
+                  <span className="font-bold text-primary">{formatCurrency(quote.price)}</span>
                 </div>
+                {payWithCashback && cashbackBalance > 0 && (
+                  <div className="flex justify-between py-2 border-b border-border">
+                    <span className="text-muted-foreground">Paid from cashback</span>
+                    <span className="font-medium text-green-600">
+                      -{formatCurrency(Math.min(cashbackBalance, quote.price))}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between py-2">
                   <span className="text-muted-foreground">Balance After</span>
-                  <span className="font-medium">{formatCurrency(balance - purchaseAmount)}</span>
+                  <span className="font-medium">
+                    {formatCurrency(balance - quote.price + (payWithCashback ? Math.min(cashbackBalance, quote.price) : 0))}
+                  </span>
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  Price held until{" "}
+                  {new Date(quote.expiresAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                </p>
+              </div>
+
+              <div className="space-y-2 pt-2">
+                <p className="text-sm text-center text-muted-foreground">Enter your transaction PIN</p>
+                <TransactionPinInput value={pin} onChange={setPin} disabled={isProcessing} autoFocus />
               </div>
 
               <div className="flex gap-3 pt-4">
@@ -705,7 +860,7 @@ export function ManualPurchaseView({ onBack, initialType = "airtime" }: ManualPu
                 <Button
                   className="flex-1"
                   onClick={handlePurchase}
-                  disabled={isProcessing}
+                  disabled={isProcessing || pin.length !== 4}
                 >
                   {isProcessing ? (
                     <>
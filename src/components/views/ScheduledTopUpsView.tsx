@@ -1,13 +1,21 @@
 import { useState } from "react";
-import { ArrowLeft, Plus, Calendar, Clock, Smartphone, Wifi, MoreVertical, XCircle, Pause, Play } from "lucide-react";
+import {
+  ArrowLeft, Plus, Calendar, Clock, Smartphone, Wifi, MoreVertical, XCircle, Pause, Play, SkipForward, AlarmClock, CalendarClock,
+} from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuSub, DropdownMenuSubContent,
+  DropdownMenuSubTrigger, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useScheduledTopUps, ScheduledTopUp } from "@/hooks/useScheduledTopUps";
 import { formatCurrency } from "@/lib/constants";
 import { CreateScheduleSheet } from "@/components/scheduled/CreateScheduleSheet";
+import { RescheduleRunDialog } from "@/components/scheduled/RescheduleRunDialog";
+import { CashFlowStrip } from "@/components/scheduled/CashFlowStrip";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface ScheduledTopUpsViewProps {
   onBack: () => void;
@@ -29,11 +37,15 @@ const SCHEDULE_TYPE_LABELS: Record<string, string> = {
 
 const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-function formatScheduleDescription(schedule: ScheduledTopUp): string {
+const SNOOZE_HOURS = [1, 3, 12, 24];
+
+// Schedule times are shown in the user's timezone, the one the server runs them in
+function formatScheduleDescription(schedule: ScheduledTopUp, timeZone: string): string {
   if (schedule.schedule_type === "one_time" && schedule.scheduled_at) {
     return new Date(schedule.scheduled_at).toLocaleString("en-NG", {
       dateStyle: "medium",
       timeStyle: "short",
+      timeZone,
     });
   }
 
@@ -41,25 +53,39 @@ function formatScheduleDescription(schedule: ScheduledTopUp): string {
     ? new Date(`2000-01-01T${schedule.recurring_time}`).toLocaleTimeString("en-NG", { hour: "2-digit", minute: "2-digit" })
     : "";
 
-  if (schedule.schedule_type === "daily") return `Every day at ${time}`;
+  const n = schedule.recurring_interval || 1;
+  const every = (unit: string) => (n === 1 ? `every ${unit}` : `every ${n} ${unit}s`);
+
+  let description = "";
+  if (schedule.schedule_type === "daily") description = `${every("day")} at ${time}`;
   if (schedule.schedule_type === "weekly") {
-    const day = schedule.recurring_day_of_week !== null ? DAY_NAMES[schedule.recurring_day_of_week] : "";
-    return `Every ${day} at ${time}`;
+    const days = schedule.recurring_days_of_week?.length
+      ? schedule.recurring_days_of_week
+      : [schedule.recurring_day_of_week ?? 0];
+    description = `${every("week")} on ${days.map((d) => DAY_NAMES[d]).join(", ")} at ${time}`;
   }
   if (schedule.schedule_type === "monthly") {
     const day = schedule.recurring_day_of_month ?? 1;
-    const suffix = day === 1 ? "st" : day === 2 ? "nd" : day === 3 ? "rd" : "th";
-    return `${day}${suffix} of every month at ${time}`;
+    const suffix = day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th";
+    const on = schedule.recurring_month_rule === "last_business_day"
+      ? "last business day"
+      : schedule.recurring_month_rule === "payday" ? `${day}${suffix} (or Friday before)` : `${day}${suffix}`;
+    description = `${on} of ${every("month")} at ${time}`;
   }
-  return "";
+  if (description && schedule.ends_on) {
+    description += ` until ${new Date(`${schedule.ends_on}T00:00`).toLocaleDateString("en-NG", { dateStyle: "medium" })}`;
+  }
+  return description.charAt(0).toUpperCase() + description.slice(1);
 }
 
 export function ScheduledTopUpsView({ onBack }: ScheduledTopUpsViewProps) {
-  const { schedules, loading, cancelSchedule, updateSchedule } = useScheduledTopUps();
+  const { schedules, loading, cancelSchedule, updateSchedule, changeNextRun } = useScheduledTopUps();
   const [showCreate, setShowCreate] = useState(false);
 
   const activeSchedules = schedules.filter((s) => s.status === "active" || s.status === "paused");
   const pastSchedules = schedules.filter((s) => s.status === "completed" || s.status === "cancelled");
+  // Anything that changes what runs when
+  const forecastKey = activeSchedules.map((s) => `${s.id}:${s.status}:${s.amount}:${s.next_execution_at}`).join(",");
 
   const handleTogglePause = async (schedule: ScheduledTopUp) => {
     const newStatus = schedule.status === "paused" ? "active" : "paused";
@@ -95,6 +121,9 @@ export function ScheduledTopUpsView({ onBack }: ScheduledTopUpsViewProps) {
       </header>
 
       <main className="px-5 py-6 space-y-6">
+        {/* Projected cash flow */}
+        {activeSchedules.some((s) => s.status === "active") && <CashFlowStrip refreshKey={forecastKey} />}
+
         {/* Active Schedules */}
         <section>
           <h2 className="text-sm font-semibold text-muted-foreground mb-3 uppercase tracking-wider">
@@ -116,6 +145,7 @@ export function ScheduledTopUpsView({ onBack }: ScheduledTopUpsViewProps) {
                   schedule={schedule}
                   onCancel={() => cancelSchedule(schedule.id)}
                   onTogglePause={() => handleTogglePause(schedule)}
+                  onChangeNextRun={(action, options) => changeNextRun(schedule.id, action, options)}
                 />
               ))}
             </div>
@@ -146,11 +176,20 @@ function ScheduleCard({
   schedule,
   onCancel,
   onTogglePause,
+  onChangeNextRun,
 }: {
   schedule: ScheduledTopUp;
   onCancel?: () => void;
   onTogglePause?: () => void;
+  /** Skip, snooze or move only the next run */
+  onChangeNextRun?: (
+    action: "skip" | "snooze" | "reschedule",
+    options?: { hours?: number; to?: string },
+  ) => Promise<{ error: Error | null }>;
 }) {
+  const { profile } = useAuth();
+  const [showReschedule, setShowReschedule] = useState(false);
+  const timeZone = profile?.timezone || "Africa/Lagos";
   const statusStyle = STATUS_STYLES[schedule.status] || STATUS_STYLES.active;
   const isActive = schedule.status === "active" || schedule.status === "paused";
   const phoneLabel = schedule.phone_number || "Unknown";
@@ -194,6 +233,31 @@ function ScheduleCard({
                   )}
                 </DropdownMenuItem>
               )}
+              {onChangeNextRun && schedule.next_execution_at && (
+                <>
+                  {schedule.schedule_type !== "one_time" && (
+                    <DropdownMenuItem onClick={() => onChangeNextRun("skip")}>
+                      <SkipForward className="w-4 h-4 mr-2" /> Skip next run
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <AlarmClock className="w-4 h-4 mr-2" /> Snooze next run
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {SNOOZE_HOURS.map((hours) => (
+                        <DropdownMenuItem key={hours} onClick={() => onChangeNextRun("snooze", { hours })}>
+                          {hours === 1 ? "1 hour" : `${hours} hours`}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem onClick={() => setShowReschedule(true)}>
+                    <CalendarClock className="w-4 h-4 mr-2" /> Move next run…
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                </>
+              )}
               {onCancel && (
                 <DropdownMenuItem onClick={onCancel} className="text-destructive">
                   <XCircle className="w-4 h-4 mr-2" /> Cancel
@@ -209,7 +273,7 @@ function ScheduleCard({
           <Clock className="w-3 h-3" />
           <span>{SCHEDULE_TYPE_LABELS[schedule.schedule_type]}</span>
         </div>
-        <span>{formatScheduleDescription(schedule)}</span>
+        <span>{formatScheduleDescription(schedule, timeZone)}</span>
       </div>
 
       {schedule.max_executions && (
@@ -220,9 +284,34 @@ function ScheduleCard({
 
       {schedule.next_execution_at && isActive && (
         <p className="text-xs text-primary mt-2 font-medium">
-          Next: {new Date(schedule.next_execution_at).toLocaleString("en-NG", { dateStyle: "medium", timeStyle: "short" })}
+          Next: {new Date(schedule.next_execution_at).toLocaleString("en-NG", { dateStyle: "medium", timeStyle: "short", timeZone })}
+        </p>
+      )}
+
+      {schedule.retry_until && isActive && (
+        <p className="text-xs text-yellow-500 mt-1">
+          {schedule.held_since ? "Waiting for funds" : `Last run failed, retrying (attempt ${schedule.retry_attempt + 1})`}
+          {" "}until {new Date(schedule.retry_until).toLocaleString("en-NG", { dateStyle: "medium", timeStyle: "short", timeZone })}
         </p>
       )}
+
+      {schedule.plan_status && isActive && (
+        <p className="text-xs text-yellow-500 mt-1">
+          {schedule.plan_status === "discontinued"
+            ? "This data plan is no longer available, so runs will fail until you replace the schedule"
+            : "This data plan's price has changed since you scheduled it"}
+        </p>
+      )}
+
+      {onChangeNextRun && (
+        <RescheduleRunDialog
+          open={showReschedule}
+          onOpenChange={setShowReschedule}
+          runsAt={schedule.next_execution_at}
+          timeZone={timeZone}
+          onConfirm={(to) => onChangeNextRun("reschedule", { to })}
+        />
+      )}
     </Card>
   );
 }
@@ -11,10 +11,11 @@ import {
   HelpCircle,
   LogOut,
   Edit2,
+  KeyRound,
+  Gift,
 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -25,9 +26,18 @@ import {
 import { useAuth } from "@/contexts/AuthContext";
 import { PhoneNumberManagement } from "@/components/settings/PhoneNumberManagement";
 import { BudgetSettings } from "@/components/settings/BudgetSettings";
+import { TransactionPinSettings } from "@/components/settings/TransactionPinSettings";
+import { ReferralSettings } from "@/components/settings/ReferralSettings";
+import { NotificationSettings } from "@/components/settings/NotificationSettings";
+import { KycTierSummary } from "@/components/kyc/KycTierSummary";
 
 interface SettingsViewProps {
   onBack: () => void;
+  /** Open the PIN dialog in reset mode (arrived from the PIN reset email) */
+  pinReset?: boolean;
+  onPinResetDone?: () => void;
+  /** Opens the NIN verification flow */
+  onVerifyIdentity?: () => void;
 }
 
 // Helper to mask phone number for privacy display
@@ -49,11 +59,14 @@ function getInitials(name: string | null | undefined): string {
   return name[0].toUpperCase();
 }
 
-export function SettingsView({ onBack }: SettingsViewProps) {
+export function SettingsView({ onBack, pinReset = false, onPinResetDone, onVerifyIdentity }: SettingsViewProps) {
   const { profile, user, signOut, isKYCVerified } = useAuth();
-  const [notifications, setNotifications] = useState(true);
   const [budgetDialogOpen, setBudgetDialogOpen] = useState(false);
   const [phoneDialogOpen, setPhoneDialogOpen] = useState(false);
+  const [pinDialogOpen, setPinDialogOpen] = useState(pinReset);
+  const [kycDialogOpen, setKycDialogOpen] = useState(false);
+  const [referralDialogOpen, setReferralDialogOpen] = useState(false);
+  const [notificationDialogOpen, setNotificationDialogOpen] = useState(false);
 
   // Get user data from auth context
   const displayName = profile?.full_name || "User";
@@ -68,6 +81,8 @@ export function SettingsView({ onBack }: SettingsViewProps) {
         return { label: "Verified", color: "text-primary" };
       case "pending":
         return { label: "Pending", color: "text-yellow-500" };
+      case "in_review":
+        return { label: "In Review", color: "text-yellow-500" };
       case "rejected":
         return { label: "Rejected", color: "text-destructive" };
       default:
@@ -83,19 +98,28 @@ export function SettingsView({ onBack }: SettingsViewProps) {
       items: [
         { icon: User, label: "Profile", value: displayName, action: true },
         { icon: Smartphone, label: "Phone Numbers", value: "Manage", action: true, phoneDialog: true },
+        { icon: Gift, label: "Refer a Friend", value: profile?.referral_code ?? "", action: true, referralDialog: true },
       ],
     },
     {
       title: "Preferences",
       items: [
         { icon: Target, label: "Monthly Budget", value: "Manage", action: true, budgetDialog: true },
-        { icon: Bell, label: "Notifications", toggle: true, value: notifications },
+        { icon: Bell, label: "Notifications", value: "Manage", action: true, notificationDialog: true },
       ],
     },
     {
       title: "Security & KYC",
       items: [
-        { icon: Shield, label: "KYC Status", value: kycStatus.label, valueColor: kycStatus.color, action: !isKYCVerified },
+        {
+          icon: Shield,
+          label: "KYC Status",
+          value: `${kycStatus.label} · Tier ${profile?.kyc_tier ?? 1}`,
+          valueColor: kycStatus.color,
+          action: true,
+          kycDialog: true,
+        },
+        { icon: KeyRound, label: "Transaction PIN", value: "Manage", action: true, pinDialog: true },
       ],
     },
     {
@@ -224,19 +248,119 @@ export function SettingsView({ onBack }: SettingsViewProps) {
                         <PhoneNumberManagement />
                       </DialogContent>
                     </Dialog>
-                  ) : item.toggle ? (
-                    <div className="flex items-center justify-between p-4">
-                      <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center">
-                          <item.icon className="w-5 h-5 text-foreground" />
-                        </div>
-                        <span className="font-medium text-foreground">{item.label}</span>
-                      </div>
-                      <Switch
-                        checked={item.value as boolean}
-                        onCheckedChange={setNotifications}
-                      />
-                    </div>
+                  ) : "referralDialog" in item ? (
+                    <Dialog open={referralDialogOpen} onOpenChange={setReferralDialogOpen}>
+                      <DialogTrigger asChild>
+                        <button className="w-full flex items-center justify-between p-4 hover:bg-secondary/50 transition-colors">
+                          <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center">
+                              <item.icon className="w-5 h-5 text-foreground" />
+                            </div>
+                            <span className="font-medium text-foreground">{item.label}</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground">{item.value}</span>
+                            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        </button>
+                      </DialogTrigger>
+                      <DialogContent className="bg-card border-border max-w-md max-h-[85vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>Refer a Friend</DialogTitle>
+                        </DialogHeader>
+                        <ReferralSettings />
+                      </DialogContent>
+                    </Dialog>
+                  ) : "pinDialog" in item ? (
+                    <Dialog
+                      open={pinDialogOpen}
+                      onOpenChange={(open) => {
+                        setPinDialogOpen(open);
+                        if (!open && pinReset) onPinResetDone?.();
+                      }}
+                    >
+                      <DialogTrigger asChild>
+                        <button className="w-full flex items-center justify-between p-4 hover:bg-secondary/50 transition-colors">
+                          <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center">
+                              <item.icon className="w-5 h-5 text-foreground" />
+                            </div>
+                            <span className="font-medium text-foreground">{item.label}</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground">{item.value}</span>
+                            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        </button>
+                      </DialogTrigger>
+                      <DialogContent className="bg-card border-border max-w-md max-h-[85vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>{pinReset ? "Reset Transaction PIN" : "Transaction PIN"}</DialogTitle>
+                        </DialogHeader>
+                        <TransactionPinSettings
+                          resetMode={pinReset}
+                          onDone={() => {
+                            setPinDialogOpen(false);
+                            if (pinReset) onPinResetDone?.();
+                          }}
+                        />
+                      </DialogContent>
+                    </Dialog>
+                  ) : "kycDialog" in item ? (
+                    <Dialog open={kycDialogOpen} onOpenChange={setKycDialogOpen}>
+                      <DialogTrigger asChild>
+                        <button className="w-full flex items-center justify-between p-4 hover:bg-secondary/50 transition-colors">
+                          <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center">
+                              <item.icon className="w-5 h-5 text-foreground" />
+                            </div>
+                            <span className="font-medium text-foreground">{item.label}</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className={`text-sm ${item.valueColor}`}>{item.value}</span>
+                            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        </button>
+                      </DialogTrigger>
+                      <DialogContent className="bg-card border-border max-w-md max-h-[85vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>Account Limits</DialogTitle>
+                        </DialogHeader>
+                        <KycTierSummary
+                          onVerifyIdentity={
+                            onVerifyIdentity && !isKYCVerified
+                              ? () => {
+                                  setKycDialogOpen(false);
+                                  onVerifyIdentity();
+                                }
+                              : undefined
+                          }
+                        />
+                      </DialogContent>
+                    </Dialog>
+                  ) : "notificationDialog" in item ? (
+                    <Dialog open={notificationDialogOpen} onOpenChange={setNotificationDialogOpen}>
+                      <DialogTrigger asChild>
+                        <button className="w-full flex items-center justify-between p-4 hover:bg-secondary/50 transition-colors">
+                          <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center">
+                              <item.icon className="w-5 h-5 text-foreground" />
+                            </div>
+                            <span className="font-medium text-foreground">{item.label}</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground">{item.value}</span>
+                            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        </button>
+                      </DialogTrigger>
+                      <DialogContent className="bg-card border-border max-w-md max-h-[85vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>Notifications</DialogTitle>
+                        </DialogHeader>
+                        <NotificationSettings />
+                      </DialogContent>
+                    </Dialog>
                   ) : (
                     <button className="w-full flex items-center justify-between p-4 hover:bg-secondary/50 transition-colors">
                       <div className="flex items-center gap-3">
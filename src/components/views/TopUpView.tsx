@@ -6,9 +6,9 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useWallet, AutoTopUpRule } from "@/contexts/WalletContext";
 import { usePhoneNumbers, DisplayPhoneNumber } from "@/contexts/PhoneNumberContext";
+import { useDataPlans } from "@/hooks/useDataPlans";
+import { useAirtimePlans } from "@/hooks/useAirtimePlans";
 import {
-  AIRTIME_PLANS,
-  DATA_PLANS,
   DATA_PLAN_CATEGORIES,
   NETWORK_PROVIDERS,
   formatCurrency,
@@ -31,6 +31,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { TransactionPinInput } from "@/components/wallet/TransactionPinInput";
 
 interface TopUpViewProps {
   onBack: () => void;
@@ -45,16 +46,24 @@ export function TopUpView({ onBack }: TopUpViewProps) {
   const [selectedPlan, setSelectedPlan] = useState<AirtimePlan | DataPlan | null>(null);
   const [dataCategory, setDataCategory] = useState<typeof DATA_PLAN_CATEGORIES[number]>("HOT");
   const [isCreating, setIsCreating] = useState(false);
+  const [pin, setPin] = useState("");
 
   const { autoTopUpRules, createAutoTopUpRule, deleteAutoTopUpRule, toggleAutoTopUpRule } = useWallet();
   const { allPhoneNumbers } = usePhoneNumbers();
+  const { plans: dataPlans } = useDataPlans(selectedNetwork);
+  const { plans: airtimePlans } = useAirtimePlans(selectedNetwork);
+
+  const selectedPhone = allPhoneNumbers.find((p) => (selectedPhoneId ? p.id === selectedPhoneId : p.is_primary));
+  const phoneUnverified = !!selectedPhone && !selectedPhone.is_verified;
 
   const handleCreateRule = async () => {
-    if (!selectedPlan) return;
+    if (!selectedPlan || pin.length !== 4 || phoneUnverified) return;
     
     setIsCreating(true);
-    await createAutoTopUpRule(ruleType, threshold, selectedPlan.finalPrice, selectedPhoneId);
+    const { error } = await createAutoTopUpRule(ruleType, threshold, selectedPlan.finalPrice, pin, selectedPhoneId, selectedNetwork, selectedPlan.id);
     setIsCreating(false);
+    setPin("");
+    if (error) return;
     setShowCreateDialog(false);
     resetForm();
   };
@@ -66,6 +75,7 @@ export function TopUpView({ onBack }: TopUpViewProps) {
     setThreshold(20);
     setSelectedPlan(null);
     setDataCategory("HOT");
+    setPin("");
   };
 
   const getPhoneLabel = (rule: AutoTopUpRule): string => {
@@ -269,10 +279,16 @@ export function TopUpView({ onBack }: TopUpViewProps) {
                   {allPhoneNumbers.map((phone) => (
                     <SelectItem key={phone.id || "primary"} value={phone.id || "primary"}>
                       {phone.phone_number} ({phone.label || phone.network_provider || "Primary"})
+                      {!phone.is_verified && " · unverified"}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {phoneUnverified && (
+                <p className="text-xs text-destructive">
+                  Verify this number in Settings → Phone Numbers before setting up auto top-up.
+                </p>
+              )}
             </div>
 
             {/* Network Selection */}
@@ -321,7 +337,7 @@ export function TopUpView({ onBack }: TopUpViewProps) {
               <div className="space-y-2">
                 <label className="text-sm font-medium text-foreground">Top-Up Amount</label>
                 <div className="grid grid-cols-3 gap-2">
-                  {AIRTIME_PLANS.map((plan) => (
+                  {airtimePlans.map((plan) => (
                     <button
                       key={plan.id}
                       onClick={() => setSelectedPlan(plan)}
@@ -352,7 +368,7 @@ export function TopUpView({ onBack }: TopUpViewProps) {
                   {DATA_PLAN_CATEGORIES.map((cat) => (
                     <TabsContent key={cat} value={cat} className="mt-2">
                       <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
-                        {DATA_PLANS[selectedNetwork]
+                        {dataPlans
                           .filter((plan) => plan.category === cat)
                           .map((plan) => (
                             <button
@@ -376,10 +392,19 @@ export function TopUpView({ onBack }: TopUpViewProps) {
               </div>
             )}
 
+            {/* PIN authorization — the rule later runs without asking */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Transaction PIN</label>
+              <TransactionPinInput value={pin} onChange={setPin} disabled={isCreating} />
+              <p className="text-xs text-muted-foreground text-center">
+                Authorizes this rule to top up automatically without asking again.
+              </p>
+            </div>
+
             {/* Create Button */}
             <Button
               className="w-full"
-              disabled={!selectedPlan || isCreating}
+              disabled={!selectedPlan || pin.length !== 4 || phoneUnverified || isCreating}
               onClick={handleCreateRule}
             >
               {isCreating ? "Creating..." : "Create Rule"}
@@ -1,5 +1,5 @@
 import { motion } from "framer-motion";
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { ChevronLeft, Plus, ArrowDownLeft, ArrowUpRight, CreditCard, Building2, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -12,38 +12,58 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { useWallet } from "@/contexts/WalletContext";
+import { useKycLimits } from "@/hooks/useKycLimits";
+import { VirtualAccountCard } from "@/components/wallet/VirtualAccountCard";
+import type { FundingChannel } from "@/api/wallets";
 import { PAYMENT_LIMITS, validateTopUp, formatCurrency } from "@/lib/constants";
 
 interface WalletViewProps {
   onBack: () => void;
+  /** Open Add Funds prefilled with this amount (e.g. what scheduled top-ups are short by) */
+  prefillAmount?: number | null;
+  onPrefillUsed?: () => void;
 }
 
 const quickAmounts = [5000, 10000, 20000, 50000, 100000];
 
-export function WalletView({ onBack }: WalletViewProps) {
+/** Labels for settled non-completed statuses; everything else in flight shows as "Pending". */
+const statusLabels: Record<string, string> = { failed: "Failed", refunded: "Refunded" };
+
+export function WalletView({ onBack, prefillAmount, onPrefillUsed }: WalletViewProps) {
   const { wallet, transactions, fundWallet } = useWallet();
+  const { currentTier } = useKycLimits();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [fundAmount, setFundAmount] = useState("");
+  const [channel, setChannel] = useState<FundingChannel>("card");
   const [isLoading, setIsLoading] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
 
   const balance = wallet?.balance || 0;
-  const maxAllowedTopUp = PAYMENT_LIMITS.MAX_WALLET_BALANCE - balance;
+  const maxBalance = currentTier?.max_balance ?? PAYMENT_LIMITS.MAX_WALLET_BALANCE;
+  const maxAllowedTopUp = Math.max(0, maxBalance - balance);
 
-  const handleAmountChange = (value: string) => {
+  const handleAmountChange = useCallback((value: string) => {
     setFundAmount(value);
     const amount = Number(value);
     if (amount > 0) {
-      const validation = validateTopUp(amount, balance);
+      const validation = validateTopUp(amount, balance, maxBalance);
       setValidationError(validation.valid ? null : validation.error || null);
     } else {
       setValidationError(null);
     }
-  };
+  }, [balance, maxBalance]);
+
+  useEffect(() => {
+    if (!prefillAmount) return;
+    // Top-ups have a minimum, which may be more than what's needed
+    handleAmountChange(String(Math.max(Math.ceil(prefillAmount), PAYMENT_LIMITS.MIN_TOPUP_AMOUNT)));
+    setIsDialogOpen(true);
+    onPrefillUsed?.();
+  }, [prefillAmount, handleAmountChange, onPrefillUsed]);
 
   const handleFund = async () => {
     const amount = Number(fundAmount);
-    const validation = validateTopUp(amount, balance);
+    const validation = validateTopUp(amount, balance, maxBalance);
     
     if (!validation.valid) {
       setValidationError(validation.error || "Invalid amount");
@@ -51,13 +71,10 @@ export function WalletView({ onBack }: WalletViewProps) {
     }
 
     setIsLoading(true);
-    const { error } = await fundWallet(amount);
-    setIsLoading(false);
-
-    if (!error) {
-      setIsDialogOpen(false);
-      setFundAmount("");
-      setValidationError(null);
+    // On success the browser is redirected to the gateway checkout
+    const { error } = await fundWallet(amount, channel);
+    if (error) {
+      setIsLoading(false);
     }
   };
 
@@ -141,7 +158,8 @@ export function WalletView({ onBack }: WalletViewProps) {
                     {/* Limits Info */}
                     <Card variant="gradient" className="p-3 border-primary/30">
                       <p className="text-xs text-muted-foreground">
-                        Min: {formatCurrency(PAYMENT_LIMITS.MIN_TOPUP_AMOUNT)} • Max Balance: {formatCurrency(PAYMENT_LIMITS.MAX_WALLET_BALANCE)}
+                        Min: {formatCurrency(PAYMENT_LIMITS.MIN_TOPUP_AMOUNT)} • Max Balance: {formatCurrency(maxBalance)}
+                        {currentTier && ` (${currentTier.name})`}
                       </p>
                     </Card>
 
@@ -162,7 +180,7 @@ export function WalletView({ onBack }: WalletViewProps) {
                           {validationError}
                         </p>
                       )}
-                      {maxAllowedTopUp < PAYMENT_LIMITS.MAX_WALLET_BALANCE && !validationError && (
+                      {maxAllowedTopUp < maxBalance && !validationError && (
                         <p className="text-xs text-muted-foreground mt-1">
                           You can add up to {formatCurrency(maxAllowedTopUp)} more
                         </p>
@@ -198,12 +216,20 @@ export function WalletView({ onBack }: WalletViewProps) {
                         Payment Method
                       </label>
                       <div className="grid grid-cols-2 gap-2">
-                        <Card variant="gradient" className="p-4 cursor-pointer border-primary ring-2 ring-primary/30">
-                          <CreditCard className="w-6 h-6 text-primary mx-auto mb-2" />
+                        <Card
+                          variant="gradient"
+                          onClick={() => setChannel("card")}
+                          className={`p-4 cursor-pointer ${channel === "card" ? "border-primary ring-2 ring-primary/30" : "hover:border-primary/50"}`}
+                        >
+                          <CreditCard className={`w-6 h-6 mx-auto mb-2 ${channel === "card" ? "text-primary" : "text-muted-foreground"}`} />
                           <span className="text-xs font-medium text-center block">Card Payment</span>
                         </Card>
-                        <Card variant="gradient" className="p-4 cursor-pointer hover:border-primary/50">
-                          <Building2 className="w-6 h-6 text-muted-foreground mx-auto mb-2" />
+                        <Card
+                          variant="gradient"
+                          onClick={() => setChannel("bank_transfer")}
+                          className={`p-4 cursor-pointer ${channel === "bank_transfer" ? "border-primary ring-2 ring-primary/30" : "hover:border-primary/50"}`}
+                        >
+                          <Building2 className={`w-6 h-6 mx-auto mb-2 ${channel === "bank_transfer" ? "text-primary" : "text-muted-foreground"}`} />
                           <span className="text-xs font-medium text-center block">Bank Transfer</span>
                         </Card>
                       </div>
@@ -214,7 +240,7 @@ export function WalletView({ onBack }: WalletViewProps) {
                       disabled={!fundAmount || !!validationError || isLoading}
                       className="w-full"
                     >
-                      {isLoading ? "Processing..." : `Fund ${fundAmount ? formatCurrency(Number(fundAmount)) : "₦0"}`}
+                      {isLoading ? "Redirecting to payment..." : `Fund ${fundAmount ? formatCurrency(Number(fundAmount)) : "₦0"}`}
                     </Button>
                   </div>
                 </DialogContent>
@@ -223,6 +249,9 @@ export function WalletView({ onBack }: WalletViewProps) {
           </Card>
         </motion.div>
 
+        {/* Dedicated Bank Account */}
+        <VirtualAccountCard />
+
         {/* Transaction History */}
         <div>
           <h3 className="font-semibold text-foreground mb-4">Recent Transactions</h3>
@@ -257,7 +286,10 @@ export function WalletView({ onBack }: WalletViewProps) {
                           </div>
                           <div>
                             <p className="font-medium text-foreground text-sm">{display.description}</p>
-                            <p className="text-xs text-muted-foreground">{formatDate(tx.created_at)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDate(tx.created_at)}
+                              {tx.status !== "completed" && ` • ${statusLabels[tx.status] || "Pending"}`}
+                            </p>
                           </div>
                         </div>
                         <span className={`font-semibold ${
@@ -0,0 +1,53 @@
+import { useContext } from "react";
+import { OTPInputContext, REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup } from "@/components/ui/input-otp";
+import { cn } from "@/lib/utils";
+
+interface TransactionPinInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+/** One PIN box; shows a dot instead of the digit. */
+function MaskedSlot({ index }: { index: number }) {
+  const { slots } = useContext(OTPInputContext);
+  const { char, isActive } = slots[index];
+
+  return (
+    <div
+      className={cn(
+        "flex h-12 w-12 items-center justify-center rounded-xl border border-input bg-secondary/50 text-2xl text-foreground transition-all",
+        isActive && "ring-2 ring-ring ring-offset-background",
+      )}
+    >
+      {char ? "•" : ""}
+    </div>
+  );
+}
+
+/**
+ * Masked 4-digit entry for the transaction PIN, used wherever a purchase or
+ * automatic top-up has to be authorized.
+ */
+export function TransactionPinInput({ value, onChange, disabled, autoFocus }: TransactionPinInputProps) {
+  return (
+    <InputOTP
+      maxLength={4}
+      value={value}
+      onChange={onChange}
+      pattern={REGEXP_ONLY_DIGITS}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      inputMode="numeric"
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup className="gap-3">
+        {[0, 1, 2, 3].map((i) => (
+          <MaskedSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
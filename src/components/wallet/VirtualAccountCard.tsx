@@ -0,0 +1,78 @@
+import { motion } from "framer-motion";
+import { useState } from "react";
+import { Landmark, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/contexts/WalletContext";
+
+/**
+ * Shows the wallet's dedicated bank account. Transfers into it credit the
+ * wallet automatically, so it is offered alongside checkout funding.
+ */
+export function VirtualAccountCard() {
+  const { wallet, requestVirtualAccount } = useWallet();
+  const { toast } = useToast();
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const accountNumber = wallet?.virtual_account_number;
+
+  const handleRequest = async () => {
+    setIsRequesting(true);
+    await requestVirtualAccount();
+    setIsRequesting(false);
+  };
+
+  const handleCopy = async () => {
+    if (!accountNumber) return;
+    try {
+      await navigator.clipboard.writeText(accountNumber);
+      toast({ title: "Copied!", description: "Account number copied to clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy to clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+    >
+      <Card variant="gradient" className="p-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/20 text-primary flex items-center justify-center">
+            <Landmark className="w-5 h-5" />
+          </div>
+          {accountNumber ? (
+            <>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-muted-foreground">{wallet?.virtual_account_bank}</p>
+                <p className="font-semibold text-foreground text-lg tracking-wider">{accountNumber}</p>
+                <p className="text-xs text-muted-foreground truncate">{wallet?.virtual_account_name}</p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={handleCopy} aria-label="Copy account number">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="flex-1">
+                <p className="font-medium text-foreground text-sm">Fund by bank transfer</p>
+                <p className="text-xs text-muted-foreground">Get a personal account number that tops up your wallet</p>
+              </div>
+              <Button size="sm" onClick={handleRequest} disabled={isRequesting}>
+                {isRequesting ? "Getting..." : "Get account number"}
+              </Button>
+            </>
+          )}
+        </div>
+        {accountNumber && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Transfers to this account are added to your wallet automatically.
+          </p>
+        )}
+      </Card>
+    </motion.div>
+  );
+}
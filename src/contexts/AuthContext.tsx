@@ -9,7 +9,7 @@
 
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { clearAllAuthData } from "@/lib/sessionOnlyStorage";
-import { authService, userService } from "@/api";
+import { authService, userService, referralService } from "@/api";
 import type { User, Session } from "@/api/auth";
 
 /**
@@ -22,8 +22,15 @@ export interface Profile {
   phone_verified: boolean;
   network_provider: string | null;
   full_name: string | null;
-  kyc_status: "pending" | "verified" | "rejected";
+  /** "in_review" while an admin checks a partial BVN name match */
+  kyc_status: "pending" | "in_review" | "verified" | "rejected";
   kyc_verified_at: string | null;
+  /** KYC tier (1–3); sets the user's balance and spend limits */
+  kyc_tier: number;
+  /** IANA timezone scheduled top-up times are set in (default Africa/Lagos) */
+  timezone: string;
+  /** Code others sign up with to be referred by this user */
+  referral_code: string;
 }
 
 interface AuthContextType {
@@ -31,11 +38,14 @@ interface AuthContextType {
   session: Session | null;
   profile: Profile | null;
   loading: boolean;
-  signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, fullName: string, referralCode?: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
   updateProfile: (data: Partial<Profile>) => Promise<{ error: Error | null }>;
+  /** Re-reads the profile, e.g. after the server verified the phone number */
+  refreshProfile: () => Promise<void>;
   submitKYC: (ninNumber: string) => Promise<{ error: Error | null }>;
+  submitBVN: (bvn: string) => Promise<{ error: Error | null }>;
   isKYCVerified: boolean;
 }
 
@@ -77,10 +87,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   useEffect(() => {
     // Subscribe to auth state changes via service layer
-    const unsubscribe = authService.onAuthStateChange((_event, session) => {
+    const unsubscribe = authService.onAuthStateChange((event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
 
+      if (event === "SIGNED_IN" && session?.user) {
+        // Deferred like the profile fetch: no Supabase calls inside the callback
+        setTimeout(() => {
+          referralService.recordDevice();
+        }, 0);
+      }
+
       if (session?.user) {
         setTimeout(() => {
           fetchProfile(session.user.id).then(setProfile);
@@ -103,9 +120,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return unsubscribe;
   }, []);
 
-  const signUp = async (email: string, password: string, fullName: string) => {
+  const signUp = async (email: string, password: string, fullName: string, referralCode?: string) => {
     try {
-      const { error } = await authService.registerUser(email, password, fullName);
+      const { error } = await authService.registerUser(email, password, fullName, referralCode);
       return { error };
     } catch (error) {
       return { error: normalizeAuthError(error) };
@@ -138,6 +155,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return { error };
   };
 
+  const refreshProfile = async () => {
+    if (!user) return;
+    setProfile(await fetchProfile(user.id));
+  };
+
   const submitKYC = async (ninNumber: string) => {
     if (!user) return { error: new Error("No user logged in") };
     try {
@@ -147,6 +169,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           ...profile,
           kyc_status: data.status,
           kyc_verified_at: data.verifiedAt,
+          kyc_tier: data.kycTier ?? profile.kyc_tier,
         });
       }
       return { error: null };
@@ -155,6 +178,19 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const submitBVN = async (bvn: string) => {
+    if (!user) return { error: new Error("No user logged in") };
+    try {
+      await userService.submitBVNVerification(bvn);
+      // The server decides between verified and in_review (and keeps an existing
+      // NIN verification), so re-read rather than guess
+      setProfile(await fetchProfile(user.id));
+      return { error: null };
+    } catch (err) {
+      return { error: err as Error };
+    }
+  };
+
   const isKYCVerified = profile?.kyc_status === "verified";
 
   return (
@@ -168,7 +204,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         signIn,
         signOut,
         updateProfile: updateProfileHandler,
+        refreshProfile,
         submitKYC,
+        submitBVN,
         isKYCVerified,
       }}
     >
@@ -34,7 +34,7 @@ interface PhoneNumberContextType {
   phoneNumbers: PhoneNumber[];
   allPhoneNumbers: DisplayPhoneNumber[];
   loading: boolean;
-  addPhoneNumber: (phone: string, network: string | null, label?: string) => Promise<{ error: Error | null }>;
+  addPhoneNumber: (phone: string, network: string | null, label?: string) => Promise<{ error: Error | null; id?: string }>;
   updatePhoneNumber: (id: string, updates: Partial<PhoneNumber>) => Promise<{ error: Error | null }>;
   deletePhoneNumber: (id: string) => Promise<{ error: Error | null }>;
   refreshPhoneNumbers: () => Promise<void>;
@@ -108,22 +108,22 @@ export const PhoneNumberProvider = ({ children }: { children: ReactNode }) => {
     phone: string,
     network: string | null,
     label?: string
-  ): Promise<{ error: Error | null }> => {
+  ): Promise<{ error: Error | null; id?: string }> => {
     if (!user) return { error: new Error("No user logged in") };
     if (!canAddMore) return { error: new Error("Maximum phone numbers reached") };
 
-    const { error } = await userService.addPhoneNumber({
+    // Starts unverified; the number is verified by SMS code afterwards
+    const { data, error } = await userService.addPhoneNumber({
       user_id: user.id,
       phone_number: phone,
       network_provider: network,
       label: label || null,
-      is_verified: true,
     });
 
     if (!error) {
       await fetchPhoneNumbers();
     }
-    return { error: error as Error | null };
+    return { error: error as Error | null, id: data?.id };
   };
 
   const updatePhoneNumber = async (
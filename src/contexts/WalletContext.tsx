@@ -3,13 +3,22 @@ import { useAuth } from "./AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { PAYMENT_LIMITS, validateTopUp, formatCurrency } from "@/lib/constants";
 import { validateNigerianPhoneNumber, validatePurchaseAmount, parseApiError } from "@/lib/validation";
-import { walletService, transactionService } from "@/api";
+import { walletService, transactionService, pinService } from "@/api";
+import type { FundingChannel } from "@/api/wallets";
+import { PinError } from "@/api/pin";
+import { KycLimitError } from "@/api/users";
+import { QuoteError, type PriceQuote } from "@/api/pricing";
 
 interface Wallet {
   id: string;
   user_id: string;
   balance: number;
+  /** Earned on purchases; spendable towards purchases but not withdrawable */
+  cashback_balance: number;
   currency: string;
+  virtual_account_number: string | null;
+  virtual_account_name: string | null;
+  virtual_account_bank: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -37,6 +46,12 @@ export interface AutoTopUpRule {
   topup_amount: number;
   is_enabled: boolean;
   phone_number_id: string | null;
+  network: string | null;
+  plan_id: string | null;
+  cooldown_minutes: number;
+  last_triggered_at: string | null;
+  /** Set once the rule is authorized with the user's PIN; unauthorized rules never fire */
+  pin_authorized_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -47,9 +62,11 @@ interface WalletContextType {
   autoTopUpRules: AutoTopUpRule[];
   loading: boolean;
   refreshWallet: () => Promise<void>;
-  fundWallet: (amount: number, reference?: string) => Promise<{ error: Error | null }>;
-  purchaseAirtimeOrData: (type: "airtime" | "data", amount: number, phoneNumber: string, phoneNumberId: string | null, network?: string, planId?: string) => Promise<{ error: Error | null; transactionId?: string }>;
-  createAutoTopUpRule: (type: "data" | "airtime", threshold: number, amount: number, phoneNumberId?: string | null) => Promise<{ error: Error | null }>;
+  fundWallet: (amount: number, channel: FundingChannel) => Promise<{ error: Error | null }>;
+  confirmFunding: (reference: string) => Promise<{ error: Error | null; status?: string }>;
+  requestVirtualAccount: () => Promise<{ error: Error | null }>;
+  purchaseAirtimeOrData: (quote: PriceQuote, phoneNumber: string, phoneNumberId: string | null, pin: string, useCashback?: boolean) => Promise<{ error: Error | null; transactionId?: string }>;
+  createAutoTopUpRule: (type: "data" | "airtime", threshold: number, amount: number, pin: string, phoneNumberId?: string | null, network?: string, planId?: string) => Promise<{ error: Error | null }>;
   updateAutoTopUpRule: (id: string, updates: Partial<AutoTopUpRule>) => Promise<{ error: Error | null }>;
   deleteAutoTopUpRule: (id: string) => Promise<{ error: Error | null }>;
   toggleAutoTopUpRule: (id: string) => Promise<{ error: Error | null }>;
@@ -81,7 +98,7 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
       return;
     }
     if (data) {
-      setWallet({ ...data, balance: Number(data.balance) });
+      setWallet({ ...data, balance: Number(data.balance), cashback_balance: Number(data.cashback_balance) });
     }
   };
 
@@ -139,7 +156,11 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [user]);
 
-  const fundWallet = async (amount: number, reference?: string) => {
+  /**
+   * Start funding through the payment gateway. On success the browser is sent
+   * to the gateway checkout, which redirects back to `/?funding=callback`.
+   */
+  const fundWallet = async (amount: number, channel: FundingChannel) => {
     if (!user || !wallet) return { error: new Error("No wallet available") };
 
     const validation = validateTopUp(amount, wallet.balance);
@@ -149,12 +170,12 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     }
 
     try {
-      const result = await walletService.fundWallet(amount, reference);
-      if (!result?.success) {
-        throw new Error(result?.error || "Failed to fund wallet");
+      const callbackUrl = `${window.location.origin}/?funding=callback`;
+      const result = await walletService.initializeFunding(amount, channel, callbackUrl);
+      if (!result?.success || !result.authorizationUrl) {
+        throw new Error(result?.error || "Failed to start payment");
       }
-      await refreshWallet();
-      toast({ title: "Wallet Funded", description: `${formatCurrency(amount)} has been added to your wallet.` });
+      window.location.assign(result.authorizationUrl);
       return { error: null };
     } catch (error) {
       console.error("Error funding wallet:", error);
@@ -164,25 +185,76 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  /**
+   * Confirm a deposit after the gateway redirects back. Safe to call more than
+   * once — the server credits each deposit at most once.
+   */
+  const confirmFunding = async (reference: string) => {
+    try {
+      const result = await walletService.verifyFunding(reference);
+      if (!result?.success) {
+        throw new Error(result?.error || "Could not confirm payment");
+      }
+
+      await refreshWallet();
+      const amount = formatCurrency(result.amount || 0);
+      if (result.status === "completed") {
+        toast({ title: "Wallet Funded", description: `${amount} has been added to your wallet.` });
+      } else if (result.status === "failed") {
+        toast({ title: "Payment Failed", description: "Your payment was not completed. No money was added.", variant: "destructive" });
+      } else {
+        toast({ title: "Payment Processing", description: `We'll credit ${amount} as soon as the payment is confirmed.` });
+      }
+      return { error: null, status: result.status };
+    } catch (error) {
+      console.error("Error confirming funding:", error);
+      const errorMessage = error instanceof Error ? error.message : "Could not confirm payment";
+      toast({ title: "Funding Failed", description: errorMessage, variant: "destructive" });
+      return { error: error instanceof Error ? error : new Error(errorMessage) };
+    }
+  };
+
+  /**
+   * Reserve the wallet's dedicated bank account for transfer funding. A no-op
+   * server-side if the wallet already has one.
+   */
+  const requestVirtualAccount = async () => {
+    try {
+      const result = await walletService.getVirtualAccount();
+      if (!result?.success) {
+        throw new Error(result?.error || "Could not get an account number");
+      }
+      await fetchWallet();
+      return { error: null };
+    } catch (error) {
+      console.error("Error reserving virtual account:", error);
+      const errorMessage = error instanceof Error ? error.message : "Could not get an account number";
+      toast({ title: "Account Unavailable", description: errorMessage, variant: "destructive" });
+      return { error: error instanceof Error ? error : new Error(errorMessage) };
+    }
+  };
+
   /**
    * Purchase airtime or data through the transaction-safe edge function.
    *
    * The edge function handles the entire lifecycle atomically:
-   * 1. Generates idempotent reference
-   * 2. Locks wallet & deducts balance (SELECT FOR UPDATE)
+   * 1. Generates idempotent reference and checks the price quote, charging
+   *    exactly its price; an expired or used quote is refused (QuoteError)
+   * 2. Locks wallet & deducts balance (SELECT FOR UPDATE), spending the
+   *    cashback balance first when `useCashback` is set
    * 3. Creates transaction record (INITIATED → PROCESSING)
    * 4. Calls Payflex API with retry (3 attempts, exponential backoff)
-   * 5. On success: marks COMPLETED, records spending & budget
-   * 6. On failure: auto-refunds wallet, marks FAILED
+   * 5. On success: marks COMPLETED, records spending & budget; cashback
+   *    is earned as the purchase completes
+   * 6. On failure: auto-refunds wallet and spent cashback, marks FAILED
    * 7. On ambiguous: marks PENDING_VERIFICATION
    */
   const purchaseAirtimeOrData = async (
-    type: "airtime" | "data",
-    amount: number,
+    quote: PriceQuote,
     phoneNumber: string,
     phoneNumberId: string | null,
-    network?: string,
-    planId?: string
+    pin: string,
+    useCashback = false
   ): Promise<{ error: Error | null; transactionId?: string }> => {
     if (!user || !wallet) {
       toast({ title: "Error", description: "Wallet not found. Please refresh and try again.", variant: "destructive" });
@@ -196,23 +268,24 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
       return { error: new Error(phoneValidation.error || "Invalid phone number") };
     }
 
-    const amountValidation = validatePurchaseAmount(amount, wallet.balance, type);
+    const type = quote.type;
+    const spendable = wallet.balance + (useCashback ? wallet.cashback_balance : 0);
+    const amountValidation = validatePurchaseAmount(quote.price, spendable, type);
     if (!amountValidation.valid) {
       toast({ title: "Invalid Amount", description: amountValidation.error, variant: "destructive" });
       return { error: new Error(amountValidation.error || "Invalid amount") };
     }
 
     const cleanedPhone = phoneValidation.cleanedNumber;
-    const detectedNetwork = network || phoneValidation.detectedNetwork || "MTN";
 
     try {
       // Single edge function call handles everything: wallet lock, deduction,
       // provider call with retry, refund on failure, spending tracking
       const result = await walletService.executePurchase(type, {
         phoneNumber: cleanedPhone,
-        amount,
-        network: detectedNetwork.toLowerCase(),
-        planId,
+        quoteId: quote.id,
+        pin,
+        useCashback,
       });
 
       await refreshWallet();
@@ -220,7 +293,7 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
       if (result?.success) {
         toast({
           title: "Purchase Successful! 🎉",
-          description: `${formatCurrency(amount)} ${type} sent to ${cleanedPhone}`,
+          description: `${formatCurrency(quote.amount ?? quote.price)} ${type} sent to ${cleanedPhone}`,
         });
         return { error: null, transactionId: result.transactionId };
       }
@@ -245,6 +318,21 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
       return { error: new Error(errorMsg), transactionId: result?.transactionId };
 
     } catch (error) {
+      if (error instanceof PinError) {
+        toast({ title: error.code === "PIN_NOT_SET" ? "Transaction PIN Required" : "PIN Not Accepted", description: error.message, variant: "destructive" });
+        return { error };
+      }
+      if (error instanceof QuoteError) {
+        const title = error.code.startsWith("PROMO_")
+          ? "Promo Code Unavailable"
+          : error.code === "QUOTE_EXPIRED" ? "Price Expired" : "Price Not Accepted";
+        toast({ title, description: error.message, variant: "destructive" });
+        return { error };
+      }
+      if (error instanceof KycLimitError) {
+        toast({ title: "Purchase Limit Reached", description: `${error.message}. Verify your identity to raise your limits.`, variant: "destructive" });
+        return { error };
+      }
       console.error("Purchase error:", error);
       const parsedError = parseApiError(error);
       toast({ title: "Purchase Failed", description: parsedError.message, variant: "destructive" });
@@ -252,24 +340,39 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const createAutoTopUpRule = async (type: "data" | "airtime", threshold: number, amount: number, phoneNumberId?: string | null) => {
+  const createAutoTopUpRule = async (type: "data" | "airtime", threshold: number, amount: number, pin: string, phoneNumberId?: string | null, network?: string, planId?: string) => {
     if (!user) return { error: new Error("Not authenticated") };
 
-    const { error } = await walletService.createAutoTopUpRule({
+    const { data, error } = await walletService.createAutoTopUpRule({
       user_id: user.id,
       type,
       threshold_percentage: threshold,
       topup_amount: amount,
       is_enabled: true,
       phone_number_id: phoneNumberId || null,
+      network: network || null,
+      plan_id: type === "data" ? planId || null : null,
     });
 
     if (error) {
       console.error("Error creating rule:", error);
-      toast({ title: "Error", description: "Failed to create auto top-up rule.", variant: "destructive" });
+      // The database refuses rules for numbers that haven't passed SMS verification
+      const description = error.message?.includes("Verify this phone number")
+        ? error.message
+        : "Failed to create auto top-up rule.";
+      toast({ title: "Error", description, variant: "destructive" });
       return { error };
     }
 
+    // The rule only fires once authorized with the PIN; drop it if that fails
+    try {
+      await pinService.authorizeTopUp("auto_topup_rule", data.id, pin);
+    } catch (authError) {
+      await walletService.deleteAutoTopUpRule(data.id);
+      toast({ title: "PIN Not Accepted", description: (authError as Error).message, variant: "destructive" });
+      return { error: authError as Error };
+    }
+
     await fetchAutoTopUpRules();
     toast({ title: "Rule Created", description: `Auto top-up rule for ${type} has been created.` });
     return { error: null };
@@ -311,6 +414,8 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
         loading,
         refreshWallet,
         fundWallet,
+        confirmFunding,
+        requestVirtualAccount,
         purchaseAirtimeOrData,
         createAutoTopUpRule,
         updateAutoTopUpRule: updateAutoTopUpRuleHandler,
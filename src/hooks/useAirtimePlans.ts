@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Airtime Plans Hook
+ *
+ * Prices the preset airtime amounts for a network, plus an optional custom
+ * amount, from the server, with the cashback each earns. The custom amount is quoted once typing pauses.
+ *
+ * @module useAirtimePlans
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { pricingService } from "@/api";
+import { AIRTIME_PLANS, type AirtimePlan } from "@/lib/constants";
+
+const CUSTOM_QUOTE_DELAY_MS = 400;
+
+interface UseAirtimePlansReturn {
+  /** Preset plans with their quoted price and cashback */
+  plans: AirtimePlan[];
+  /** Quoted price for `customAmount`, or null while unknown or out of range */
+  customPrice: number | null;
+  loading: boolean;
+  /** Re-fetches prices, e.g. after a purchase was refused as stale */
+  refresh: () => void;
+}
+
+export function useAirtimePlans(network: string, customAmount?: number): UseAirtimePlansReturn {
+  const [plans, setPlans] = useState<AirtimePlan[]>([]);
+  const [customPrice, setCustomPrice] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    async function fetchPrices() {
+      try {
+        const prices = await pricingService.getAirtimePrices(network, AIRTIME_PLANS.map((p) => p.amount));
+        if (cancelled) return;
+        const byAmount = new Map(prices.map((p) => [p.amount, p]));
+        setPlans(
+          AIRTIME_PLANS.filter((p) => byAmount.has(p.amount)).map((p) => ({
+            ...p,
+            finalPrice: byAmount.get(p.amount)!.price,
+            cashback: byAmount.get(p.amount)!.cashback,
+          })),
+        );
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Error fetching airtime prices:", error);
+        setPlans([]);
+      }
+      setLoading(false);
+    }
+    fetchPrices();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [network, version]);
+
+  useEffect(() => {
+    setCustomPrice(null);
+    if (!customAmount || !Number.isInteger(customAmount) || customAmount < 50 || customAmount > 50000) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const [quoted] = await pricingService.getAirtimePrices(network, [customAmount]);
+        if (!cancelled) setCustomPrice(quoted?.price ?? null);
+      } catch (error) {
+        if (!cancelled) console.error("Error fetching airtime price:", error);
+      }
+    }, CUSTOM_QUOTE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [network, customAmount, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { plans, customPrice, loading, refresh };
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Data Plans Hook
+ *
+ * Loads the data plans on sale for a network, priced for the user by the
+ * server. Plan ids are the provider's, so they can be sent as-is with
+ * purchases and schedules.
+ *
+ * @module useDataPlans
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { pricingService } from "@/api";
+import type { DataPlan, DataPlanCategory } from "@/lib/constants";
+
+interface UseDataPlansReturn {
+  plans: DataPlan[];
+  loading: boolean;
+  /** Re-fetches prices, e.g. after a purchase was refused as stale */
+  refresh: () => void;
+}
+
+export function useDataPlans(network: string): UseDataPlansReturn {
+  const [plans, setPlans] = useState<DataPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    async function fetchPlans() {
+      try {
+        const priced = await pricingService.getDataPlanPrices(network);
+        if (cancelled) return;
+        setPlans(
+          priced.map((p) => ({
+            id: p.id,
+            dataAmount: p.dataAmount,
+            validity: p.validity,
+            finalPrice: p.price,
+            cashback: p.cashback,
+            category: p.category as DataPlanCategory,
+            tag: (p.tag || undefined) as DataPlan["tag"],
+          })),
+        );
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Error fetching data plans:", error);
+        setPlans([]);
+      }
+      setLoading(false);
+    }
+    fetchPlans();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [network, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { plans, loading, refresh };
+}
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Fund Wallet Request Hook
+ *
+ * Opens the wallet's Add Funds dialog, prefilled with an amount, from
+ * anywhere in the app (e.g. a "Fund wallet" notification action). It sets
+ * the `fund` search param, which the index page turns into the wallet tab.
+ *
+ * @module useFundWalletRequest
+ */
+
+import { useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+
+export const FUND_WALLET_PARAM = "fund";
+
+export function useFundWalletRequest() {
+  const [, setSearchParams] = useSearchParams();
+  return useCallback(
+    (amount: number) => setSearchParams({ [FUND_WALLET_PARAM]: String(Math.ceil(amount)) }),
+    [setSearchParams],
+  );
+}
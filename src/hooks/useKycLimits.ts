@@ -0,0 +1,61 @@
+/**
+ * @fileoverview KYC Tier Limits Hook
+ *
+ * Loads the KYC tier table and resolves the signed-in user's current tier
+ * and the next one up. The server enforces the limits; this is for display
+ * and early validation.
+ *
+ * @module useKycLimits
+ */
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { userService } from "@/api";
+
+export interface KycTier {
+  tier: number;
+  name: string;
+  requirements: string;
+  max_balance: number;
+  daily_spend_limit: number;
+  single_transaction_limit: number;
+}
+
+interface UseKycLimitsReturn {
+  tiers: KycTier[];
+  currentTier: KycTier | null;
+  nextTier: KycTier | null;
+  loading: boolean;
+}
+
+export function useKycLimits(): UseKycLimitsReturn {
+  const { profile } = useAuth();
+  const [tiers, setTiers] = useState<KycTier[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchTiers() {
+      const { data, error } = await userService.getKycTiers();
+      if (error) {
+        console.error("Error fetching KYC tiers:", error);
+      } else {
+        setTiers(
+          (data || []).map((t) => ({
+            ...t,
+            max_balance: Number(t.max_balance),
+            daily_spend_limit: Number(t.daily_spend_limit),
+            single_transaction_limit: Number(t.single_transaction_limit),
+          })),
+        );
+      }
+      setLoading(false);
+    }
+    fetchTiers();
+  }, []);
+
+  const tierNumber = profile?.kyc_tier ?? 1;
+  const currentTier = tiers.find((t) => t.tier === tierNumber) || null;
+  const nextTier = tiers.find((t) => t.tier === tierNumber + 1) || null;
+
+  return { tiers, currentTier, nextTier, loading };
+}
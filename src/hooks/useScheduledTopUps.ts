@@ -3,6 +3,9 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { scheduledTopUpService } from "@/api";
 
+/** How a monthly schedule picks its day (see `_shared/recurrence`) */
+export type MonthRule = "day_of_month" | "last_business_day" | "payday";
+
 export interface ScheduledTopUp {
   id: string;
   user_id: string;
@@ -12,15 +15,31 @@ export interface ScheduledTopUp {
   network: string;
   amount: number;
   plan_id: string | null;
+  /** Set when the data plan's price changed or it was discontinued after the schedule was made */
+  plan_status: "price_changed" | "discontinued" | null;
   schedule_type: "one_time" | "daily" | "weekly" | "monthly";
   scheduled_at: string | null;
   recurring_time: string | null;
+  recurring_interval: number;
+  recurring_days_of_week: number[] | null;
   recurring_day_of_week: number | null;
   recurring_day_of_month: number | null;
+  recurring_month_rule: MonthRule;
+  starts_on: string | null;
+  ends_on: string | null;
   max_executions: number | null;
+  retry_interval_minutes: number | null;
+  retry_window_hours: number;
+  hold_until_funded: boolean;
+  /** Failed attempts at the current run; 0 unless it's being retried */
+  retry_attempt: number;
+  retry_until: string | null;
+  /** Set while the current run waits for the wallet to be funded */
+  held_since: string | null;
   total_executions: number;
   status: "active" | "paused" | "completed" | "cancelled";
   next_execution_at: string | null;
+  pin_authorized_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -31,12 +50,29 @@ export interface CreateSchedulePayload {
   amount: number;
   plan_id?: string;
   schedule_type: "one_time" | "daily" | "weekly" | "monthly";
+  /** ISO instant, or `YYYY-MM-DDTHH:mm` wall-clock time in the user's timezone */
   scheduled_at?: string;
   recurring_time?: string;
-  recurring_day_of_week?: number;
+  /** Every N days / weeks / months */
+  recurring_interval?: number;
+  /** Weekly: 0 = Sunday */
+  recurring_days_of_week?: number[];
   recurring_day_of_month?: number;
+  recurring_month_rule?: MonthRule;
+  /** `YYYY-MM-DD` in the user's timezone */
+  starts_on?: string;
+  /** `YYYY-MM-DD` in the user's timezone, inclusive */
+  ends_on?: string;
   max_executions?: number;
+  /** Retry a run that fails on a low wallet or provider error this often; null = don't */
+  retry_interval_minutes?: number | null;
+  /** How long to keep retrying a run */
+  retry_window_hours?: number;
+  /** On a low wallet, run as soon as the wallet is funded (within the window) */
+  hold_until_funded?: boolean;
   phone_number: string;
+  /** Transaction PIN — authorizes the schedule to run without asking again */
+  pin: string;
 }
 
 export function useScheduledTopUps() {
@@ -106,6 +142,23 @@ export function useScheduledTopUps() {
     }
   };
 
+  const changeNextRun = async (
+    id: string,
+    action: "skip" | "snooze" | "reschedule",
+    options: { hours?: number; to?: string } = {},
+  ) => {
+    try {
+      const data = await scheduledTopUpService.changeScheduledRun(id, action, options);
+      await fetchSchedules();
+      toast({ title: data.message || "Schedule Updated", description: "Later runs are unchanged." });
+      return { error: null };
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : `Failed to ${action} run`;
+      toast({ title: "Error", description: msg, variant: "destructive" });
+      return { error: e instanceof Error ? e : new Error(msg) };
+    }
+  };
+
   return {
     schedules,
     loading,
@@ -113,5 +166,6 @@ export function useScheduledTopUps() {
     createSchedule,
     cancelSchedule,
     updateSchedule,
+    changeNextRun,
   };
 }
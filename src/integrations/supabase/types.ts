@@ -14,12 +14,78 @@ export type Database = {
   }
   public: {
     Tables: {
+      auto_topup_executions: {
+        Row: {
+          amount: number
+          executed_at: string
+          failure_reason: string | null
+          id: string
+          percentage_remaining: number | null
+          reading_id: string | null
+          rule_id: string
+          status: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          executed_at?: string
+          failure_reason?: string | null
+          id?: string
+          percentage_remaining?: number | null
+          reading_id?: string | null
+          rule_id: string
+          status: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          executed_at?: string
+          failure_reason?: string | null
+          id?: string
+          percentage_remaining?: number | null
+          reading_id?: string | null
+          rule_id?: string
+          status?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_topup_executions_reading_id_fkey"
+            columns: ["reading_id"]
+            isOneToOne: false
+            referencedRelation: "usage_readings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auto_topup_executions_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "auto_topup_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auto_topup_executions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       auto_topup_rules: {
         Row: {
+          cooldown_minutes: number
           created_at: string
           id: string
           is_enabled: boolean
+          last_triggered_at: string | null
+          network: string | null
           phone_number_id: string | null
+          pin_authorized_at: string | null
+          plan_id: string | null
           threshold_percentage: number
           topup_amount: number
           type: string
@@ -27,10 +93,15 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          cooldown_minutes?: number
           created_at?: string
           id?: string
           is_enabled?: boolean
+          last_triggered_at?: string | null
+          network?: string | null
           phone_number_id?: string | null
+          pin_authorized_at?: string | null
+          plan_id?: string | null
           threshold_percentage?: number
           topup_amount: number
           type: string
@@ -38,10 +109,15 @@ export type Database = {
           user_id: string
         }
         Update: {
+          cooldown_minutes?: number
           created_at?: string
           id?: string
           is_enabled?: boolean
+          last_triggered_at?: string | null
+          network?: string | null
           phone_number_id?: string | null
+          pin_authorized_at?: string | null
+          plan_id?: string | null
           threshold_percentage?: number
           topup_amount?: number
           type?: string
@@ -58,6 +134,99 @@ export type Database = {
           },
         ]
       }
+      data_plans: {
+        Row: {
+          category: string
+          cost_price: number
+          created_at: string
+          data_amount: string
+          deactivated_at: string | null
+          final_price: number
+          id: string
+          is_active: boolean
+          last_seen_at: string | null
+          name: string
+          network: string
+          plan_id: string
+          provider: string | null
+          provider_plan_ids: Json
+          tag: string | null
+          updated_at: string
+          validity: string
+        }
+        Insert: {
+          category: string
+          cost_price: number
+          created_at?: string
+          data_amount: string
+          deactivated_at?: string | null
+          final_price: number
+          id?: string
+          is_active?: boolean
+          last_seen_at?: string | null
+          name: string
+          network: string
+          plan_id: string
+          provider?: string | null
+          provider_plan_ids?: Json
+          tag?: string | null
+          updated_at?: string
+          validity: string
+        }
+        Update: {
+          category?: string
+          cost_price?: number
+          created_at?: string
+          data_amount?: string
+          deactivated_at?: string | null
+          final_price?: number
+          id?: string
+          is_active?: boolean
+          last_seen_at?: string | null
+          name?: string
+          network?: string
+          plan_id?: string
+          provider?: string | null
+          provider_plan_ids?: Json
+          tag?: string | null
+          updated_at?: string
+          validity?: string
+        }
+        Relationships: []
+      }
+      kyc_tiers: {
+        Row: {
+          created_at: string
+          daily_spend_limit: number
+          max_balance: number
+          name: string
+          requirements: string
+          single_transaction_limit: number
+          tier: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          daily_spend_limit: number
+          max_balance: number
+          name: string
+          requirements: string
+          single_transaction_limit: number
+          tier: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          daily_spend_limit?: number
+          max_balance?: number
+          name?: string
+          requirements?: string
+          single_transaction_limit?: number
+          tier?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           category: string
@@ -94,6 +263,36 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_preferences: {
+        Row: {
+          category: string
+          created_at: string
+          email: boolean
+          push: boolean
+          sms: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          email: boolean
+          push: boolean
+          sms: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          email?: boolean
+          push?: boolean
+          sms?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       phone_numbers: {
         Row: {
           created_at: string
@@ -133,10 +332,13 @@ export type Database = {
           full_name: string | null
           id: string
           kyc_status: string
+          kyc_tier: number
           kyc_verified_at: string | null
           network_provider: string | null
           phone_number: string | null
           phone_verified: boolean | null
+          referral_code: string
+          timezone: string
           updated_at: string
           user_id: string
         }
@@ -145,10 +347,13 @@ export type Database = {
           full_name?: string | null
           id?: string
           kyc_status?: string
+          kyc_tier?: number
           kyc_verified_at?: string | null
           network_provider?: string | null
           phone_number?: string | null
           phone_verified?: boolean | null
+          referral_code?: string
+          timezone?: string
           updated_at?: string
           user_id: string
         }
@@ -157,21 +362,152 @@ export type Database = {
           full_name?: string | null
           id?: string
           kyc_status?: string
+          kyc_tier?: number
           kyc_verified_at?: string | null
           network_provider?: string | null
           phone_number?: string | null
           phone_verified?: boolean | null
+          referral_code?: string
+          timezone?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      referrals: {
+        Row: {
+          created_at: string
+          id: string
+          qualifying_transaction_id: string | null
+          referee_id: string
+          referee_reward: number
+          referral_code: string
+          referrer_id: string
+          referrer_reward: number
+          rejection_reason: string | null
+          rewarded_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          qualifying_transaction_id?: string | null
+          referee_id: string
+          referee_reward?: number
+          referral_code: string
+          referrer_id: string
+          referrer_reward?: number
+          rejection_reason?: string | null
+          rewarded_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          qualifying_transaction_id?: string | null
+          referee_id?: string
+          referee_reward?: number
+          referral_code?: string
+          referrer_id?: string
+          referrer_reward?: number
+          rejection_reason?: string | null
+          rewarded_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referrals_qualifying_transaction_id_fkey"
+            columns: ["qualifying_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_topup_exceptions: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          moved_to: string | null
+          occurrence_at: string
+          scheduled_topup_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          moved_to?: string | null
+          occurrence_at: string
+          scheduled_topup_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          moved_to?: string | null
+          occurrence_at?: string
+          scheduled_topup_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_topup_exceptions_scheduled_topup_id_fkey"
+            columns: ["scheduled_topup_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_topups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scheduled_topup_executions: {
         Row: {
           amount: number
           executed_at: string
           failure_reason: string | null
           id: string
+          idempotency_key: string | null
           scheduled_topup_id: string
           status: string
           transaction_id: string | null
@@ -182,6 +518,7 @@ export type Database = {
           executed_at?: string
           failure_reason?: string | null
           id?: string
+          idempotency_key?: string | null
           scheduled_topup_id: string
           status: string
           transaction_id?: string | null
@@ -192,6 +529,7 @@ export type Database = {
           executed_at?: string
           failure_reason?: string | null
           id?: string
+          idempotency_key?: string | null
           scheduled_topup_id?: string
           status?: string
           transaction_id?: string | null
@@ -218,18 +556,36 @@ export type Database = {
         Row: {
           amount: number
           created_at: string
+          ends_on: string | null
+          held_amount: number | null
+          held_since: string | null
+          hold_until_funded: boolean
           id: string
+          lease_expires_at: string | null
+          lease_token: string | null
           max_executions: number | null
           network: string
           next_execution_at: string | null
           phone_number: string | null
           phone_number_id: string | null
+          pin_authorized_at: string | null
           plan_id: string | null
+          plan_status: string | null
+          plan_status_at: string | null
           recurring_day_of_month: number | null
           recurring_day_of_week: number | null
+          recurring_days_of_week: number[] | null
+          recurring_interval: number
+          recurring_month_rule: string
           recurring_time: string | null
+          reminder_sent_for: string | null
+          retry_attempt: number
+          retry_interval_minutes: number | null
+          retry_until: string | null
+          retry_window_hours: number
           schedule_type: string
           scheduled_at: string | null
+          starts_on: string | null
           status: string
           total_executions: number
           type: string
@@ -239,18 +595,36 @@ export type Database = {
         Insert: {
           amount: number
           created_at?: string
+          ends_on?: string | null
+          held_amount?: number | null
+          held_since?: string | null
+          hold_until_funded?: boolean
           id?: string
+          lease_expires_at?: string | null
+          lease_token?: string | null
           max_executions?: number | null
           network: string
           next_execution_at?: string | null
           phone_number?: string | null
           phone_number_id?: string | null
+          pin_authorized_at?: string | null
           plan_id?: string | null
+          plan_status?: string | null
+          plan_status_at?: string | null
           recurring_day_of_month?: number | null
           recurring_day_of_week?: number | null
+          recurring_days_of_week?: number[] | null
+          recurring_interval?: number
+          recurring_month_rule?: string
           recurring_time?: string | null
+          reminder_sent_for?: string | null
+          retry_attempt?: number
+          retry_interval_minutes?: number | null
+          retry_until?: string | null
+          retry_window_hours?: number
           schedule_type: string
           scheduled_at?: string | null
+          starts_on?: string | null
           status?: string
           total_executions?: number
           type: string
@@ -260,18 +634,36 @@ export type Database = {
         Update: {
           amount?: number
           created_at?: string
+          ends_on?: string | null
+          held_amount?: number | null
+          held_since?: string | null
+          hold_until_funded?: boolean
           id?: string
+          lease_expires_at?: string | null
+          lease_token?: string | null
           max_executions?: number | null
           network?: string
           next_execution_at?: string | null
           phone_number?: string | null
           phone_number_id?: string | null
+          pin_authorized_at?: string | null
           plan_id?: string | null
+          plan_status?: string | null
+          plan_status_at?: string | null
           recurring_day_of_month?: number | null
           recurring_day_of_week?: number | null
+          recurring_days_of_week?: number[] | null
+          recurring_interval?: number
+          recurring_month_rule?: string
           recurring_time?: string | null
+          reminder_sent_for?: string | null
+          retry_attempt?: number
+          retry_interval_minutes?: number | null
+          retry_until?: string | null
+          retry_window_hours?: number
           schedule_type?: string
           scheduled_at?: string | null
+          starts_on?: string | null
           status?: string
           total_executions?: number
           type?: string
@@ -333,14 +725,17 @@ export type Database = {
           id: string
           metadata: Json | null
           network: string | null
+          next_verification_at: string | null
           phone_number: string | null
           product_type: string | null
+          provider: string | null
           provider_reference: string | null
           reference: string | null
           status: Database["public"]["Enums"]["transaction_status"]
           type: Database["public"]["Enums"]["transaction_type"]
           updated_at: string
           user_id: string
+          verification_attempts: number
           wallet_id: string
         }
         Insert: {
@@ -352,14 +747,17 @@ export type Database = {
           id?: string
           metadata?: Json | null
           network?: string | null
+          next_verification_at?: string | null
           phone_number?: string | null
           product_type?: string | null
+          provider?: string | null
           provider_reference?: string | null
           reference?: string | null
           status?: Database["public"]["Enums"]["transaction_status"]
           type: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string
           user_id: string
+          verification_attempts?: number
           wallet_id: string
         }
         Update: {
@@ -371,14 +769,17 @@ export type Database = {
           id?: string
           metadata?: Json | null
           network?: string | null
+          next_verification_at?: string | null
           phone_number?: string | null
           product_type?: string | null
+          provider?: string | null
           provider_reference?: string | null
           reference?: string | null
           status?: Database["public"]["Enums"]["transaction_status"]
           type?: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string
           user_id?: string
+          verification_attempts?: number
           wallet_id?: string
         }
         Relationships: [
@@ -391,6 +792,50 @@ export type Database = {
           },
         ]
       }
+      usage_readings: {
+        Row: {
+          balance: number
+          baseline: number
+          id: string
+          phone_number_id: string | null
+          processed_at: string | null
+          recorded_at: string
+          source: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          balance: number
+          baseline: number
+          id?: string
+          phone_number_id?: string | null
+          processed_at?: string | null
+          recorded_at?: string
+          source?: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          balance?: number
+          baseline?: number
+          id?: string
+          phone_number_id?: string | null
+          processed_at?: string | null
+          recorded_at?: string
+          source?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_readings_phone_number_id_fkey"
+            columns: ["phone_number_id"]
+            isOneToOne: false
+            referencedRelation: "phone_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_budgets: {
         Row: {
           amount_spent: number
@@ -426,32 +871,44 @@ export type Database = {
       }
       user_kyc: {
         Row: {
+          bvn_hash: string | null
+          bvn_match_score: number | null
+          bvn_verified_at: string | null
           created_at: string
           id: string
           kyc_status: string
           kyc_verified_at: string | null
-          nin_hash: string
-          nin_number_encrypted: string
+          nin_hash: string | null
+          nin_key_version: number | null
+          nin_number_encrypted: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          bvn_hash?: string | null
+          bvn_match_score?: number | null
+          bvn_verified_at?: string | null
           created_at?: string
           id?: string
           kyc_status?: string
           kyc_verified_at?: string | null
-          nin_hash: string
-          nin_number_encrypted: string
+          nin_hash?: string | null
+          nin_key_version?: number | null
+          nin_number_encrypted?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          bvn_hash?: string | null
+          bvn_match_score?: number | null
+          bvn_verified_at?: string | null
           created_at?: string
           id?: string
           kyc_status?: string
           kyc_verified_at?: string | null
-          nin_hash?: string
-          nin_number_encrypted?: string
+          nin_hash?: string | null
+          nin_key_version?: number | null
+          nin_number_encrypted?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -480,33 +937,42 @@ export type Database = {
       }
       wallet_ledger: {
         Row: {
+          account: string
           amount: number
           balance_after: number
           created_at: string
           description: string | null
+          discount: number | null
           id: string
+          promo_code_id: string | null
           transaction_reference: string
           type: string
           user_id: string
           wallet_id: string
         }
         Insert: {
+          account?: string
           amount: number
           balance_after: number
           created_at?: string
           description?: string | null
+          discount?: number | null
           id?: string
+          promo_code_id?: string | null
           transaction_reference: string
           type: string
           user_id: string
           wallet_id: string
         }
         Update: {
+          account?: string
           amount?: number
           balance_after?: number
           created_at?: string
           description?: string | null
+          discount?: number | null
           id?: string
+          promo_code_id?: string | null
           transaction_reference?: string
           type?: string
           user_id?: string
@@ -525,27 +991,45 @@ export type Database = {
       wallets: {
         Row: {
           balance: number
+          cashback_balance: number
           created_at: string
           currency: string
           id: string
           updated_at: string
           user_id: string
+          virtual_account_bank: string | null
+          virtual_account_name: string | null
+          virtual_account_number: string | null
+          virtual_account_provider: string | null
+          virtual_account_reference: string | null
         }
         Insert: {
           balance?: number
+          cashback_balance?: number
           created_at?: string
           currency?: string
           id?: string
           updated_at?: string
           user_id: string
+          virtual_account_bank?: string | null
+          virtual_account_name?: string | null
+          virtual_account_number?: string | null
+          virtual_account_provider?: string | null
+          virtual_account_reference?: string | null
         }
         Update: {
           balance?: number
+          cashback_balance?: number
           created_at?: string
           currency?: string
           id?: string
           updated_at?: string
           user_id?: string
+          virtual_account_bank?: string | null
+          virtual_account_name?: string | null
+          virtual_account_number?: string | null
+          virtual_account_provider?: string | null
+          virtual_account_reference?: string | null
         }
         Relationships: []
       }
@@ -554,10 +1038,27 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_auto_topup_rule: {
+        Args: { p_rule_id: string }
+        Returns: boolean
+      }
+      claim_due_scheduled_topups: {
+        Args: { p_lease_seconds: number; p_limit: number }
+        Returns: Database["public"]["Tables"]["scheduled_topups"]["Row"][]
+      }
       fund_wallet_atomic: {
         Args: { p_amount: number; p_reference: string; p_user_id: string }
         Returns: Json
       }
+      get_notification_preferences: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          category: string
+          email: boolean
+          push: boolean
+          sms: boolean
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -569,10 +1070,18 @@ export type Database = {
         Args: { p_amount: number; p_reference: string; p_user_id: string }
         Returns: Json
       }
+      record_user_device: {
+        Args: { p_device_id: string }
+        Returns: undefined
+      }
       refund_wallet: {
         Args: { p_amount: number; p_reference: string; p_user_id: string }
         Returns: Json
       }
+      save_push_subscription: {
+        Args: { p_auth: string; p_endpoint: string; p_p256dh: string; p_user_agent: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
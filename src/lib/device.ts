@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Device Identifier
+ *
+ * A random id for this install of the app, kept in localStorage so it
+ * outlives sessions (which are cleared on every load, see
+ * `sessionOnlyStorage`). The server only stores a hash of it, to tell when
+ * several accounts are used from the same device, e.g. for referrals.
+ *
+ * @module device
+ */
+
+const DEVICE_ID_KEY = "nava-device-id";
+
+/**
+ * Returns this install's device id, creating it on first use.
+ *
+ * @returns {string} A UUID, stable until the user clears site data
+ */
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
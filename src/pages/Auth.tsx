@@ -1,11 +1,11 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Mail, Lock, User, ArrowLeft, Eye, EyeOff, Loader2 } from "lucide-react";
+import { Mail, Lock, User, ArrowLeft, Eye, EyeOff, Loader2, Gift } from "lucide-react";
 import { NavaLogo } from "@/components/brand/NavaLogo";
 import { useToast } from "@/hooks/use-toast";
 import { authService } from "@/api";
@@ -14,17 +14,21 @@ import { z } from "zod";
 const emailSchema = z.string().trim().email("Please enter a valid email address").max(255);
 const passwordSchema = z.string().min(6, "Password must be at least 6 characters").max(72);
 const nameSchema = z.string().trim().min(2, "Name must be at least 2 characters").max(100);
+const referralCodeSchema = z.string().trim().regex(/^[A-Za-z0-9]*$/, "Referral codes are letters and numbers only").max(32);
 
 type AuthMode = "login" | "signup" | "forgot";
 
 const Auth = () => {
-  const [mode, setMode] = useState<AuthMode>("login");
+  // Invite links (`/auth?ref=CODE`) open straight on signup with the code filled in
+  const [searchParams] = useSearchParams();
+  const [mode, setMode] = useState<AuthMode>(searchParams.get("ref") ? "signup" : "login");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [fullName, setFullName] = useState("");
+  const [referralCode, setReferralCode] = useState((searchParams.get("ref") || "").toUpperCase());
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [errors, setErrors] = useState<{ email?: string; password?: string; name?: string }>({});
+  const [errors, setErrors] = useState<{ email?: string; password?: string; name?: string; referral?: string }>({});
 
   const { user, signIn, signUp } = useAuth();
   const navigate = useNavigate();
@@ -54,6 +58,11 @@ const Auth = () => {
       if (!nameResult.success) {
         newErrors.name = nameResult.error.errors[0].message;
       }
+
+      const referralResult = referralCodeSchema.safeParse(referralCode);
+      if (!referralResult.success) {
+        newErrors.referral = referralResult.error.errors[0].message;
+      }
     }
 
     setErrors(newErrors);
@@ -100,7 +109,7 @@ const Auth = () => {
           });
         }
       } else {
-        const { error } = await signUp(email, password, fullName);
+        const { error } = await signUp(email, password, fullName, referralCode.trim() || undefined);
         if (error) {
           if (error.message.includes("already registered")) {
             toast({
@@ -277,6 +286,29 @@ const Auth = () => {
                     </div>
                   )}
 
+                  {mode === "signup" && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-foreground">
+                        Referral Code <span className="text-muted-foreground font-normal">(optional)</span>
+                      </label>
+                      <div className="relative">
+                        <Gift className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                        <Input
+                          type="text"
+                          placeholder="Enter a friend's code"
+                          value={referralCode}
+                          onChange={(e) => setReferralCode(e.target.value.toUpperCase())}
+                          className="pl-11"
+                          maxLength={32}
+                          disabled={isLoading}
+                        />
+                      </div>
+                      {errors.referral && (
+                        <p className="text-sm text-destructive">{errors.referral}</p>
+                      )}
+                    </div>
+                  )}
+
                   <Button
                     type="submit"
                     className="w-full h-12 text-base font-semibold"
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { AnimatePresence, motion } from "framer-motion";
 import { useAuth } from "@/contexts/AuthContext";
+import { useWallet } from "@/contexts/WalletContext";
 import { PhoneVerification } from "@/components/onboarding/PhoneVerification";
 import { KYCVerification } from "@/components/kyc/KYCVerification";
 import { BottomNav } from "@/components/layout/BottomNav";
@@ -13,15 +14,20 @@ import { SettingsView } from "@/components/views/SettingsView";
 import { ManualPurchaseView } from "@/components/views/ManualPurchaseView";
 import { ScheduledTopUpsView } from "@/components/views/ScheduledTopUpsView";
 import { FullPageLoading } from "@/components/ui/loading-spinner";
+import { FUND_WALLET_PARAM } from "@/hooks/useFundWalletRequest";
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState("home");
   const [purchaseType, setPurchaseType] = useState<"airtime" | "data">("airtime");
   const [showPhoneVerification, setShowPhoneVerification] = useState(false);
   const [showKYCVerification, setShowKYCVerification] = useState(false);
+  const [pinResetRequested, setPinResetRequested] = useState(false);
+  const [fundRequest, setFundRequest] = useState<number | null>(null);
   
   const { user, profile, loading, isKYCVerified } = useAuth();
+  const { confirmFunding } = useWallet();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => {
     if (!loading && !user) {
@@ -45,6 +51,35 @@ const Index = () => {
     }
   }, [user, profile, isKYCVerified]);
 
+  useEffect(() => {
+    // Returning from the payment gateway checkout (Paystack appends reference & trxref)
+    const reference = searchParams.get("reference") || searchParams.get("trxref");
+    if (!user || searchParams.get("funding") !== "callback" || !reference) return;
+
+    setSearchParams({}, { replace: true });
+    setActiveTab("wallet");
+    confirmFunding(reference);
+  }, [user, searchParams, setSearchParams, confirmFunding]);
+
+  useEffect(() => {
+    // Signed in through the transaction PIN reset email
+    if (!user || searchParams.get("pin_reset") !== "1") return;
+
+    setSearchParams({}, { replace: true });
+    setPinResetRequested(true);
+    setActiveTab("settings");
+  }, [user, searchParams, setSearchParams]);
+
+  useEffect(() => {
+    // "Fund wallet" actions (notifications, the schedules cash-flow strip)
+    const amount = Number(searchParams.get(FUND_WALLET_PARAM));
+    if (!user || !searchParams.has(FUND_WALLET_PARAM)) return;
+
+    setSearchParams({}, { replace: true });
+    setFundRequest(amount > 0 ? amount : null);
+    setActiveTab("wallet");
+  }, [user, searchParams, setSearchParams]);
+
   if (loading) {
     return <FullPageLoading message="Loading your dashboard..." />;
   }
@@ -90,11 +125,24 @@ const Index = () => {
       case "topup":
         return <TopUpView onBack={() => setActiveTab("home")} />;
       case "wallet":
-        return <WalletView onBack={() => setActiveTab("home")} />;
+        return (
+          <WalletView
+            onBack={() => setActiveTab("home")}
+            prefillAmount={fundRequest}
+            onPrefillUsed={() => setFundRequest(null)}
+          />
+        );
       case "analytics":
         return <AnalyticsView onBack={() => setActiveTab("home")} />;
       case "settings":
-        return <SettingsView onBack={() => setActiveTab("home")} />;
+        return (
+          <SettingsView
+            onBack={() => setActiveTab("home")}
+            pinReset={pinResetRequested}
+            onPinResetDone={() => setPinResetRequested(false)}
+            onVerifyIdentity={() => setShowKYCVerification(true)}
+          />
+        );
       case "schedules":
         return <ScheduledTopUpsView onBack={() => setActiveTab("home")} />;
       case "purchase":
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Web Push public key; push notifications are off without it */
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+}
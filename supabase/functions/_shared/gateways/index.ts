@@ -0,0 +1,38 @@
+/**
+ * PAYMENT GATEWAY REGISTRY
+ * ========================
+ *
+ * Resolves the gateway used for wallet funding.
+ *
+ * ## Configuration (environment secrets)
+ * - `PAYMENT_GATEWAY` — "paystack" (default) or "stub" for local testing
+ * - `PAYSTACK_SECRET_KEY` — Paystack secret key (API calls and webhook signatures)
+ *
+ * @module _shared/gateways
+ */
+
+import { createPaystackGateway } from "./paystack.ts";
+import { createStubGateway } from "./stub.ts";
+import type { PaymentGateway } from "./types.ts";
+
+export type * from "./types.ts";
+
+const DEFAULT_GATEWAY = 'paystack';
+
+/** Gateway name → adapter factory. */
+const GATEWAY_FACTORIES: Record<string, () => PaymentGateway> = {
+  paystack: () => createPaystackGateway(),
+  stub: () => createStubGateway(),
+};
+
+/** Returns the adapter registered under `name`. Throws for unknown gateways. */
+export function getGateway(name: string): PaymentGateway {
+  const factory = GATEWAY_FACTORIES[name.toLowerCase()];
+  if (!factory) throw new Error(`Unknown payment gateway: ${name}`);
+  return factory();
+}
+
+/** Returns the configured funding gateway. */
+export function getPaymentGateway(): PaymentGateway {
+  return getGateway(Deno.env.get('PAYMENT_GATEWAY') || DEFAULT_GATEWAY);
+}
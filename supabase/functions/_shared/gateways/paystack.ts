@@ -0,0 +1,141 @@
+/**
+ * PAYSTACK GATEWAY ADAPTER
+ * ========================
+ *
+ * Implements `PaymentGateway` against the Paystack Transactions and
+ * Dedicated Virtual Account APIs. Amounts are sent and received in kobo;
+ * webhooks are signed with HMAC-SHA512 of the raw body using the secret key
+ * (`x-paystack-signature`). Transfers into a dedicated account arrive as
+ * `charge.success` with channel `dedicated_nuban`.
+ *
+ * @module _shared/gateways/paystack
+ */
+
+import { hmacSha512Hex, timingSafeEqual } from "./signature.ts";
+import type {
+  GatewayPaymentStatus,
+  GatewayVerification,
+  GatewayWebhookEvent,
+  InboundTransfer,
+  InitializePaymentRequest,
+  InitializePaymentResult,
+  PaymentGateway,
+  VirtualAccount,
+  VirtualAccountCustomer,
+} from "./types.ts";
+
+const PAYSTACK_BASE_URL = 'https://api.paystack.co';
+const DEFAULT_DVA_BANK = 'wema-bank';
+
+/** Maps Paystack transaction status onto ours (abandoned/reversed count as failed). */
+function toStatus(paystackStatus: unknown): GatewayPaymentStatus {
+  const status = String(paystackStatus || '').toLowerCase();
+  if (status === 'success') return 'success';
+  if (status === 'failed' || status === 'abandoned' || status === 'reversed') return 'failed';
+  return 'pending';
+}
+
+function toVerification(data: Record<string, unknown>): GatewayVerification {
+  return {
+    status: toStatus(data.status),
+    reference: String(data.reference),
+    amount: Number(data.amount) / 100,
+    gatewayReference: data.id != null ? String(data.id) : null,
+    channel: (data.channel as string) || null,
+    data,
+  };
+}
+
+function toInboundTransfer(data: Record<string, unknown>): InboundTransfer {
+  const authorization = (data.authorization || {}) as Record<string, unknown>;
+  return {
+    gatewayReference: String(data.reference),
+    accountNumber: String(authorization.receiver_bank_account_number || ''),
+    amount: Number(data.amount) / 100,
+    senderName: (authorization.sender_name as string) || null,
+    senderBank: (authorization.sender_bank as string) || null,
+    senderAccountNumber: (authorization.sender_bank_account_number as string) || null,
+    narration: (authorization.narration as string) || null,
+    data,
+  };
+}
+
+export function createPaystackGateway(secretKey = Deno.env.get('PAYSTACK_SECRET_KEY')): PaymentGateway {
+  const headers = { 'Authorization': `Bearer ${secretKey}`, 'Content-Type': 'application/json' };
+
+  async function post(path: string, payload: Record<string, unknown>) {
+    const response = await fetch(`${PAYSTACK_BASE_URL}/${path}`, {
+      method: 'POST', headers, body: JSON.stringify(payload),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.status) {
+      throw new Error(body.message || `Paystack ${path} failed (${response.status})`);
+    }
+    return body.data;
+  }
+
+  return {
+    name: 'paystack',
+
+    async initializePayment({ reference, amount, email, callbackUrl, channels }: InitializePaymentRequest): Promise<InitializePaymentResult> {
+      const data = await post('transaction/initialize', {
+        reference,
+        email,
+        amount: Math.round(amount * 100),
+        currency: 'NGN',
+        callback_url: callbackUrl,
+        channels,
+      });
+      return { authorizationUrl: data.authorization_url, accessCode: data.access_code };
+    },
+
+    async verifyPayment(reference: string): Promise<GatewayVerification> {
+      try {
+        const response = await fetch(`${PAYSTACK_BASE_URL}/transaction/verify/${encodeURIComponent(reference)}`, { headers });
+        if (!response.ok) return { status: 'pending', reference, amount: null };
+        const body = await response.json();
+        return toVerification(body.data || {});
+      } catch (e) {
+        console.warn('[paystack] Verify failed:', e);
+        return { status: 'pending', reference, amount: null };
+      }
+    },
+
+    async verifyWebhookSignature(rawBody: string, requestHeaders: Headers): Promise<boolean> {
+      const signature = requestHeaders.get('x-paystack-signature');
+      if (!signature || !secretKey) return false;
+      return timingSafeEqual(await hmacSha512Hex(secretKey, rawBody), signature);
+    },
+
+    async createVirtualAccount({ customerRef, email, fullName, phoneNumber }: VirtualAccountCustomer): Promise<VirtualAccount> {
+      const [firstName, ...rest] = fullName.trim().split(/\s+/);
+      const customer = await post('customer', {
+        email,
+        first_name: firstName,
+        last_name: rest.join(' ') || firstName,
+        phone: phoneNumber || undefined,
+        metadata: { user_id: customerRef },
+      });
+      const account = await post('dedicated_account', {
+        customer: customer.customer_code,
+        preferred_bank: Deno.env.get('PAYSTACK_DVA_BANK') || DEFAULT_DVA_BANK,
+      });
+      return {
+        accountNumber: String(account.account_number),
+        accountName: String(account.account_name),
+        bankName: String(account.bank?.name || ''),
+        providerReference: account.id != null ? String(account.id) : null,
+      };
+    },
+
+    parseWebhook(rawBody: string): GatewayWebhookEvent | null {
+      const event = JSON.parse(rawBody);
+      const data = event.data || {};
+      if (event.event === 'charge.success' && data.channel === 'dedicated_nuban') {
+        return { kind: 'transfer', transfer: toInboundTransfer(data) };
+      }
+      if (event.event !== 'charge.success' && event.event !== 'charge.failed') return null;
+      return { kind: 'payment', payment: toVerification(data) };
+    },
+  };
+}
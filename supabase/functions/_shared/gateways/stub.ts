@@ -0,0 +1,107 @@
+/**
+ * STUB GATEWAY ADAPTER (local testing only)
+ * =========================================
+ *
+ * Selected with `PAYMENT_GATEWAY=stub`. No money moves:
+ * - `initializePayment` sends the customer straight back to the callback URL
+ * - `verifyPayment` reports `STUB_GATEWAY_OUTCOME` (success | failed | pending, default success)
+ *   for the amount this instance initialized. A reference it didn't initialize
+ *   (another instance, or after a restart) stays pending; settle it by webhook
+ * - `createVirtualAccount` derives a stable 10-digit account number from the user id
+ * - Webhooks use the Paystack format, signed with `STUB_GATEWAY_SECRET`
+ *   (`x-stub-signature: hex(hmac_sha512(secret, body))`); transfers are
+ *   `charge.success` with channel `dedicated_nuban`. The secret is required:
+ *   the gateway refuses to start without it
+ *
+ * @module _shared/gateways/stub
+ */
+
+import { hmacSha512Hex, timingSafeEqual } from "./signature.ts";
+import type {
+  GatewayPaymentStatus,
+  GatewayWebhookEvent,
+  GatewayVerification,
+  InitializePaymentRequest,
+  InitializePaymentResult,
+  PaymentGateway,
+  VirtualAccount,
+  VirtualAccountCustomer,
+} from "./types.ts";
+
+/** Amounts initialized by this instance, by reference — the stub's stand-in for a gateway ledger. */
+const initialized = new Map<string, number>();
+
+export function createStubGateway(secret = Deno.env.get('STUB_GATEWAY_SECRET')): PaymentGateway {
+  if (!secret) throw new Error('STUB_GATEWAY_SECRET is required for the stub gateway');
+
+  return {
+    name: 'stub',
+
+    initializePayment({ reference, amount, callbackUrl }: InitializePaymentRequest): Promise<InitializePaymentResult> {
+      initialized.set(reference, amount);
+      const url = new URL(callbackUrl || 'http://localhost:8080/');
+      url.searchParams.set('reference', reference);
+      return Promise.resolve({ authorizationUrl: url.toString(), accessCode: `stub_${reference}` });
+    },
+
+    verifyPayment(reference: string): Promise<GatewayVerification> {
+      const amount = initialized.get(reference);
+      if (amount === undefined) return Promise.resolve({ status: 'pending', reference, amount: null });
+
+      const outcome = (Deno.env.get('STUB_GATEWAY_OUTCOME') || 'success') as GatewayPaymentStatus;
+      return Promise.resolve({ status: outcome, reference, amount, gatewayReference: `stub_${reference}`, channel: 'stub' });
+    },
+
+    async verifyWebhookSignature(rawBody: string, headers: Headers): Promise<boolean> {
+      const signature = headers.get('x-stub-signature');
+      if (!signature) return false;
+      return timingSafeEqual(await hmacSha512Hex(secret, rawBody), signature);
+    },
+
+    async createVirtualAccount({ customerRef, fullName }: VirtualAccountCustomer): Promise<VirtualAccount> {
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(customerRef)));
+      const digits = Array.from(digest.slice(0, 9)).map(b => String(b % 10)).join('');
+      return {
+        accountNumber: `9${digits}`,
+        accountName: `Nava / ${fullName}`,
+        bankName: 'Stub Microfinance Bank',
+        providerReference: `stub_${customerRef}`,
+      };
+    },
+
+    parseWebhook(rawBody: string): GatewayWebhookEvent | null {
+      const event = JSON.parse(rawBody);
+      if (event.event !== 'charge.success' && event.event !== 'charge.failed') return null;
+      const data = event.data || {};
+
+      if (data.channel === 'dedicated_nuban') {
+        const authorization = data.authorization || {};
+        return {
+          kind: 'transfer',
+          transfer: {
+            gatewayReference: String(data.reference),
+            accountNumber: String(authorization.receiver_bank_account_number || ''),
+            amount: Number(data.amount) / 100,
+            senderName: authorization.sender_name || null,
+            senderBank: authorization.sender_bank || null,
+            senderAccountNumber: authorization.sender_bank_account_number || null,
+            narration: authorization.narration || null,
+            data,
+          },
+        };
+      }
+
+      return {
+        kind: 'payment',
+        payment: {
+          status: event.event === 'charge.success' ? 'success' : 'failed',
+          reference: String(data.reference),
+          amount: Number(data.amount) / 100,
+          gatewayReference: data.id != null ? String(data.id) : `stub_${data.reference}`,
+          channel: 'stub',
+          data,
+        },
+      };
+    },
+  };
+}
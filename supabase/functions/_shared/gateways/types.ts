@@ -0,0 +1,95 @@
+/**
+ * PAYMENT GATEWAY CONTRACT
+ * ========================
+ *
+ * Wallet funding goes through a `PaymentGateway` adapter (Paystack, Flutterwave,
+ * the local stub, ...). The flow is always:
+ * initialize → customer pays on the gateway checkout → signed webhook → credit.
+ *
+ * Gateways also reserve a virtual bank account (NUBAN) per wallet; transfers
+ * into it arrive as `transfer` webhook events.
+ *
+ * @module _shared/gateways/types
+ */
+
+export type PaymentChannel = 'card' | 'bank_transfer';
+
+export interface InitializePaymentRequest {
+  /** Our deposit reference — the gateway echoes it back in webhooks */
+  reference: string;
+  /** Amount in NGN */
+  amount: number;
+  email: string;
+  callbackUrl?: string;
+  channels?: PaymentChannel[];
+}
+
+export interface InitializePaymentResult {
+  /** Checkout URL the customer is redirected to */
+  authorizationUrl: string;
+  accessCode?: string;
+}
+
+export type GatewayPaymentStatus = 'success' | 'failed' | 'pending';
+
+/** Normalised payment state, from a verify call or a webhook. */
+export interface GatewayVerification {
+  status: GatewayPaymentStatus;
+  reference: string;
+  /**
+   * Amount actually paid in NGN. Always compared against the pending deposit
+   * before crediting. `null` only while the payment is still pending.
+   */
+  amount: number | null;
+  gatewayReference?: string | null;
+  channel?: string | null;
+  data?: Record<string, unknown>;
+}
+
+/** Customer details needed to reserve a virtual account. */
+export interface VirtualAccountCustomer {
+  /** Our user id */
+  customerRef: string;
+  email: string;
+  fullName: string;
+  phoneNumber?: string | null;
+}
+
+/** Reserved bank account that credits exactly one wallet. */
+export interface VirtualAccount {
+  accountNumber: string;
+  accountName: string;
+  bankName: string;
+  /** Gateway-side id of the account, for support lookups */
+  providerReference?: string | null;
+}
+
+/** Money received into a virtual account. Amount in NGN. */
+export interface InboundTransfer {
+  gatewayReference: string;
+  accountNumber: string;
+  amount: number;
+  senderName?: string | null;
+  senderBank?: string | null;
+  senderAccountNumber?: string | null;
+  narration?: string | null;
+  data?: Record<string, unknown>;
+}
+
+export type GatewayWebhookEvent =
+  | { kind: 'payment'; payment: GatewayVerification }
+  | { kind: 'transfer'; transfer: InboundTransfer };
+
+export interface PaymentGateway {
+  /** Registry key, e.g. "paystack" — recorded as the deposit's provider */
+  readonly name: string;
+  initializePayment(request: InitializePaymentRequest): Promise<InitializePaymentResult>;
+  /** Looks up a payment by our reference. Unreachable → 'pending'. */
+  verifyPayment(reference: string): Promise<GatewayVerification>;
+  /** Checks the webhook signature against the raw request body. */
+  verifyWebhookSignature(rawBody: string, headers: Headers): Promise<boolean>;
+  /** Reserves a virtual account for a customer. */
+  createVirtualAccount(customer: VirtualAccountCustomer): Promise<VirtualAccount>;
+  /** Parses a (signature-verified) webhook. Returns null for events we don't act on. */
+  parseWebhook(rawBody: string): GatewayWebhookEvent | null;
+}
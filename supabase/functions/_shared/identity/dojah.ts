@@ -0,0 +1,49 @@
+/**
+ * DOJAH IDENTITY PROVIDER
+ * =======================
+ *
+ * Implements `IdentityProvider` against Dojah's KYC lookup API
+ * (`GET /api/v1/kyc/bvn/full`).
+ *
+ * @module _shared/identity/dojah
+ */
+
+import type { BvnLookupResult, IdentityProvider } from "./types.ts";
+
+const DOJAH_BASE_URL = 'https://api.dojah.io/api/v1';
+
+export function createDojahProvider(
+  appId = Deno.env.get('DOJAH_APP_ID') || '',
+  secretKey = Deno.env.get('DOJAH_SECRET_KEY') || '',
+): IdentityProvider {
+  return {
+    name: 'dojah',
+
+    async lookupBvn(bvn: string): Promise<BvnLookupResult> {
+      if (!appId || !secretKey) throw new Error('DOJAH_APP_ID / DOJAH_SECRET_KEY are not configured');
+
+      const res = await fetch(`${DOJAH_BASE_URL}/kyc/bvn/full?bvn=${encodeURIComponent(bvn)}`, {
+        headers: { AppId: appId, Authorization: secretKey },
+      });
+
+      // Dojah answers unknown BVNs with 404 (older accounts: 400 "not found")
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 404 || (res.status === 400 && /not found/i.test(String(data.error || '')))) {
+        return { found: false };
+      }
+      if (!res.ok || !data.entity) {
+        throw new Error(`Dojah BVN lookup failed (${res.status}): ${data.error || 'unknown error'}`);
+      }
+
+      return {
+        found: true,
+        record: {
+          firstName: data.entity.first_name || '',
+          middleName: data.entity.middle_name || null,
+          lastName: data.entity.last_name || '',
+          reference: data.entity.reference_id ? String(data.entity.reference_id) : null,
+        },
+      };
+    },
+  };
+}
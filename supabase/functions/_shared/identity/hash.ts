@@ -0,0 +1,22 @@
+/**
+ * Keyed hashing for identity numbers.
+ *
+ * An 11-digit BVN has too few possible values for a plain SHA-256 to hide
+ * it, so identifiers are stored as HMAC-SHA256 under `KYC_HASH_SECRET`.
+ * The hash is deterministic, which lets us spot one BVN reused across
+ * accounts without keeping the number itself.
+ *
+ * @module _shared/identity/hash
+ */
+
+/** Hex-encoded HMAC-SHA256 of `value`. Throws if `KYC_HASH_SECRET` is missing. */
+export async function hashIdentifier(value: string, secret = Deno.env.get('KYC_HASH_SECRET') || ''): Promise<string> {
+  if (!secret) throw new Error('KYC_HASH_SECRET is not configured');
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,41 @@
+/**
+ * IDENTITY PROVIDER REGISTRY
+ * ==========================
+ *
+ * Resolves the provider used for BVN lookups.
+ *
+ * ## Configuration (environment secrets)
+ * - `IDENTITY_PROVIDER` — "dojah" (default) or "mock" for local development
+ * - `DOJAH_APP_ID` / `DOJAH_SECRET_KEY` — Dojah credentials
+ * - `MOCK_BVN_NAME` — Name the mock provider returns
+ *
+ * @module _shared/identity
+ */
+
+import { createDojahProvider } from "./dojah.ts";
+import { createMockIdentityProvider } from "./mock.ts";
+import type { IdentityProvider } from "./types.ts";
+
+export type * from "./types.ts";
+export { hashIdentifier } from "./hash.ts";
+export { nameMatchScore } from "./name-match.ts";
+
+const DEFAULT_PROVIDER = 'dojah';
+
+/** Provider name → adapter factory. */
+const PROVIDER_FACTORIES: Record<string, () => IdentityProvider> = {
+  dojah: () => createDojahProvider(),
+  mock: () => createMockIdentityProvider(),
+};
+
+/** Returns the adapter registered under `name`. Throws for unknown providers. */
+export function getProvider(name: string): IdentityProvider {
+  const factory = PROVIDER_FACTORIES[name.toLowerCase()];
+  if (!factory) throw new Error(`Unknown identity provider: ${name}`);
+  return factory();
+}
+
+/** Returns the configured identity provider. */
+export function getIdentityProvider(): IdentityProvider {
+  return getProvider(Deno.env.get('IDENTITY_PROVIDER') || DEFAULT_PROVIDER);
+}
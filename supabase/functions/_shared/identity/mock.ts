@@ -0,0 +1,37 @@
+/**
+ * MOCK IDENTITY PROVIDER (local development only)
+ * ===============================================
+ *
+ * Selected with `IDENTITY_PROVIDER=mock`. No network calls are made:
+ * BVNs ending in `0` are reported as not found, and every other BVN
+ * belongs to `MOCK_BVN_NAME` ("Ada Chioma Obi" by default). Set it to your
+ * test profile's name for a full match, or to something close for a
+ * partial match that lands in the review queue.
+ *
+ * @module _shared/identity/mock
+ */
+
+import type { BvnLookupResult, IdentityProvider } from "./types.ts";
+
+export function createMockIdentityProvider(
+  fullName = Deno.env.get('MOCK_BVN_NAME') || 'Ada Chioma Obi',
+): IdentityProvider {
+  return {
+    name: 'mock',
+
+    lookupBvn(bvn: string): Promise<BvnLookupResult> {
+      if (bvn.endsWith('0')) return Promise.resolve({ found: false });
+
+      const names = fullName.trim().split(/\s+/);
+      return Promise.resolve({
+        found: true,
+        record: {
+          firstName: names[0],
+          middleName: names.length > 2 ? names.slice(1, -1).join(' ') : null,
+          lastName: names.length > 1 ? names[names.length - 1] : '',
+          reference: `mock_${crypto.randomUUID()}`,
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Fuzzy comparison of the name on a profile with the name on an identity
+ * record.
+ *
+ * Names are lowercased, stripped of accents and punctuation and split into
+ * words, so word order and casing don't matter. Each word is compared by
+ * edit distance to its closest counterpart. The score is the lower of:
+ * - how well the profile's words are covered by the record, and
+ * - how well the record's first and last names are covered by the profile
+ *
+ * A missing middle name therefore costs nothing, but a profile holding only
+ * a first name can't score highly.
+ *
+ * @module _shared/identity/name-match
+ */
+
+import type { BvnRecord } from "./types.ts";
+
+function tokenize(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/** Mean of each word's best similarity against `against`. */
+function coverage(words: string[], against: string[]): number {
+  if (words.length === 0 || against.length === 0) return 0;
+  const total = words.reduce((sum, w) => sum + Math.max(...against.map((a) => similarity(w, a))), 0);
+  return total / words.length;
+}
+
+/** Match score between 0 and 1, rounded to two decimals. */
+export function nameMatchScore(profileName: string, record: BvnRecord): number {
+  const profileWords = tokenize(profileName);
+  const recordWords = tokenize([record.firstName, record.middleName, record.lastName].filter(Boolean).join(' '));
+  const requiredWords = tokenize(`${record.firstName} ${record.lastName}`);
+
+  const score = Math.min(coverage(profileWords, recordWords), coverage(requiredWords, profileWords));
+  return Math.round(score * 100) / 100;
+}
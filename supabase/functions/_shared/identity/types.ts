@@ -0,0 +1,32 @@
+/**
+ * IDENTITY PROVIDER CONTRACT
+ * ==========================
+ *
+ * BVN lookups go through an `IdentityProvider` adapter (Dojah, the local
+ * mock, ...). Adapters only fetch the record held by the bank registry;
+ * name matching, hashing and the verification decision live in the
+ * calling function.
+ *
+ * @module _shared/identity/types
+ */
+
+export interface BvnRecord {
+  firstName: string;
+  middleName: string | null;
+  lastName: string;
+  /** The provider's lookup id, for support and audit */
+  reference: string | null;
+}
+
+export type BvnLookupResult =
+  | { found: true; record: BvnRecord }
+  | { found: false };
+
+export interface IdentityProvider {
+  name: string;
+  /**
+   * Looks up an 11-digit BVN. Resolves `{ found: false }` when the BVN
+   * doesn't exist; throws when the provider itself fails.
+   */
+  lookupBvn(bvn: string): Promise<BvnLookupResult>;
+}
@@ -0,0 +1,44 @@
+/**
+ * NOTIFICATIONS
+ * =============
+ *
+ * Every user-facing notification goes through `createNotification`. It lands
+ * in `notifications` for the in-app dropdown, and a trigger queues it for
+ * email, SMS and web push according to the user's preferences for its
+ * category; `deliver-notifications` sends the queue (see `_shared/notify`).
+ *
+ * @module _shared/notifications
+ */
+
+/**
+ * Users choose channels for the first four; 'general' and 'kyc'
+ * notifications only appear in the app.
+ */
+export type NotificationCategory = 'transaction' | 'budget' | 'schedule' | 'security' | 'general' | 'kyc';
+
+export interface NewNotification {
+  title: string;
+  message: string;
+  type: 'success' | 'error' | 'warning' | 'info';
+  category: NotificationCategory;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Notifies the user. Never throws, so a notification can't fail the work
+ * it reports on.
+ */
+export async function createNotification(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, userId: string, notification: NewNotification,
+): Promise<void> {
+  try {
+    const { error } = await adminClient.from('notifications').insert({
+      user_id: userId, title: notification.title, message: notification.message,
+      type: notification.type, category: notification.category, metadata: notification.metadata || {},
+    });
+    if (error) console.error('[notification] Failed:', error.message);
+  } catch (e) {
+    console.error('[notification] Failed:', e);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * CONSOLE TRANSPORTS (local development only)
+ * ===========================================
+ *
+ * Selected with `EMAIL_PROVIDER=console` / `PUSH_PROVIDER=console`. Nothing
+ * is sent; each notification is written to the function logs instead.
+ *
+ * @module _shared/notify/console
+ */
+
+import type { DeliveryResult, EmailTransport, OutgoingNotification, PushTarget, PushTransport } from "./types.ts";
+
+export function createConsoleEmailTransport(): EmailTransport {
+  return {
+    name: 'console',
+
+    send(to: string, notification: OutgoingNotification): Promise<DeliveryResult> {
+      console.log(`[email:console] to=${to} subject="${notification.title}" body="${notification.message}"`);
+      return Promise.resolve({ messageId: `console_${crypto.randomUUID()}` });
+    },
+  };
+}
+
+export function createConsolePushTransport(): PushTransport {
+  return {
+    name: 'console',
+
+    send(target: PushTarget, notification: OutgoingNotification): Promise<DeliveryResult> {
+      console.log(`[push:console] endpoint=${target.endpoint.slice(0, 60)} title="${notification.title}" body="${notification.message}"`);
+      return Promise.resolve({ messageId: `console_${crypto.randomUUID()}` });
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * NOTIFICATION TRANSPORT REGISTRY
+ * ===============================
+ *
+ * Resolves the transports `deliver-notifications` sends through. SMS uses
+ * the sender from `_shared/sms` (`SMS_PROVIDER`).
+ *
+ * ## Configuration (environment secrets)
+ * - `EMAIL_PROVIDER` — "resend" (default) or "console" for local development
+ * - `RESEND_API_KEY` — Resend API key
+ * - `EMAIL_FROM` — Sender address (default "Nava <notifications@nava.ng>")
+ * - `APP_URL` — Public app origin, for links in emails
+ * - `PUSH_PROVIDER` — "webpush" (default) or "console" for local development
+ * - `VAPID_PUBLIC_KEY` / `VAPID_PRIVATE_KEY` — Web Push key pair; the public
+ *   key is also the app's `VITE_VAPID_PUBLIC_KEY`
+ * - `VAPID_SUBJECT` — Contact for push services (default "mailto:support@nava.ng")
+ *
+ * @module _shared/notify
+ */
+
+import { createConsoleEmailTransport, createConsolePushTransport } from "./console.ts";
+import { createResendTransport } from "./resend.ts";
+import { createWebPushTransport } from "./webpush.ts";
+import type { EmailTransport, PushTransport } from "./types.ts";
+
+export * from "./types.ts";
+
+const DEFAULT_EMAIL_TRANSPORT = 'resend';
+const DEFAULT_PUSH_TRANSPORT = 'webpush';
+
+/** Transport name → adapter factory. */
+const EMAIL_FACTORIES: Record<string, () => EmailTransport> = {
+  resend: () => createResendTransport(),
+  console: () => createConsoleEmailTransport(),
+};
+
+const PUSH_FACTORIES: Record<string, () => PushTransport> = {
+  webpush: () => createWebPushTransport(),
+  console: () => createConsolePushTransport(),
+};
+
+/** Returns the configured email transport. Throws for unknown transports. */
+export function getEmailTransport(): EmailTransport {
+  const name = Deno.env.get('EMAIL_PROVIDER') || DEFAULT_EMAIL_TRANSPORT;
+  const factory = EMAIL_FACTORIES[name.toLowerCase()];
+  if (!factory) throw new Error(`Unknown email provider: ${name}`);
+  return factory();
+}
+
+/** Returns the configured push transport. Throws for unknown transports. */
+export function getPushTransport(): PushTransport {
+  const name = Deno.env.get('PUSH_PROVIDER') || DEFAULT_PUSH_TRANSPORT;
+  const factory = PUSH_FACTORIES[name.toLowerCase()];
+  if (!factory) throw new Error(`Unknown push provider: ${name}`);
+  return factory();
+}
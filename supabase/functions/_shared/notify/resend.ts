@@ -0,0 +1,58 @@
+/**
+ * RESEND EMAIL TRANSPORT
+ * ======================
+ *
+ * Implements `EmailTransport` against the Resend API, with a plain HTML
+ * body linking back to the app.
+ *
+ * @module _shared/notify/resend
+ */
+
+import type { DeliveryResult, EmailTransport, OutgoingNotification } from "./types.ts";
+
+const RESEND_BASE_URL = 'https://api.resend.com';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderHtml(notification: OutgoingNotification, appUrl: string): string {
+  const link = `${appUrl}${notification.url}`;
+  return `<div style="font-family:sans-serif;max-width:480px">
+<h2 style="margin:0 0 12px">${escapeHtml(notification.title)}</h2>
+<p style="margin:0 0 20px;line-height:1.5">${escapeHtml(notification.message)}</p>
+<a href="${escapeHtml(link)}">Open Nava</a>
+</div>`;
+}
+
+export function createResendTransport(
+  apiKey = Deno.env.get('RESEND_API_KEY') || '',
+  from = Deno.env.get('EMAIL_FROM') || 'Nava <notifications@nava.ng>',
+  appUrl = Deno.env.get('APP_URL') || '',
+): EmailTransport {
+  return {
+    name: 'resend',
+
+    async send(to: string, notification: OutgoingNotification): Promise<DeliveryResult> {
+      if (!apiKey) throw new Error('RESEND_API_KEY is not configured');
+
+      const res = await fetch(`${RESEND_BASE_URL}/emails`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({
+          from,
+          to: [to],
+          subject: notification.title,
+          text: `${notification.message}\n\n${appUrl}${notification.url}`,
+          html: renderHtml(notification, appUrl),
+        }),
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(`Resend send failed (${res.status}): ${data.message || 'unknown error'}`);
+      }
+      return { messageId: data.id ? String(data.id) : null };
+    },
+  };
+}
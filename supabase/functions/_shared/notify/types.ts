@@ -0,0 +1,56 @@
+/**
+ * NOTIFICATION TRANSPORT CONTRACT
+ * ===============================
+ *
+ * Notifications leave the app through a transport per channel: email
+ * (Resend, console) and web push (Web Push, console). SMS reuses the
+ * `SmsSender` adapters from `_shared/sms`. Transports only deliver; choosing
+ * channels, finding addresses and retrying live in `deliver-notifications`.
+ *
+ * @module _shared/notify/types
+ */
+
+/** What every channel renders. */
+export interface OutgoingNotification {
+  title: string;
+  message: string;
+  type: 'success' | 'error' | 'warning' | 'info';
+  category: string;
+  /** In-app path opened from the email or push notification */
+  url: string;
+}
+
+export interface DeliveryResult {
+  /** The transport's message id, for support lookups */
+  messageId: string | null;
+}
+
+export interface EmailTransport {
+  name: string;
+  /** Sends to one address. Throws when the transport rejects the message. */
+  send(to: string, notification: OutgoingNotification): Promise<DeliveryResult>;
+}
+
+/** A browser's push subscription, as stored in `push_subscriptions`. */
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/** The browser dropped the subscription; it will never accept another push. */
+export class ExpiredSubscriptionError extends Error {
+  constructor(endpoint: string) {
+    super(`Push subscription expired: ${endpoint.slice(0, 60)}`);
+    this.name = 'ExpiredSubscriptionError';
+  }
+}
+
+export interface PushTransport {
+  name: string;
+  /**
+   * Sends to one browser. Throws `ExpiredSubscriptionError` for a
+   * subscription that is gone, and other errors for retryable failures.
+   */
+  send(target: PushTarget, notification: OutgoingNotification): Promise<DeliveryResult>;
+}
@@ -0,0 +1,43 @@
+/**
+ * WEB PUSH TRANSPORT
+ * ==================
+ *
+ * Implements `PushTransport` with the Web Push protocol (VAPID-signed,
+ * payload encrypted to the browser's keys). The app's service worker
+ * (`public/push-sw.js`) shows the `{ title, body, url }` payload.
+ *
+ * @module _shared/notify/webpush
+ */
+
+import webpush from "npm:web-push@3.6.7";
+import { ExpiredSubscriptionError, type DeliveryResult, type OutgoingNotification, type PushTarget, type PushTransport } from "./types.ts";
+
+/** How long a push service keeps trying an offline browser. */
+const TTL_SECONDS = 24 * 60 * 60;
+
+export function createWebPushTransport(
+  publicKey = Deno.env.get('VAPID_PUBLIC_KEY') || '',
+  privateKey = Deno.env.get('VAPID_PRIVATE_KEY') || '',
+  subject = Deno.env.get('VAPID_SUBJECT') || 'mailto:support@nava.ng',
+): PushTransport {
+  return {
+    name: 'webpush',
+
+    async send(target: PushTarget, notification: OutgoingNotification): Promise<DeliveryResult> {
+      if (!publicKey || !privateKey) throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are not configured');
+
+      try {
+        await webpush.sendNotification(
+          { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+          JSON.stringify({ title: notification.title, body: notification.message, url: notification.url }),
+          { vapidDetails: { subject, publicKey, privateKey }, TTL: TTL_SECONDS },
+        );
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) throw new ExpiredSubscriptionError(target.endpoint);
+        throw new Error(`Web push failed (${statusCode ?? 'network'}): ${(error as Error).message}`);
+      }
+      return { messageId: null };
+    },
+  };
+}
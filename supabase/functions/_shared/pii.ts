@@ -0,0 +1,144 @@
+/**
+ * PII ENCRYPTION
+ * ==============
+ *
+ * Envelope encryption for personal data we must be able to read back (NIN,
+ * addresses, ...). Identifiers we only need to compare, like the BVN, are
+ * hashed instead (`_shared/identity/hash`).
+ *
+ * Each value gets its own random AES-256-GCM data key. The data key is
+ * wrapped (AES-KW) with a versioned key-encryption key from the environment,
+ * and the key version is stored in the value:
+ *
+ *   `pii1:<key version>:<wrapped data key>:<iv>:<ciphertext>` (base64 parts)
+ *
+ * `context` is bound to the ciphertext as GCM associated data (e.g.
+ * `user_kyc.nin:<user id>`), so a value copied onto another row won't decrypt.
+ *
+ * ## Configuration (environment secrets)
+ * - `PII_ENCRYPTION_KEYS` — comma-separated `version:base64key` pairs, each key
+ *   32 random bytes, e.g. `1:q3J...,2:Zk8...`. The highest version encrypts;
+ *   older ones only decrypt.
+ *
+ * ## Rotating keys
+ * Append a new version, deploy, then run `reencrypt-pii` until it reports
+ * nothing remaining. Only the small wrapped data keys are rewritten. The old
+ * version can be removed afterwards.
+ *
+ * Values written before this module were plain base64; `decryptPii` still
+ * reads them, and `reencrypt-pii` upgrades them.
+ *
+ * @module _shared/pii
+ */
+
+const FORMAT = 'pii1';
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+let keyCache: Map<number, CryptoKey> | null = null;
+
+/** Key-encryption keys by version, parsed once from `PII_ENCRYPTION_KEYS`. */
+async function loadKeys(): Promise<Map<number, CryptoKey>> {
+  if (keyCache) return keyCache;
+
+  const raw = Deno.env.get('PII_ENCRYPTION_KEYS') || '';
+  const keys = new Map<number, CryptoKey>();
+  for (const entry of raw.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [version, material] = entry.split(':');
+    const bytes = material ? fromBase64(material) : new Uint8Array();
+    if (!/^\d+$/.test(version) || bytes.length !== 32) {
+      throw new Error('PII_ENCRYPTION_KEYS entries must be "<version>:<base64 of 32 bytes>"');
+    }
+    keys.set(Number(version), await crypto.subtle.importKey('raw', bytes, 'AES-KW', false, ['wrapKey', 'unwrapKey']));
+  }
+  if (keys.size === 0) throw new Error('PII_ENCRYPTION_KEYS is not configured');
+
+  keyCache = keys;
+  return keys;
+}
+
+async function keyFor(version: number): Promise<CryptoKey> {
+  const key = (await loadKeys()).get(version);
+  if (!key) throw new Error(`PII key version ${version} is not configured`);
+  return key;
+}
+
+/** The key version new values are encrypted with (the highest configured). */
+export async function activeKeyVersion(): Promise<number> {
+  return Math.max(...(await loadKeys()).keys());
+}
+
+/** True for values written by `encryptPii`; false for legacy base64. */
+export function isEncryptedPii(value: string): boolean {
+  return value.startsWith(`${FORMAT}:`);
+}
+
+/** Key version a value was encrypted under, or null for legacy base64. */
+export function piiKeyVersion(value: string): number | null {
+  return isEncryptedPii(value) ? Number(value.split(':')[1]) : null;
+}
+
+function parse(value: string) {
+  const [format, version, wrapped, iv, ciphertext] = value.split(':');
+  if (format !== FORMAT || !version || !wrapped || !iv || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+  return { version: Number(version), wrapped: fromBase64(wrapped), iv: fromBase64(iv), ciphertext: fromBase64(ciphertext) };
+}
+
+/** Encrypts `plaintext` under a fresh data key wrapped with the active key. */
+export async function encryptPii(plaintext: string, context: string): Promise<string> {
+  const version = await activeKeyVersion();
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encoder = new TextEncoder();
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) }, dataKey, encoder.encode(plaintext),
+  );
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, await keyFor(version), 'AES-KW');
+
+  return [FORMAT, version, toBase64(new Uint8Array(wrapped)), toBase64(iv), toBase64(new Uint8Array(ciphertext))].join(':');
+}
+
+/**
+ * Decrypts a value from `encryptPii` (or reads a legacy base64 one).
+ * Throws if the key version is unknown or `context` doesn't match.
+ */
+export async function decryptPii(value: string, context: string): Promise<string> {
+  if (!isEncryptedPii(value)) return atob(value);
+
+  const { version, wrapped, iv, ciphertext } = parse(value);
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw', wrapped, await keyFor(version), 'AES-KW', 'AES-GCM', false, ['decrypt'],
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) }, dataKey, ciphertext,
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/** Re-wraps a value's data key under the active key; the ciphertext is kept. */
+export async function rewrapPii(value: string): Promise<string> {
+  const { version, wrapped, iv, ciphertext } = parse(value);
+  const active = await activeKeyVersion();
+  if (version === active) return value;
+
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw', wrapped, await keyFor(version), 'AES-KW', 'AES-GCM', true, ['encrypt', 'decrypt'],
+  );
+  const rewrapped = await crypto.subtle.wrapKey('raw', dataKey, await keyFor(active), 'AES-KW');
+
+  return [FORMAT, active, toBase64(new Uint8Array(rewrapped)), toBase64(iv), toBase64(ciphertext)].join(':');
+}
+
+/** Associated data for the NIN on a `user_kyc` row. */
+export function ninContext(userId: string): string {
+  return `user_kyc.nin:${userId}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * TRANSACTION PIN
+ * ===============
+ *
+ * Hashing and verification for the 4-digit transaction PIN that authorizes
+ * purchases. PINs live in `transaction_pins` (service role only) as salted
+ * PBKDF2-SHA256 hashes: `pbkdf2$<iterations>$<salt>$<hash>`.
+ *
+ * Failed attempts are counted by `register_pin_failure`; after
+ * `PIN_MAX_ATTEMPTS` the PIN is locked for `PIN_LOCK_MINUTES`.
+ *
+ * @module _shared/pin
+ */
+
+import { timingSafeEqual } from "./gateways/signature.ts";
+
+export const PIN_MAX_ATTEMPTS = 5;
+export const PIN_LOCK_MINUTES = 30;
+
+const PBKDF2_ITERATIONS = 100_000;
+
+export type PinErrorCode = 'PIN_REQUIRED' | 'PIN_NOT_SET' | 'PIN_LOCKED' | 'PIN_INVALID';
+
+export type PinCheck =
+  | { ok: true }
+  | { ok: false; code: PinErrorCode; error: string; attemptsRemaining?: number; lockedUntil?: string };
+
+/** True for exactly four digits. */
+export function isValidPinFormat(pin: unknown): pin is string {
+  return typeof pin === 'string' && /^\d{4}$/.test(pin);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+async function derive(pin: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256,
+  );
+  return toBase64(new Uint8Array(bits));
+}
+
+/** Salted PBKDF2 hash of `pin`, ready to store in `transaction_pins.pin_hash`. */
+export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${await derive(pin, salt, PBKDF2_ITERATIONS)}`;
+}
+
+/** Compares `pin` against a stored hash in constant time. */
+export async function matchesPinHash(pin: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) return false;
+  return timingSafeEqual(await derive(pin, fromBase64(salt), Number(iterations)), hash);
+}
+
+/**
+ * Verifies a user's transaction PIN, counting failures towards the lockout.
+ * A correct PIN clears the failure count.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function verifyTransactionPin(adminClient: any, userId: string, pin: unknown): Promise<PinCheck> {
+  const { data: record, error } = await adminClient
+    .from('transaction_pins')
+    .select('pin_hash, failed_attempts, locked_until')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load transaction PIN: ${error.message}`);
+  if (!record) {
+    return { ok: false, code: 'PIN_NOT_SET', error: 'Set up a transaction PIN in Settings before making purchases' };
+  }
+  if (record.locked_until && new Date(record.locked_until) > new Date()) {
+    return {
+      ok: false, code: 'PIN_LOCKED', lockedUntil: record.locked_until,
+      error: 'Too many incorrect PIN attempts. Try again later or reset your PIN.',
+    };
+  }
+  if (!isValidPinFormat(pin)) {
+    return { ok: false, code: 'PIN_REQUIRED', error: 'Enter your 4-digit transaction PIN' };
+  }
+
+  if (await matchesPinHash(pin, record.pin_hash)) {
+    if (record.failed_attempts > 0 || record.locked_until) {
+      await adminClient.from('transaction_pins')
+        .update({ failed_attempts: 0, locked_until: null })
+        .eq('user_id', userId);
+    }
+    return { ok: true };
+  }
+
+  const { data: failure, error: failureError } = await adminClient.rpc('register_pin_failure', {
+    p_user_id: userId,
+    p_max_attempts: PIN_MAX_ATTEMPTS,
+    p_lock_minutes: PIN_LOCK_MINUTES,
+  });
+  if (failureError) throw new Error(`Failed to record PIN attempt: ${failureError.message}`);
+
+  if (failure?.locked_until) {
+    return {
+      ok: false, code: 'PIN_LOCKED', lockedUntil: failure.locked_until,
+      error: `Too many incorrect PIN attempts. Your PIN is locked for ${PIN_LOCK_MINUTES} minutes.`,
+    };
+  }
+  const attemptsRemaining = Math.max(0, PIN_MAX_ATTEMPTS - Number(failure?.failed_attempts || 0));
+  return {
+    ok: false, code: 'PIN_INVALID', attemptsRemaining,
+    error: `Incorrect transaction PIN. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} remaining.`,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * PRICING ENGINE
+ * ==============
+ *
+ * Turns what a product costs us into what the customer pays, using the
+ * rules in `pricing_rules` so finance can change margins without a deploy.
+ *
+ * A rule matches on product, network, data plan category and KYC tier; a
+ * null column matches anything. Rules only apply while active and inside
+ * their optional `starts_at`/`ends_at` window. The highest `priority` wins,
+ * then the most specific (most match columns set), then the newest.
+ *
+ * The markup is `margin_percent` of the cost plus `fixed_fee`, clamped to
+ * `min_markup`/`max_markup`, and the price is rounded up to the next naira.
+ * Costs are the airtime face value, or the data plan's `cost_price`.
+ *
+ * @module _shared/pricing
+ */
+
+export type PricedProduct = 'airtime' | 'data';
+
+export interface PricingRule {
+  id: string;
+  name: string;
+  product: PricedProduct | null;
+  network: string | null;
+  plan_category: string | null;
+  kyc_tier: number | null;
+  margin_percent: number;
+  fixed_fee: number;
+  min_markup: number | null;
+  max_markup: number | null;
+  priority: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  created_at: string;
+}
+
+/** What to price. Without `kycTier` only rules for every tier apply: the list price. */
+export interface PriceRequest {
+  product: PricedProduct;
+  network: string;
+  cost: number;
+  planCategory?: string | null;
+  kycTier?: number | null;
+}
+
+/** A price and how it breaks down; `cost + margin + fee = price`. */
+export interface Price {
+  cost: number;
+  margin: number;
+  fee: number;
+  price: number;
+  ruleId: string;
+}
+
+/** No rule covers the request, so it can't be sold. */
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+/** Active rules in effect at `now`. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function loadPricingRules(adminClient: any, now = new Date()): Promise<PricingRule[]> {
+  const { data, error } = await adminClient.from('pricing_rules').select('*').eq('is_active', true);
+  if (error) throw new Error(`Failed to load pricing rules: ${error.message}`);
+
+  const at = now.getTime();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (data || []).filter((rule: any) =>
+    (!rule.starts_at || new Date(rule.starts_at).getTime() <= at)
+    && (!rule.ends_at || new Date(rule.ends_at).getTime() > at));
+}
+
+const specificity = (rule: PricingRule) =>
+  [rule.product, rule.network, rule.plan_category, rule.kyc_tier].filter((v) => v !== null).length;
+
+/** The rule that prices `request`, or null if none matches. */
+export function resolveRule(rules: PricingRule[], request: PriceRequest): PricingRule | null {
+  const network = request.network.toUpperCase();
+  const matching = rules.filter((rule) =>
+    (rule.product === null || rule.product === request.product)
+    && (rule.network === null || rule.network === network)
+    && (rule.plan_category === null || rule.plan_category === request.planCategory)
+    && (rule.kyc_tier === null || rule.kyc_tier === request.kycTier));
+
+  matching.sort((a, b) =>
+    b.priority - a.priority
+    || specificity(b) - specificity(a)
+    || new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  return matching[0] || null;
+}
+
+/** Applies `rule` to a cost. */
+export function applyRule(rule: PricingRule, cost: number): Price {
+  const fixedFee = Number(rule.fixed_fee);
+  let markup = cost * Number(rule.margin_percent) / 100 + fixedFee;
+  if (rule.min_markup !== null) markup = Math.max(markup, Number(rule.min_markup));
+  if (rule.max_markup !== null) markup = Math.min(markup, Number(rule.max_markup));
+
+  // Round to kobo first so float noise (1995.0000000002) doesn't add a naira
+  const price = Math.ceil(Math.round((cost + markup) * 100) / 100);
+  const fee = Math.min(fixedFee, price - cost);
+  return { cost, margin: price - cost - fee, fee, price, ruleId: rule.id };
+}
+
+/** Prices `request` with the winning rule. Throws `PricingError` when none matches. */
+export function priceFor(rules: PricingRule[], request: PriceRequest): Price {
+  const rule = resolveRule(rules, request);
+  if (!rule) throw new PricingError(`No pricing rule for ${request.product} on ${request.network.toUpperCase()}`);
+  return applyRule(rule, request.cost);
+}
+
+/** The user's KYC tier, which tier-specific rules match on. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function kycTierOf(adminClient: any, userId: string): Promise<number> {
+  const { data } = await adminClient.from('profiles').select('kyc_tier').eq('user_id', userId).maybeSingle();
+  return data?.kyc_tier ?? 1;
+}
+
+/**
+ * What `userId` pays now for the active catalog data plan `planId`: its
+ * selling price under the rules for their KYC tier, like a manual purchase.
+ * Runs that buy without the user (auto and scheduled top-ups) charge this
+ * rather than the amount stored when they were set up.
+ */
+export async function dataPlanCharge(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, userId: string, network: string, planId: string,
+): Promise<{ amount: number; costPrice: number } | { error: string }> {
+  const { data: plan } = await adminClient
+    .from('data_plans')
+    .select('cost_price, category')
+    .eq('network', network.toUpperCase())
+    .eq('plan_id', planId)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (!plan) return { error: 'Data plan is no longer available' };
+
+  try {
+    const [rules, kycTier] = await Promise.all([loadPricingRules(adminClient), kycTierOf(adminClient, userId)]);
+    const { price } = priceFor(rules, {
+      product: 'data', network, cost: Number(plan.cost_price), planCategory: plan.category, kycTier,
+    });
+    return { amount: price, costPrice: Number(plan.cost_price) };
+  } catch (error) {
+    if (error instanceof PricingError) return { error: 'Data plan could not be priced' };
+    throw error;
+  }
+}
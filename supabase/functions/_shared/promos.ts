@@ -0,0 +1,110 @@
+/**
+ * PROMO CODES
+ * ===========
+ *
+ * Admin-created codes (`promo_codes`) that take a percentage or a fixed
+ * amount off a purchase's price. A code can be limited to a product and
+ * network, a minimum price, a validity window, a number of redemptions
+ * overall and per user, and to the user's first purchase.
+ *
+ * A code is applied when a quote is issued, so the quoted price is already
+ * discounted, and redeemed when a purchase claims the quote (see
+ * `_shared/quotes`). Limits are checked at both points, the second time
+ * under a lock on the code (`redeem_promo_code`). Redemptions of purchases
+ * that failed or were refunded don't count.
+ *
+ * @module _shared/promos
+ */
+
+import type { PricedProduct } from './pricing.ts';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  max_discount: number | null;
+  min_purchase: number;
+  product: PricedProduct | null;
+  network: string | null;
+  first_purchase_only: boolean;
+  max_redemptions: number | null;
+  max_redemptions_per_user: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+}
+
+export type PromoErrorCode =
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_NOT_APPLICABLE'
+  | 'PROMO_FIRST_PURCHASE_ONLY'
+  | 'PROMO_LIMIT_REACHED';
+
+/** A promo code can't be used on this purchase. */
+export class PromoError extends Error {
+  constructor(message: string, public code: PromoErrorCode) {
+    super(message);
+    this.name = 'PromoError';
+  }
+}
+
+/** Whole naira `promo` takes off `price`; never all of it, so every purchase is paid for. */
+export function discountFor(promo: PromoCode, price: number): number {
+  let discount = promo.discount_type === 'percent'
+    ? price * Number(promo.discount_value) / 100
+    : Number(promo.discount_value);
+  if (promo.max_discount !== null) discount = Math.min(discount, Number(promo.max_discount));
+  return Math.max(0, Math.min(Math.floor(discount), price - 1));
+}
+
+/**
+ * Looks up `code` and works out its discount on a purchase priced at
+ * `price`. Throws `PromoError` when the code doesn't exist or can't be used.
+ */
+export async function applyPromoCode(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, userId: string, code: string,
+  purchase: { product: PricedProduct; network: string; price: number },
+): Promise<{ promo: PromoCode; discount: number }> {
+  const { data: promo } = await adminClient
+    .from('promo_codes').select('*').eq('code', code.trim().toUpperCase()).maybeSingle();
+  if (!promo) throw new PromoError('Promo code not found', 'PROMO_NOT_FOUND');
+
+  if ((promo.product && promo.product !== purchase.product)
+    || (promo.network && promo.network !== purchase.network.toUpperCase())) {
+    const only = [promo.network, promo.product].filter(Boolean).join(' ');
+    throw new PromoError(`This promo code is only for ${only} purchases`, 'PROMO_NOT_APPLICABLE');
+  }
+  if (purchase.price < Number(promo.min_purchase)) {
+    throw new PromoError(
+      `This promo code needs a purchase of at least ₦${Number(promo.min_purchase).toLocaleString()}`,
+      'PROMO_NOT_APPLICABLE',
+    );
+  }
+
+  const { data: check, error } = await adminClient
+    .rpc('check_promo_code', { p_promo_code_id: promo.id, p_user_id: userId });
+  if (error) throw new Error(`Failed to check promo code: ${error.message}`);
+  if (!check?.success) throw new PromoError(check.error, check.code);
+
+  const discount = discountFor(promo, purchase.price);
+  if (discount <= 0) throw new PromoError('This promo code takes nothing off this purchase', 'PROMO_NOT_APPLICABLE');
+  return { promo, discount };
+}
+
+/** Redeems the promo on a claimed quote. Throws `PromoError` if the code can no longer be used. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function redeemPromoCode(adminClient: any, quoteId: string): Promise<void> {
+  const { data, error } = await adminClient.rpc('redeem_promo_code', { p_quote_id: quoteId });
+  if (error) throw new Error(`Failed to redeem promo code: ${error.message}`);
+  if (!data?.success) throw new PromoError(data.error, data.code);
+}
+
+/** Drops the redemption of a quote whose purchase never charged the wallet. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function releasePromoRedemption(adminClient: any, quoteId: string): Promise<void> {
+  await adminClient.from('promo_redemptions').delete().eq('quote_id', quoteId).is('transaction_id', null);
+}
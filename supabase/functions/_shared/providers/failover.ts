@@ -0,0 +1,122 @@
+/**
+ * PROVIDER FAILOVER
+ * =================
+ *
+ * Walks a network's provider chain (see `getProviderChainForNetwork`) with a
+ * circuit breaker per provider/network, backed by the `provider_health` table.
+ *
+ * - Providers that can't serve the purchase (`supports`, e.g. no equivalent
+ *   data plan) are left out of the chain altogether.
+ * - Providers whose breaker is open are skipped (the last provider in the chain
+ *   is always attempted, so a purchase is never dropped without a call).
+ * - A definitive failure (nothing was delivered) moves on to the next provider.
+ * - An ambiguous result stops the walk: the first provider may still deliver,
+ *   so trying another one could top up the customer twice.
+ * - Ambiguous results and provider faults (a 5xx that outlasted the adapter's
+ *   retries) count as breaker failures; definitive 4xx rejections (bad number,
+ *   unknown plan) do not, since they say nothing about provider health.
+ *
+ * @module _shared/providers/failover
+ */
+
+import { getProviderChainForNetwork } from "./index.ts";
+import type { PurchaseResult, VtuProvider } from "./types.ts";
+
+export interface FailoverResult {
+  result: PurchaseResult;
+  /** The provider whose result is returned — record this on the transaction */
+  provider: VtuProvider;
+  /** Every provider that was called, in order */
+  attempted: string[];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function getOpenBreakers(adminClient: any, providers: string[], network: string): Promise<Set<string>> {
+  const { data, error } = await adminClient
+    .from('provider_health')
+    .select('provider, opened_until')
+    .eq('network', network.toLowerCase())
+    .eq('state', 'open')
+    .in('provider', providers);
+
+  if (error) {
+    // Fail open: a health lookup problem must not block purchases
+    console.error('[providers] Health lookup failed:', error);
+    return new Set();
+  }
+
+  const now = Date.now();
+  return new Set(
+    (data || [])
+      .filter((row: { opened_until: string | null }) => row.opened_until && new Date(row.opened_until).getTime() > now)
+      .map((row: { provider: string }) => row.provider),
+  );
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function recordOutcome(adminClient: any, provider: string, network: string, success: boolean) {
+  const { data: state, error } = await adminClient.rpc('record_provider_outcome', {
+    p_provider: provider, p_network: network, p_success: success,
+  });
+  if (error) {
+    console.error('[providers] Failed to record outcome:', error);
+  } else if (!success && state === 'open') {
+    console.warn(`[providers] Circuit open for ${provider}/${network}`);
+  }
+}
+
+/**
+ * Runs `purchase` against the network's providers in failover order and
+ * returns the first success, the first ambiguous result, or the last failure.
+ * When no provider in the chain `supports` the purchase, nothing is called and
+ * a definitive failure is returned against the primary provider.
+ */
+export async function purchaseWithFailover(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any,
+  network: string,
+  purchase: (provider: VtuProvider) => Promise<PurchaseResult>,
+  supports: (provider: VtuProvider) => boolean = () => true,
+): Promise<FailoverResult> {
+  const fullChain = getProviderChainForNetwork(network);
+  const chain = fullChain.filter(supports);
+  if (chain.length === 0) {
+    return {
+      result: { success: false, error: 'No provider offers this product' },
+      provider: fullChain[0],
+      attempted: [],
+    };
+  }
+
+  const openBreakers = chain.length > 1
+    ? await getOpenBreakers(adminClient, chain.map(p => p.name), network)
+    : new Set<string>();
+
+  const attempted: string[] = [];
+  let last: FailoverResult | null = null;
+
+  for (const [index, provider] of chain.entries()) {
+    const isLast = index === chain.length - 1;
+    if (!isLast && openBreakers.has(provider.name)) {
+      console.log(`[providers] Skipping ${provider.name} for ${network}: circuit open`);
+      continue;
+    }
+
+    attempted.push(provider.name);
+    const result = await purchase(provider);
+
+    if (result.success || result.ambiguous) {
+      await recordOutcome(adminClient, provider.name, network, result.success);
+      return { result, provider, attempted };
+    }
+
+    if (result.providerFault) await recordOutcome(adminClient, provider.name, network, false);
+    last = { result, provider, attempted };
+    if (!isLast) {
+      console.warn(`[providers] ${provider.name} rejected ${network} purchase (${result.error}), failing over`);
+    }
+  }
+
+  // Every provider gave a definitive failure
+  return last!;
+}
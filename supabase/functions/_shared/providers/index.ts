@@ -0,0 +1,105 @@
+/**
+ * VTU PROVIDER REGISTRY
+ * =====================
+ *
+ * Resolves which VTU provider adapter handles a given network.
+ *
+ * ## Configuration (environment secrets)
+ * - `VTU_DEFAULT_PROVIDER` — provider used when a network has no explicit route (default: "payflex")
+ * - `VTU_PROVIDER_ROUTES` — JSON map of network → provider, or an ordered failover list,
+ *   e.g. `{"mtn":["payflex","vtpass"],"glo":"vtpass"}`. The default provider is always
+ *   the last resort in a network's chain.
+ *
+ * ## Adding a provider
+ * 1. Implement `VtuProvider` in `_shared/providers/<name>.ts`
+ * 2. Register its factory in `PROVIDER_FACTORIES` below
+ * 3. Route networks to it via `VTU_PROVIDER_ROUTES`
+ *
+ * Purchases should go through `purchaseWithFailover` (./failover.ts), which walks
+ * the chain and skips providers whose circuit breaker is open.
+ *
+ * ## Data plans
+ * Plan ids differ between providers. The `data_plans` catalog holds the id at
+ * the provider that listed the plan (`plan_id`) and the id of the same bundle
+ * at the others (`provider_plan_ids`, kept by `sync-data-plans`); resolve them
+ * with `loadProviderPlanIds` (./plans.ts) before a data purchase.
+ *
+ * @module _shared/providers
+ */
+
+import { createPayflexProvider } from "./payflex.ts";
+import { createVtpassProvider } from "./vtpass.ts";
+import type { VtuProvider } from "./types.ts";
+
+export type * from "./types.ts";
+
+const DEFAULT_PROVIDER = 'payflex';
+
+/** Provider name → adapter factory. */
+const PROVIDER_FACTORIES: Record<string, () => VtuProvider> = {
+  payflex: () => createPayflexProvider(),
+  vtpass: () => createVtpassProvider(),
+};
+
+const instances = new Map<string, VtuProvider>();
+
+/** Parses VTU_PROVIDER_ROUTES, ignoring malformed config rather than failing purchases. */
+function getNetworkRoutes(): Record<string, string[]> {
+  const raw = Deno.env.get('VTU_PROVIDER_ROUTES');
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, string | string[]>;
+    return Object.fromEntries(
+      Object.entries(parsed).map(([network, route]) => [
+        network.toLowerCase(),
+        (Array.isArray(route) ? route : [route]).map(provider => String(provider).toLowerCase()),
+      ]),
+    );
+  } catch (e) {
+    console.error('[providers] Invalid VTU_PROVIDER_ROUTES, using default provider:', e);
+    return {};
+  }
+}
+
+/** Names of all registered providers, e.g. for jobs that sweep every provider. */
+export function getProviderNames(): string[] {
+  return Object.keys(PROVIDER_FACTORIES);
+}
+
+/** Returns the adapter registered under `name`. Throws for unknown providers. */
+export function getProvider(name: string): VtuProvider {
+  const key = name.toLowerCase();
+  const factory = PROVIDER_FACTORIES[key];
+  if (!factory) throw new Error(`Unknown VTU provider: ${name}`);
+
+  let provider = instances.get(key);
+  if (!provider) {
+    provider = factory();
+    instances.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Returns the providers for a network in failover order, primary first.
+ * Unknown provider names are logged and skipped; the chain is never empty.
+ */
+export function getProviderChainForNetwork(network: string): VtuProvider[] {
+  const defaultName = (Deno.env.get('VTU_DEFAULT_PROVIDER') || DEFAULT_PROVIDER).toLowerCase();
+  const names = [...(getNetworkRoutes()[network.toLowerCase()] || []), defaultName];
+
+  const chain: VtuProvider[] = [];
+  for (const name of new Set(names)) {
+    try {
+      chain.push(getProvider(name));
+    } catch (e) {
+      console.error(`[providers] Skipping provider in route for ${network}:`, e);
+    }
+  }
+  return chain.length > 0 ? chain : [getProvider(DEFAULT_PROVIDER)];
+}
+
+/** Returns the primary provider configured for a network (MTN, Airtel, Glo, 9mobile). */
+export function getProviderForNetwork(network: string): VtuProvider {
+  return getProviderChainForNetwork(network)[0];
+}
@@ -0,0 +1,177 @@
+/**
+ * PAYFLEX PROVIDER ADAPTER
+ * ========================
+ *
+ * Implements `VtuProvider` against the Payflex REST API.
+ * Purchases retry up to 3 times with exponential backoff (1s, 3s, 9s);
+ * 4xx responses (except 429) are treated as definitive failures, as are
+ * 5xx/429 responses that persist through every retry without naming an
+ * accepted transaction, so a Payflex outage fails over. Only a timeout or
+ * network error leaves the result ambiguous.
+ *
+ * Our reference is sent as `client_reference`. Payflex echoes it back in its
+ * transaction report and looks transactions up by it, which is how
+ * `queryStatus` and reconciliation match its records to ours.
+ *
+ * @module _shared/providers/payflex
+ */
+
+import type {
+  AirtimePurchaseRequest,
+  DataPurchaseRequest,
+  ProviderPlan,
+  ProviderReportEntry,
+  ProviderTransactionStatus,
+  PurchaseResult,
+  StatusResult,
+  VtuProvider,
+} from "./types.ts";
+
+const PAYFLEX_BASE_URL = 'https://api.payflexng.com/v1';
+const MAX_RETRIES = 3;
+const RETRY_DELAYS = [1000, 3000, 9000]; // 1s, 3s, 9s
+const REQUEST_TIMEOUT_MS = 30000;
+const REPORT_PAGE_SIZE = 100;
+
+/** Maps a Payflex transaction status onto our normalised states. */
+function normaliseStatus(status: unknown): ProviderTransactionStatus {
+  const providerStatus = String(status || '').toLowerCase();
+  if (providerStatus === 'success' || providerStatus === 'completed') return 'completed';
+  if (providerStatus === 'failed') return 'failed';
+  return 'pending';
+}
+
+export function createPayflexProvider(apiKey = Deno.env.get('PAYFLEX_API_KEY')): VtuProvider {
+  const headers = { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' };
+
+  /** POSTs to Payflex with retry and exponential backoff. */
+  async function postWithRetry(path: string, body: Record<string, unknown>, retries = MAX_RETRIES): Promise<PurchaseResult> {
+    // Set once an attempt may have reached Payflex without us seeing the outcome
+    let mayHaveProcessed = false;
+    let lastError = 'All retry attempts failed';
+    for (let attempt = 0; attempt < retries; attempt++) {
+      try {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        const response = await fetch(`${PAYFLEX_BASE_URL}/${path}`, {
+          method: 'POST', headers, body: JSON.stringify(body), signal: controller.signal,
+        });
+        clearTimeout(timeout);
+
+        if (response.ok) {
+          const data = await response.json();
+          return { success: true, data, providerReference: (data.reference || data.transaction_id || null) as string | null };
+        }
+
+        const errorData = await response.json().catch(() => ({}));
+
+        // 4xx errors are not retryable (except 429)
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          return { success: false, error: errorData.message || `Provider error: ${response.status}` };
+        }
+
+        // An error body naming a transaction means Payflex accepted the purchase
+        if (errorData.reference || errorData.transaction_id) mayHaveProcessed = true;
+        lastError = errorData.message || `Provider error: ${response.status}`;
+
+        console.warn(`[payflex] Attempt ${attempt + 1} failed (${response.status}), retrying...`);
+      } catch (err) {
+        mayHaveProcessed = true;
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          console.warn(`[payflex] Attempt ${attempt + 1} timed out`);
+          if (attempt === retries - 1) return { success: false, error: 'Provider timeout', ambiguous: true };
+        } else {
+          console.warn(`[payflex] Attempt ${attempt + 1} network error:`, err);
+          if (attempt === retries - 1) return { success: false, error: 'Network error', ambiguous: true };
+        }
+      }
+
+      if (attempt < retries - 1) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt]));
+      }
+    }
+    return mayHaveProcessed
+      ? { success: false, error: 'All retry attempts failed', ambiguous: true }
+      : { success: false, error: lastError, providerFault: true };
+  }
+
+  return {
+    name: 'payflex',
+
+    purchaseAirtime({ phoneNumber, amount, network, reference }: AirtimePurchaseRequest) {
+      return postWithRetry('airtime/purchase', {
+        phone_number: phoneNumber, amount, network: network.toLowerCase(), client_reference: reference,
+      });
+    },
+
+    purchaseData({ phoneNumber, planId, network, reference }: DataPurchaseRequest) {
+      return postWithRetry('data/purchase', {
+        phone_number: phoneNumber, plan_id: planId, network: network.toLowerCase(), client_reference: reference,
+      });
+    },
+
+    async listPlans(network: string): Promise<ProviderPlan[]> {
+      const response = await fetch(`${PAYFLEX_BASE_URL}/data/plans?network=${network.toLowerCase()}`, { headers });
+      if (!response.ok) throw new Error(`Payflex plans request failed (${response.status})`);
+      const data = await response.json();
+      return (data.plans || []).map((plan: Record<string, unknown>) => ({
+        id: String(plan.id),
+        name: String(plan.name),
+        costPrice: Number(plan.price),
+        network: String(plan.network || network).toUpperCase(),
+        validity: String(plan.validity ?? ''),
+        dataAmount: String(plan.data_amount ?? ''),
+      }));
+    },
+
+    async queryStatus(reference: string): Promise<StatusResult> {
+      try {
+        const response = await fetch(`${PAYFLEX_BASE_URL}/transactions/verify?reference=${encodeURIComponent(reference)}`, { headers });
+        if (!response.ok) return { status: 'pending' };
+
+        const data = await response.json();
+        const providerReference = (data.reference || data.transaction_id || null) as string | null;
+        return { status: normaliseStatus(data.status), providerReference, data };
+      } catch (e) {
+        console.warn('[payflex] Status query failed:', e);
+        return { status: 'pending' };
+      }
+    },
+
+    async getFloatBalance(): Promise<number> {
+      const response = await fetch(`${PAYFLEX_BASE_URL}/wallet/balance`, { headers });
+      if (!response.ok) throw new Error(`Payflex balance request failed (${response.status})`);
+      const data = await response.json();
+      return Number(data.balance);
+    },
+
+    async getTransactionReport(date: string): Promise<ProviderReportEntry[]> {
+      const entries: ProviderReportEntry[] = [];
+      for (let page = 1; ; page++) {
+        const response = await fetch(
+          `${PAYFLEX_BASE_URL}/transactions?date=${encodeURIComponent(date)}&page=${page}&per_page=${REPORT_PAGE_SIZE}`,
+          { headers },
+        );
+        if (!response.ok) throw new Error(`Payflex report request failed (${response.status})`);
+
+        const data = await response.json();
+        const rows = (data.transactions || []) as Record<string, unknown>[];
+        for (const row of rows) {
+          entries.push({
+            reference: (row.client_reference || row.request_id || null) as string | null,
+            providerReference: (row.reference || row.transaction_id || null) as string | null,
+            status: normaliseStatus(row.status),
+            amount: Number(row.amount),
+            phoneNumber: (row.phone_number || null) as string | null,
+            createdAt: (row.created_at || null) as string | null,
+            data: row,
+          });
+        }
+
+        const lastPage = Number(data.meta?.last_page ?? page);
+        if (rows.length === 0 || page >= lastPage) break;
+      }
+      return entries;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * DATA PLAN IDS PER PROVIDER
+ * ==========================
+ *
+ * A catalog plan is bought under a different id at each provider. This
+ * resolves them from `data_plans` so failover only offers a data purchase to
+ * providers that sell the same bundle.
+ *
+ * @module _shared/providers/plans
+ */
+
+import { getProviderForNetwork } from "./index.ts";
+
+/**
+ * Provider name → that provider's id for catalog plan `planId`.
+ * Catalog rows not yet seen by a sync belong to the network's primary provider.
+ */
+export async function loadProviderPlanIds(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, network: string, planId: string,
+): Promise<Record<string, string>> {
+  const { data: plan } = await adminClient
+    .from('data_plans')
+    .select('plan_id, provider, provider_plan_ids')
+    .eq('network', network.toUpperCase())
+    .eq('plan_id', planId)
+    .maybeSingle();
+
+  const owner = plan?.provider || getProviderForNetwork(network).name;
+  return { ...(plan?.provider_plan_ids || {}), [owner]: planId };
+}
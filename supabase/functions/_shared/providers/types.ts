@@ -0,0 +1,98 @@
+/**
+ * VTU PROVIDER CONTRACT
+ * =====================
+ *
+ * Every VTU aggregator (Payflex, VTpass, Shago, ...) is wrapped in an adapter
+ * implementing `VtuProvider`. Edge functions only talk to this interface, so
+ * switching or adding a provider never touches purchase logic.
+ *
+ * @module _shared/providers/types
+ */
+
+/** Airtime purchase request. Amounts are in NGN. */
+export interface AirtimePurchaseRequest {
+  phoneNumber: string;
+  amount: number;
+  network: string;
+  /**
+   * Our idempotent transaction reference. Adapters send it to the provider, so
+   * its reports and status lookups (`queryStatus`) can be matched back to us.
+   */
+  reference?: string;
+}
+
+/** Data bundle purchase request. */
+export interface DataPurchaseRequest {
+  phoneNumber: string;
+  planId: string;
+  network: string;
+  reference?: string;
+}
+
+/**
+ * Normalised purchase outcome.
+ * `ambiguous` means the provider may or may not have delivered (timeouts,
+ * network errors, exhausted 5xx retries) and the transaction must be verified.
+ */
+export interface PurchaseResult {
+  success: boolean;
+  providerReference?: string | null;
+  data?: Record<string, unknown>;
+  error?: string;
+  ambiguous?: boolean;
+  /** A definitive failure caused by the provider being down (5xx), not by the request */
+  providerFault?: boolean;
+}
+
+/** Data plan as reported by the provider, at cost price (no margin). */
+export interface ProviderPlan {
+  id: string;
+  name: string;
+  costPrice: number;
+  network: string;
+  validity: string;
+  dataAmount: string;
+}
+
+/** Provider-side transaction state used for verification. */
+export type ProviderTransactionStatus = 'completed' | 'failed' | 'pending';
+
+export interface StatusResult {
+  status: ProviderTransactionStatus;
+  providerReference?: string | null;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * One line of the provider's transaction report. `reference` is our reference
+ * when the provider echoes it back; `amount` is what the provider charged us.
+ */
+export interface ProviderReportEntry {
+  reference: string | null;
+  providerReference: string | null;
+  status: ProviderTransactionStatus;
+  amount: number;
+  phoneNumber?: string | null;
+  createdAt?: string | null;
+  data?: Record<string, unknown>;
+}
+
+export interface VtuProvider {
+  /** Registry key, e.g. "payflex" — recorded against transactions */
+  readonly name: string;
+  purchaseAirtime(request: AirtimePurchaseRequest): Promise<PurchaseResult>;
+  purchaseData(request: DataPurchaseRequest): Promise<PurchaseResult>;
+  /** Throws when the provider cannot be reached; callers decide on fallbacks. */
+  listPlans(network: string): Promise<ProviderPlan[]>;
+  /** Looks up a transaction by our reference. Unknown or unreachable → 'pending'. */
+  queryStatus(reference: string): Promise<StatusResult>;
+  /** Our float (prepaid balance) held with the provider, in NGN. */
+  getFloatBalance(): Promise<number>;
+  /**
+   * All transactions the provider recorded for a calendar day (YYYY-MM-DD,
+   * Africa/Lagos). Throws when the report cannot be fetched in full. Providers
+   * without a report API return an empty report, and reconciliation confirms
+   * each charged purchase with `queryStatus` instead.
+   */
+  getTransactionReport(date: string): Promise<ProviderReportEntry[]>;
+}
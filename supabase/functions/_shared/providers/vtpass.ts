@@ -0,0 +1,198 @@
+/**
+ * VTPASS PROVIDER ADAPTER
+ * =======================
+ *
+ * Implements `VtuProvider` against the VTpass REST API. VTpass answers most
+ * calls with HTTP 200 and a `code` in the body: "000" is accepted, "099" is
+ * still processing, anything else is a rejection.
+ *
+ * Our reference is sent as VTpass's `request_id`, which it echoes back and
+ * which `queryStatus` re-queries by. Purchases are retried on 5xx/429 only,
+ * and a 5xx/429 that persists through every retry is a definitive failure:
+ * after a timeout VTpass may already hold the request, and a repeated
+ * `request_id` is rejected as a duplicate, so the result is left ambiguous
+ * for verification instead.
+ *
+ * VTpass has no transaction report API: `getTransactionReport` returns an
+ * empty report, and reconciliation confirms each charged purchase with
+ * `queryStatus` instead.
+ *
+ * ## Configuration (environment secrets)
+ * - `VTPASS_API_KEY`, `VTPASS_SECRET_KEY` (POST), `VTPASS_PUBLIC_KEY` (GET)
+ * - `VTPASS_BASE_URL` — defaults to live; set to https://sandbox.vtpass.com/api for testing
+ *
+ * @module _shared/providers/vtpass
+ */
+
+import type {
+  AirtimePurchaseRequest,
+  DataPurchaseRequest,
+  ProviderPlan,
+  ProviderReportEntry,
+  ProviderTransactionStatus,
+  PurchaseResult,
+  StatusResult,
+  VtuProvider,
+} from "./types.ts";
+
+const VTPASS_BASE_URL = 'https://vtpass.com/api';
+const MAX_RETRIES = 3;
+const RETRY_DELAYS = [1000, 3000, 9000]; // 1s, 3s, 9s
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** VTpass names 9mobile by its former brand. */
+const SERVICE_NETWORKS: Record<string, string> = {
+  mtn: 'mtn', airtel: 'airtel', glo: 'glo', '9mobile': 'etisalat',
+};
+
+/** Response codes meaning VTpass may already hold the request. */
+const AMBIGUOUS_CODES = new Set(['099', '014', '019']);
+
+function serviceId(network: string, product: 'airtime' | 'data'): string {
+  const base = SERVICE_NETWORKS[network.toLowerCase()] || network.toLowerCase();
+  return product === 'data' ? `${base}-data` : base;
+}
+
+/** Maps a VTpass transaction status onto our normalised states. */
+function normaliseStatus(status: unknown): ProviderTransactionStatus {
+  const providerStatus = String(status || '').toLowerCase();
+  if (providerStatus === 'delivered') return 'completed';
+  if (providerStatus === 'failed' || providerStatus === 'reversed') return 'failed';
+  return 'pending';
+}
+
+/** Splits a variation name such as "MTN N1000 1.5GB - 30 days" into data amount and validity. */
+function parseVariationName(name: string): { dataAmount: string; validity: string } {
+  const dataAmount = name.match(/(\d+(?:\.\d+)?\s*[GMT]B)/i)?.[1].replace(/\s+/g, '') ?? '';
+  const validity = name.split(/\s+-\s+/)[1]?.trim() ?? '';
+  return { dataAmount, validity };
+}
+
+export function createVtpassProvider(
+  apiKey = Deno.env.get('VTPASS_API_KEY'),
+  secretKey = Deno.env.get('VTPASS_SECRET_KEY'),
+  publicKey = Deno.env.get('VTPASS_PUBLIC_KEY'),
+  baseUrl = Deno.env.get('VTPASS_BASE_URL') || VTPASS_BASE_URL,
+): VtuProvider {
+  const postHeaders = { 'api-key': apiKey ?? '', 'secret-key': secretKey ?? '', 'Content-Type': 'application/json' };
+  const getHeaders = { 'api-key': apiKey ?? '', 'public-key': publicKey ?? '' };
+
+  /** Reads a /pay or /requery body into a purchase result. */
+  function toPurchaseResult(data: Record<string, unknown>): PurchaseResult {
+    const code = String(data.code ?? '');
+    const transaction = (data.content as { transactions?: Record<string, unknown> } | undefined)?.transactions || {};
+    const providerReference = (transaction.transactionId || null) as string | null;
+
+    if (code === '000') {
+      const status = normaliseStatus(transaction.status);
+      if (status === 'completed') return { success: true, data, providerReference };
+      if (status === 'failed') return { success: false, error: String(data.response_description || 'Transaction failed'), providerReference };
+      return { success: false, error: 'Transaction pending', ambiguous: true, providerReference };
+    }
+    if (AMBIGUOUS_CODES.has(code)) {
+      return { success: false, error: String(data.response_description || `VTpass code ${code}`), ambiguous: true };
+    }
+    return { success: false, error: String(data.response_description || `VTpass code ${code}`) };
+  }
+
+  /** POSTs a purchase to /pay, retrying only responses that prove nothing was processed. */
+  async function payWithRetry(body: Record<string, unknown>, retries = MAX_RETRIES): Promise<PurchaseResult> {
+    let lastError = 'All retry attempts failed';
+    for (let attempt = 0; attempt < retries; attempt++) {
+      try {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        const response = await fetch(`${baseUrl}/pay`, {
+          method: 'POST', headers: postHeaders, body: JSON.stringify(body), signal: controller.signal,
+        });
+        clearTimeout(timeout);
+
+        if (response.ok) return toPurchaseResult(await response.json());
+
+        const errorData = await response.json().catch(() => ({}));
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          return { success: false, error: errorData.response_description || `Provider error: ${response.status}` };
+        }
+        lastError = errorData.response_description || `Provider error: ${response.status}`;
+
+        console.warn(`[vtpass] Attempt ${attempt + 1} failed (${response.status}), retrying...`);
+      } catch (err) {
+        const timedOut = err instanceof DOMException && err.name === 'AbortError';
+        console.warn(`[vtpass] Purchase ${timedOut ? 'timed out' : 'network error'}:`, err);
+        return { success: false, error: timedOut ? 'Provider timeout' : 'Network error', ambiguous: true };
+      }
+
+      if (attempt < retries - 1) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt]));
+      }
+    }
+    return { success: false, error: lastError, providerFault: true };
+  }
+
+  return {
+    name: 'vtpass',
+
+    purchaseAirtime({ phoneNumber, amount, network, reference }: AirtimePurchaseRequest) {
+      return payWithRetry({
+        request_id: reference ?? crypto.randomUUID(), serviceID: serviceId(network, 'airtime'), amount, phone: phoneNumber,
+      });
+    },
+
+    purchaseData({ phoneNumber, planId, network, reference }: DataPurchaseRequest) {
+      return payWithRetry({
+        request_id: reference ?? crypto.randomUUID(), serviceID: serviceId(network, 'data'),
+        billersCode: phoneNumber, variation_code: planId, phone: phoneNumber,
+      });
+    },
+
+    async listPlans(network: string): Promise<ProviderPlan[]> {
+      const response = await fetch(
+        `${baseUrl}/service-variations?serviceID=${encodeURIComponent(serviceId(network, 'data'))}`,
+        { headers: getHeaders },
+      );
+      if (!response.ok) throw new Error(`VTpass plans request failed (${response.status})`);
+      const data = await response.json();
+      // VTpass has shipped this key misspelt as "varations"
+      const variations = (data.content?.variations || data.content?.varations || []) as Record<string, unknown>[];
+      return variations.map((variation) => ({
+        id: String(variation.variation_code),
+        name: String(variation.name),
+        costPrice: Number(variation.variation_amount),
+        network: network.toUpperCase(),
+        ...parseVariationName(String(variation.name)),
+      }));
+    },
+
+    async queryStatus(reference: string): Promise<StatusResult> {
+      try {
+        const response = await fetch(`${baseUrl}/requery`, {
+          method: 'POST', headers: postHeaders, body: JSON.stringify({ request_id: reference }),
+        });
+        if (!response.ok) return { status: 'pending' };
+
+        const data = await response.json();
+        if (String(data.code) !== '000') return { status: 'pending' };
+        const transaction = data.content?.transactions || {};
+        return {
+          status: normaliseStatus(transaction.status),
+          providerReference: (transaction.transactionId || null) as string | null,
+          data: { ...data, amount: transaction.amount ?? data.amount },
+        };
+      } catch (e) {
+        console.warn('[vtpass] Status query failed:', e);
+        return { status: 'pending' };
+      }
+    },
+
+    async getFloatBalance(): Promise<number> {
+      const response = await fetch(`${baseUrl}/balance`, { headers: getHeaders });
+      if (!response.ok) throw new Error(`VTpass balance request failed (${response.status})`);
+      const data = await response.json();
+      return Number(data.contents?.balance);
+    },
+
+    getTransactionReport(_date: string): Promise<ProviderReportEntry[]> {
+      return Promise.resolve([]);
+    },
+  };
+}
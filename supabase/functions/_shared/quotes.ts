@@ -0,0 +1,202 @@
+/**
+ * PRICE QUOTES
+ * ============
+ *
+ * A quote holds the user's price for one purchase for `QUOTE_TTL_SECONDS`,
+ * so what they confirm is exactly what they're charged, even if the pricing
+ * rules change in between. Quotes live in `price_quotes`, signed with
+ * HMAC-SHA256 under `QUOTE_SIGNING_SECRET` over everything that decides the
+ * charge; a row that doesn't match its signature is refused.
+ *
+ * A quote can carry a promo code (see `_shared/promos`): `price` is then
+ * after the `discount`, and the code is redeemed when the quote is claimed.
+ *
+ * Purchases `checkQuote` before the PIN, `claimQuote` just before charging
+ * (so one quote pays for at most one purchase), then `attachQuote` to link
+ * the transaction. A quote whose charge failed outright is released.
+ *
+ * @module _shared/quotes
+ */
+
+import { timingSafeEqual } from './gateways/signature.ts';
+import type { Price, PricedProduct } from './pricing.ts';
+import { redeemPromoCode, releasePromoRedemption } from './promos.ts';
+
+export const QUOTE_TTL_SECONDS = 5 * 60;
+
+export interface PriceQuote {
+  id: string;
+  user_id: string;
+  product: PricedProduct;
+  network: string;
+  face_value: number | null;
+  plan_id: string | null;
+  cost_price: number;
+  margin: number;
+  fee: number;
+  /** What the user pays, after `discount` */
+  price: number;
+  pricing_rule_id: string | null;
+  promo_code_id: string | null;
+  discount: number;
+  signature: string;
+  expires_at: string;
+  used_at: string | null;
+  transaction_id: string | null;
+}
+
+/** What a quote is for: an airtime face value, or a data plan. */
+export type QuotedItem =
+  | { product: 'airtime'; network: string; faceValue: number }
+  | { product: 'data'; network: string; planId: string };
+
+export type QuoteErrorCode = 'QUOTE_NOT_FOUND' | 'QUOTE_EXPIRED' | 'QUOTE_USED' | 'QUOTE_INVALID';
+
+/** A purchase's quote can't be used; nothing has been charged. */
+export class QuoteError extends Error {
+  constructor(message: string, public code: QuoteErrorCode) {
+    super(message);
+    this.name = 'QuoteError';
+  }
+}
+
+type SignedFields = Pick<
+  PriceQuote,
+  'id' | 'user_id' | 'product' | 'network' | 'face_value' | 'plan_id' | 'price' | 'promo_code_id' | 'discount' | 'expires_at'
+>;
+
+/** Hex HMAC-SHA256 over the fields that decide the charge, normalised so DB round trips don't change it. */
+async function sign(quote: SignedFields): Promise<string> {
+  const secret = Deno.env.get('QUOTE_SIGNING_SECRET');
+  if (!secret) throw new Error('QUOTE_SIGNING_SECRET is not configured');
+
+  const payload = [
+    quote.id, quote.user_id, quote.product, quote.network,
+    quote.face_value === null ? '' : Number(quote.face_value).toFixed(2),
+    quote.plan_id ?? '',
+    Number(quote.price).toFixed(2),
+    quote.promo_code_id ?? '',
+    Number(quote.discount).toFixed(2),
+    new Date(quote.expires_at).toISOString(),
+  ].join('|');
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Stores and signs a quote holding `price`, less any promo discount, for `item`. */
+export async function issueQuote(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, userId: string, item: QuotedItem, price: Price,
+  promo: { promoCodeId: string; discount: number } | null = null, now = new Date(),
+): Promise<PriceQuote> {
+  const fields: SignedFields = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    product: item.product,
+    network: item.network.toUpperCase(),
+    face_value: item.product === 'airtime' ? item.faceValue : null,
+    plan_id: item.product === 'data' ? item.planId : null,
+    price: price.price - (promo?.discount ?? 0),
+    promo_code_id: promo?.promoCodeId ?? null,
+    discount: promo?.discount ?? 0,
+    expires_at: new Date(now.getTime() + QUOTE_TTL_SECONDS * 1000).toISOString(),
+  };
+
+  const { data, error } = await adminClient
+    .from('price_quotes')
+    .insert({
+      ...fields,
+      cost_price: price.cost,
+      margin: price.margin,
+      fee: price.fee,
+      pricing_rule_id: price.ruleId,
+      signature: await sign(fields),
+    })
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to store quote: ${error.message}`);
+  return data;
+}
+
+/** The user's unused, unexpired quote for `product`. Throws `QuoteError` otherwise. */
+export async function checkQuote(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, userId: string, quoteId: string, product: PricedProduct,
+): Promise<PriceQuote> {
+  const { data: quote } = await adminClient
+    .from('price_quotes').select('*').eq('id', quoteId).eq('user_id', userId).maybeSingle();
+
+  if (!quote || quote.product !== product) {
+    throw new QuoteError('Price quote not found. Please review the price and try again.', 'QUOTE_NOT_FOUND');
+  }
+  if (!timingSafeEqual(await sign(quote), quote.signature)) {
+    console.error(`[quotes] Signature mismatch on quote ${quote.id}`);
+    throw new QuoteError('This price quote is not valid. Please review the price and try again.', 'QUOTE_INVALID');
+  }
+  if (quote.used_at) {
+    throw new QuoteError('This price quote has already been used.', 'QUOTE_USED');
+  }
+  if (new Date(quote.expires_at).getTime() <= Date.now()) {
+    throw new QuoteError('This price has expired. Please review the new price and try again.', 'QUOTE_EXPIRED');
+  }
+  return quote;
+}
+
+/**
+ * Marks the quote used, unless another purchase or the clock got there
+ * first, and redeems its promo code. Throws `PromoError` (leaving the quote
+ * unused) if the code can no longer be used.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function claimQuote(adminClient: any, quote: PriceQuote): Promise<void> {
+  const now = new Date().toISOString();
+  const { data } = await adminClient
+    .from('price_quotes')
+    .update({ used_at: now })
+    .eq('id', quote.id)
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('id');
+  if (!data?.length) {
+    throw new QuoteError('This price quote has already been used or has expired.', 'QUOTE_USED');
+  }
+
+  if (!quote.promo_code_id) return;
+  try {
+    await redeemPromoCode(adminClient, quote.id);
+  } catch (error) {
+    await adminClient.from('price_quotes').update({ used_at: null }).eq('id', quote.id);
+    throw error;
+  }
+}
+
+/** Makes a claimed quote usable again after the charge failed before any money moved. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function releaseQuote(adminClient: any, quoteId: string): Promise<void> {
+  await adminClient.from('price_quotes').update({ used_at: null }).eq('id', quoteId).is('transaction_id', null);
+  await releasePromoRedemption(adminClient, quoteId);
+}
+
+/**
+ * Links a claimed quote, and its promo redemption, to the transaction it
+ * paid for, and records the discount on the transaction's wallet debit.
+ */
+export async function attachQuote(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, quote: PriceQuote, transactionId: string, reference: string,
+): Promise<void> {
+  await adminClient.from('price_quotes').update({ transaction_id: transactionId }).eq('id', quote.id);
+  if (!quote.promo_code_id) return;
+
+  await adminClient.from('promo_redemptions').update({ transaction_id: transactionId }).eq('quote_id', quote.id);
+  await adminClient
+    .from('wallet_ledger')
+    .update({ promo_code_id: quote.promo_code_id, discount: Number(quote.discount) })
+    .eq('transaction_reference', reference)
+    .eq('type', 'debit');
+}
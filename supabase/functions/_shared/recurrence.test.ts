@@ -0,0 +1,146 @@
+/**
+ * Tests for the schedule recurrence module.
+ *
+ * Run with `deno test supabase/functions/_shared/recurrence.test.ts`.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  nextExecutionAt,
+  nextOccurrence,
+  todayIn,
+  upcomingExecutions,
+  validateRule,
+  type RecurrenceRule,
+} from "./recurrence.ts";
+
+const monthly = (day: number, startsOn: string): RecurrenceRule => ({
+  schedule_type: 'monthly', recurring_time: '09:00', recurring_day_of_month: day,
+  recurring_month_rule: 'day_of_month', starts_on: startsOn,
+});
+
+Deno.test('monthly on the 31st clamps to the last day of shorter months', () => {
+  assertEquals(upcomingExecutions(monthly(31, '2026-01-01'), 4, 'Africa/Lagos', new Date('2026-01-01T00:00:00Z')), [
+    '2026-01-31T08:00:00.000Z',
+    '2026-02-28T08:00:00.000Z',
+    '2026-03-31T08:00:00.000Z',
+    '2026-04-30T08:00:00.000Z',
+  ]);
+});
+
+Deno.test('monthly on the 31st runs on 29 February in a leap year', () => {
+  assertEquals(upcomingExecutions(monthly(31, '2028-01-01'), 3, 'Africa/Lagos', new Date('2028-01-01T00:00:00Z')), [
+    '2028-01-31T08:00:00.000Z',
+    '2028-02-29T08:00:00.000Z',
+    '2028-03-31T08:00:00.000Z',
+  ]);
+});
+
+Deno.test('monthly on the 29th and 30th clamps to 28 February outside leap years', () => {
+  const after = new Date('2027-02-01T00:00:00Z');
+  assertEquals(nextExecutionAt(monthly(29, '2027-01-01'), 'Africa/Lagos', after), '2027-02-28T08:00:00.000Z');
+  assertEquals(nextExecutionAt(monthly(30, '2027-01-01'), 'Africa/Lagos', after), '2027-02-28T08:00:00.000Z');
+});
+
+Deno.test('last business day and payday move off weekends', () => {
+  // 31 May 2026 is a Sunday; 25 October 2026 is a Sunday
+  const lastBusinessDay: RecurrenceRule = {
+    schedule_type: 'monthly', recurring_time: '09:00', recurring_month_rule: 'last_business_day', starts_on: '2026-05-01',
+  };
+  assertEquals(nextExecutionAt(lastBusinessDay, 'Africa/Lagos', new Date('2026-05-01T00:00:00Z')), '2026-05-29T08:00:00.000Z');
+
+  const payday: RecurrenceRule = { ...monthly(25, '2026-10-01'), recurring_month_rule: 'payday' };
+  assertEquals(nextExecutionAt(payday, 'Africa/Lagos', new Date('2026-10-01T00:00:00Z')), '2026-10-23T08:00:00.000Z');
+});
+
+Deno.test('daily times are Lagos wall-clock time, not UTC', () => {
+  const rule: RecurrenceRule = { schedule_type: 'daily', recurring_time: '07:00' };
+  assertEquals(nextExecutionAt(rule, 'Africa/Lagos', new Date('2026-03-10T05:00:00Z')), '2026-03-10T06:00:00.000Z');
+});
+
+Deno.test('the Lagos day starts an hour before the UTC day', () => {
+  // 23:30 UTC on the 10th is already 00:30 on the 11th in Lagos
+  const after = new Date('2026-03-10T23:30:00Z');
+  assertEquals(todayIn('Africa/Lagos', after), '2026-03-11');
+
+  const daily: RecurrenceRule = { schedule_type: 'daily', recurring_time: '07:00' };
+  assertEquals(nextExecutionAt(daily, 'Africa/Lagos', after), '2026-03-11T06:00:00.000Z');
+
+  // Monday 00:30 in Lagos is still Sunday in UTC
+  const weekly: RecurrenceRule = { schedule_type: 'weekly', recurring_time: '00:30', recurring_days_of_week: [1] };
+  assertEquals(nextExecutionAt(weekly, 'Africa/Lagos', new Date('2026-03-14T00:00:00Z')), '2026-03-15T23:30:00.000Z');
+});
+
+Deno.test('starts_on and ends_on are dates in the schedule timezone', () => {
+  // 23:30 UTC on 30 April is 00:30 on 1 May in Lagos, the first day allowed
+  const rule: RecurrenceRule = { schedule_type: 'daily', recurring_time: '00:30', starts_on: '2026-05-01', ends_on: '2026-05-01' };
+  assertEquals(upcomingExecutions(rule, 5, 'Africa/Lagos', new Date('2026-04-01T00:00:00Z')), ['2026-04-30T23:30:00.000Z']);
+});
+
+Deno.test('daily times keep their wall-clock time across a DST change', () => {
+  // New York springs forward on 8 March 2026: 09:00 moves from 14:00 to 13:00 UTC
+  const rule: RecurrenceRule = { schedule_type: 'daily', recurring_time: '09:00' };
+  assertEquals(upcomingExecutions(rule, 3, 'America/New_York', new Date('2026-03-06T15:00:00Z')), [
+    '2026-03-07T14:00:00.000Z',
+    '2026-03-08T13:00:00.000Z',
+    '2026-03-09T13:00:00.000Z',
+  ]);
+});
+
+Deno.test('a time skipped by DST runs after the gap', () => {
+  // 02:30 doesn't exist in New York on 8 March 2026 (02:00 → 03:00), so it runs at 03:30 EDT
+  const rule: RecurrenceRule = { schedule_type: 'daily', recurring_time: '02:30' };
+  assertEquals(upcomingExecutions(rule, 3, 'America/New_York', new Date('2026-03-07T12:00:00Z')), [
+    '2026-03-08T07:30:00.000Z',
+    '2026-03-09T06:30:00.000Z',
+    '2026-03-10T06:30:00.000Z',
+  ]);
+});
+
+Deno.test('a time repeated by DST runs once', () => {
+  // 01:30 happens twice in New York on 1 November 2026 (02:00 → 01:00)
+  const rule: RecurrenceRule = { schedule_type: 'daily', recurring_time: '01:30' };
+  assertEquals(upcomingExecutions(rule, 2, 'America/New_York', new Date('2026-10-31T12:00:00Z')), [
+    '2026-11-01T05:30:00.000Z',
+    '2026-11-02T06:30:00.000Z',
+  ]);
+});
+
+Deno.test('upcomingExecutions returns exactly the requested count', () => {
+  const rule: RecurrenceRule = { schedule_type: 'weekly', recurring_time: '09:00', recurring_days_of_week: [1, 5], recurring_interval: 2, starts_on: '2026-03-01' };
+  const runs = upcomingExecutions(rule, 5, 'Africa/Lagos', new Date('2026-03-01T00:00:00Z'));
+  assertEquals(runs.length, 5);
+  assertEquals(runs, [
+    '2026-03-02T08:00:00.000Z',
+    '2026-03-06T08:00:00.000Z',
+    '2026-03-16T08:00:00.000Z',
+    '2026-03-20T08:00:00.000Z',
+    '2026-03-30T08:00:00.000Z',
+  ]);
+  assertEquals(upcomingExecutions(rule, 0, 'Africa/Lagos', new Date('2026-03-01T00:00:00Z')), []);
+});
+
+Deno.test('ends_on is inclusive and stops the series', () => {
+  const rule: RecurrenceRule = { schedule_type: 'daily', recurring_time: '09:00', starts_on: '2026-05-01', ends_on: '2026-05-03' };
+  const after = new Date('2026-04-01T00:00:00Z');
+  assertEquals(upcomingExecutions(rule, 10, 'Africa/Lagos', after), [
+    '2026-05-01T08:00:00.000Z',
+    '2026-05-02T08:00:00.000Z',
+    '2026-05-03T08:00:00.000Z',
+  ]);
+  assertEquals(nextOccurrence(rule, new Date('2026-05-03T08:00:00Z'), 'Africa/Lagos'), null);
+});
+
+Deno.test('a one-time schedule runs once, and not when past', () => {
+  const rule: RecurrenceRule = { schedule_type: 'one_time', scheduled_at: '2026-06-01T07:00' };
+  assertEquals(upcomingExecutions(rule, 3, 'Africa/Lagos', new Date('2026-05-01T00:00:00Z')), ['2026-06-01T06:00:00.000Z']);
+  assertEquals(nextExecutionAt(rule, 'Africa/Lagos', new Date('2026-06-02T00:00:00Z')), null);
+});
+
+Deno.test('validateRule rejects an end before the start', () => {
+  assertEquals(
+    validateRule({ schedule_type: 'daily', recurring_time: '09:00', starts_on: '2026-05-03', ends_on: '2026-05-01' }),
+    'ends_on must not be before starts_on',
+  );
+  assertEquals(validateRule({ schedule_type: 'daily', recurring_time: '09:00', starts_on: '2026-05-01', ends_on: '2026-05-01' }), null);
+});
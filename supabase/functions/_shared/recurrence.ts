@@ -0,0 +1,396 @@
+/**
+ * SCHEDULE RECURRENCE
+ * ===================
+ *
+ * Computes when a scheduled top-up runs next. Times are wall-clock times in
+ * the user's timezone (`profiles.timezone`, Africa/Lagos by default), so
+ * "7:00 AM daily" means 07:00 WAT whatever zone the edge runtime uses (UTC).
+ *
+ * Rules follow iCalendar RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL),
+ * stored as columns on `scheduled_topups`:
+ *
+ * - **daily** — every `recurring_interval` days at `recurring_time`
+ * - **weekly** — on each of `recurring_days_of_week` (0 = Sunday), every
+ *   `recurring_interval` weeks
+ * - **monthly** — every `recurring_interval` months, on the day picked by
+ *   `recurring_month_rule`:
+ *   - `day_of_month` — `recurring_day_of_month`, clamped to the month's last
+ *     day (31 → 30 April, 28/29 February)
+ *   - `last_business_day` — the month's last weekday
+ *   - `payday` — `recurring_day_of_month`, or the Friday before it when it
+ *     falls on a weekend (salary paid on the 25th)
+ * - **one_time** — `scheduled_at`, if still ahead (a value without an offset
+ *   is read as wall-clock time in the same timezone)
+ *
+ * Intervals count from `starts_on`, the first day a recurring schedule may
+ * run; none run after `ends_on` (both dates in the user's timezone).
+ * Business days are Monday–Friday; public holidays aren't known here.
+ *
+ * Single occurrences can be skipped or moved without changing the rule
+ * (`scheduled_topup_exceptions`); `nextRun` and `upcomingRuns` apply them.
+ *
+ * Zone offsets come from `Intl`, so zones with daylight saving work too.
+ *
+ * @module _shared/recurrence
+ */
+
+export const DEFAULT_TIMEZONE = 'Africa/Lagos';
+
+export const SCHEDULE_TYPES = ['one_time', 'daily', 'weekly', 'monthly'] as const;
+export type ScheduleType = typeof SCHEDULE_TYPES[number];
+
+export const MONTH_RULES = ['day_of_month', 'last_business_day', 'payday'] as const;
+export type MonthRule = typeof MONTH_RULES[number];
+
+export const MAX_INTERVAL = 365;
+
+/** The scheduling columns of a `scheduled_topups` row. */
+export interface RecurrenceRule {
+  schedule_type: ScheduleType | string;
+  scheduled_at?: string | null;
+  recurring_time?: string | null;
+  recurring_interval?: number | null;
+  recurring_days_of_week?: number[] | null;
+  /** Single weekday, from before `recurring_days_of_week` */
+  recurring_day_of_week?: number | null;
+  recurring_day_of_month?: number | null;
+  recurring_month_rule?: MonthRule | string | null;
+  /** `YYYY-MM-DD` */
+  starts_on?: string | null;
+  /** `YYYY-MM-DD`, inclusive */
+  ends_on?: string | null;
+}
+
+/** A skipped or moved occurrence (`scheduled_topup_exceptions` row). */
+export interface OccurrenceException {
+  /** When the rule would have run it */
+  occurrence_at: string;
+  kind: 'skip' | 'move' | string;
+  moved_to?: string | null;
+}
+
+/** A run of a schedule: when it happens, and which occurrence of the rule it is. */
+export interface Run {
+  at: Date;
+  occurrence: Date;
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 1–12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** True if `timeZone` is an IANA zone the runtime knows. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** `timeZone` if valid, otherwise Africa/Lagos. */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', weekday: 'short',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+/** Wall-clock time of `date` in `timeZone`. */
+export function toWallClock(date: Date, timeZone: string): WallClock {
+  const parts: Record<string, string> = {};
+  for (const p of formatter(timeZone).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `date`. */
+function offsetAt(date: Date, timeZone: string): number {
+  const w = toWallClock(date, timeZone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute);
+  return asUtc - Math.floor(date.getTime() / 60_000) * 60_000;
+}
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`. Day overflow is
+ * normalised (day 32 → next month). In a DST gap the later offset is used.
+ */
+export function fromWallClock(
+  year: number, month: number, day: number, hour: number, minute: number, timeZone: string,
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const first = asUtc - offsetAt(new Date(asUtc), timeZone);
+  const second = new Date(asUtc - offsetAt(new Date(first), timeZone));
+  // Wall time doesn't exist (clocks skipped it): `first` is the moment after the gap
+  const check = toWallClock(second, timeZone);
+  return check.hour === hour && check.minute === minute ? second : new Date(first);
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Parses a date-time for `scheduled_at`. Values with an offset or `Z` are
+ * absolute; a bare `YYYY-MM-DDTHH:mm` is a wall-clock time in `timeZone`.
+ */
+export function parseDateTime(value: string, timeZone = DEFAULT_TIMEZONE): Date | null {
+  const local = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2})?$/.exec(value);
+  if (local) {
+    const [, y, mo, d, h, mi] = local.map(Number);
+    return fromWallClock(y, mo, d, h, mi, timeZone);
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseTime(value: string): { hour: number; minute: number } | null {
+  const [hour, minute] = value.split(':').map(Number);
+  if (!Number.isInteger(hour) || !Number.isInteger(minute) || hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+// ── Calendar days ─────────────────────────────────────────────────────────
+// Dates are handled as day numbers (days since 1970-01-01), which makes
+// "every N days/weeks" plain arithmetic.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayNumber(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDayNumber(n: number): { year: number; month: number; day: number; weekday: number } {
+  const d = new Date(n * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+
+/** Day number of a `YYYY-MM-DD` date, or null if it isn't one. */
+export function parseDate(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  const n = dayNumber(y, m, d);
+  const check = fromDayNumber(n);
+  return check.month === m && check.day === d ? n : null;
+}
+
+/** Today's date (`YYYY-MM-DD`) in `timeZone`. */
+export function todayIn(timeZone: string, now = new Date()): string {
+  const w = toWallClock(now, timeZone);
+  return `${w.year}-${String(w.month).padStart(2, '0')}-${String(w.day).padStart(2, '0')}`;
+}
+
+const isWeekend = (weekday: number) => weekday === 0 || weekday === 6;
+
+/** The day of `month` a monthly rule runs on. */
+function monthlyRunDay(rule: RecurrenceRule, year: number, month: number): number {
+  const last = daysInMonth(year, month);
+  let day = rule.recurring_month_rule === 'last_business_day'
+    ? last
+    : Math.min(rule.recurring_day_of_month ?? 1, last);
+  if (rule.recurring_month_rule === 'last_business_day' || rule.recurring_month_rule === 'payday') {
+    while (isWeekend(fromDayNumber(dayNumber(year, month, day)).weekday)) day--;
+  }
+  return day;
+}
+
+function weekdaysOf(rule: RecurrenceRule): number[] {
+  if (Array.isArray(rule.recurring_days_of_week) && rule.recurring_days_of_week.length) {
+    return rule.recurring_days_of_week;
+  }
+  return [rule.recurring_day_of_week ?? 0];
+}
+
+/** Whether a recurring rule runs on day `n` (counting intervals from `start`). */
+function runsOn(rule: RecurrenceRule, n: number, start: number): boolean {
+  const interval = rule.recurring_interval || 1;
+  const date = fromDayNumber(n);
+
+  if (rule.schedule_type === 'daily') {
+    return (n - start) % interval === 0;
+  }
+  if (rule.schedule_type === 'weekly') {
+    // Weeks start on Sunday, so "every 2 weeks on Mon, Fri" keeps pairs together
+    const weeks = ((n - date.weekday) - (start - fromDayNumber(start).weekday)) / 7;
+    return weeks % interval === 0 && weekdaysOf(rule).includes(date.weekday);
+  }
+  if (rule.schedule_type === 'monthly') {
+    const first = fromDayNumber(start);
+    const months = (date.year - first.year) * 12 + (date.month - first.month);
+    return months % interval === 0 && date.day === monthlyRunDay(rule, date.year, date.month);
+  }
+  return false;
+}
+
+/**
+ * Why `rule` can't be scheduled, or null if it's valid. Checks the fields
+ * of its `schedule_type`; `scheduled_at` is checked by `nextOccurrence`.
+ */
+export function validateRule(rule: RecurrenceRule): string | null {
+  if (!(SCHEDULE_TYPES as readonly string[]).includes(rule.schedule_type)) return 'Invalid schedule_type';
+  if (rule.schedule_type === 'one_time') {
+    return rule.scheduled_at ? null : 'scheduled_at is required for one_time schedules';
+  }
+
+  if (!rule.recurring_time) return 'recurring_time is required for recurring schedules';
+  if (!parseTime(rule.recurring_time)) return 'recurring_time must be HH:mm';
+
+  const interval = rule.recurring_interval ?? 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+    return `recurring_interval must be a whole number from 1 to ${MAX_INTERVAL}`;
+  }
+
+  if (rule.schedule_type === 'weekly') {
+    if (rule.recurring_days_of_week != null && !Array.isArray(rule.recurring_days_of_week)) {
+      return 'recurring_days_of_week must be an array of days';
+    }
+    const days = weekdaysOf(rule);
+    if (days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return 'recurring_days_of_week must be days 0 (Sunday) to 6 (Saturday)';
+    }
+  }
+
+  if (rule.schedule_type === 'monthly') {
+    const monthRule = rule.recurring_month_rule ?? 'day_of_month';
+    if (!(MONTH_RULES as readonly string[]).includes(monthRule)) return 'Invalid recurring_month_rule';
+    const day = rule.recurring_day_of_month ?? 1;
+    if (monthRule !== 'last_business_day' && (!Number.isInteger(day) || day < 1 || day > 31)) {
+      return 'recurring_day_of_month must be 1 to 31';
+    }
+  }
+
+  const start = rule.starts_on ? parseDate(rule.starts_on) : null;
+  const end = rule.ends_on ? parseDate(rule.ends_on) : null;
+  if (rule.starts_on && start === null) return 'starts_on must be a YYYY-MM-DD date';
+  if (rule.ends_on && end === null) return 'ends_on must be a YYYY-MM-DD date';
+  if (start !== null && end !== null && end < start) return 'ends_on must not be before starts_on';
+
+  return null;
+}
+
+/**
+ * First occurrence of `rule` strictly after `after`, or null when there is
+ * none (a past one-time schedule, a rule past its `ends_on`, or
+ * missing/invalid fields).
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date, timeZone = DEFAULT_TIMEZONE): Date | null {
+  if (rule.schedule_type === 'one_time') {
+    const at = rule.scheduled_at ? parseDateTime(rule.scheduled_at, timeZone) : null;
+    return at && at > after ? at : null;
+  }
+  if (validateRule(rule)) return null;
+
+  const time = parseTime(rule.recurring_time!)!;
+  const now = toWallClock(after, timeZone);
+  const today = dayNumber(now.year, now.month, now.day);
+  const start = rule.starts_on ? parseDate(rule.starts_on)! : today;
+  const end = rule.ends_on ? parseDate(rule.ends_on)! : Infinity;
+
+  // Every rule runs at least once in any (interval + 1) months
+  const limit = Math.max(today, start) + ((rule.recurring_interval || 1) + 1) * 31;
+  for (let n = Math.max(today, start); n <= Math.min(limit, end); n++) {
+    if (!runsOn(rule, n, start)) continue;
+    const date = fromDayNumber(n);
+    const at = fromWallClock(date.year, date.month, date.day, time.hour, time.minute, timeZone);
+    if (at > after) return at;
+  }
+  return null;
+}
+
+/** `nextOccurrence` as an ISO string, for `scheduled_topups.next_execution_at`. */
+export function nextExecutionAt(rule: RecurrenceRule, timeZone = DEFAULT_TIMEZONE, after = new Date()): string | null {
+  return nextOccurrence(rule, after, timeZone)?.toISOString() ?? null;
+}
+
+/** The next `count` occurrences after `after`, as ISO strings (fewer if the rule ends). */
+export function upcomingExecutions(
+  rule: RecurrenceRule, count: number, timeZone = DEFAULT_TIMEZONE, after = new Date(),
+): string[] {
+  const runs: string[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    const next = nextOccurrence(rule, cursor, timeZone);
+    if (!next) break;
+    runs.push(next.toISOString());
+    cursor = next;
+  }
+  return runs;
+}
+
+/** True if `at` is an occurrence of `rule` (not just any time). */
+export function isOccurrence(rule: RecurrenceRule, at: Date, timeZone = DEFAULT_TIMEZONE): boolean {
+  return nextOccurrence(rule, new Date(at.getTime() - 1), timeZone)?.getTime() === at.getTime();
+}
+
+/**
+ * First run strictly after `after`, with `exceptions` applied: skipped
+ * occurrences are left out and moved ones run at `moved_to`.
+ */
+export function nextRun(
+  rule: RecurrenceRule, exceptions: OccurrenceException[], after: Date, timeZone = DEFAULT_TIMEZONE,
+): Run | null {
+  const byOccurrence = new Map(exceptions.map((e) => [new Date(e.occurrence_at).getTime(), e]));
+
+  let next: Run | null = null;
+  let cursor = after;
+  // Bounded in case every upcoming occurrence has an exception
+  for (let i = 0; i <= exceptions.length; i++) {
+    const occurrence = nextOccurrence(rule, cursor, timeZone);
+    if (!occurrence) break;
+    if (!byOccurrence.has(occurrence.getTime())) {
+      next = { at: occurrence, occurrence };
+      break;
+    }
+    cursor = occurrence;
+  }
+
+  for (const e of exceptions) {
+    if (e.kind !== 'move' || !e.moved_to) continue;
+    const at = new Date(e.moved_to);
+    if (at > after && (!next || at < next.at)) next = { at, occurrence: new Date(e.occurrence_at) };
+  }
+  return next;
+}
+
+/** The next `count` runs after `after`, with `exceptions` applied. */
+export function upcomingRuns(
+  rule: RecurrenceRule, exceptions: OccurrenceException[], count: number,
+  timeZone = DEFAULT_TIMEZONE, after = new Date(),
+): Run[] {
+  const runs: Run[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    const run = nextRun(rule, exceptions, cursor, timeZone);
+    if (!run) break;
+    runs.push(run);
+    cursor = run.at;
+  }
+  return runs;
+}
@@ -0,0 +1,92 @@
+/**
+ * SCHEDULE FORECAST
+ * =================
+ *
+ * What users' active scheduled top-ups will charge over the coming days, for
+ * the pre-run reminders (`scheduled-topup-reminders`) and the cash-flow strip
+ * (`GET /scheduled-topups?forecast=true`).
+ *
+ * A schedule's first charge is its `next_execution_at`, which may be a retry
+ * or a moved run; later ones follow its rule with skipped and moved runs
+ * applied, up to `max_executions`. Paused schedules, and ones not yet
+ * authorized with the user's PIN, don't run and aren't counted.
+ *
+ * @module _shared/schedule-forecast
+ */
+
+import { nextRun, resolveTimeZone } from "./recurrence.ts";
+
+export interface UpcomingCharge {
+  scheduleId: string;
+  userId: string;
+  /** ISO time the run is due */
+  at: string;
+  amount: number;
+  type: string;
+  phoneNumber: string | null;
+  /** The user's timezone, for showing `at` */
+  timeZone: string;
+}
+
+/**
+ * The charges `schedules` (`scheduled_topups` rows) make from now until
+ * `until`, earliest first. Loads the users' timezones and the schedules'
+ * pending exceptions.
+ */
+export async function upcomingCharges(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, schedules: any[], until: Date, now = new Date(),
+): Promise<UpcomingCharge[]> {
+  const runnable = schedules.filter(
+    (s) => s.status === 'active' && s.pin_authorized_at && s.next_execution_at && new Date(s.next_execution_at) <= until,
+  );
+  if (runnable.length === 0) return [];
+
+  const userIds = [...new Set(runnable.map((s) => s.user_id))];
+  const [{ data: profiles }, { data: exceptions }] = await Promise.all([
+    adminClient.from('profiles').select('user_id, timezone').in('user_id', userIds),
+    adminClient.from('scheduled_topup_exceptions').select('scheduled_topup_id, occurrence_at, kind, moved_to')
+      .in('scheduled_topup_id', runnable.map((s) => s.id))
+      .or(`occurrence_at.gt.${now.toISOString()},moved_to.gt.${now.toISOString()}`),
+  ]);
+
+  const timeZones = new Map<string, string>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (profiles || []).map((p: any) => [p.user_id, resolveTimeZone(p.timezone)]),
+  );
+
+  const charges: UpcomingCharge[] = [];
+  for (const schedule of runnable) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const own = (exceptions || []).filter((e: any) => e.scheduled_topup_id === schedule.id);
+    const timeZone = timeZones.get(schedule.user_id) || resolveTimeZone(null);
+    const remaining = schedule.max_executions
+      ? schedule.max_executions - (schedule.total_executions || 0)
+      : Infinity;
+
+    const charge = (at: Date): UpcomingCharge => ({
+      scheduleId: schedule.id,
+      userId: schedule.user_id,
+      at: at.toISOString(),
+      amount: Number(schedule.amount),
+      type: schedule.type,
+      phoneNumber: schedule.phone_number,
+      timeZone,
+    });
+
+    let cursor = new Date(schedule.next_execution_at);
+    let count = 1;
+    charges.push(charge(cursor));
+    if (schedule.schedule_type === 'one_time') continue;
+
+    while (count < remaining) {
+      const run = nextRun(schedule, own, cursor, timeZone);
+      if (!run || run.at > until) break;
+      charges.push(charge(run.at));
+      cursor = run.at;
+      count++;
+    }
+  }
+
+  return charges.sort((a, b) => a.at.localeCompare(b.at));
+}
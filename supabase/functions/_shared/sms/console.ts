@@ -0,0 +1,22 @@
+/**
+ * CONSOLE SMS SENDER (local development only)
+ * ===========================================
+ *
+ * Selected with `SMS_PROVIDER=console`. Nothing is sent; the message is
+ * written to the function logs so codes can be read from there.
+ *
+ * @module _shared/sms/console
+ */
+
+import type { SmsResult, SmsSender } from "./types.ts";
+
+export function createConsoleSender(): SmsSender {
+  return {
+    name: 'console',
+
+    send(phoneNumber: string, message: string): Promise<SmsResult> {
+      console.log(`[sms:console] to=${phoneNumber} message="${message}"`);
+      return Promise.resolve({ messageId: `console_${crypto.randomUUID()}` });
+    },
+  };
+}
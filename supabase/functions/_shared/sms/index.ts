@@ -0,0 +1,39 @@
+/**
+ * SMS SENDER REGISTRY
+ * ===================
+ *
+ * Resolves the sender used for one-time codes.
+ *
+ * ## Configuration (environment secrets)
+ * - `SMS_PROVIDER` — "termii" (default) or "console" for local development
+ * - `TERMII_API_KEY` — Termii API key
+ * - `TERMII_SENDER_ID` — Registered sender id (default "Nava")
+ *
+ * @module _shared/sms
+ */
+
+import { createConsoleSender } from "./console.ts";
+import { createTermiiSender } from "./termii.ts";
+import type { SmsSender } from "./types.ts";
+
+export type * from "./types.ts";
+
+const DEFAULT_SENDER = 'termii';
+
+/** Sender name → adapter factory. */
+const SENDER_FACTORIES: Record<string, () => SmsSender> = {
+  termii: () => createTermiiSender(),
+  console: () => createConsoleSender(),
+};
+
+/** Returns the adapter registered under `name`. Throws for unknown senders. */
+export function getSender(name: string): SmsSender {
+  const factory = SENDER_FACTORIES[name.toLowerCase()];
+  if (!factory) throw new Error(`Unknown SMS provider: ${name}`);
+  return factory();
+}
+
+/** Returns the configured SMS sender. */
+export function getSmsSender(): SmsSender {
+  return getSender(Deno.env.get('SMS_PROVIDER') || DEFAULT_SENDER);
+}
@@ -0,0 +1,51 @@
+/**
+ * TERMII SMS SENDER
+ * =================
+ *
+ * Implements `SmsSender` against the Termii messaging API, on the DND-safe
+ * `dnd` channel so codes reach numbers with Do-Not-Disturb enabled.
+ *
+ * @module _shared/sms/termii
+ */
+
+import type { SmsResult, SmsSender } from "./types.ts";
+
+const TERMII_BASE_URL = 'https://api.ng.termii.com/api';
+
+/** Termii expects international format without the plus: 2348012345678. */
+function toInternational(phoneNumber: string): string {
+  const digits = phoneNumber.replace(/\D/g, '');
+  return digits.startsWith('0') ? `234${digits.slice(1)}` : digits;
+}
+
+export function createTermiiSender(
+  apiKey = Deno.env.get('TERMII_API_KEY') || '',
+  senderId = Deno.env.get('TERMII_SENDER_ID') || 'Nava',
+): SmsSender {
+  return {
+    name: 'termii',
+
+    async send(phoneNumber: string, message: string): Promise<SmsResult> {
+      if (!apiKey) throw new Error('TERMII_API_KEY is not configured');
+
+      const res = await fetch(`${TERMII_BASE_URL}/sms/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          api_key: apiKey,
+          to: toInternational(phoneNumber),
+          from: senderId,
+          sms: message,
+          type: 'plain',
+          channel: 'dnd',
+        }),
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || (data.code && data.code !== 'ok')) {
+        throw new Error(`Termii send failed (${res.status}): ${data.message || 'unknown error'}`);
+      }
+      return { messageId: data.message_id ? String(data.message_id) : null };
+    },
+  };
+}
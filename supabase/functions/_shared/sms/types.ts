@@ -0,0 +1,24 @@
+/**
+ * SMS SENDER CONTRACT
+ * ===================
+ *
+ * One-time codes and other texts go out through an `SmsSender` adapter
+ * (Termii, the local console sender, ...). Adapters only deliver; code
+ * generation, hashing and rate limits live in the calling function.
+ *
+ * @module _shared/sms/types
+ */
+
+export interface SmsResult {
+  /** The sender's message id, for support lookups */
+  messageId: string | null;
+}
+
+export interface SmsSender {
+  name: string;
+  /**
+   * Sends `message` to a Nigerian number (local `080...` or `234...` form).
+   * Throws when the sender rejects the message.
+   */
+  send(phoneNumber: string, message: string): Promise<SmsResult>;
+}
@@ -4,9 +4,12 @@
  * Provides admin-only data access using service_role.
  * Validates JWT and checks admin role before executing any action.
  * All admin queries are server-side to prevent data leakage.
+ * Decrypting PII (`reveal_nin`) is logged to `pii_access_log` before the
+ * value is returned.
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decryptPii, ninContext } from "../_shared/pii.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -97,13 +100,19 @@ Deno.serve(async (req) => {
 
       case "get_user_details": {
         const { userId } = params;
-        const [profileRes, walletRes, txnRes] = await Promise.all([
+        const [profileRes, walletRes, txnRes, limitsRes] = await Promise.all([
           supabaseAdmin.from("profiles").select("*").eq("user_id", userId).single(),
           supabaseAdmin.from("wallets").select("*").eq("user_id", userId).single(),
           supabaseAdmin.from("transactions").select("*").eq("user_id", userId)
             .order("created_at", { ascending: false }).limit(20),
+          supabaseAdmin.rpc("get_kyc_limits", { p_user_id: userId }),
         ]);
-        result = { profile: profileRes.data, wallet: walletRes.data, transactions: txnRes.data || [] };
+        result = {
+          profile: profileRes.data,
+          wallet: walletRes.data,
+          transactions: txnRes.data || [],
+          limits: limitsRes.data,
+        };
         break;
       }
 
@@ -209,6 +218,66 @@ Deno.serve(async (req) => {
         break;
       }
 
+      case "get_referrals_report": {
+        // Referrals signed up within the period; rejections by reason show
+        // which fraud guard fired, and referrers with many are worth a look
+        const days = { week: 7, month: 30, quarter: 90 }[params.period as string] ?? 30;
+        const since = new Date(Date.now() - days * 86400000).toISOString();
+
+        const { data: referrals, error: referralsError } = await supabaseAdmin
+          .from("referrals")
+          .select("referrer_id, status, rejection_reason, referrer_reward, referee_reward")
+          .gte("created_at", since);
+        if (referralsError) throw new Error(referralsError.message);
+
+        const rows = referrals || [];
+        const count = (status: string) => rows.filter((r) => r.status === status).length;
+        const rejectedByReason: Record<string, number> = { same_device: 0, same_phone: 0, same_nin: 0 };
+        const byReferrer = new Map<string, { referrals: number; rewarded: number; rejected: number; earned: number }>();
+        let rewardsPaid = 0;
+
+        for (const r of rows) {
+          if (r.status === "rejected" && r.rejection_reason) {
+            rejectedByReason[r.rejection_reason] = (rejectedByReason[r.rejection_reason] || 0) + 1;
+          }
+          if (r.status === "rewarded") rewardsPaid += Number(r.referrer_reward) + Number(r.referee_reward);
+
+          const stats = byReferrer.get(r.referrer_id) || { referrals: 0, rewarded: 0, rejected: 0, earned: 0 };
+          stats.referrals += 1;
+          if (r.status === "rewarded") {
+            stats.rewarded += 1;
+            stats.earned += Number(r.referrer_reward);
+          }
+          if (r.status === "rejected") stats.rejected += 1;
+          byReferrer.set(r.referrer_id, stats);
+        }
+
+        const top = Array.from(byReferrer.entries())
+          .sort((a, b) => b[1].referrals - a[1].referrals)
+          .slice(0, 10);
+        const { data: profiles } = top.length
+          ? await supabaseAdmin.from("profiles").select("user_id, full_name, referral_code")
+            .in("user_id", top.map(([userId]) => userId))
+          : { data: [] };
+        const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+
+        result = {
+          signups: rows.length,
+          pending: count("pending"),
+          rewarded: count("rewarded"),
+          rejected: count("rejected"),
+          rewardsPaid,
+          rejectedByReason,
+          topReferrers: top.map(([userId, stats]) => ({
+            userId,
+            name: profileMap.get(userId)?.full_name || null,
+            referralCode: profileMap.get(userId)?.referral_code || null,
+            ...stats,
+          })),
+        };
+        break;
+      }
+
       case "adjust_wallet": {
         const { userId: targetUserId, amount, type, reason } = params;
         if (!targetUserId || !amount || !type || !reason) {
@@ -242,6 +311,315 @@ Deno.serve(async (req) => {
         break;
       }
 
+      case "set_kyc_tier": {
+        const { userId: targetUserId, tier, note } = params;
+        if (!targetUserId || !tier || !note) {
+          throw new Error("Missing required fields: userId, tier, note");
+        }
+        if (![1, 2, 3].includes(Number(tier))) throw new Error(`Unknown KYC tier: ${tier}`);
+
+        const { data: profile } = await supabaseAdmin
+          .from("profiles").select("kyc_tier").eq("user_id", targetUserId).single();
+        if (!profile) throw new Error("User not found");
+
+        const { error: updateError } = await supabaseAdmin
+          .from("profiles").update({ kyc_tier: Number(tier) }).eq("user_id", targetUserId);
+        if (updateError) throw new Error(updateError.message);
+
+        await supabaseAdmin.from("kyc_tier_changes").insert({
+          user_id: targetUserId,
+          from_tier: profile.kyc_tier,
+          to_tier: Number(tier),
+          changed_by: user.id,
+          reason: note,
+        });
+
+        result = { success: true, fromTier: profile.kyc_tier, toTier: Number(tier) };
+        break;
+      }
+
+      case "reveal_nin": {
+        const { userId: subjectUserId, reason } = params;
+        if (!subjectUserId || !reason?.trim()) {
+          throw new Error("Missing required fields: userId, reason");
+        }
+
+        const { data: kyc } = await supabaseAdmin
+          .from("user_kyc").select("nin_number_encrypted").eq("user_id", subjectUserId).maybeSingle();
+        if (!kyc?.nin_number_encrypted) throw new Error("No NIN on file for this user");
+
+        // Log first: no audit entry, no plaintext
+        const { error: logError } = await supabaseAdmin.from("pii_access_log").insert({
+          admin_id: user.id,
+          subject_user_id: subjectUserId,
+          field: "nin",
+          reason: reason.trim(),
+        });
+        if (logError) throw new Error("Could not record this access; NIN not revealed");
+
+        result = { nin: await decryptPii(kyc.nin_number_encrypted, ninContext(subjectUserId)) };
+        break;
+      }
+
+      case "get_funding_suspense": {
+        const { page = 1, limit = 20, status } = params;
+        let query = supabaseAdmin.from("funding_suspense").select("*", { count: "exact" });
+        if (status) query = query.eq("status", status);
+        const { data: items, count } = await query
+          .order("received_at", { ascending: false })
+          .range((page - 1) * limit, page * limit - 1);
+
+        // Enrich matched items with user names
+        const userIds = (items || []).map((i) => i.matched_user_id).filter(Boolean);
+        const { data: profiles } = userIds.length
+          ? await supabaseAdmin.from("profiles").select("user_id, full_name").in("user_id", userIds)
+          : { data: [] };
+
+        const profileMap = new Map((profiles || []).map((p) => [p.user_id, p.full_name]));
+        result = {
+          items: (items || []).map((i) => ({
+            ...i,
+            full_name: i.matched_user_id ? profileMap.get(i.matched_user_id) || null : null,
+          })),
+          total: count || 0,
+        };
+        break;
+      }
+
+      case "resolve_funding_suspense": {
+        const { suspenseId, resolution, userId: targetUserId, note } = params;
+        if (!suspenseId || !resolution || !note) {
+          throw new Error("Missing required fields: suspenseId, resolution, note");
+        }
+
+        if (resolution === "credit") {
+          if (!targetUserId) throw new Error("userId is required to credit a suspense item");
+          const { data: creditResult, error: creditError } = await supabaseAdmin.rpc("credit_funding_suspense", {
+            p_suspense_id: suspenseId,
+            p_user_id: targetUserId,
+            p_admin_id: user.id,
+            p_note: note,
+          });
+          if (creditError) throw new Error(creditError.message);
+          if (!creditResult?.success) throw new Error(creditResult?.error || "Failed to credit wallet");
+          result = creditResult;
+        } else if (resolution === "refunded" || resolution === "dismissed") {
+          const { data: updated } = await supabaseAdmin.from("funding_suspense").update({
+            status: resolution,
+            resolved_by: user.id,
+            resolved_at: new Date().toISOString(),
+            resolution_note: note,
+          }).eq("id", suspenseId).eq("status", "open").select("id");
+          if (!updated?.length) throw new Error("Suspense item not found or already resolved");
+          result = { success: true };
+        } else {
+          throw new Error(`Unknown resolution: ${resolution}`);
+        }
+        break;
+      }
+
+      case "get_bvn_reviews": {
+        const { page = 1, limit = 20, status } = params;
+        let query = supabaseAdmin.from("bvn_reviews").select("*", { count: "exact" });
+        if (status) query = query.eq("status", status);
+        const { data: items, count } = await query
+          .order("created_at", { ascending: false })
+          .range((page - 1) * limit, page * limit - 1);
+
+        // Reviewers compare against the profile as it is now, not just as submitted
+        const userIds = (items || []).map((i) => i.user_id);
+        const { data: profiles } = userIds.length
+          ? await supabaseAdmin.from("profiles").select("user_id, full_name, kyc_tier").in("user_id", userIds)
+          : { data: [] };
+
+        const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+        result = {
+          items: (items || []).map(({ bvn_hash: _bvnHash, ...i }) => ({
+            ...i,
+            full_name: profileMap.get(i.user_id)?.full_name || null,
+            kyc_tier: profileMap.get(i.user_id)?.kyc_tier ?? null,
+          })),
+          total: count || 0,
+        };
+        break;
+      }
+
+      case "resolve_bvn_review": {
+        const { reviewId, resolution, note } = params;
+        if (!reviewId || !resolution || !note) {
+          throw new Error("Missing required fields: reviewId, resolution, note");
+        }
+        if (resolution !== "approved" && resolution !== "rejected") {
+          throw new Error(`Unknown resolution: ${resolution}`);
+        }
+
+        const { data: reviewResult, error: reviewError } = await supabaseAdmin.rpc("resolve_bvn_review", {
+          p_review_id: reviewId,
+          p_admin_id: user.id,
+          p_approve: resolution === "approved",
+          p_note: note,
+        });
+        if (reviewError) throw new Error(reviewError.message);
+        if (!reviewResult?.success) throw new Error(reviewResult?.error || "Failed to resolve review");
+        result = reviewResult;
+        break;
+      }
+
+      case "get_reconciliation": {
+        const { page = 1, limit = 20, status, kind } = params;
+        let query = supabaseAdmin.from("reconciliation_items").select("*", { count: "exact" });
+        if (status) query = query.eq("status", status);
+        if (kind) query = query.eq("kind", kind);
+        const [{ data: items, count }, { data: runs }] = await Promise.all([
+          query.order("created_at", { ascending: false }).range((page - 1) * limit, page * limit - 1),
+          supabaseAdmin.from("reconciliation_runs").select("*")
+            .order("run_date", { ascending: false }).limit(10),
+        ]);
+
+        // Enrich with user names
+        const userIds = (items || []).map((i) => i.user_id).filter(Boolean);
+        const { data: profiles } = userIds.length
+          ? await supabaseAdmin.from("profiles").select("user_id, full_name").in("user_id", userIds)
+          : { data: [] };
+
+        const profileMap = new Map((profiles || []).map((p) => [p.user_id, p.full_name]));
+        result = {
+          items: (items || []).map((i) => ({ ...i, full_name: profileMap.get(i.user_id) || null })),
+          runs: runs || [],
+          total: count || 0,
+        };
+        break;
+      }
+
+      case "resolve_reconciliation_item": {
+        const { itemId, resolution, note } = params;
+        if (!itemId || !resolution || !note) {
+          throw new Error("Missing required fields: itemId, resolution, note");
+        }
+
+        if (resolution === "refund") {
+          const { data: refundResult, error: refundError } = await supabaseAdmin.rpc("refund_reconciliation_item", {
+            p_item_id: itemId,
+            p_admin_id: user.id,
+            p_note: note,
+          });
+          if (refundError) throw new Error(refundError.message);
+          if (!refundResult?.success) throw new Error(refundResult?.error || "Failed to refund purchase");
+          result = refundResult;
+        } else if (resolution === "resolved" || resolution === "ignored") {
+          const { data: updated } = await supabaseAdmin.from("reconciliation_items").update({
+            status: resolution,
+            resolved_by: user.id,
+            resolved_at: new Date().toISOString(),
+            resolution_note: note,
+          }).eq("id", itemId).eq("status", "open").select("id");
+          if (!updated?.length) throw new Error("Reconciliation item not found or already resolved");
+          result = { success: true };
+        } else {
+          throw new Error(`Unknown resolution: ${resolution}`);
+        }
+        break;
+      }
+
+      case "get_pricing_rules": {
+        const { data: rules, error: rulesError } = await supabaseAdmin
+          .from("pricing_rules").select("*")
+          .order("is_active", { ascending: false })
+          .order("priority", { ascending: false })
+          .order("created_at", { ascending: false });
+        if (rulesError) throw new Error(rulesError.message);
+        result = { rules: rules || [] };
+        break;
+      }
+
+      case "save_pricing_rule": {
+        // Takes effect on the next quote; no deploy needed
+        const { ruleId, rule } = params;
+        if (!rule || typeof rule !== "object") throw new Error("Missing required field: rule");
+
+        const fields = [
+          "name", "product", "network", "plan_category", "kyc_tier", "margin_percent", "fixed_fee",
+          "min_markup", "max_markup", "priority", "starts_at", "ends_at", "is_active",
+        ];
+        const columns = Object.fromEntries(Object.entries(rule).filter(([key]) => fields.includes(key)));
+        if (typeof columns.network === "string") columns.network = columns.network.toUpperCase();
+        if (!ruleId && !columns.name) throw new Error("Missing required field: rule.name");
+
+        const { data: saved, error: saveError } = ruleId
+          ? await supabaseAdmin.from("pricing_rules").update(columns).eq("id", ruleId).select().single()
+          : await supabaseAdmin.from("pricing_rules").insert({ ...columns, created_by: user.id }).select().single();
+        if (saveError) throw new Error(saveError.message);
+        result = { success: true, rule: saved };
+        break;
+      }
+
+      case "get_promo_codes": {
+        const { data: codes, error: codesError } = await supabaseAdmin
+          .from("promo_codes").select("*, promo_redemptions(count)")
+          .order("is_active", { ascending: false })
+          .order("created_at", { ascending: false });
+        if (codesError) throw new Error(codesError.message);
+        result = { codes: codes || [] };
+        break;
+      }
+
+      case "save_promo_code": {
+        // Takes effect on the next quote; redemptions already made keep their discount
+        const { promoCodeId, promo } = params;
+        if (!promo || typeof promo !== "object") throw new Error("Missing required field: promo");
+
+        const fields = [
+          "code", "description", "discount_type", "discount_value", "max_discount", "min_purchase", "product",
+          "network", "first_purchase_only", "max_redemptions", "max_redemptions_per_user", "starts_at", "ends_at",
+          "is_active",
+        ];
+        const columns = Object.fromEntries(Object.entries(promo).filter(([key]) => fields.includes(key)));
+        if (typeof columns.code === "string") columns.code = columns.code.trim().toUpperCase();
+        if (typeof columns.network === "string") columns.network = columns.network.toUpperCase();
+        if (!promoCodeId && (!columns.code || !columns.discount_type || !columns.discount_value)) {
+          throw new Error("Missing required fields: promo.code, promo.discount_type, promo.discount_value");
+        }
+
+        const { data: saved, error: saveError } = promoCodeId
+          ? await supabaseAdmin.from("promo_codes").update(columns).eq("id", promoCodeId).select().single()
+          : await supabaseAdmin.from("promo_codes").insert({ ...columns, created_by: user.id }).select().single();
+        if (saveError) throw new Error(saveError.message);
+        result = { success: true, promo: saved };
+        break;
+      }
+
+      case "get_cashback_rules": {
+        const { data: rules, error: rulesError } = await supabaseAdmin
+          .from("cashback_rules").select("*")
+          .order("is_active", { ascending: false })
+          .order("priority", { ascending: false })
+          .order("created_at", { ascending: false });
+        if (rulesError) throw new Error(rulesError.message);
+        result = { rules: rules || [] };
+        break;
+      }
+
+      case "save_cashback_rule": {
+        // Applies to purchases completing from now on; cashback already earned is kept
+        const { ruleId, rule } = params;
+        if (!rule || typeof rule !== "object") throw new Error("Missing required field: rule");
+
+        const fields = [
+          "name", "product", "network", "min_amount", "percent", "fixed_amount", "max_cashback", "priority",
+          "starts_at", "ends_at", "is_active",
+        ];
+        const columns = Object.fromEntries(Object.entries(rule).filter(([key]) => fields.includes(key)));
+        if (typeof columns.network === "string") columns.network = columns.network.toUpperCase();
+        if (!ruleId && !columns.name) throw new Error("Missing required field: rule.name");
+
+        const { data: saved, error: saveError } = ruleId
+          ? await supabaseAdmin.from("cashback_rules").update(columns).eq("id", ruleId).select().single()
+          : await supabaseAdmin.from("cashback_rules").insert({ ...columns, created_by: user.id }).select().single();
+        if (saveError) throw new Error(saveError.message);
+        result = { success: true, rule: saved };
+        break;
+      }
+
       default:
         throw new Error(`Unknown action: ${action}`);
     }
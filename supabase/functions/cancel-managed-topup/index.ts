@@ -17,16 +17,30 @@
  * ### PATCH /cancel-managed-topup?id=<schedule_id>&action=resume
  * Resumes a paused scheduled top-up.
  * 
+ * ### PATCH /cancel-managed-topup?id=<schedule_id>&action=skip|snooze|reschedule
+ * Changes one run without altering the series, recorded in
+ * `scheduled_topup_exceptions`. Applies to the next run unless the body
+ * names an `occurrence` (when the rule would run it, ISO).
+ * - **skip** — the run doesn't happen (recurring schedules only). While a
+ *   failed run is being retried, it gives that run up instead
+ * - **snooze** — `{ "hours": 3 }`, 1 to `MAX_SNOOZE_HOURS` later
+ * - **reschedule** — `{ "to": "2026-05-02T09:00" }`; a time without an
+ *   offset is wall-clock time in the user's timezone
+ * 
  * @module cancel-managed-topup
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isOccurrence, nextRun, parseDateTime, resolveTimeZone } from "../_shared/recurrence.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const OCCURRENCE_ACTIONS = ['skip', 'snooze', 'reschedule'];
+const MAX_SNOOZE_HOURS = 72;
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -162,11 +176,11 @@ Deno.serve(async (req: Request) => {
     if (req.method === 'PATCH') {
       const action = url.searchParams.get('action');
       
-      if (!action || !['pause', 'resume'].includes(action)) {
+      if (!action || !['pause', 'resume', ...OCCURRENCE_ACTIONS].includes(action)) {
         return new Response(
           JSON.stringify({ 
             error: 'Bad Request', 
-            message: "Action must be 'pause' or 'resume'"
+            message: "Action must be 'pause', 'resume', 'skip', 'snooze' or 'reschedule'"
           }),
           { 
             status: 400, 
@@ -180,7 +194,7 @@ Deno.serve(async (req: Request) => {
       // Verify the schedule belongs to the user
       const { data: schedule, error: fetchError } = await adminClient
         .from('scheduled_topups')
-        .select('id, user_id, status')
+        .select('*')
         .eq('id', scheduleId)
         .single();
 
@@ -205,6 +219,11 @@ Deno.serve(async (req: Request) => {
         );
       }
 
+      if (OCCURRENCE_ACTIONS.includes(action)) {
+        const body = await req.json().catch(() => ({}));
+        return await changeOccurrence(adminClient, schedule, action, body);
+      }
+
       // Validate state transitions
       if (action === 'pause' && schedule.status !== 'active') {
         return new Response(
@@ -294,3 +313,168 @@ Deno.serve(async (req: Request) => {
     );
   }
 });
+
+/**
+ * Skips, snoozes or reschedules one run of a schedule, then moves
+ * `next_execution_at` to the schedule's next run.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function changeOccurrence(adminClient: any, schedule: any, action: string, body: Record<string, unknown>) {
+  const fail = (status: number, error: string, message: string) => new Response(
+    JSON.stringify({ error, message }),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+  );
+
+  if (!['active', 'paused'].includes(schedule.status)) {
+    return fail(400, 'Invalid Operation', `Cannot change runs of a ${schedule.status} schedule`);
+  }
+  if (action === 'skip' && schedule.schedule_type === 'one_time') {
+    return fail(400, 'Invalid Operation', 'A one-time schedule has a single run. Cancel it instead.');
+  }
+
+  const { data: profile } = await adminClient
+    .from('profiles').select('timezone').eq('user_id', schedule.user_id).maybeSingle();
+  const timeZone = resolveTimeZone(profile?.timezone);
+  const now = new Date();
+
+  // Exceptions that can still matter: occurrence or new time ahead
+  const { data: exceptions } = await adminClient
+    .from('scheduled_topup_exceptions')
+    .select('occurrence_at, kind, moved_to')
+    .eq('scheduled_topup_id', schedule.id)
+    .or(`occurrence_at.gt.${now.toISOString()},moved_to.gt.${now.toISOString()}`);
+  const pending = exceptions || [];
+
+  // Skipping while a failed run is being retried gives that run up
+  if (action === 'skip' && !body.occurrence && schedule.retry_until) {
+    const next = nextRun(schedule, pending, now, timeZone);
+    const { data: updated, error: updateError } = await adminClient
+      .from('scheduled_topups')
+      .update({
+        next_execution_at: next?.at.toISOString() ?? null,
+        retry_attempt: 0,
+        retry_until: null,
+        held_since: null,
+        ...(next ? {} : { status: 'completed' }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', schedule.id)
+      .select()
+      .single();
+    if (updateError) {
+      console.error('[cancel-managed-topup] skip retry error:', updateError);
+      return fail(500, 'Internal Server Error', 'Failed to skip the run');
+    }
+    return new Response(
+      JSON.stringify({ success: true, message: 'Run skipped', occurrence: null, runsAt: null, schedule: updated }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+
+  // ── Which run ─────────────────────────────────────────────────────────
+  let occurrence: Date;
+  if (body.occurrence) {
+    const parsed = new Date(String(body.occurrence));
+    if (Number.isNaN(parsed.getTime()) || !isOccurrence(schedule, parsed, timeZone)) {
+      return fail(400, 'Bad Request', 'occurrence is not a run of this schedule');
+    }
+    occurrence = parsed;
+  } else {
+    const next = nextRun(schedule, pending, now, timeZone);
+    if (!next) return fail(400, 'Invalid Operation', 'This schedule has no upcoming run');
+    occurrence = next.occurrence;
+  }
+
+  const existing = pending.find(
+    (e: { occurrence_at: string }) => new Date(e.occurrence_at).getTime() === occurrence.getTime(),
+  );
+  if (existing?.kind === 'skip') {
+    return fail(400, 'Invalid Operation', 'That run is already skipped');
+  }
+  const currentTime = existing?.moved_to ? new Date(existing.moved_to) : occurrence;
+  if (currentTime <= now) {
+    return fail(400, 'Invalid Operation', 'That run is already due');
+  }
+
+  // ── New time ──────────────────────────────────────────────────────────
+  let movedTo: Date | null = null;
+  if (action === 'snooze') {
+    const hours = Number(body.hours);
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_SNOOZE_HOURS) {
+      return fail(400, 'Bad Request', `hours must be a whole number from 1 to ${MAX_SNOOZE_HOURS}`);
+    }
+    movedTo = new Date(currentTime.getTime() + hours * 60 * 60 * 1000);
+  }
+  if (action === 'reschedule') {
+    movedTo = typeof body.to === 'string' ? parseDateTime(body.to, timeZone) : null;
+    if (!movedTo) return fail(400, 'Bad Request', 'to must be a date-time');
+    if (movedTo <= now) return fail(400, 'Bad Request', 'The new time must be in the future');
+  }
+
+  // Moved back to its own time: nothing left to record
+  const restore = movedTo !== null && movedTo.getTime() === occurrence.getTime();
+  const { error: exceptionError } = restore
+    ? await adminClient.from('scheduled_topup_exceptions').delete()
+      .eq('scheduled_topup_id', schedule.id).eq('occurrence_at', occurrence.toISOString())
+    : await adminClient.from('scheduled_topup_exceptions').upsert({
+      scheduled_topup_id: schedule.id,
+      user_id: schedule.user_id,
+      occurrence_at: occurrence.toISOString(),
+      kind: action === 'skip' ? 'skip' : 'move',
+      moved_to: movedTo?.toISOString() ?? null,
+    }, { onConflict: 'scheduled_topup_id,occurrence_at' });
+
+  if (exceptionError) {
+    console.error(`[cancel-managed-topup] ${action} error:`, exceptionError);
+    return fail(500, 'Internal Server Error', `Failed to ${action} the run`);
+  }
+
+  // ── Next run with the change applied ──────────────────────────────────
+  const others = pending.filter(
+    (e: { occurrence_at: string }) => new Date(e.occurrence_at).getTime() !== occurrence.getTime(),
+  );
+  const updatedExceptions = restore ? others : [
+    ...others,
+    { occurrence_at: occurrence.toISOString(), kind: action === 'skip' ? 'skip' : 'move', moved_to: movedTo?.toISOString() ?? null },
+  ];
+  const next = nextRun(schedule, updatedExceptions, now, timeZone);
+
+  const { data: updated, error: updateError } = await adminClient
+    .from('scheduled_topups')
+    .update({
+      next_execution_at: next?.at.toISOString() ?? null,
+      // A run being retried is superseded by the new next run
+      retry_attempt: 0,
+      retry_until: null,
+      held_since: null,
+      // Skipped the last run left
+      ...(next ? {} : { status: 'completed' }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', schedule.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error(`[cancel-managed-topup] ${action} schedule update error:`, updateError);
+    return fail(500, 'Internal Server Error', `Failed to ${action} the run`);
+  }
+
+  console.log(`[cancel-managed-topup] ${action} of schedule ${schedule.id} run ${occurrence.toISOString()}`);
+
+  const messages: Record<string, string> = {
+    skip: 'Run skipped',
+    snooze: 'Run snoozed',
+    reschedule: 'Run rescheduled',
+  };
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: messages[action],
+      occurrence: occurrence.toISOString(),
+      runsAt: movedTo?.toISOString() ?? null,
+      schedule: updated,
+    }),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+  );
+}
@@ -0,0 +1,222 @@
+/**
+ * DELIVER NOTIFICATIONS EDGE FUNCTION
+ * ===================================
+ *
+ * Sends notifications beyond the app. Each new notification is queued in
+ * `notification_deliveries` once per channel (email, SMS, web push) that the
+ * user wants for its category (`enqueue_notification_deliveries`); this
+ * function works through that queue.
+ *
+ * ## Endpoints
+ *
+ * ### POST /deliver-notifications
+ * Cron-triggered every minute via pg_cron.
+ *
+ * For each due delivery (claimed with `claim_due_notification_deliveries`):
+ * 1. Finds where it goes: the account email, the verified profile phone
+ *    number, or every push subscription of the user
+ * 2. Nowhere to send it (or the notification was deleted) → `skipped`
+ * 3. Sent → `sent`, with the transport and its message id. Push
+ *    subscriptions the browser has dropped are deleted
+ * 4. Failed → retried with backoff (1m, 5m, 15m, 1h, 3h); after the last
+ *    attempt it is `failed`, with the error in `last_error`
+ *
+ * @module deliver-notifications
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSmsSender } from "../_shared/sms/index.ts";
+import {
+  ExpiredSubscriptionError, getEmailTransport, getPushTransport,
+  type DeliveryResult, type OutgoingNotification,
+} from "../_shared/notify/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const BATCH_SIZE = 100;
+/** Delay before each retry, indexed by attempts made so far. */
+const BACKOFF_MINUTES = [1, 5, 15, 60, 180];
+const MAX_ATTEMPTS = BACKOFF_MINUTES.length + 1;
+/** How long a claimed delivery is hidden from overlapping runs. */
+const LEASE_SECONDS = 2 * 60;
+/** Longest SMS we send: two pages. */
+const MAX_SMS_LENGTH = 306;
+
+interface Delivery {
+  id: string;
+  notification_id: string | null;
+  user_id: string;
+  channel: 'email' | 'sms' | 'push';
+  attempts: number;
+}
+
+type Outcome =
+  | { status: 'sent'; transport: string; messageId: string | null }
+  | { status: 'skipped'; reason: string };
+
+/** Looks up each user's addresses once per run. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function createAddressBook(adminClient: any) {
+  const emails = new Map<string, Promise<string | null>>();
+  const phones = new Map<string, Promise<string | null>>();
+
+  return {
+    email(userId: string): Promise<string | null> {
+      if (!emails.has(userId)) {
+        emails.set(userId, adminClient.auth.admin.getUserById(userId)
+          .then(({ data }: { data: { user: { email?: string } | null } }) => data.user?.email || null));
+      }
+      return emails.get(userId)!;
+    },
+
+    phone(userId: string): Promise<string | null> {
+      if (!phones.has(userId)) {
+        phones.set(userId, adminClient
+          .from('profiles').select('phone_number, phone_verified').eq('user_id', userId).maybeSingle()
+          .then(({ data }: { data: { phone_number: string | null; phone_verified: boolean | null } | null }) =>
+            data?.phone_verified && data.phone_number ? data.phone_number : null));
+      }
+      return phones.get(userId)!;
+    },
+  };
+}
+
+function toSms(notification: OutgoingNotification): string {
+  const text = `Nava: ${notification.title}. ${notification.message}`;
+  return text.length > MAX_SMS_LENGTH ? `${text.slice(0, MAX_SMS_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Sends one delivery. Returns what happened, or throws when the transport
+ * failed and the delivery should be retried.
+ */
+async function deliver(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any,
+  delivery: Delivery,
+  notification: OutgoingNotification,
+  addresses: ReturnType<typeof createAddressBook>,
+): Promise<Outcome> {
+  if (delivery.channel === 'email') {
+    const email = await addresses.email(delivery.user_id);
+    if (!email) return { status: 'skipped', reason: 'No email address' };
+    const transport = getEmailTransport();
+    const { messageId } = await transport.send(email, notification);
+    return { status: 'sent', transport: transport.name, messageId };
+  }
+
+  if (delivery.channel === 'sms') {
+    const phone = await addresses.phone(delivery.user_id);
+    if (!phone) return { status: 'skipped', reason: 'No verified phone number' };
+    const sender = getSmsSender();
+    const { messageId } = await sender.send(phone, toSms(notification));
+    return { status: 'sent', transport: sender.name, messageId };
+  }
+
+  const { data: targets } = await adminClient
+    .from('push_subscriptions').select('id, endpoint, p256dh, auth').eq('user_id', delivery.user_id);
+  if (!targets?.length) return { status: 'skipped', reason: 'No push subscriptions' };
+
+  const transport = getPushTransport();
+  const sent: DeliveryResult[] = [];
+  let lastError: unknown = null;
+  for (const target of targets) {
+    try {
+      sent.push(await transport.send(target, notification));
+      await adminClient.from('push_subscriptions').update({ last_used_at: new Date().toISOString() }).eq('id', target.id);
+    } catch (error) {
+      if (error instanceof ExpiredSubscriptionError) {
+        await adminClient.from('push_subscriptions').delete().eq('id', target.id);
+      } else {
+        lastError = error;
+      }
+    }
+  }
+
+  // One browser showing it is enough; retrying would repeat it there
+  if (sent.length) return { status: 'sent', transport: transport.name, messageId: sent[0].messageId };
+  if (lastError) throw lastError;
+  return { status: 'skipped', reason: 'No push subscriptions' };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: due, error: claimError } = await adminClient.rpc('claim_due_notification_deliveries', {
+      p_limit: BATCH_SIZE,
+      p_lease_seconds: LEASE_SECONDS,
+    });
+
+    if (claimError) {
+      console.error('[deliver-notifications] Claim error:', claimError);
+      return new Response(JSON.stringify({ error: 'Failed to claim deliveries' }), {
+        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const deliveries: Delivery[] = due || [];
+    const notificationIds = [...new Set(deliveries.map((d) => d.notification_id).filter(Boolean))];
+    const { data: notifications } = notificationIds.length
+      ? await adminClient.from('notifications').select('id, title, message, type, category').in('id', notificationIds)
+      : { data: [] };
+    const byId = new Map<string, OutgoingNotification>(
+      (notifications || []).map((n) => [n.id, { title: n.title, message: n.message, type: n.type, category: n.category, url: '/' }]),
+    );
+    const addresses = createAddressBook(adminClient);
+
+    const counts = { sent: 0, skipped: 0, retry: 0, failed: 0 };
+    for (const delivery of deliveries) {
+      const attempts = delivery.attempts + 1;
+      const notification = delivery.notification_id ? byId.get(delivery.notification_id) : undefined;
+
+      let update: Record<string, unknown>;
+      try {
+        const outcome: Outcome = notification
+          ? await deliver(adminClient, delivery, notification, addresses)
+          : { status: 'skipped', reason: 'Notification was deleted' };
+
+        update = outcome.status === 'sent'
+          ? { status: 'sent', transport: outcome.transport, provider_message_id: outcome.messageId, sent_at: new Date().toISOString(), last_error: null }
+          : { status: 'skipped', last_error: outcome.reason };
+        counts[outcome.status]++;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        console.error(`[deliver-notifications] ${delivery.channel} ${delivery.id} attempt ${attempts}:`, message);
+
+        if (attempts >= MAX_ATTEMPTS) {
+          update = { status: 'failed', last_error: message };
+          counts.failed++;
+        } else {
+          const nextAttempt = new Date(Date.now() + BACKOFF_MINUTES[attempts - 1] * 60 * 1000);
+          update = { last_error: message, next_attempt_at: nextAttempt.toISOString() };
+          counts.retry++;
+        }
+      }
+
+      await adminClient.from('notification_deliveries')
+        .update({ ...update, attempts, lease_expires_at: null })
+        .eq('id', delivery.id);
+    }
+
+    console.log(`[deliver-notifications] Processed ${deliveries.length}:`, counts);
+
+    return new Response(JSON.stringify({ success: true, processed: deliveries.length, ...counts }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[deliver-notifications] Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
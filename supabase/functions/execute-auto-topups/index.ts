@@ -0,0 +1,523 @@
+/**
+ * EXECUTE AUTO TOP-UPS EDGE FUNCTION
+ * ===================================
+ *
+ * Threshold-based auto top-up engine for `auto_topup_rules`.
+ *
+ * ## Endpoints
+ *
+ * ### POST /execute-auto-topups/readings
+ * Ingests a balance/usage reading for one of the user's phone numbers. Authenticated.
+ *
+ * **Request Body:**
+ * ```json
+ * { "phoneNumberId": null, "type": "data", "balance": 150, "baseline": 1000, "source": "ussd" }
+ * ```
+ * `phoneNumberId` null means the primary phone on the profile. `baseline` is the
+ * reference amount the balance is measured against (e.g. the last bundle size).
+ *
+ * ### POST /execute-auto-topups
+ * Cron-triggered evaluation of unprocessed readings. Runs every minute via pg_cron.
+ *
+ * For the latest reading per phone number and type:
+ * 1. Finds the matching enabled rule (PIN-authorized via `transaction-pin/authorize`)
+ *    for a verified phone number
+ * 2. Fires only if balance / baseline has dropped below threshold_percentage
+ * 3. Claims the rule atomically (claim_auto_topup_rule) so its cooldown is respected
+ * 4. Charges the airtime amount, or for data the plan's selling price from the
+ *    pricing rules (as a manual purchase of the plan would be charged)
+ * 5. Purchases through the locked-wallet pipeline (lock_and_deduct_purchase, which also applies KYC tier limits → VTU provider → refund on failure)
+ * 6. Logs to auto_topup_executions and sends notifications
+ *
+ * @module execute-auto-topups
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { purchaseWithFailover } from "../_shared/providers/failover.ts";
+import { loadProviderPlanIds } from "../_shared/providers/plans.ts";
+import { dataPlanCharge } from "../_shared/pricing.ts";
+import { createNotification } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const READINGS_BATCH_SIZE = 200;
+
+const BUDGET_THRESHOLDS = [50, 75, 90, 100];
+
+/** Generates a unique idempotent transaction reference for auto top-ups. */
+function generateReference(): string {
+  const now = new Date();
+  const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+  const rand = crypto.randomUUID().replace(/-/g, '').substring(0, 12);
+  return `auto_${date}_${rand}`;
+}
+
+function getCurrentMonthYear(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function recordSpendingAndUpdateBudget(adminClient: any, userId: string, transactionId: string, type: string, amount: number) {
+  const currentMonth = getCurrentMonthYear();
+  const category = type === 'airtime_purchase' ? 'AIRTIME' : 'DATA';
+
+  try {
+    await adminClient.from('spending_events').insert({
+      user_id: userId, transaction_id: transactionId, category, amount,
+    });
+
+    const { data: budget } = await adminClient
+      .from('user_budgets')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('month_year', currentMonth)
+      .maybeSingle();
+
+    if (!budget) return;
+
+    const newAmountSpent = Number(budget.amount_spent) + amount;
+    const budgetAmount = Number(budget.budget_amount);
+
+    await adminClient.from('user_budgets')
+      .update({ amount_spent: newAmountSpent, updated_at: new Date().toISOString() })
+      .eq('id', budget.id);
+
+    if (budgetAmount <= 0) return;
+
+    const percentageUsed = Math.round((newAmountSpent / budgetAmount) * 100);
+    const lastAlertLevel = budget.last_alert_level || 0;
+
+    for (const threshold of BUDGET_THRESHOLDS) {
+      if (percentageUsed >= threshold && lastAlertLevel < threshold) {
+        const isOver = threshold >= 100;
+        const remaining = Math.max(0, budgetAmount - newAmountSpent);
+
+        await createNotification(adminClient, userId, {
+          title: isOver ? 'Monthly Budget Exceeded' : `${threshold}% Budget Used`,
+          message: isOver
+            ? `You've exceeded your monthly budget of ₦${budgetAmount.toLocaleString()}.`
+            : `You've used ${threshold}% of your monthly budget. ₦${remaining.toLocaleString()} remaining.`,
+          type: isOver ? 'warning' : 'info',
+          category: 'budget',
+          metadata: { threshold, budgetAmount, amountSpent: newAmountSpent, percentageUsed, remaining },
+        });
+
+        await adminClient.from('user_budgets').update({ last_alert_level: threshold }).eq('id', budget.id);
+        break;
+      }
+    }
+  } catch (e) {
+    console.error('[budget] Error:', e);
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function logExecution(adminClient: any, rule: any, reading: any, status: string, failureReason: string | null, transactionId: string | null, percentageRemaining: number, amount = Number(rule.topup_amount)) {
+  try {
+    await adminClient.from('auto_topup_executions').insert({
+      rule_id: rule.id,
+      user_id: rule.user_id,
+      reading_id: reading.id,
+      transaction_id: transactionId,
+      status,
+      failure_reason: failureReason,
+      amount,
+      percentage_remaining: percentageRemaining,
+    });
+  } catch (e) {
+    console.error('[execute-auto-topups] Log execution error:', e);
+  }
+}
+
+/**
+ * Resolves the phone number and network a rule should top up.
+ * A null phone_number_id means the primary phone stored on the profile.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function resolveTarget(adminClient: any, rule: any): Promise<{ phoneNumber: string | null; network: string | null; verified: boolean }> {
+  if (rule.phone_number_id) {
+    const { data: phone } = await adminClient
+      .from('phone_numbers')
+      .select('phone_number, network_provider, is_verified')
+      .eq('id', rule.phone_number_id)
+      .eq('user_id', rule.user_id)
+      .maybeSingle();
+    return { phoneNumber: phone?.phone_number || null, network: rule.network || phone?.network_provider || null, verified: !!phone?.is_verified };
+  }
+
+  const { data: profile } = await adminClient
+    .from('profiles')
+    .select('phone_number, network_provider, phone_verified')
+    .eq('user_id', rule.user_id)
+    .maybeSingle();
+  return { phoneNumber: profile?.phone_number || null, network: rule.network || profile?.network_provider || null, verified: !!profile?.phone_verified };
+}
+
+/** What the rule's purchase costs the user: airtime its amount, data the plan's current price. */
+async function chargeFor(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, rule: any, network: string,
+): Promise<{ amount: number; costPrice: number | null } | { error: string }> {
+  if (rule.type === 'airtime') return { amount: Number(rule.topup_amount), costPrice: null };
+  return dataPlanCharge(adminClient, rule.user_id, network, rule.plan_id);
+}
+
+/**
+ * Evaluates a single reading against its rule and fires a purchase if the threshold is crossed.
+ * Returns the outcome for the run summary.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function evaluateReading(adminClient: any, reading: any): Promise<'fired' | 'failed' | 'skipped'> {
+  let ruleQuery = adminClient
+    .from('auto_topup_rules')
+    .select('*')
+    .eq('user_id', reading.user_id)
+    .eq('type', reading.type)
+    .eq('is_enabled', true)
+    // Rules run without the user present — only once authorized with their PIN
+    .not('pin_authorized_at', 'is', null);
+  ruleQuery = reading.phone_number_id
+    ? ruleQuery.eq('phone_number_id', reading.phone_number_id)
+    : ruleQuery.is('phone_number_id', null);
+
+  const { data: rule } = await ruleQuery.maybeSingle();
+  if (!rule) return 'skipped';
+
+  const percentageRemaining = Math.round((Number(reading.balance) / Number(reading.baseline)) * 100);
+  if (percentageRemaining >= rule.threshold_percentage) return 'skipped';
+
+  // Claim atomically — respects cooldown across overlapping cron runs
+  const { data: claimed, error: claimError } = await adminClient
+    .rpc('claim_auto_topup_rule', { p_rule_id: rule.id });
+  if (claimError || !claimed) return 'skipped';
+
+  let amount = Number(rule.topup_amount);
+  const { phoneNumber, network, verified } = await resolveTarget(adminClient, rule);
+
+  if (!phoneNumber || !network) {
+    await logExecution(adminClient, rule, reading, 'failed', 'Phone number or network not found', null, percentageRemaining);
+    await createNotification(adminClient, rule.user_id, {
+      title: 'Auto Top-Up Failed',
+      message: `Your ${rule.type} auto top-up of ₦${amount.toLocaleString()} could not run: no phone number or network on file.`,
+      type: 'error', category: 'schedule',
+      metadata: { ruleId: rule.id },
+    });
+    return 'failed';
+  }
+
+  // The number was changed after the rule was set up and not re-verified
+  if (!verified) {
+    await logExecution(adminClient, rule, reading, 'failed', 'Phone number not verified', null, percentageRemaining);
+    await createNotification(adminClient, rule.user_id, {
+      title: 'Auto Top-Up Paused',
+      message: `Your ${rule.type} auto top-up didn't run because ${phoneNumber} isn't verified. Verify it in Settings to resume.`,
+      type: 'warning', category: 'schedule',
+      metadata: { ruleId: rule.id },
+    });
+    return 'failed';
+  }
+
+  if (rule.type === 'data' && !rule.plan_id) {
+    await logExecution(adminClient, rule, reading, 'failed', 'No data plan configured', null, percentageRemaining);
+    return 'failed';
+  }
+
+  const charge = await chargeFor(adminClient, rule, network);
+  if ('error' in charge) {
+    await logExecution(adminClient, rule, reading, 'failed', charge.error, null, percentageRemaining);
+    await createNotification(adminClient, rule.user_id, {
+      title: 'Auto Top-Up Failed',
+      message: `Your data auto top-up could not run: ${charge.error.toLowerCase()}. Edit the rule to pick another plan.`,
+      type: 'error', category: 'schedule',
+      metadata: { ruleId: rule.id, planId: rule.plan_id },
+    });
+    return 'failed';
+  }
+  amount = charge.amount;
+
+  const cleanPhone = String(phoneNumber).replace(/\D/g, '');
+  const txReference = generateReference();
+  const txType = rule.type === 'airtime' ? 'airtime_purchase' : 'data_purchase';
+
+  // ── Lock wallet, check KYC tier limits & deduct ────────────────────────
+  const { data: deductResult, error: deductError } = await adminClient
+    .rpc('lock_and_deduct_purchase', { p_user_id: rule.user_id, p_amount: amount, p_reference: txReference });
+
+  if (deductError || !deductResult?.success) {
+    const errMsg = deductResult?.error || deductError?.message || 'Wallet deduction failed';
+    await logExecution(adminClient, rule, reading, 'failed', errMsg, null, percentageRemaining, amount);
+    await createNotification(adminClient, rule.user_id, {
+      title: 'Auto Top-Up Failed',
+      message: `Your ${rule.type} balance on ${cleanPhone} is at ${percentageRemaining}%, but the ₦${amount.toLocaleString()} auto top-up failed: ${errMsg}.`,
+      type: 'error', category: 'schedule',
+      metadata: { ruleId: rule.id, amount, percentageRemaining },
+    });
+    return 'failed';
+  }
+
+  const { wallet_id, balance_before, balance_after } = deductResult;
+
+  // ── Create transaction (INITIATED) ─────────────────────────────────────
+  const { data: txData, error: txInsertError } = await adminClient
+    .from('transactions')
+    .insert({
+      wallet_id, user_id: rule.user_id, type: txType,
+      amount, balance_before, balance_after,
+      status: 'initiated', reference: txReference,
+      phone_number: cleanPhone, network: network.toUpperCase(), product_type: rule.type,
+      description: `Auto ${rule.type} top-up for ${cleanPhone}`,
+      metadata: {
+        auto_topup_rule_id: rule.id,
+        usage_reading_id: reading.id,
+        percentage_remaining: percentageRemaining,
+        plan_id: rule.plan_id,
+        ...(charge.costPrice !== null && { cost_price: charge.costPrice }),
+        initiated_at: new Date().toISOString(),
+      },
+    })
+    .select().single();
+
+  if (txInsertError) {
+    console.error('[execute-auto-topups] Transaction insert failed:', txInsertError);
+    await adminClient.rpc('refund_wallet', { p_user_id: rule.user_id, p_amount: amount, p_reference: txReference });
+    await logExecution(adminClient, rule, reading, 'failed', 'Failed to create transaction record', null, percentageRemaining, amount);
+    return 'failed';
+  }
+
+  // ── Update to PROCESSING ───────────────────────────────────────────────
+  await adminClient.from('transactions').update({
+    status: 'processing',
+    metadata: { ...(txData.metadata as Record<string, unknown>), processing_at: new Date().toISOString() },
+  }).eq('id', txData.id);
+
+  // ── Call VTU provider (retries + failover) ────────────────────────────
+  const planIds: Record<string, string> = rule.type === 'data' ? await loadProviderPlanIds(adminClient, network, rule.plan_id) : {};
+  const { result: providerResult, provider, attempted } = await purchaseWithFailover(
+    adminClient, network,
+    (p) => rule.type === 'airtime'
+      ? p.purchaseAirtime({ phoneNumber: cleanPhone, amount, network, reference: txReference })
+      : p.purchaseData({ phoneNumber: cleanPhone, planId: planIds[p.name], network, reference: txReference }),
+    (p) => rule.type === 'airtime' || p.name in planIds,
+  );
+
+  // ── Handle result ──────────────────────────────────────────────────────
+  if (providerResult.success && providerResult.data) {
+    const providerRef = providerResult.providerReference || null;
+    await adminClient.from('transactions').update({
+      status: 'completed', provider: provider.name, provider_reference: providerRef,
+      metadata: { ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, completed_at: new Date().toISOString(), provider_response: providerResult.data },
+    }).eq('id', txData.id);
+
+    await recordSpendingAndUpdateBudget(adminClient, rule.user_id, txData.id, txType, amount);
+    await logExecution(adminClient, rule, reading, 'success', null, txData.id, percentageRemaining, amount);
+    await createNotification(adminClient, rule.user_id, {
+      title: 'Auto Top-Up Successful',
+      message: `Your ${rule.type} balance on ${cleanPhone} dropped to ${percentageRemaining}%, so we topped up ₦${amount.toLocaleString()}.`,
+      type: 'success', category: 'schedule',
+      metadata: { ruleId: rule.id, transactionId: txData.id, amount },
+    });
+    return 'fired';
+  }
+
+  if (providerResult.ambiguous) {
+    await adminClient.from('transactions').update({
+      status: 'pending_verification', provider: provider.name,
+      metadata: { ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, pending_verification_at: new Date().toISOString(), provider_error: providerResult.error },
+    }).eq('id', txData.id);
+
+    await logExecution(adminClient, rule, reading, 'pending_verification', providerResult.error || null, txData.id, percentageRemaining, amount);
+    await createNotification(adminClient, rule.user_id, {
+      title: 'Auto Top-Up Processing',
+      message: `Your ₦${amount.toLocaleString()} auto ${rule.type} top-up for ${cleanPhone} is being verified.`,
+      type: 'info', category: 'schedule',
+      metadata: { ruleId: rule.id, transactionId: txData.id },
+    });
+    return 'fired';
+  }
+
+  const { data: refundResult } = await adminClient
+    .rpc('refund_wallet', { p_user_id: rule.user_id, p_amount: amount, p_reference: txReference });
+
+  await adminClient.from('transactions').update({
+    status: 'failed', provider: provider.name,
+    metadata: {
+      ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, failed_at: new Date().toISOString(),
+      failure_reason: providerResult.error, refunded: refundResult?.success || false,
+    },
+  }).eq('id', txData.id);
+
+  await logExecution(adminClient, rule, reading, 'failed', providerResult.error || 'Provider failure', txData.id, percentageRemaining, amount);
+  await createNotification(adminClient, rule.user_id, {
+    title: 'Auto Top-Up Failed',
+    message: `Your ₦${amount.toLocaleString()} auto ${rule.type} top-up for ${cleanPhone} failed. ${refundResult?.success ? 'Wallet refunded.' : 'Contact support.'}`,
+    type: 'error', category: 'schedule',
+    metadata: { ruleId: rule.id, transactionId: txData.id, refunded: refundResult?.success },
+  });
+  return 'failed';
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const url = new URL(req.url);
+    const action = url.pathname.split('/').pop();
+
+    // =====================================================================
+    // POST /readings — Ingest a balance/usage reading
+    // =====================================================================
+    if (action === 'readings' && req.method === 'POST') {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader?.startsWith('Bearer ')) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: authError } = await userClient.auth.getUser();
+      if (authError || !user) {
+        return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+          status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { phoneNumberId, type, balance, baseline, source } = await req.json();
+
+      if (!['airtime', 'data'].includes(type)) {
+        return new Response(JSON.stringify({ error: 'Type must be airtime or data' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const balanceValue = Number(balance);
+      const baselineValue = Number(baseline);
+      if (isNaN(balanceValue) || balanceValue < 0 || isNaN(baselineValue) || baselineValue <= 0) {
+        return new Response(JSON.stringify({ error: 'balance must be >= 0 and baseline must be > 0' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (phoneNumberId) {
+        const { data: phone } = await adminClient
+          .from('phone_numbers')
+          .select('id')
+          .eq('id', phoneNumberId)
+          .eq('user_id', user.id)
+          .maybeSingle();
+        if (!phone) {
+          return new Response(JSON.stringify({ error: 'Phone number not found' }), {
+            status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      const { data: reading, error: insertError } = await adminClient
+        .from('usage_readings')
+        .insert({
+          user_id: user.id,
+          phone_number_id: phoneNumberId || null,
+          type,
+          balance: balanceValue,
+          baseline: baselineValue,
+          source: source || 'client',
+        })
+        .select('*')
+        .single();
+
+      if (insertError) {
+        console.error('[execute-auto-topups] Reading insert error:', insertError);
+        return new Response(JSON.stringify({ error: 'Failed to record reading' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ success: true, reading }), {
+        status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // =====================================================================
+    // Cron — Evaluate unprocessed readings against rules
+    // =====================================================================
+    const { data: readings, error: fetchError } = await adminClient
+      .from('usage_readings')
+      .select('*')
+      .is('processed_at', null)
+      .order('recorded_at', { ascending: true })
+      .limit(READINGS_BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('[execute-auto-topups] Fetch error:', fetchError);
+      return new Response(JSON.stringify({ error: 'Failed to fetch readings' }), {
+        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!readings || readings.length === 0) {
+      return new Response(JSON.stringify({ success: true, evaluated: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only the latest reading per phone number and type matters
+    const latest = new Map<string, (typeof readings)[number]>();
+    for (const reading of readings) {
+      latest.set(`${reading.user_id}:${reading.phone_number_id || 'primary'}:${reading.type}`, reading);
+    }
+
+    // Mark the batch processed up-front so an overlapping run does not pick it up again
+    await adminClient
+      .from('usage_readings')
+      .update({ processed_at: new Date().toISOString() })
+      .in('id', readings.map((r) => r.id));
+
+    console.log(`[execute-auto-topups] Evaluating ${latest.size} readings (${readings.length} ingested)`);
+
+    let fired = 0;
+    let failed = 0;
+    let skipped = 0;
+
+    for (const reading of latest.values()) {
+      try {
+        const outcome = await evaluateReading(adminClient, reading);
+        if (outcome === 'fired') fired++;
+        else if (outcome === 'failed') failed++;
+        else skipped++;
+      } catch (e) {
+        console.error(`[execute-auto-topups] Error evaluating reading ${reading.id}:`, e);
+        failed++;
+        // Hand the reading back so the next run evaluates it again
+        await adminClient
+          .from('usage_readings')
+          .update({ processed_at: null })
+          .eq('id', reading.id);
+      }
+    }
+
+    console.log(`[execute-auto-topups] Done: ${fired} fired, ${failed} failed, ${skipped} skipped`);
+
+    return new Response(JSON.stringify({ success: true, evaluated: latest.size, fired, failed, skipped }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('[execute-auto-topups] Fatal error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
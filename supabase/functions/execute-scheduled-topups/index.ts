@@ -5,85 +5,74 @@
  * Cron-triggered function that processes due scheduled top-ups.
  * Runs every minute via pg_cron.
  * 
- * For each due schedule:
- * 1. Validates the schedule is still active
- * 2. Checks wallet balance
- * 3. Calls the appropriate Payflex API
- * 4. Records the transaction (reuses same pipeline as manual top-ups)
- * 5. Updates budget/spending via secure-transaction-update
- * 6. Logs execution and sends notifications
+ * Runs skipped or moved by the user (`scheduled_topup_exceptions`) are
+ * applied when working out the next run.
+ * 
+ * ## Retries
+ * A run that fails on a low wallet, a provider error or a failed wallet
+ * deduction is retried every `retry_interval_minutes` for up to
+ * `retry_window_hours` (never past the next run). With `hold_until_funded`,
+ * a low-wallet run instead waits until `fund_wallet_atomic` credits enough,
+ * which makes it due again. The user is told when a run is delayed and
+ * warned before the last attempt; only then is it logged as missed and the
+ * schedule advanced.
+ * 
+ * ## Claiming
+ * Due schedules are claimed in batches with `claim_due_scheduled_topups`,
+ * which leases them (SKIP LOCKED), so overlapping cron runs get disjoint
+ * batches. `WORKERS` work through each batch in parallel, and batches keep
+ * being claimed for `CLAIM_WINDOW_MS`. Schedule updates are conditional on
+ * the lease; if a run dies, its leases lapse and the schedules are picked up
+ * again.
+ * 
+ * Each run is recorded as a 'processing' execution keyed by the run before
+ * the wallet is touched, so a run charges at most once however many times
+ * it's picked up.
+ * 
+ * For each claimed schedule (only those PIN-authorized at creation):
+ * 1. Reserves the run (see above)
+ * 2. Prices it: airtime at its amount, data at the plan's current selling
+ *    price (`dataPlanCharge`), as auto top-ups are
+ * 3. Locks the wallet, checks the user's KYC tier spend limits and deducts
+ *    (lock_and_deduct_purchase)
+ * 4. Calls the network's VTU provider (see _shared/providers), refunding on failure
+ * 5. Records the transaction (reuses same pipeline as manual top-ups)
+ * 6. Updates budget/spending
+ * 7. Logs execution and sends notifications
  * 
  * @module execute-scheduled-topups
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { purchaseWithFailover } from "../_shared/providers/failover.ts";
+import { loadProviderPlanIds } from "../_shared/providers/plans.ts";
+import { nextRun, resolveTimeZone } from "../_shared/recurrence.ts";
+import { createNotification } from "../_shared/notifications.ts";
+import { dataPlanCharge } from "../_shared/pricing.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const PAYFLEX_API_KEY = Deno.env.get('PAYFLEX_API_KEY');
-const PAYFLEX_BASE_URL = 'https://api.payflexng.com/v1';
-
 const BUDGET_THRESHOLDS = [50, 75, 90, 100];
 
+// A held run is tried once more this long before it's given up, with a warning
+const HOLD_REMINDER_MS = 60 * 60 * 1000;
+
+// Due schedules claimed at a time, and how many are worked on at once
+const CLAIM_BATCH_SIZE = 50;
+const WORKERS = 5;
+// Outlasts a whole batch, so a lease only lapses if its run died
+const LEASE_SECONDS = 10 * 60;
+// Stop claiming new batches after this; the next cron run carries on
+const CLAIM_WINDOW_MS = 60 * 1000;
+
 function getCurrentMonthYear(): string {
   const now = new Date();
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 }
 
-function calculateNextExecution(
-  scheduleType: string,
-  scheduledAt?: string | null,
-  recurringTime?: string | null,
-  recurringDayOfWeek?: number | null,
-  recurringDayOfMonth?: number | null,
-): string | null {
-  const now = new Date();
-
-  if (scheduleType === 'one_time') return null; // One-time already executed
-
-  if (!recurringTime) return null;
-  const [hours, minutes] = recurringTime.split(':').map(Number);
-
-  if (scheduleType === 'daily') {
-    const next = new Date(now);
-    next.setHours(hours, minutes, 0, 0);
-    next.setDate(next.getDate() + 1);
-    return next.toISOString();
-  }
-
-  if (scheduleType === 'weekly') {
-    const targetDay = recurringDayOfWeek ?? 0;
-    const next = new Date(now);
-    next.setHours(hours, minutes, 0, 0);
-    next.setDate(now.getDate() + ((targetDay - now.getDay() + 7) % 7 || 7));
-    return next.toISOString();
-  }
-
-  if (scheduleType === 'monthly') {
-    const targetDay = recurringDayOfMonth ?? 1;
-    const next = new Date(now.getFullYear(), now.getMonth() + 1, targetDay, hours, minutes, 0, 0);
-    return next.toISOString();
-  }
-
-  return null;
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function createNotification(adminClient: any, userId: string, notification: {
-  title: string; message: string; type: 'success' | 'error' | 'warning' | 'info'; category: string; metadata?: Record<string, unknown>;
-}) {
-  try {
-    await adminClient.from('notifications').insert({
-      user_id: userId, ...notification, metadata: notification.metadata || {},
-    });
-  } catch (e) {
-    console.error('[notification] Failed:', e);
-  }
-}
-
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function recordSpendingAndUpdateBudget(adminClient: any, userId: string, transactionId: string, type: string, amount: number) {
   const currentMonth = getCurrentMonthYear();
@@ -139,208 +128,296 @@ async function recordSpendingAndUpdateBudget(adminClient: any, userId: string, t
   }
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+function generateReference(): string {
+  const now = new Date();
+  const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+  const rand = crypto.randomUUID().replace(/-/g, '').substring(0, 12);
+  return `sched_${date}_${rand}`;
+}
 
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+/**
+ * Identifies the schedule's current run: `total_executions` only moves on
+ * when a run is over (done, missed or given up), not between retries.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function runKey(schedule: any): string {
+  return `${schedule.id}:${schedule.total_executions || 0}`;
+}
 
-    const now = new Date().toISOString();
+type Outcome = 'succeeded' | 'pending' | 'failed' | 'skipped';
 
-    // Fetch all due schedules
-    const { data: dueSchedules, error: fetchError } = await adminClient
-      .from('scheduled_topups')
-      .select('*')
-      .eq('status', 'active')
-      .lte('next_execution_at', now)
-      .order('next_execution_at', { ascending: true })
-      .limit(50); // Process in batches
-
-    if (fetchError) {
-      console.error('[execute-scheduled-topups] Fetch error:', fetchError);
-      return new Response(JSON.stringify({ error: 'Failed to fetch schedules' }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+/** Runs one claimed schedule's current run. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function processSchedule(adminClient: any, schedule: any): Promise<Outcome> {
+  const executionId = await reserveRun(adminClient, schedule);
+  if (!executionId) {
+    // Charged (or being charged) by an earlier pass that didn't get to advance
+    console.warn(`[execute-scheduled-topups] Run ${runKey(schedule)} already has a charge, advancing`);
+    await advanceSchedule(adminClient, schedule);
+    return 'skipped';
+  }
+
+  let amount = Number(schedule.amount);
+  let costPrice: number | null = null;
+  const phoneNumber = schedule.phone_number;
+
+  // Retried or given up like any other failure, so the run isn't re-claimed every minute
+  if (!phoneNumber) {
+    console.error(`[execute-scheduled-topups] No phone number for schedule ${schedule.id}`);
+    const retrying = await scheduleRetry(adminClient, schedule, 'wallet_error', amount);
+    await logExecution(adminClient, executionId, 'failed', `No phone number associated${retrying ? ', will retry' : ''}`, null);
+    if (retrying) return 'failed';
+    await createNotification(adminClient, schedule.user_id, {
+      title: 'Scheduled Top-Up Failed',
+      message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} failed: No phone number found.${schedule.retry_attempt ? ' We have stopped retrying this one.' : ''}`,
+      type: 'error', category: 'schedule',
+      metadata: { scheduleId: schedule.id, amount },
+    });
+    await advanceSchedule(adminClient, schedule);
+    return 'failed';
+  }
 
-    if (!dueSchedules || dueSchedules.length === 0) {
-      return new Response(JSON.stringify({ success: true, processed: 0 }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  // Data is charged the plan's current price, not the amount stored when the schedule was set up
+  if (schedule.type === 'data') {
+    const charge = await dataPlanCharge(adminClient, schedule.user_id, schedule.network, schedule.plan_id);
+    if ('error' in charge) {
+      await logExecution(adminClient, executionId, 'failed', charge.error, null);
+      await createNotification(adminClient, schedule.user_id, {
+        title: 'Scheduled Top-Up Failed',
+        message: `Your scheduled data top-up for ${phoneNumber} could not run: ${charge.error.toLowerCase()}. Edit the schedule to pick another plan.`,
+        type: 'error', category: 'schedule',
+        metadata: { scheduleId: schedule.id, planId: schedule.plan_id },
       });
+      await advanceSchedule(adminClient, schedule);
+      return 'failed';
     }
+    amount = charge.amount;
+    costPrice = charge.costPrice;
+  }
 
-    console.log(`[execute-scheduled-topups] Processing ${dueSchedules.length} due schedules`);
-
-    let processed = 0;
-    let succeeded = 0;
-    let failed = 0;
-
-    for (const schedule of dueSchedules) {
-      processed++;
-      const phoneNumber = schedule.phone_number;
-
-      if (!phoneNumber) {
-        console.error(`[execute-scheduled-topups] No phone number for schedule ${schedule.id}`);
-        await logExecution(adminClient, schedule, 'failed', 'No phone number associated', null);
-        await createNotification(adminClient, schedule.user_id, {
-          title: 'Scheduled Top-Up Failed',
-          message: `Your scheduled ${schedule.type} top-up of ₦${Number(schedule.amount).toLocaleString()} failed: No phone number found.`,
-          type: 'error', category: 'transaction',
-        });
-        failed++;
-        continue;
-      }
+  const txReference = generateReference();
+  const txType = schedule.type === 'airtime' ? 'airtime_purchase' : 'data_purchase';
 
-      // Check wallet balance
-      const { data: wallet } = await adminClient
-        .from('wallets')
-        .select('*')
-        .eq('user_id', schedule.user_id)
-        .single();
-
-      if (!wallet) {
-        await logExecution(adminClient, schedule, 'failed', 'Wallet not found', null);
-        failed++;
-        continue;
-      }
+  // ── Lock wallet, check KYC tier limits & deduct ────────────────────────
+  const { data: deductResult, error: deductError } = await adminClient
+    .rpc('lock_and_deduct_purchase', { p_user_id: schedule.user_id, p_amount: amount, p_reference: txReference });
 
-      const amount = Number(schedule.amount);
-      const currentBalance = Number(wallet.balance);
+  if (deductError || !deductResult?.success) {
+    const errMsg = deductResult?.error || deductError?.message || 'Wallet deduction failed';
 
-      if (currentBalance < amount) {
-        await logExecution(adminClient, schedule, 'failed', 'Insufficient wallet balance', null);
-        await createNotification(adminClient, schedule.user_id, {
-          title: 'Scheduled Top-Up Failed',
-          message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} failed due to insufficient wallet balance (₦${currentBalance.toLocaleString()}).`,
-          type: 'error', category: 'transaction',
-          metadata: { scheduleId: schedule.id, amount, balance: currentBalance },
-        });
-        failed++;
-        // Still advance the schedule for recurring
-        await advanceSchedule(adminClient, schedule);
-        continue;
-      }
+    // KYC tier single-purchase and daily spend limits
+    if (deductResult?.code) {
+      await logExecution(adminClient, executionId, 'failed', errMsg, null);
+      await createNotification(adminClient, schedule.user_id, {
+        title: 'Scheduled Top-Up Failed',
+        message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} was not made: ${errMsg}. Verify your identity to raise your limits.`,
+        type: 'error', category: 'schedule',
+        metadata: { scheduleId: schedule.id, amount, code: deductResult.code },
+      });
+      await advanceSchedule(adminClient, schedule);
+      return 'failed';
+    }
 
-      // Call Payflex API
-      const endpoint = schedule.type === 'airtime' ? 'airtime/purchase' : 'data/purchase';
-      const purchaseBody = schedule.type === 'airtime'
-        ? { phone_number: phoneNumber, amount, network: schedule.network.toLowerCase() }
-        : { phone_number: phoneNumber, plan_id: schedule.plan_id, network: schedule.network.toLowerCase() };
+    if (deductResult?.error === 'Insufficient balance') {
+      const balance = Number(deductResult.balance);
+      const retrying = await scheduleRetry(adminClient, schedule, 'insufficient_funds', amount);
+      await logExecution(adminClient, executionId, 'failed', `Insufficient wallet balance${retrying ? ', will retry' : ''}`, null);
+      if (retrying) return 'failed';
+      await createNotification(adminClient, schedule.user_id, {
+        title: 'Scheduled Top-Up Failed',
+        message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} failed due to insufficient wallet balance (₦${balance.toLocaleString()}).${schedule.retry_attempt ? ' We have stopped retrying this one.' : ''}`,
+        type: 'error', category: 'schedule',
+        metadata: { scheduleId: schedule.id, amount, balance },
+      });
+      // Still advance the schedule for recurring
+      await advanceSchedule(adminClient, schedule);
+      return 'failed';
+    }
 
-      let purchaseSuccess = false;
-      let purchaseData: Record<string, unknown> = {};
+    // Anything else (wallet missing, database error) is retried like a
+    // provider failure, or the run is given up, so it isn't re-claimed forever
+    console.error(`[execute-scheduled-topups] Deduction failed for schedule ${schedule.id}:`, errMsg);
+    const retrying = await scheduleRetry(adminClient, schedule, 'wallet_error', amount);
+    await logExecution(adminClient, executionId, 'failed', `${errMsg}${retrying ? ', will retry' : ''}`, null);
+    if (retrying) return 'failed';
+    await createNotification(adminClient, schedule.user_id, {
+      title: 'Scheduled Top-Up Failed',
+      message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} for ${phoneNumber} could not be made. You were not charged.${schedule.retry_attempt ? ' We have stopped retrying this one.' : ''}`,
+      type: 'error', category: 'schedule',
+      metadata: { scheduleId: schedule.id, amount },
+    });
+    await advanceSchedule(adminClient, schedule);
+    return 'failed';
+  }
 
-      try {
-        const purchaseRes = await fetch(`${PAYFLEX_BASE_URL}/${endpoint}`, {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${PAYFLEX_API_KEY}`, 'Content-Type': 'application/json' },
-          body: JSON.stringify(purchaseBody),
-        });
+  const { wallet_id, balance_before, balance_after } = deductResult;
+
+  // ── Create transaction (INITIATED) ─────────────────────────────────────
+  const { data: txData, error: txInsertError } = await adminClient
+    .from('transactions')
+    .insert({
+      wallet_id, user_id: schedule.user_id, type: txType,
+      amount, balance_before, balance_after,
+      status: 'initiated', reference: txReference,
+      phone_number: phoneNumber, network: String(schedule.network).toUpperCase(), product_type: schedule.type,
+      description: `Scheduled ${schedule.type} for ${phoneNumber}`,
+      metadata: {
+        scheduled_topup_id: schedule.id,
+        phone_number: phoneNumber,
+        network: schedule.network,
+        plan_id: schedule.plan_id,
+        ...(costPrice !== null && { cost_price: costPrice }),
+        initiated_at: new Date().toISOString(),
+      },
+    })
+    .select().single();
+
+  if (txInsertError) {
+    console.error('[execute-scheduled-topups] Transaction insert failed:', txInsertError);
+    await adminClient.rpc('refund_wallet', { p_user_id: schedule.user_id, p_amount: amount, p_reference: txReference });
+    const retrying = await scheduleRetry(adminClient, schedule, 'wallet_error', amount);
+    await logExecution(adminClient, executionId, 'failed', `Failed to create transaction record${retrying ? ', will retry' : ''}`, null);
+    if (retrying) return 'failed';
+    await createNotification(adminClient, schedule.user_id, {
+      title: 'Scheduled Top-Up Failed',
+      message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} for ${phoneNumber} could not be made. You were not charged.${schedule.retry_attempt ? ' We have stopped retrying this one.' : ''}`,
+      type: 'error', category: 'schedule',
+      metadata: { scheduleId: schedule.id, amount },
+    });
+    await advanceSchedule(adminClient, schedule);
+    return 'failed';
+  }
 
-        if (purchaseRes.ok) {
-          purchaseData = await purchaseRes.json();
-          purchaseSuccess = true;
-        } else {
-          const errData = await purchaseRes.json().catch(() => ({}));
-          purchaseData = errData;
-          console.error(`[execute-scheduled-topups] Payflex error for schedule ${schedule.id}:`, errData);
-        }
-      } catch (e) {
-        console.error(`[execute-scheduled-topups] Payflex call failed for schedule ${schedule.id}:`, e);
-        purchaseData = { error: e instanceof Error ? e.message : 'Unknown error' };
-      }
+  // ── Update to PROCESSING ───────────────────────────────────────────────
+  await adminClient.from('transactions').update({
+    status: 'processing',
+    metadata: { ...(txData.metadata as Record<string, unknown>), processing_at: new Date().toISOString() },
+  }).eq('id', txData.id);
+
+  // ── Call VTU provider (retries + failover) ────────────────────────────
+  const planIds: Record<string, string> = schedule.type === 'data' ? await loadProviderPlanIds(adminClient, schedule.network, schedule.plan_id) : {};
+  const { result: providerResult, provider, attempted } = await purchaseWithFailover(
+    adminClient, schedule.network,
+    (p) => schedule.type === 'airtime'
+      ? p.purchaseAirtime({ phoneNumber, amount, network: schedule.network, reference: txReference })
+      : p.purchaseData({ phoneNumber, planId: planIds[p.name], network: schedule.network, reference: txReference }),
+    (p) => schedule.type === 'airtime' || p.name in planIds,
+  );
 
-      if (!purchaseSuccess) {
-        // Create failed transaction record
-        const txRef = `SCHED-${schedule.type.toUpperCase()}-${Date.now()}`;
-        const { data: txData } = await adminClient.from('transactions').insert({
-          wallet_id: wallet.id,
-          user_id: schedule.user_id,
-          type: schedule.type === 'airtime' ? 'airtime_purchase' : 'data_purchase',
-          amount,
-          balance_before: currentBalance,
-          balance_after: currentBalance, // No deduction on failure
-          status: 'failed',
-          reference: txRef,
-          description: `Scheduled ${schedule.type} for ${phoneNumber} (failed)`,
-          metadata: { scheduled_topup_id: schedule.id, phone_number: phoneNumber, ...purchaseData },
-        }).select().single();
-
-        await logExecution(adminClient, schedule, 'failed', 'Payflex API failure', txData?.id || null);
-        await createNotification(adminClient, schedule.user_id, {
-          title: 'Scheduled Top-Up Failed',
-          message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} for ${phoneNumber} failed. No funds were deducted.`,
-          type: 'error', category: 'transaction',
-          metadata: { scheduleId: schedule.id },
-        });
-        failed++;
-        await advanceSchedule(adminClient, schedule);
-        continue;
-      }
+  // ── Handle result ──────────────────────────────────────────────────────
+  if (providerResult.success && providerResult.data) {
+    await adminClient.from('transactions').update({
+      status: 'completed', provider: provider.name, provider_reference: providerResult.providerReference || null,
+      metadata: { ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, completed_at: new Date().toISOString(), provider_response: providerResult.data },
+    }).eq('id', txData.id);
+
+    // Record spending and update budget (same pipeline as manual)
+    await recordSpendingAndUpdateBudget(adminClient, schedule.user_id, txData.id, txType, amount);
+    await logExecution(adminClient, executionId, 'success', null, txData.id);
+    await createNotification(adminClient, schedule.user_id, {
+      title: 'Scheduled Top-Up Successful',
+      message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} for ${phoneNumber} was successful.`,
+      type: 'success', category: 'schedule',
+      metadata: { scheduleId: schedule.id, transactionId: txData.id, amount },
+    });
+    await advanceSchedule(adminClient, schedule);
+    return 'succeeded';
+  }
 
-      // Purchase succeeded - create transaction and deduct balance
-      const balanceAfter = currentBalance - amount;
-      const txRef = `SCHED-${schedule.type.toUpperCase()}-${Date.now()}`;
-      const txType = schedule.type === 'airtime' ? 'airtime_purchase' : 'data_purchase';
-
-      const { data: txData, error: txError } = await adminClient.from('transactions').insert({
-        wallet_id: wallet.id,
-        user_id: schedule.user_id,
-        type: txType,
-        amount,
-        balance_before: currentBalance,
-        balance_after: balanceAfter,
-        status: 'completed',
-        reference: txRef,
-        description: `Scheduled ${schedule.type} for ${phoneNumber}`,
-        metadata: {
-          scheduled_topup_id: schedule.id,
-          phone_number: phoneNumber,
-          network: schedule.network,
-          plan_id: schedule.plan_id,
-          external_reference: purchaseData.reference,
-          external_transaction_id: purchaseData.transaction_id,
-        },
-      }).select().single();
-
-      if (txError) {
-        console.error(`[execute-scheduled-topups] Transaction insert error:`, txError);
-        failed++;
-        await advanceSchedule(adminClient, schedule);
-        continue;
-      }
+  // Not retried: the provider may yet deliver it
+  if (providerResult.ambiguous) {
+    await adminClient.from('transactions').update({
+      status: 'pending_verification', provider: provider.name,
+      metadata: { ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, pending_verification_at: new Date().toISOString(), provider_error: providerResult.error },
+    }).eq('id', txData.id);
+
+    await logExecution(adminClient, executionId, 'pending_verification', providerResult.error || null, txData.id);
+    await createNotification(adminClient, schedule.user_id, {
+      title: 'Scheduled Top-Up Processing',
+      message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} for ${phoneNumber} is being verified.`,
+      type: 'info', category: 'schedule',
+      metadata: { scheduleId: schedule.id, transactionId: txData.id },
+    });
+    await advanceSchedule(adminClient, schedule);
+    return 'pending';
+  }
 
-      // Deduct wallet balance
-      await adminClient.from('wallets')
-        .update({ balance: balanceAfter })
-        .eq('id', wallet.id)
-        .eq('user_id', schedule.user_id);
+  console.error(`[execute-scheduled-topups] ${provider.name} error for schedule ${schedule.id}:`, providerResult.error);
+  const { data: refundResult } = await adminClient
+    .rpc('refund_wallet', { p_user_id: schedule.user_id, p_amount: amount, p_reference: txReference });
+
+  await adminClient.from('transactions').update({
+    status: 'failed', provider: provider.name,
+    metadata: {
+      ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, failed_at: new Date().toISOString(),
+      failure_reason: providerResult.error, refunded: refundResult?.success || false,
+    },
+  }).eq('id', txData.id);
+
+  const retrying = await scheduleRetry(adminClient, schedule, 'provider_failure', amount);
+  await logExecution(adminClient, executionId, 'failed', `Provider API failure${retrying ? ', will retry' : ''}`, txData.id);
+  if (retrying) return 'failed';
+  await createNotification(adminClient, schedule.user_id, {
+    title: 'Scheduled Top-Up Failed',
+    message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} for ${phoneNumber} failed. ${refundResult?.success ? 'Your wallet has been refunded.' : 'Contact support.'}${schedule.retry_attempt ? ' We have stopped retrying this one.' : ''}`,
+    type: 'error', category: 'schedule',
+    metadata: { scheduleId: schedule.id, transactionId: txData.id, refunded: refundResult?.success },
+  });
+  await advanceSchedule(adminClient, schedule);
+  return 'failed';
+}
 
-      // Record spending and update budget (same pipeline as manual)
-      await recordSpendingAndUpdateBudget(adminClient, schedule.user_id, txData.id, txType, amount);
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-      // Log success
-      await logExecution(adminClient, schedule, 'success', null, txData.id);
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
 
-      // Send success notification
-      await createNotification(adminClient, schedule.user_id, {
-        title: 'Scheduled Top-Up Successful',
-        message: `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()} for ${phoneNumber} was successful.`,
-        type: 'success', category: 'transaction',
-        metadata: { scheduleId: schedule.id, transactionId: txData.id, amount },
-      });
+    const counts: Record<Outcome, number> = { succeeded: 0, pending: 0, failed: 0, skipped: 0 };
+    let processed = 0;
+    const claimUntil = Date.now() + CLAIM_WINDOW_MS;
+
+    do {
+      const { data: claimed, error: claimError } = await adminClient
+        .rpc('claim_due_scheduled_topups', { p_limit: CLAIM_BATCH_SIZE, p_lease_seconds: LEASE_SECONDS });
+
+      if (claimError) {
+        console.error('[execute-scheduled-topups] Claim error:', claimError);
+        // Later batches just wait for the next run
+        if (processed > 0) break;
+        return new Response(JSON.stringify({ error: 'Failed to claim schedules' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
 
-      succeeded++;
-      await advanceSchedule(adminClient, schedule);
-    }
+      if (!claimed || claimed.length === 0) break;
+
+      console.log(`[execute-scheduled-topups] Processing ${claimed.length} due schedules`);
+
+      const queue = [...claimed];
+      const worker = async () => {
+        for (let schedule = queue.shift(); schedule; schedule = queue.shift()) {
+          processed++;
+          try {
+            counts[await processSchedule(adminClient, schedule)]++;
+          } catch (e) {
+            console.error(`[execute-scheduled-topups] Schedule ${schedule.id}:`, e);
+            counts.failed++;
+          } finally {
+            await releaseLease(adminClient, schedule);
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(WORKERS, queue.length) }, worker));
+    } while (Date.now() < claimUntil);
 
-    console.log(`[execute-scheduled-topups] Done: ${processed} processed, ${succeeded} succeeded, ${failed} failed`);
+    console.log(`[execute-scheduled-topups] Done: ${processed} processed, ${counts.succeeded} succeeded, ${counts.pending} pending, ${counts.failed} failed, ${counts.skipped} skipped`);
 
-    return new Response(JSON.stringify({ success: true, processed, succeeded, failed }), {
+    return new Response(JSON.stringify({ success: true, processed, ...counts }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
@@ -352,45 +429,158 @@ Deno.serve(async (req) => {
   }
 });
 
+/**
+ * Records the attempt at the schedule's current run before anything is
+ * charged. Null if the run already has a charge, or one in flight.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function reserveRun(adminClient: any, schedule: any): Promise<string | null> {
+  const { data, error } = await adminClient.from('scheduled_topup_executions').insert({
+    scheduled_topup_id: schedule.id,
+    user_id: schedule.user_id,
+    status: 'processing',
+    amount: schedule.amount,
+    idempotency_key: runKey(schedule),
+  }).select('id').single();
+
+  if (error?.code === '23505') return null;
+  if (error) throw new Error(`Failed to record execution: ${error.message}`);
+  return data.id;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function logExecution(adminClient: any, schedule: any, status: string, failureReason: string | null, transactionId: string | null) {
+async function logExecution(adminClient: any, executionId: string, status: string, failureReason: string | null, transactionId: string | null) {
   try {
-    await adminClient.from('scheduled_topup_executions').insert({
-      scheduled_topup_id: schedule.id,
-      user_id: schedule.user_id,
-      transaction_id: transactionId,
-      status,
-      failure_reason: failureReason,
-      amount: schedule.amount,
-    });
+    await adminClient.from('scheduled_topup_executions')
+      .update({ status, failure_reason: failureReason, transaction_id: transactionId })
+      .eq('id', executionId);
   } catch (e) {
     console.error('[execute-scheduled-topups] Log execution error:', e);
   }
 }
 
+/** Lets the schedule be claimed again (a no-op if the lease was lost). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function releaseLease(adminClient: any, schedule: any) {
+  await adminClient.from('scheduled_topups')
+    .update({ lease_token: null, lease_expires_at: null })
+    .eq('id', schedule.id)
+    .eq('lease_token', schedule.lease_token);
+}
+
+/**
+ * The user's timezone, and the schedule's next run after now with skipped
+ * and moved runs applied (missed runs aren't replayed).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadNextRun(adminClient: any, schedule: any): Promise<{ timeZone: string; nextExec: string | null }> {
+  const now = new Date();
+  const [{ data: profile }, { data: exceptions }] = await Promise.all([
+    adminClient.from('profiles').select('timezone').eq('user_id', schedule.user_id).maybeSingle(),
+    adminClient.from('scheduled_topup_exceptions').select('occurrence_at, kind, moved_to')
+      .eq('scheduled_topup_id', schedule.id)
+      .or(`occurrence_at.gt.${now.toISOString()},moved_to.gt.${now.toISOString()}`),
+  ]);
+  const timeZone = resolveTimeZone(profile?.timezone);
+  return { timeZone, nextExec: nextRun(schedule, exceptions || [], now, timeZone)?.at.toISOString() ?? null };
+}
+
+/**
+ * Schedules another attempt at the current run, if its retry policy allows
+ * one, and tells the user. `amount` is what the run charges. False means the
+ * run should be given up.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function scheduleRetry(adminClient: any, schedule: any, reason: 'insufficient_funds' | 'provider_failure' | 'wallet_error', amount: number): Promise<boolean> {
+  const lowBalance = reason === 'insufficient_funds';
+  const hold = lowBalance && schedule.hold_until_funded;
+  const intervalMs = (schedule.retry_interval_minutes || 0) * 60 * 1000;
+  if (!hold && !intervalMs) return false;
+
+  const now = Date.now();
+  const { timeZone, nextExec } = await loadNextRun(adminClient, schedule);
+  // Retry until the window closes, but never into the next run
+  const deadline = schedule.retry_until
+    ? new Date(schedule.retry_until).getTime()
+    : Math.min(now + schedule.retry_window_hours * 60 * 60 * 1000, nextExec ? new Date(nextExec).getTime() : Infinity);
+
+  let nextAttempt: number;
+  let lastAttempt: boolean;
+  if (hold) {
+    // Funding makes it due sooner; otherwise try before giving up, with a warning
+    lastAttempt = deadline - now <= HOLD_REMINDER_MS;
+    nextAttempt = lastAttempt ? deadline : deadline - HOLD_REMINDER_MS;
+  } else {
+    nextAttempt = now + intervalMs;
+    lastAttempt = nextAttempt + intervalMs > deadline;
+  }
+  if (now >= deadline || nextAttempt > deadline) return false;
+
+  await adminClient.from('scheduled_topups')
+    .update({
+      next_execution_at: new Date(nextAttempt).toISOString(),
+      retry_attempt: (schedule.retry_attempt || 0) + 1,
+      retry_until: new Date(deadline).toISOString(),
+      held_since: hold ? schedule.held_since || new Date(now).toISOString() : null,
+      // What fund_wallet_atomic waits for the wallet to cover before releasing it
+      held_amount: hold ? amount : null,
+    })
+    .eq('id', schedule.id)
+    // Not if the lease lapsed and another pass took over
+    .eq('lease_token', schedule.lease_token);
+
+  const at = (ms: number) => new Date(ms).toLocaleString('en-NG', { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+  const what = `Your scheduled ${schedule.type} top-up of ₦${amount.toLocaleString()}`;
+  const fix = lowBalance ? ` Fund your wallet with at least ₦${amount.toLocaleString()} to avoid missing it.` : '';
+
+  if (lastAttempt) {
+    await createNotification(adminClient, schedule.user_id, {
+      title: 'Scheduled Top-Up About to Be Missed',
+      message: `${what} still hasn't gone through. We'll try one last time at ${at(nextAttempt)}.${fix}`,
+      type: 'warning', category: 'schedule',
+      metadata: { scheduleId: schedule.id, amount, reason, lastAttemptAt: new Date(nextAttempt).toISOString() },
+    });
+  } else if (!schedule.retry_attempt) {
+    await createNotification(adminClient, schedule.user_id, {
+      title: 'Scheduled Top-Up Delayed',
+      message: hold
+        ? `${what} is waiting for funds. It will go through as soon as your wallet has ₦${amount.toLocaleString()}, until ${at(deadline)}.`
+        : `${what} didn't go through${lowBalance ? ' (insufficient wallet balance)' : ''}. We'll keep trying until ${at(deadline)}.${fix}`,
+      type: 'warning', category: 'schedule',
+      metadata: { scheduleId: schedule.id, amount, reason, retryUntil: new Date(deadline).toISOString() },
+    });
+  }
+
+  console.log(`[execute-scheduled-topups] Schedule ${schedule.id}: ${reason}, ${hold ? 'held' : 'retry'} at ${new Date(nextAttempt).toISOString()}`);
+  return true;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function advanceSchedule(adminClient: any, schedule: any) {
   const newTotalExecutions = (schedule.total_executions || 0) + 1;
   const maxReached = schedule.max_executions && newTotalExecutions >= schedule.max_executions;
+  // Whatever happened, the current run is over
+  const retryReset = { retry_attempt: 0, retry_until: null, held_since: null };
 
   if (schedule.schedule_type === 'one_time' || maxReached) {
     // Mark as completed
     await adminClient.from('scheduled_topups')
-      .update({ status: 'completed', next_execution_at: null, total_executions: newTotalExecutions })
-      .eq('id', schedule.id);
+      .update({ status: 'completed', next_execution_at: null, total_executions: newTotalExecutions, ...retryReset })
+      .eq('id', schedule.id)
+      .eq('lease_token', schedule.lease_token);
     return;
   }
 
-  // Calculate next execution for recurring
-  const nextExec = calculateNextExecution(
-    schedule.schedule_type,
-    schedule.scheduled_at,
-    schedule.recurring_time,
-    schedule.recurring_day_of_week,
-    schedule.recurring_day_of_month,
-  );
+  const { nextExec } = await loadNextRun(adminClient, schedule);
 
   await adminClient.from('scheduled_topups')
-    .update({ next_execution_at: nextExec, total_executions: newTotalExecutions })
-    .eq('id', schedule.id);
+    .update({
+      next_execution_at: nextExec,
+      total_executions: newTotalExecutions,
+      ...retryReset,
+      // No run left before ends_on
+      ...(nextExec ? {} : { status: 'completed' }),
+    })
+    .eq('id', schedule.id)
+    .eq('lease_token', schedule.lease_token);
 }
@@ -8,16 +8,29 @@
  * ## Endpoints
  *
  * ### GET ?action=plans&network=mtn
- * Returns predefined airtime plans with 5% margin pricing. Public.
+ * Returns predefined airtime plans at list price (see `_shared/pricing`). Public.
  *
- * ### POST (body: { phoneNumber, amount, network, idempotencyKey? })
+ * ### POST (body: { phoneNumber, quoteId, pin, idempotencyKey?, useCashback? })
  * Processes an airtime purchase with full safety guarantees. Authenticated.
+ * `quoteId` is an airtime quote from `POST /pricing/quote`: the network and
+ * face value come from it, and the user is charged exactly its price. A
+ * quote that's missing, expired, already used or fails its signature check
+ * is refused with its `QUOTE_*` code, and nothing is charged.
+ * A promo code on the quote is redeemed as the purchase claims it; one
+ * that has run out since is refused with its `PROMO_*` code.
+ * With `useCashback`, the cashback balance pays as much of the price as it
+ * covers and the main balance the rest; cashback is earned only on the part
+ * paid from the main balance, and spent cashback comes back if the purchase
+ * fails.
  *
  * ## Transaction Safety Features
+ * - Transaction PIN verified before any money moves (lockout after 5 misses)
  * - Idempotent reference prevents duplicate charges
- * - Atomic wallet locking via DB function (SELECT FOR UPDATE)
+ * - Signed, single-use price quotes: the charge is exactly what the user confirmed
+ * - Atomic wallet locking via DB function (SELECT FOR UPDATE), cashback spent under the same lock
+ * - KYC tier single-purchase and daily spend limits checked under the wallet lock
  * - Automatic refund on provider failure
- * - Retry with exponential backoff (3 attempts)
+ * - Retry with exponential backoff (3 attempts, inside the provider adapter)
  * - Full audit trail in wallet_ledger
  * - Status machine: INITIATED → PROCESSING → COMPLETED / FAILED / PENDING_VERIFICATION
  *
@@ -25,18 +38,18 @@
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyTransactionPin } from "../_shared/pin.ts";
+import { purchaseWithFailover } from "../_shared/providers/failover.ts";
+import { loadPricingRules, priceFor, PricingError, type PricingRule } from "../_shared/pricing.ts";
+import { attachQuote, checkQuote, claimQuote, QuoteError, releaseQuote } from "../_shared/quotes.ts";
+import { PromoError } from "../_shared/promos.ts";
+import { createNotification } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
-const PAYFLEX_API_KEY = Deno.env.get('PAYFLEX_API_KEY');
-const PAYFLEX_BASE_URL = 'https://api.payflexng.com/v1';
-const MARGIN_PERCENTAGE = 0.05;
-const MAX_RETRIES = 3;
-const RETRY_DELAYS = [1000, 3000, 9000]; // 1s, 3s, 9s
-
 interface AirtimePlan {
   id: string;
   amount: number;
@@ -62,23 +75,6 @@ function getCurrentMonthYear(): string {
 /** Budget alert thresholds. */
 const BUDGET_THRESHOLDS = [50, 75, 90, 100];
 
-/** Creates a notification record. */
-async function createNotification(
-  adminClient: ReturnType<typeof createClient>,
-  userId: string,
-  notification: { title: string; message: string; type: string; category: string; metadata?: Record<string, unknown> }
-) {
-  try {
-    await adminClient.from("notifications").insert({
-      user_id: userId,
-      ...notification,
-      metadata: notification.metadata || {},
-    });
-  } catch (e) {
-    console.error("[notification] Failed:", e);
-  }
-}
-
 /** Records spending event and updates budget with threshold notifications. */
 async function recordSpendingAndUpdateBudget(
   adminClient: ReturnType<typeof createClient>,
@@ -139,68 +135,10 @@ async function recordSpendingAndUpdateBudget(
   }
 }
 
-/** Calls Payflex API with retry and exponential backoff. */
-async function callPayflexWithRetry(
-  url: string,
-  body: Record<string, unknown>,
-  retries = MAX_RETRIES
-): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; ambiguous?: boolean }> {
-  for (let attempt = 0; attempt < retries; attempt++) {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 30000);
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${PAYFLEX_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeout);
-
-      if (response.ok) {
-        const data = await response.json();
-        return { success: true, data };
-      }
-
-      const errorData = await response.json().catch(() => ({}));
-
-      // 4xx errors are not retryable (except 429)
-      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
-        return { success: false, error: errorData.message || `Provider error: ${response.status}` };
-      }
-
-      console.warn(`[payflex] Attempt ${attempt + 1} failed (${response.status}), retrying...`);
-    } catch (err) {
-      if (err instanceof DOMException && err.name === 'AbortError') {
-        console.warn(`[payflex] Attempt ${attempt + 1} timed out`);
-        if (attempt === retries - 1) {
-          return { success: false, error: 'Provider timeout', ambiguous: true };
-        }
-      } else {
-        console.warn(`[payflex] Attempt ${attempt + 1} network error:`, err);
-        if (attempt === retries - 1) {
-          return { success: false, error: 'Network error', ambiguous: true };
-        }
-      }
-    }
-
-    // Wait before retry
-    if (attempt < retries - 1) {
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt]));
-    }
-  }
-  return { success: false, error: 'All retry attempts failed', ambiguous: true };
-}
-
 /**
- * Returns predefined airtime plans with 5% margin.
+ * Returns predefined airtime plans at list price.
  */
-function getAirtimePlans(network: string): AirtimePlan[] {
+function getAirtimePlans(network: string, rules: PricingRule[]): AirtimePlan[] {
   const basePlans = [
     { id: 'airtime-100', amount: 100, bonus: '0%' },
     { id: 'airtime-200', amount: 200, bonus: '0%' },
@@ -211,7 +149,7 @@ function getAirtimePlans(network: string): AirtimePlan[] {
   ];
   return basePlans.map(plan => ({
     ...plan,
-    finalPrice: Math.ceil(plan.amount * (1 + MARGIN_PERCENTAGE)),
+    finalPrice: priceFor(rules, { product: 'airtime', network, cost: plan.amount }).price,
     network: network.toUpperCase(),
   }));
 }
@@ -230,7 +168,9 @@ Deno.serve(async (req) => {
     // =====================================================================
     if (req.method === 'GET' && action === 'plans') {
       const network = url.searchParams.get('network') || 'mtn';
-      return new Response(JSON.stringify({ success: true, plans: getAirtimePlans(network) }), {
+      const adminClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+      const plans = getAirtimePlans(network, await loadPricingRules(adminClient));
+      return new Response(JSON.stringify({ success: true, plans }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
@@ -265,10 +205,10 @@ Deno.serve(async (req) => {
       const adminClient = createClient(supabaseUrl, supabaseServiceKey);
 
       // Parse & validate input
-      const { phoneNumber, amount, network, idempotencyKey } = await req.json();
+      const { phoneNumber, quoteId, idempotencyKey, pin, useCashback } = await req.json();
 
-      if (!phoneNumber || !amount || !network) {
-        return new Response(JSON.stringify({ error: 'Missing required fields: phoneNumber, amount, network' }), {
+      if (!phoneNumber || !quoteId) {
+        return new Response(JSON.stringify({ error: 'Missing required fields: phoneNumber, quoteId' }), {
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
@@ -280,17 +220,10 @@ Deno.serve(async (req) => {
         });
       }
 
-      const purchaseAmount = Number(amount);
-      if (isNaN(purchaseAmount) || purchaseAmount < 50 || purchaseAmount > 50000) {
-        return new Response(JSON.stringify({ error: 'Amount must be between ₦50 and ₦50,000' }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
       // Generate idempotent reference
       const txReference = idempotencyKey || generateReference();
 
-      console.log(`[airtime] Purchase: user=${userId} phone=${cleanPhone} amount=${purchaseAmount} ref=${txReference}`);
+      console.log(`[airtime] Purchase: user=${userId} phone=${cleanPhone} quote=${quoteId} ref=${txReference}`);
 
       // ── STEP 1: Idempotency check ──────────────────────────────────────
       const { data: existingTx } = await adminClient
@@ -313,23 +246,44 @@ Deno.serve(async (req) => {
         }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
       }
 
-      // ── STEP 2: Lock wallet & deduct balance atomically ────────────────
+      // ── STEP 1b: Check the price quote ─────────────────────────────────
+      const quote = await checkQuote(adminClient, userId, quoteId, 'airtime');
+      const network = quote.network;
+      const purchaseAmount = Number(quote.face_value);
+      const chargeAmount = Number(quote.price);
+
+      // ── STEP 1c: Verify transaction PIN ────────────────────────────────
+      const pinCheck = await verifyTransactionPin(adminClient, userId, pin);
+      if (!pinCheck.ok) {
+        console.warn(`[airtime] PIN check failed for user=${userId}: ${pinCheck.code}`);
+        return new Response(JSON.stringify(pinCheck), {
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // ── STEP 2: Claim the quote, lock wallet, check KYC limits & deduct ─
+      await claimQuote(adminClient, quote);
       const { data: deductResult, error: deductError } = await adminClient
-        .rpc('lock_and_deduct_wallet', {
+        .rpc('lock_and_deduct_purchase_with_cashback', {
           p_user_id: userId,
-          p_amount: purchaseAmount,
+          p_amount: chargeAmount,
+          p_cashback: useCashback ? chargeAmount : 0,
           p_reference: txReference,
         });
 
       if (deductError || !deductResult?.success) {
         const errMsg = deductResult?.error || deductError?.message || 'Wallet deduction failed';
         console.error(`[airtime] Wallet deduction failed: ${errMsg}`);
-        return new Response(JSON.stringify({ error: errMsg }), {
+        await releaseQuote(adminClient, quote.id);
+        return new Response(JSON.stringify({ error: errMsg, code: deductResult?.code, limits: deductResult?.limits }), {
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
       const { wallet_id, balance_before, balance_after } = deductResult;
+      const cashbackUsed = Number(deductResult.cashback_used ?? 0);
+      // What came out of the main balance, and so what a failure refunds
+      const walletCharge = chargeAmount - cashbackUsed;
 
       // ── STEP 3: Create transaction record (INITIATED) ──────────────────
       const { data: txData, error: txInsertError } = await adminClient
@@ -338,7 +292,7 @@ Deno.serve(async (req) => {
           wallet_id,
           user_id: userId,
           type: 'airtime_purchase',
-          amount: purchaseAmount,
+          amount: chargeAmount,
           balance_before,
           balance_after,
           status: 'initiated',
@@ -347,7 +301,14 @@ Deno.serve(async (req) => {
           network: network.toUpperCase(),
           product_type: 'airtime',
           description: `Airtime purchase for ${cleanPhone}`,
-          metadata: { initiated_at: new Date().toISOString() },
+          metadata: {
+            initiated_at: new Date().toISOString(), face_value: purchaseAmount, cost_price: Number(quote.cost_price),
+            cashback_used: cashbackUsed,
+            pricing: {
+              quote_id: quote.id, rule_id: quote.pricing_rule_id, margin: Number(quote.margin), fee: Number(quote.fee),
+              promo_code_id: quote.promo_code_id, discount: Number(quote.discount),
+            },
+          },
         })
         .select()
         .single();
@@ -355,36 +316,48 @@ Deno.serve(async (req) => {
       if (txInsertError) {
         console.error(`[airtime] Transaction insert failed:`, txInsertError);
         // Refund wallet since we already deducted
-        await adminClient.rpc('refund_wallet', { p_user_id: userId, p_amount: purchaseAmount, p_reference: txReference });
+        if (walletCharge > 0) {
+          await adminClient.rpc('refund_wallet', { p_user_id: userId, p_amount: walletCharge, p_reference: txReference });
+        }
+        if (cashbackUsed > 0) {
+          await adminClient.rpc('credit_cashback', {
+            p_user_id: userId, p_amount: cashbackUsed, p_reference: `cb_${txReference}`, p_description: 'Cashback returned',
+          });
+        }
+        await releaseQuote(adminClient, quote.id);
         return new Response(JSON.stringify({ error: 'Failed to create transaction record' }), {
           status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
+      await attachQuote(adminClient, quote, txData.id, txReference);
+
       // ── STEP 4: Update status to PROCESSING ────────────────────────────
       await adminClient
         .from('transactions')
         .update({ status: 'processing', metadata: { ...txData.metadata as Record<string, unknown>, processing_at: new Date().toISOString() } })
         .eq('id', txData.id);
 
-      // ── STEP 5: Call Payflex API with retry ────────────────────────────
-      const providerResult = await callPayflexWithRetry(
-        `${PAYFLEX_BASE_URL}/airtime/purchase`,
-        { phone_number: cleanPhone, amount: purchaseAmount, network: network.toLowerCase() }
+      // ── STEP 5: Call VTU provider (retries + failover) ────────────────
+      const { result: providerResult, provider, attempted } = await purchaseWithFailover(
+        adminClient, network,
+        (p) => p.purchaseAirtime({ phoneNumber: cleanPhone, amount: purchaseAmount, network, reference: txReference }),
       );
 
       // ── STEP 6: Handle provider response ───────────────────────────────
       if (providerResult.success && providerResult.data) {
         // SUCCESS → update transaction, record spending
-        const providerRef = providerResult.data.reference || providerResult.data.transaction_id || null;
+        const providerRef = providerResult.providerReference || null;
 
         await adminClient
           .from('transactions')
           .update({
             status: 'completed',
-            provider_reference: providerRef as string,
+            provider: provider.name,
+            provider_reference: providerRef,
             metadata: {
               ...(txData.metadata as Record<string, unknown>),
+              providers_attempted: attempted,
               completed_at: new Date().toISOString(),
               provider_response: providerResult.data,
             },
@@ -392,7 +365,7 @@ Deno.serve(async (req) => {
           .eq('id', txData.id);
 
         // Record spending & update budget
-        await recordSpendingAndUpdateBudget(adminClient, userId, txData.id, purchaseAmount);
+        await recordSpendingAndUpdateBudget(adminClient, userId, txData.id, chargeAmount);
 
         // Notification
         await createNotification(adminClient, userId, {
@@ -400,7 +373,7 @@ Deno.serve(async (req) => {
           message: `₦${purchaseAmount.toLocaleString()} airtime sent to ${cleanPhone}.`,
           type: 'success',
           category: 'transaction',
-          metadata: { transactionId: txData.id, amount: purchaseAmount },
+          metadata: { transactionId: txData.id, amount: chargeAmount, faceValue: purchaseAmount },
         });
 
         console.log(`[airtime] SUCCESS: txn=${txData.id} ref=${txReference}`);
@@ -419,8 +392,10 @@ Deno.serve(async (req) => {
           .from('transactions')
           .update({
             status: 'pending_verification',
+            provider: provider.name,
             metadata: {
               ...(txData.metadata as Record<string, unknown>),
+              providers_attempted: attempted,
               pending_verification_at: new Date().toISOString(),
               provider_error: providerResult.error,
             },
@@ -446,18 +421,21 @@ Deno.serve(async (req) => {
         }), { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
       } else {
-        // FAILED → refund wallet
+        // FAILED → refund wallet (spent cashback is returned as the status changes)
         console.error(`[airtime] Provider failed: ${providerResult.error}`);
 
-        const { data: refundResult } = await adminClient
-          .rpc('refund_wallet', { p_user_id: userId, p_amount: purchaseAmount, p_reference: txReference });
+        const { data: refundResult } = walletCharge > 0
+          ? await adminClient.rpc('refund_wallet', { p_user_id: userId, p_amount: walletCharge, p_reference: txReference })
+          : { data: { success: true } };
 
         await adminClient
           .from('transactions')
           .update({
             status: 'failed',
+            provider: provider.name,
             metadata: {
               ...(txData.metadata as Record<string, unknown>),
+              providers_attempted: attempted,
               failed_at: new Date().toISOString(),
               failure_reason: providerResult.error,
               refunded: refundResult?.success || false,
@@ -471,7 +449,7 @@ Deno.serve(async (req) => {
           message: `Your ₦${purchaseAmount.toLocaleString()} airtime purchase failed. ${refundResult?.success ? 'Your wallet has been refunded.' : 'Please contact support.'}`,
           type: 'error',
           category: 'transaction',
-          metadata: { transactionId: txData.id, amount: purchaseAmount, refunded: refundResult?.success },
+          metadata: { transactionId: txData.id, amount: chargeAmount, refunded: refundResult?.success },
         });
 
         return new Response(JSON.stringify({
@@ -489,6 +467,17 @@ Deno.serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof QuoteError || error instanceof PromoError) {
+      return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+        status: error.code === 'QUOTE_NOT_FOUND' ? 404 : 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof PricingError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     console.error('[payflex-airtime-topup] Unhandled error:', error);
     return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }), {
       status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
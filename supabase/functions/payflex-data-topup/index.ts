@@ -8,30 +8,42 @@
  * ## Endpoints
  *
  * ### GET ?action=plans&network=mtn
- * Returns data plans from Payflex (with fallback) including 5% margin. Public.
+ * Returns the network's active plans from the `data_plans` catalog (kept in
+ * step with the provider by `sync-data-plans`), margin included. Public.
  *
- * ### GET ?action=balance
- * Returns Payflex wallet balance. Public.
+ * ### GET ?action=balance&network=mtn
+ * Returns the float balance held with the network's VTU provider. Public.
  *
- * ### POST (body: { phoneNumber, planId, network, amount, idempotencyKey? })
- * Processes a data purchase with full safety guarantees. Authenticated.
+ * ### POST (body: { phoneNumber, quoteId, pin, idempotencyKey?, useCashback? })
+ * Processes a data purchase with full safety guarantees. Authenticated; the
+ * transaction PIN is verified before the wallet is debited, and the user's
+ * KYC tier limits are checked as it is. `quoteId` is a data quote from
+ * `POST /pricing/quote`: the network and plan come from it, and the user is
+ * charged exactly its price. A quote that's missing, expired, already used
+ * or fails its signature check is refused with its `QUOTE_*` code, and
+ * nothing is charged.
+ * A promo code on the quote is redeemed as the purchase claims it; one
+ * that has run out since is refused with its `PROMO_*` code.
+ * With `useCashback`, the cashback balance pays as much of the price as it
+ * covers and the main balance the rest (see `payflex-airtime-topup`).
  *
  * @module payflex-data-topup
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyTransactionPin } from "../_shared/pin.ts";
+import { getProviderForNetwork } from "../_shared/providers/index.ts";
+import { purchaseWithFailover } from "../_shared/providers/failover.ts";
+import { loadProviderPlanIds } from "../_shared/providers/plans.ts";
+import { attachQuote, checkQuote, claimQuote, QuoteError, releaseQuote } from "../_shared/quotes.ts";
+import { PromoError } from "../_shared/promos.ts";
+import { createNotification } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
-const PAYFLEX_API_KEY = Deno.env.get('PAYFLEX_API_KEY');
-const PAYFLEX_BASE_URL = 'https://api.payflexng.com/v1';
-const MARGIN_PERCENTAGE = 0.05;
-const MAX_RETRIES = 3;
-const RETRY_DELAYS = [1000, 3000, 9000];
-
 interface DataPlan {
   id: string;
   name: string;
@@ -40,6 +52,8 @@ interface DataPlan {
   network: string;
   validity: string;
   dataAmount: string;
+  category: string;
+  tag: string | null;
 }
 
 function generateReference(): string {
@@ -56,16 +70,6 @@ function getCurrentMonthYear(): string {
 
 const BUDGET_THRESHOLDS = [50, 75, 90, 100];
 
-async function createNotification(
-  adminClient: ReturnType<typeof createClient>,
-  userId: string,
-  notification: { title: string; message: string; type: string; category: string; metadata?: Record<string, unknown> }
-) {
-  try {
-    await adminClient.from("notifications").insert({ user_id: userId, ...notification, metadata: notification.metadata || {} });
-  } catch (e) { console.error("[notification] Failed:", e); }
-}
-
 async function recordSpendingAndUpdateBudget(
   adminClient: ReturnType<typeof createClient>,
   userId: string,
@@ -110,52 +114,6 @@ async function recordSpendingAndUpdateBudget(
   } catch (e) { console.error("[budget] Error:", e); }
 }
 
-async function callPayflexWithRetry(
-  url: string, body: Record<string, unknown>, retries = MAX_RETRIES
-): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; ambiguous?: boolean }> {
-  for (let attempt = 0; attempt < retries; attempt++) {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 30000);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${PAYFLEX_API_KEY}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify(body), signal: controller.signal,
-      });
-      clearTimeout(timeout);
-
-      if (response.ok) {
-        return { success: true, data: await response.json() };
-      }
-      const errorData = await response.json().catch(() => ({}));
-      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
-        return { success: false, error: errorData.message || `Provider error: ${response.status}` };
-      }
-      console.warn(`[payflex] Attempt ${attempt + 1} failed (${response.status})`);
-    } catch (err) {
-      console.warn(`[payflex] Attempt ${attempt + 1} error:`, err);
-      if (attempt === retries - 1) {
-        return { success: false, error: err instanceof DOMException ? 'Provider timeout' : 'Network error', ambiguous: true };
-      }
-    }
-    if (attempt < retries - 1) await new Promise(r => setTimeout(r, RETRY_DELAYS[attempt]));
-  }
-  return { success: false, error: 'All retry attempts failed', ambiguous: true };
-}
-
-function getFallbackPlans(network: string): DataPlan[] {
-  const basePlans = [
-    { id: '1gb', name: '1GB', costPrice: 300, dataAmount: '1GB', validity: '30 days' },
-    { id: '2gb', name: '2GB', costPrice: 600, dataAmount: '2GB', validity: '30 days' },
-    { id: '3gb', name: '3GB', costPrice: 900, dataAmount: '3GB', validity: '30 days' },
-    { id: '5gb', name: '5GB', costPrice: 1500, dataAmount: '5GB', validity: '30 days' },
-    { id: '10gb', name: '10GB', costPrice: 3000, dataAmount: '10GB', validity: '30 days' },
-  ];
-  return basePlans.map(plan => ({
-    ...plan, finalPrice: Math.ceil(plan.costPrice * (1 + MARGIN_PERCENTAGE)), network: network.toUpperCase(),
-  }));
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -167,40 +125,42 @@ Deno.serve(async (req) => {
 
     // ── GET ?action=plans ────────────────────────────────────────────────
     if (req.method === 'GET' && action === 'plans') {
-      const network = url.searchParams.get('network') || 'mtn';
-      try {
-        const response = await fetch(`${PAYFLEX_BASE_URL}/data/plans?network=${network}`, {
-          headers: { 'Authorization': `Bearer ${PAYFLEX_API_KEY}`, 'Content-Type': 'application/json' },
+      const network = (url.searchParams.get('network') || 'mtn').toUpperCase();
+      const adminClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+      const { data: rows, error } = await adminClient
+        .from('data_plans')
+        .select('plan_id, name, cost_price, final_price, network, validity, data_amount, category, tag')
+        .eq('network', network)
+        .eq('is_active', true)
+        .order('final_price');
+      if (error) {
+        console.error('[data] Failed to load plans:', error);
+        return new Response(JSON.stringify({ success: false, error: 'Failed to fetch plans' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
-        if (response.ok) {
-          const data = await response.json();
-          const plans = data.plans?.map((plan: Record<string, unknown>) => ({
-            id: plan.id, name: plan.name, costPrice: plan.price,
-            finalPrice: Math.ceil(Number(plan.price) * (1 + MARGIN_PERCENTAGE)),
-            network: plan.network, validity: plan.validity, dataAmount: plan.data_amount,
-          })) || getFallbackPlans(network);
-          return new Response(JSON.stringify({ success: true, plans, source: 'payflex' }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          });
-        }
-      } catch { /* fallback */ }
-      return new Response(JSON.stringify({ success: true, plans: getFallbackPlans(network), source: 'fallback' }), {
+      }
+      const plans: DataPlan[] = (rows || []).map((row) => ({
+        id: row.plan_id, name: row.name, costPrice: Number(row.cost_price), finalPrice: Number(row.final_price),
+        network: row.network, validity: row.validity, dataAmount: row.data_amount, category: row.category, tag: row.tag,
+      }));
+      return new Response(JSON.stringify({ success: true, plans, source: 'catalog' }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
     // ── GET ?action=balance ──────────────────────────────────────────────
     if (req.method === 'GET' && action === 'balance') {
-      const response = await fetch(`${PAYFLEX_BASE_URL}/wallet/balance`, {
-        headers: { 'Authorization': `Bearer ${PAYFLEX_API_KEY}`, 'Content-Type': 'application/json' },
-      });
-      if (!response.ok) {
+      const provider = getProviderForNetwork(url.searchParams.get('network') || 'mtn');
+      let balance: number;
+      try {
+        balance = await provider.getFloatBalance();
+      } catch (e) {
+        console.error(`[data] ${provider.name} balance check failed:`, e);
         return new Response(JSON.stringify({ success: false, error: 'Failed to fetch balance' }), {
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
-      const data = await response.json();
-      return new Response(JSON.stringify({ success: true, balance: data.balance }), {
+      return new Response(JSON.stringify({ success: true, balance, provider: provider.name }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
@@ -231,20 +191,19 @@ Deno.serve(async (req) => {
       const userId = user.id;
       const adminClient = createClient(supabaseUrl, supabaseServiceKey);
 
-      const { phoneNumber, planId, network, amount, idempotencyKey } = await req.json();
+      const { phoneNumber, quoteId, idempotencyKey, pin, useCashback } = await req.json();
 
-      if (!phoneNumber || !network || !amount) {
+      if (!phoneNumber || !quoteId) {
         return new Response(JSON.stringify({ error: 'Missing required fields' }), {
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
       const cleanPhone = phoneNumber.replace(/\D/g, '');
-      const purchaseAmount = Number(amount);
 
       const txReference = idempotencyKey || generateReference();
 
-      console.log(`[data] Purchase: user=${userId} phone=${cleanPhone} plan=${planId} amount=${purchaseAmount} ref=${txReference}`);
+      console.log(`[data] Purchase: user=${userId} phone=${cleanPhone} quote=${quoteId} ref=${txReference}`);
 
       // ── Idempotency check ──────────────────────────────────────────────
       const { data: existingTx } = await adminClient
@@ -262,17 +221,42 @@ Deno.serve(async (req) => {
         });
       }
 
-      // ── Lock wallet & deduct ───────────────────────────────────────────
+      // ── Check the price quote ──────────────────────────────────────────
+      const quote = await checkQuote(adminClient, userId, quoteId, 'data');
+      const network = quote.network;
+      const planId = quote.plan_id!;
+      const purchaseAmount = Number(quote.price);
+
+      // ── Verify transaction PIN ─────────────────────────────────────────
+      const pinCheck = await verifyTransactionPin(adminClient, userId, pin);
+      if (!pinCheck.ok) {
+        console.warn(`[data] PIN check failed for user=${userId}: ${pinCheck.code}`);
+        return new Response(JSON.stringify(pinCheck), {
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // ── Claim the quote, lock wallet, check KYC tier limits & deduct ───
+      await claimQuote(adminClient, quote);
       const { data: deductResult, error: deductError } = await adminClient
-        .rpc('lock_and_deduct_wallet', { p_user_id: userId, p_amount: purchaseAmount, p_reference: txReference });
+        .rpc('lock_and_deduct_purchase_with_cashback', {
+          p_user_id: userId, p_amount: purchaseAmount, p_cashback: useCashback ? purchaseAmount : 0, p_reference: txReference,
+        });
 
       if (deductError || !deductResult?.success) {
-        return new Response(JSON.stringify({ error: deductResult?.error || deductError?.message || 'Wallet deduction failed' }), {
+        await releaseQuote(adminClient, quote.id);
+        return new Response(JSON.stringify({
+          error: deductResult?.error || deductError?.message || 'Wallet deduction failed',
+          code: deductResult?.code,
+          limits: deductResult?.limits,
+        }), {
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
       const { wallet_id, balance_before, balance_after } = deductResult;
+      const cashbackUsed = Number(deductResult.cashback_used ?? 0);
+      const walletCharge = purchaseAmount - cashbackUsed;
 
       // ── Create transaction (INITIATED) ─────────────────────────────────
       const { data: txData, error: txInsertError } = await adminClient
@@ -283,35 +267,55 @@ Deno.serve(async (req) => {
           status: 'initiated', reference: txReference,
           phone_number: cleanPhone, network: network.toUpperCase(), product_type: 'data',
           description: `Data purchase for ${cleanPhone}`,
-          metadata: { plan_id: planId, initiated_at: new Date().toISOString() },
+          metadata: {
+            plan_id: planId, initiated_at: new Date().toISOString(), cost_price: Number(quote.cost_price),
+            cashback_used: cashbackUsed,
+            pricing: {
+              quote_id: quote.id, rule_id: quote.pricing_rule_id, margin: Number(quote.margin), fee: Number(quote.fee),
+              promo_code_id: quote.promo_code_id, discount: Number(quote.discount),
+            },
+          },
         })
         .select().single();
 
       if (txInsertError) {
-        await adminClient.rpc('refund_wallet', { p_user_id: userId, p_amount: purchaseAmount, p_reference: txReference });
+        if (walletCharge > 0) {
+          await adminClient.rpc('refund_wallet', { p_user_id: userId, p_amount: walletCharge, p_reference: txReference });
+        }
+        if (cashbackUsed > 0) {
+          await adminClient.rpc('credit_cashback', {
+            p_user_id: userId, p_amount: cashbackUsed, p_reference: `cb_${txReference}`, p_description: 'Cashback returned',
+          });
+        }
+        await releaseQuote(adminClient, quote.id);
         return new Response(JSON.stringify({ error: 'Failed to create transaction' }), {
           status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
+      await attachQuote(adminClient, quote, txData.id, txReference);
+
       // ── Update to PROCESSING ───────────────────────────────────────────
       await adminClient.from('transactions').update({
         status: 'processing',
         metadata: { ...(txData.metadata as Record<string, unknown>), processing_at: new Date().toISOString() },
       }).eq('id', txData.id);
 
-      // ── Call Payflex with retry ────────────────────────────────────────
-      const providerResult = await callPayflexWithRetry(
-        `${PAYFLEX_BASE_URL}/data/purchase`,
-        { phone_number: cleanPhone, plan_id: planId, network: network.toLowerCase() }
+      // ── Call VTU provider (retries + failover) ────────────────────────
+      // Only providers selling the same bundle are tried, each under its own plan id
+      const planIds = await loadProviderPlanIds(adminClient, network, planId);
+      const { result: providerResult, provider, attempted } = await purchaseWithFailover(
+        adminClient, network,
+        (p) => p.purchaseData({ phoneNumber: cleanPhone, planId: planIds[p.name], network, reference: txReference }),
+        (p) => p.name in planIds,
       );
 
       // ── Handle result ──────────────────────────────────────────────────
       if (providerResult.success && providerResult.data) {
-        const providerRef = providerResult.data.reference || providerResult.data.transaction_id || null;
+        const providerRef = providerResult.providerReference || null;
         await adminClient.from('transactions').update({
-          status: 'completed', provider_reference: providerRef as string,
-          metadata: { ...(txData.metadata as Record<string, unknown>), completed_at: new Date().toISOString(), provider_response: providerResult.data },
+          status: 'completed', provider: provider.name, provider_reference: providerRef,
+          metadata: { ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, completed_at: new Date().toISOString(), provider_response: providerResult.data },
         }).eq('id', txData.id);
 
         await recordSpendingAndUpdateBudget(adminClient, userId, txData.id, purchaseAmount);
@@ -327,8 +331,8 @@ Deno.serve(async (req) => {
 
       } else if (providerResult.ambiguous) {
         await adminClient.from('transactions').update({
-          status: 'pending_verification',
-          metadata: { ...(txData.metadata as Record<string, unknown>), pending_verification_at: new Date().toISOString(), provider_error: providerResult.error },
+          status: 'pending_verification', provider: provider.name,
+          metadata: { ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, pending_verification_at: new Date().toISOString(), provider_error: providerResult.error },
         }).eq('id', txData.id);
 
         await createNotification(adminClient, userId, {
@@ -342,13 +346,15 @@ Deno.serve(async (req) => {
         }), { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
       } else {
-        const { data: refundResult } = await adminClient
-          .rpc('refund_wallet', { p_user_id: userId, p_amount: purchaseAmount, p_reference: txReference });
+        // Spent cashback is returned as the status changes
+        const { data: refundResult } = walletCharge > 0
+          ? await adminClient.rpc('refund_wallet', { p_user_id: userId, p_amount: walletCharge, p_reference: txReference })
+          : { data: { success: true } };
 
         await adminClient.from('transactions').update({
-          status: 'failed',
+          status: 'failed', provider: provider.name,
           metadata: {
-            ...(txData.metadata as Record<string, unknown>), failed_at: new Date().toISOString(),
+            ...(txData.metadata as Record<string, unknown>), providers_attempted: attempted, failed_at: new Date().toISOString(),
             failure_reason: providerResult.error, refunded: refundResult?.success || false,
           },
         }).eq('id', txData.id);
@@ -371,6 +377,12 @@ Deno.serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof QuoteError || error instanceof PromoError) {
+      return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+        status: error.code === 'QUOTE_NOT_FOUND' ? 404 : 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     console.error('[payflex-data-topup] Unhandled error:', error);
     return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }), {
       status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
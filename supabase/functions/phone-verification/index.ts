@@ -0,0 +1,307 @@
+/**
+ * PHONE VERIFICATION EDGE FUNCTION
+ * ================================
+ *
+ * Proves the user controls a phone number with a one-time SMS code, then
+ * flips `profiles.phone_verified` (primary number) or
+ * `phone_numbers.is_verified` (saved number). Clients cannot set either flag
+ * themselves.
+ *
+ * ## Endpoints
+ *
+ * ### POST /phone-verification/send
+ * Texts a 6-digit code to the number. Authenticated.
+ *
+ * **Request Body:**
+ * ```json
+ * { "phoneNumberId": null }
+ * ```
+ * `phoneNumberId` null means the primary number on the profile.
+ *
+ * ### POST /phone-verification/verify
+ * Checks the code and marks the number verified. Authenticated.
+ *
+ * **Request Body:**
+ * ```json
+ * { "verificationId": "<uuid>", "code": "482913" }
+ * ```
+ *
+ * ## Limits
+ * - Codes expire after 10 minutes and allow 5 attempts
+ * - A new code can be requested 60 seconds after the last one
+ * - At most 5 codes per user per hour
+ *
+ * Texts go out through the configured SMS sender (see `_shared/sms`).
+ *
+ * @module phone-verification
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSmsSender } from "../_shared/sms/index.ts";
+import { timingSafeEqual } from "../_shared/gateways/signature.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const CODE_TTL_MINUTES = 10;
+const MAX_VERIFY_ATTEMPTS = 5;
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_SENDS_PER_HOUR = 5;
+
+/** Random 6-digit code, zero-padded. */
+function generateCode(): string {
+  const value = crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000;
+  return String(value).padStart(6, '0');
+}
+
+/** Hex SHA-256 of the code, salted with its verification id. */
+async function hashCode(verificationId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${verificationId}:${code}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** 0801****678 — enough for the user to recognise the number. */
+function maskPhone(phone: string): string {
+  return phone.length < 8 ? phone : `${phone.slice(0, 4)}****${phone.slice(-3)}`;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+    const url = new URL(req.url);
+    const action = url.pathname.split('/').pop();
+
+    // =====================================================================
+    // POST /send — Text a verification code
+    // =====================================================================
+    if (action === 'send' && req.method === 'POST') {
+      const { phoneNumberId = null } = await req.json().catch(() => ({}));
+
+      let phoneNumber: string | null = null;
+      if (phoneNumberId) {
+        const { data: phone } = await adminClient
+          .from('phone_numbers').select('phone_number, is_verified')
+          .eq('id', phoneNumberId).eq('user_id', user.id).maybeSingle();
+        if (phone?.is_verified) {
+          return new Response(JSON.stringify({ error: 'This number is already verified' }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        phoneNumber = phone?.phone_number || null;
+      } else {
+        const { data: profile } = await adminClient
+          .from('profiles').select('phone_number, phone_verified')
+          .eq('user_id', user.id).maybeSingle();
+        if (profile?.phone_verified) {
+          return new Response(JSON.stringify({ error: 'This number is already verified' }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        phoneNumber = profile?.phone_number || null;
+      }
+
+      if (!phoneNumber) {
+        return new Response(JSON.stringify({ error: 'Phone number not found' }), {
+          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // ── Rate limits ────────────────────────────────────────────────────
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { data: recent } = await adminClient
+        .from('phone_verifications')
+        .select('created_at')
+        .eq('user_id', user.id)
+        .gte('created_at', hourAgo)
+        .order('created_at', { ascending: false });
+
+      if ((recent || []).length >= MAX_SENDS_PER_HOUR) {
+        return new Response(JSON.stringify({ error: 'Too many codes requested. Try again in an hour.' }), {
+          status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      const sinceLast = recent?.[0] ? (Date.now() - new Date(recent[0].created_at).getTime()) / 1000 : Infinity;
+      if (sinceLast < RESEND_COOLDOWN_SECONDS) {
+        const retryAfter = Math.ceil(RESEND_COOLDOWN_SECONDS - sinceLast);
+        return new Response(JSON.stringify({ error: `Please wait ${retryAfter}s before requesting another code`, retryAfter }), {
+          status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // ── Create & send ──────────────────────────────────────────────────
+      const verificationId = crypto.randomUUID();
+      const code = generateCode();
+      const expiresAt = new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString();
+      const sender = getSmsSender();
+
+      const { error: insertError } = await adminClient.from('phone_verifications').insert({
+        id: verificationId,
+        user_id: user.id,
+        phone_number_id: phoneNumberId,
+        phone_number: phoneNumber,
+        code_hash: await hashCode(verificationId, code),
+        expires_at: expiresAt,
+        sender: sender.name,
+      });
+      if (insertError) {
+        console.error('[phone-verification] Insert error:', insertError);
+        return new Response(JSON.stringify({ error: 'Failed to create verification' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      try {
+        const { messageId } = await sender.send(
+          phoneNumber,
+          `Your Nava verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes. Never share it with anyone.`,
+        );
+        await adminClient.from('phone_verifications').update({ sender_message_id: messageId }).eq('id', verificationId);
+      } catch (e) {
+        console.error(`[phone-verification] ${sender.name} send failed:`, e);
+        // Don't count a text that never left against the user's limits
+        await adminClient.from('phone_verifications').delete().eq('id', verificationId);
+        return new Response(JSON.stringify({ error: 'Could not send the code. Please try again shortly.' }), {
+          status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      console.log(`[phone-verification] Sent code to ${maskPhone(phoneNumber)} for user ${user.id}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        verificationId,
+        maskedPhone: maskPhone(phoneNumber),
+        expiresAt,
+        resendAfter: RESEND_COOLDOWN_SECONDS,
+      }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // =====================================================================
+    // POST /verify — Check the code and mark the number verified
+    // =====================================================================
+    if (action === 'verify' && req.method === 'POST') {
+      const { verificationId, code } = await req.json();
+
+      if (!verificationId || typeof code !== 'string' || !/^\d{6}$/.test(code)) {
+        return new Response(JSON.stringify({ error: 'Enter the 6-digit code' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: verification } = await adminClient
+        .from('phone_verifications')
+        .select('*')
+        .eq('id', verificationId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!verification || verification.verified_at) {
+        return new Response(JSON.stringify({ error: 'Verification not found. Request a new code.' }), {
+          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (new Date(verification.expires_at) <= new Date()) {
+        return new Response(JSON.stringify({ error: 'This code has expired. Request a new one.', code: 'EXPIRED' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (verification.attempts >= MAX_VERIFY_ATTEMPTS) {
+        return new Response(JSON.stringify({ error: 'Too many incorrect attempts. Request a new code.', code: 'EXHAUSTED' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Count the attempt first; the attempts guard stops parallel guesses
+      const { data: counted } = await adminClient
+        .from('phone_verifications')
+        .update({ attempts: verification.attempts + 1 })
+        .eq('id', verification.id)
+        .eq('attempts', verification.attempts)
+        .select('id')
+        .maybeSingle();
+      if (!counted) {
+        return new Response(JSON.stringify({ error: 'Please try again' }), {
+          status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!timingSafeEqual(await hashCode(verification.id, code), verification.code_hash)) {
+        const remaining = MAX_VERIFY_ATTEMPTS - verification.attempts - 1;
+        return new Response(JSON.stringify({
+          error: remaining > 0 ? `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.` : 'Too many incorrect attempts. Request a new code.',
+          code: remaining > 0 ? 'INVALID' : 'EXHAUSTED',
+          attemptsRemaining: remaining,
+        }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      await adminClient.from('phone_verifications')
+        .update({ verified_at: new Date().toISOString() })
+        .eq('id', verification.id);
+
+      // Only verify the number the code was sent to, in case it was edited since
+      const { data: flagged, error: flagError } = verification.phone_number_id
+        ? await adminClient.from('phone_numbers')
+          .update({ is_verified: true })
+          .eq('id', verification.phone_number_id)
+          .eq('user_id', user.id)
+          .eq('phone_number', verification.phone_number)
+          .select('id')
+          .maybeSingle()
+        : await adminClient.from('profiles')
+          .update({ phone_verified: true })
+          .eq('user_id', user.id)
+          .eq('phone_number', verification.phone_number)
+          .select('id')
+          .maybeSingle();
+
+      if (flagError || !flagged) {
+        return new Response(JSON.stringify({ error: 'The phone number changed since the code was sent. Request a new code.' }), {
+          status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      console.log(`[phone-verification] Verified ${maskPhone(verification.phone_number)} for user ${user.id}`);
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Invalid endpoint' }), {
+      status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('[phone-verification] Error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,262 @@
+/**
+ * PRICING EDGE FUNCTION
+ * =====================
+ *
+ * Quotes the signed-in user what airtime and data cost them, from the
+ * pricing rules (see `_shared/pricing`). Prices can differ by KYC tier and
+ * change with time-boxed rules, so the app shows these rather than working
+ * prices out itself. These are for browsing; to buy, the app asks for a
+ * quote, which holds the price for a few minutes and is the only thing the
+ * purchase functions accept (see `_shared/quotes`).
+ *
+ * ## Endpoints
+ *
+ * ### POST /pricing
+ * Authenticated.
+ *
+ * **Airtime** — prices for face values from ₦50 to ₦50,000 (up to 20):
+ * ```json
+ * { "type": "airtime", "network": "mtn", "amounts": [100, 500, 1000] }
+ * ```
+ * → `{ success, prices: [{ amount, price, margin, fee, cashback }] }`
+ *
+ * **Data** — every active plan on the network, cheapest first:
+ * ```json
+ * { "type": "data", "network": "mtn" }
+ * ```
+ * → `{ success, plans: [{ id, name, dataAmount, validity, category, tag, price, margin, fee, cashback }] }`
+ *
+ * `cashback` is what the purchase earns under the cashback rules if paid
+ * from the main balance (see `settle_purchase_cashback`).
+ *
+ * ### POST /pricing/quote
+ * Authenticated. Holds the price of one purchase until `expiresAt`, less
+ * the discount of an optional `promoCode` (see `_shared/promos`):
+ * ```json
+ * { "type": "airtime", "network": "mtn", "amount": 500, "promoCode": "WELCOME10" }
+ * { "type": "data", "network": "mtn", "planId": "mtn-1gb-30d" }
+ * ```
+ * → `{ success, quote: { id, type, network, amount, planId, price, margin, fee, discount, expiresAt, signature } }`
+ *
+ * Purchases send `quoteId` and are charged exactly `price`.
+ *
+ * ### POST /pricing/promo
+ * Authenticated. Checks a `promoCode` against a purchase, taking the same
+ * body as a quote but holding nothing:
+ * → `{ success, promo: { code, description, discount, price } }`
+ * A code that can't be used returns 400 with its `PROMO_*` `code`.
+ *
+ * @module pricing
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { kycTierOf, loadPricingRules, priceFor, PricingError, type Price } from "../_shared/pricing.ts";
+import { issueQuote, type PriceQuote, type QuotedItem } from "../_shared/quotes.ts";
+import { applyPromoCode, PromoError } from "../_shared/promos.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const NETWORKS = ['MTN', 'AIRTEL', 'GLO', '9MOBILE'];
+const MAX_AMOUNTS = 20;
+
+const isAirtimeAmount = (amount: unknown) => Number.isInteger(amount) && (amount as number) >= 50 && (amount as number) <= 50000;
+
+/** Cashback earned on each of `prices`, keyed by price. */
+async function cashbackFor(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, product: 'airtime' | 'data', network: string, prices: number[],
+): Promise<Map<number, number>> {
+  const { data, error } = await adminClient
+    .rpc('cashback_for_amounts', { p_product: product, p_network: network, p_amounts: [...new Set(prices)] });
+  if (error) throw new Error(`Failed to work out cashback: ${error.message}`);
+  return new Map((data || []).map((row: { amount: number; cashback: number }) => [Number(row.amount), Number(row.cashback)]));
+}
+
+/** A stored quote as the app sees it. */
+function toQuoteResponse(quote: PriceQuote) {
+  return {
+    id: quote.id, type: quote.product, network: quote.network,
+    amount: quote.face_value === null ? null : Number(quote.face_value), planId: quote.plan_id,
+    price: Number(quote.price), margin: Number(quote.margin), fee: Number(quote.fee),
+    discount: Number(quote.discount),
+    expiresAt: quote.expires_at, signature: quote.signature,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+    const route = new URL(req.url).pathname.split('/').pop();
+    const { type, network: rawNetwork, amounts, amount, planId, promoCode } = await req.json();
+    const network = String(rawNetwork || '').toUpperCase();
+
+    if (!NETWORKS.includes(network)) {
+      return new Response(JSON.stringify({ error: `network must be one of ${NETWORKS.join(', ')}` }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [rules, kycTier] = await Promise.all([loadPricingRules(adminClient), kycTierOf(adminClient, user.id)]);
+
+    // ── POST /pricing/quote, POST /pricing/promo ────────────────────────
+    if (route === 'quote' || route === 'promo') {
+      let item: QuotedItem;
+      let price: Price;
+
+      if (type === 'airtime') {
+        if (!isAirtimeAmount(amount)) {
+          return new Response(JSON.stringify({ error: 'Amount must be a whole amount between ₦50 and ₦50,000' }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        item = { product: 'airtime', network, faceValue: amount };
+        price = priceFor(rules, { product: 'airtime', network, cost: amount, kycTier });
+      } else if (type === 'data') {
+        const { data: plan } = await adminClient
+          .from('data_plans')
+          .select('cost_price, category')
+          .eq('network', network)
+          .eq('plan_id', String(planId || ''))
+          .eq('is_active', true)
+          .maybeSingle();
+        if (!plan) {
+          return new Response(JSON.stringify({ error: 'That data plan is no longer available' }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        item = { product: 'data', network, planId };
+        price = priceFor(rules, {
+          product: 'data', network, cost: Number(plan.cost_price), planCategory: plan.category, kycTier,
+        });
+      } else {
+        return new Response(JSON.stringify({ error: 'type must be airtime or data' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (route === 'promo' && !promoCode) {
+        return new Response(JSON.stringify({ error: 'promoCode is required' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      const applied = promoCode
+        ? await applyPromoCode(adminClient, user.id, String(promoCode), { product: item.product, network, price: price.price })
+        : null;
+
+      if (route === 'promo') {
+        const { promo, discount } = applied!;
+        return new Response(JSON.stringify({
+          success: true,
+          promo: { code: promo.code, description: promo.description, discount, price: price.price - discount },
+        }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      const quote = await issueQuote(
+        adminClient, user.id, item, price,
+        applied && { promoCodeId: applied.promo.id, discount: applied.discount },
+      );
+      return new Response(JSON.stringify({ success: true, quote: toQuoteResponse(quote) }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ── POST /pricing ───────────────────────────────────────────────────
+
+    if (type === 'airtime') {
+      if (!Array.isArray(amounts) || amounts.length === 0 || amounts.length > MAX_AMOUNTS
+        || !amounts.every(isAirtimeAmount)) {
+        return new Response(JSON.stringify({ error: `amounts must be 1 to ${MAX_AMOUNTS} whole amounts between ₦50 and ₦50,000` }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const priced = (amounts as number[]).map((amount) => {
+        const { price, margin, fee } = priceFor(rules, { product: 'airtime', network, cost: amount, kycTier });
+        return { amount, price, margin, fee };
+      });
+      const cashback = await cashbackFor(adminClient, 'airtime', network, priced.map((p) => p.price));
+      const prices = priced.map((p) => ({ ...p, cashback: cashback.get(p.price) ?? 0 }));
+      return new Response(JSON.stringify({ success: true, prices }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (type === 'data') {
+      const { data: rows, error } = await adminClient
+        .from('data_plans')
+        .select('plan_id, name, data_amount, validity, category, tag, cost_price')
+        .eq('network', network)
+        .eq('is_active', true);
+      if (error) throw new Error(`Failed to load plans: ${error.message}`);
+
+      const priced = (rows || []).map((row) => {
+        const { price, margin, fee } = priceFor(rules, {
+          product: 'data', network, cost: Number(row.cost_price), planCategory: row.category, kycTier,
+        });
+        return {
+          id: row.plan_id, name: row.name, dataAmount: row.data_amount, validity: row.validity,
+          category: row.category, tag: row.tag, price, margin, fee,
+        };
+      }).sort((a, b) => a.price - b.price);
+      const cashback = await cashbackFor(adminClient, 'data', network, priced.map((p) => p.price));
+      const plans = priced.map((p) => ({ ...p, cashback: cashback.get(p.price) ?? 0 }));
+
+      return new Response(JSON.stringify({ success: true, plans }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'type must be airtime or data' }), {
+      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof PromoError) {
+      return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof PricingError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    console.error('[pricing] Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,303 @@
+/**
+ * RECONCILE PROVIDERS EDGE FUNCTION
+ * =================================
+ *
+ * Nightly reconciliation of our purchase records against each VTU provider's
+ * transaction report.
+ *
+ * ## Endpoints
+ *
+ * ### POST /reconcile-providers
+ * Cron-triggered once a night via pg_cron. Reconciles one Africa/Lagos day
+ * (default: yesterday) for every registered provider.
+ *
+ * **Request Body (optional):**
+ * ```json
+ * { "date": "2026-04-13", "provider": "payflex" }
+ * ```
+ *
+ * ## Matching
+ * Provider report entries are matched to `transactions` by our reference, or
+ * by `provider_reference` when the provider doesn't echo ours back. Whether the
+ * customer is still charged comes from `wallet_ledger`: the net debit for the
+ * reference, plus cashback spent on it and not yet returned (`cb_<reference>`).
+ * Mismatches are written to `reconciliation_items`:
+ *
+ * - `charged_not_delivered` — customer charged, provider reports failed or has no record
+ * - `delivered_but_refunded` — provider delivered, but we refunded the customer
+ * - `amount_drift` — both sides completed but the provider charged a different amount
+ *
+ * A charged purchase missing from the report is re-checked with `queryStatus`
+ * before it is flagged, since purchases near midnight can land in the
+ * provider's next-day report. Re-running a day is safe: existing items are
+ * never duplicated or re-opened.
+ *
+ * @module reconcile-providers
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getProvider, getProviderNames } from "../_shared/providers/index.ts";
+import type { ProviderReportEntry, VtuProvider } from "../_shared/providers/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const PURCHASE_TYPES = ['airtime_purchase', 'data_purchase', 'auto_topup'];
+const CASHBACK_PREFIX = 'cb_';
+/** Cashback entries that pay for a purchase; cashback it earned doesn't charge the customer. */
+const CASHBACK_PAYMENT_DESCRIPTIONS = ['Cashback spent', 'Cashback returned'];
+const PAGE_SIZE = 1000;
+/** Purchases per ledger query; each is looked up under its own and its cashback reference. */
+const LEDGER_CHUNK_SIZE = 100;
+/** Africa/Lagos is UTC+1 all year (no DST). */
+const LAGOS_OFFSET = '+01:00';
+
+type MismatchKind = 'charged_not_delivered' | 'delivered_but_refunded' | 'amount_drift';
+
+/** Yesterday's date (YYYY-MM-DD) in Africa/Lagos. */
+function lagosYesterday(): string {
+  const lagosNow = new Date(Date.now() + 60 * 60 * 1000);
+  lagosNow.setUTCDate(lagosNow.getUTCDate() - 1);
+  return lagosNow.toISOString().slice(0, 10);
+}
+
+/** UTC bounds [start, end) of a Lagos calendar day. */
+function dayWindow(date: string): { start: string; end: string } {
+  const start = new Date(`${date}T00:00:00${LAGOS_OFFSET}`);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+/**
+ * What the provider should have charged us, or null when we can't know.
+ * Purchases record it as `metadata.cost_price`: the airtime face value, or
+ * the data plan's cost price. Older airtime purchases charged face value.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function expectedProviderAmount(tx: any): number | null {
+  const costPrice = (tx.metadata as Record<string, unknown> | null)?.cost_price;
+  if (costPrice !== undefined && costPrice !== null) return Number(costPrice);
+  const productType = tx.product_type || (tx.type === 'airtime_purchase' ? 'airtime' : tx.type === 'data_purchase' ? 'data' : null);
+  return productType === 'airtime' ? Number(tx.amount) : null;
+}
+
+/** Classifies one purchase against the provider's view of it. */
+function classify(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  entry: ProviderReportEntry | null,
+  ledgerNet: number,
+): MismatchKind | null {
+  const charged = ledgerNet < 0;
+
+  // Still in flight at the provider — the verification flow owns these
+  if (entry?.status === 'pending') return null;
+
+  if (entry?.status === 'completed') {
+    if (!charged) return 'delivered_but_refunded';
+    const expected = expectedProviderAmount(tx);
+    if (expected !== null && Math.abs(entry.amount - expected) > 0.009) return 'amount_drift';
+    return null;
+  }
+
+  return charged ? 'charged_not_delivered' : null;
+}
+
+/** Loads the day's purchases routed through `provider`. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadLocalTransactions(adminClient: any, provider: string, date: string) {
+  const { start, end } = dayWindow(date);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await adminClient
+      .from('transactions')
+      .select('id, user_id, type, amount, status, reference, provider_reference, product_type, metadata')
+      .eq('provider', provider)
+      .in('type', PURCHASE_TYPES)
+      .gte('created_at', start)
+      .lt('created_at', end)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load transactions: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Net charge per reference (credits minus debits): the main balance entries,
+ * plus the cashback spent on the purchase net of any returned.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadLedgerNets(adminClient: any, references: string[]): Promise<Map<string, number>> {
+  const nets = new Map<string, number>();
+  for (let i = 0; i < references.length; i += LEDGER_CHUNK_SIZE) {
+    const chunk = references.slice(i, i + LEDGER_CHUNK_SIZE);
+    const { data, error } = await adminClient
+      .from('wallet_ledger')
+      .select('transaction_reference, type, amount, account, description')
+      .in('transaction_reference', [...chunk, ...chunk.map((reference) => `${CASHBACK_PREFIX}${reference}`)]);
+    if (error) throw new Error(`Failed to load ledger: ${error.message}`);
+    for (const row of data || []) {
+      let reference: string = row.transaction_reference;
+      if (row.account === 'cashback') {
+        if (!CASHBACK_PAYMENT_DESCRIPTIONS.includes(row.description)) continue;
+        reference = reference.slice(CASHBACK_PREFIX.length);
+      }
+      const signed = row.type === 'credit' ? Number(row.amount) : -Number(row.amount);
+      nets.set(reference, (nets.get(reference) || 0) + signed);
+    }
+  }
+  return nets;
+}
+
+/** Reconciles one provider for one day and records the run. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function reconcileProvider(adminClient: any, provider: VtuProvider, date: string) {
+  const { data: run, error: runError } = await adminClient
+    .from('reconciliation_runs')
+    .upsert({
+      run_date: date, provider: provider.name, status: 'running',
+      started_at: new Date().toISOString(), finished_at: null, error: null,
+    }, { onConflict: 'run_date,provider' })
+    .select('id')
+    .single();
+  if (runError) throw new Error(`Failed to start run: ${runError.message}`);
+
+  try {
+    const entries = await provider.getTransactionReport(date);
+    const local = await loadLocalTransactions(adminClient, provider.name, date);
+    const ledgerNets = await loadLedgerNets(adminClient, local.map((tx) => tx.reference).filter(Boolean));
+
+    const byReference = new Map<string, ProviderReportEntry>();
+    const byProviderReference = new Map<string, ProviderReportEntry>();
+    for (const entry of entries) {
+      if (entry.reference) byReference.set(entry.reference, entry);
+      if (entry.providerReference) byProviderReference.set(entry.providerReference, entry);
+    }
+
+    const matched = new Set<ProviderReportEntry>();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const items: any[] = [];
+
+    for (const tx of local) {
+      let entry = byReference.get(tx.reference)
+        || (tx.provider_reference ? byProviderReference.get(tx.provider_reference) : undefined)
+        || null;
+      if (entry) matched.add(entry);
+
+      const ledgerNet = ledgerNets.get(tx.reference) || 0;
+
+      // Missing from the report: confirm directly before calling it undelivered
+      if (!entry && ledgerNet < 0) {
+        const status = await provider.queryStatus(tx.reference);
+        if (status.status === 'completed') {
+          entry = {
+            reference: tx.reference,
+            providerReference: status.providerReference || tx.provider_reference,
+            status: 'completed',
+            amount: Number(status.data?.amount ?? expectedProviderAmount(tx) ?? 0),
+            data: status.data,
+          };
+        }
+      }
+
+      const kind = classify(tx, entry, ledgerNet);
+      if (!kind) continue;
+
+      items.push({
+        run_id: run.id,
+        run_date: date,
+        provider: provider.name,
+        kind,
+        match_key: tx.reference,
+        transaction_id: tx.id,
+        user_id: tx.user_id,
+        reference: tx.reference,
+        provider_reference: entry?.providerReference || tx.provider_reference || null,
+        local_status: tx.status,
+        provider_status: entry?.status || null,
+        local_amount: Number(tx.amount),
+        provider_amount: entry ? entry.amount : null,
+        ledger_net: ledgerNet,
+      });
+    }
+
+    if (items.length > 0) {
+      const { error: insertError } = await adminClient
+        .from('reconciliation_items')
+        .upsert(items, { onConflict: 'provider,kind,match_key', ignoreDuplicates: true });
+      if (insertError) throw new Error(`Failed to record mismatches: ${insertError.message}`);
+    }
+
+    const unmatched = entries.filter((e) => !matched.has(e)).length;
+    const summary = {
+      provider_entries: entries.length,
+      local_transactions: local.length,
+      mismatches: items.length,
+      unmatched_provider_entries: unmatched,
+    };
+
+    await adminClient.from('reconciliation_runs').update({
+      status: 'completed', ...summary, finished_at: new Date().toISOString(),
+    }).eq('id', run.id);
+
+    console.log(`[reconcile-providers] ${provider.name} ${date}: ${items.length} mismatches, ${unmatched} unmatched provider entries`);
+    return { provider: provider.name, status: 'completed', ...summary };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`[reconcile-providers] ${provider.name} ${date} failed:`, e);
+    await adminClient.from('reconciliation_runs').update({
+      status: 'failed', error: message, finished_at: new Date().toISOString(),
+    }).eq('id', run.id);
+    return { provider: provider.name, status: 'failed', error: message };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+    const date = body.date || lagosYesterday();
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return new Response(JSON.stringify({ error: 'date must be YYYY-MM-DD' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let providers: VtuProvider[];
+    try {
+      providers = (body.provider ? [body.provider] : getProviderNames()).map((name: string) => getProvider(name));
+    } catch (e) {
+      return new Response(JSON.stringify({ error: e instanceof Error ? e.message : 'Unknown provider' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const results = [];
+    for (const provider of providers) {
+      results.push(await reconcileProvider(adminClient, provider, date));
+    }
+
+    return new Response(JSON.stringify({ success: true, date, results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[reconcile-providers] Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
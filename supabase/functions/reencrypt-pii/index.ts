@@ -0,0 +1,108 @@
+/**
+ * REENCRYPT PII EDGE FUNCTION
+ * ===========================
+ *
+ * Brings stored PII up to the active encryption key (see `_shared/pii.ts`):
+ * - legacy base64 NINs are encrypted for the first time
+ * - NINs under an older key version have their data key re-wrapped
+ *
+ * ## Endpoints
+ *
+ * ### POST /reencrypt-pii
+ * Run after adding a key to `PII_ENCRYPTION_KEYS` (or on a pg_cron schedule).
+ * Each call handles up to `MAX_ROWS_PER_RUN` rows and reports how many are
+ * left; call it again until `remaining` is 0 before retiring an old key.
+ *
+ * Updates are conditional on the value not having changed since it was read,
+ * so overlapping runs and concurrent verifications are safe.
+ *
+ * @module reencrypt-pii
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  activeKeyVersion, decryptPii, encryptPii, isEncryptedPii, ninContext, piiKeyVersion, rewrapPii,
+} from "../_shared/pii.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const BATCH_SIZE = 100;
+const MAX_ROWS_PER_RUN = 1000;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const active = await activeKeyVersion();
+    const staleFilter = `nin_key_version.is.null,nin_key_version.lt.${active}`;
+    const counts = { encrypted: 0, rewrapped: 0, failed: 0 };
+    let scanned = 0;
+    // Walk by id so rows that fail (and stay stale) aren't picked up again
+    let lastId = '00000000-0000-0000-0000-000000000000';
+
+    while (scanned < MAX_ROWS_PER_RUN) {
+      const { data: rows, error } = await adminClient
+        .from('user_kyc')
+        .select('id, user_id, nin_number_encrypted')
+        .not('nin_number_encrypted', 'is', null)
+        .or(staleFilter)
+        .gt('id', lastId)
+        .order('id')
+        .limit(BATCH_SIZE);
+      if (error) throw new Error(`Failed to load user_kyc: ${error.message}`);
+      if (!rows?.length) break;
+
+      for (const row of rows) {
+        scanned++;
+        lastId = row.id;
+        try {
+          const current: string = row.nin_number_encrypted;
+          const legacy = !isEncryptedPii(current);
+          const next = legacy
+            ? await encryptPii(await decryptPii(current, ninContext(row.user_id)), ninContext(row.user_id))
+            : await rewrapPii(current);
+
+          const { data: updated, error: updateError } = await adminClient
+            .from('user_kyc')
+            .update({ nin_number_encrypted: next, nin_key_version: piiKeyVersion(next) })
+            .eq('id', row.id)
+            .eq('nin_number_encrypted', current)
+            .select('id');
+          if (updateError) throw new Error(updateError.message);
+
+          // Changed underneath us: whoever wrote it used the active key
+          if (updated?.length) counts[legacy ? 'encrypted' : 'rewrapped']++;
+        } catch (e) {
+          counts.failed++;
+          console.error(`[reencrypt-pii] user_kyc ${row.id}:`, e);
+        }
+      }
+    }
+
+    const { count: remaining } = await adminClient
+      .from('user_kyc')
+      .select('id', { count: 'exact', head: true })
+      .not('nin_number_encrypted', 'is', null)
+      .or(staleFilter);
+
+    console.log(`[reencrypt-pii] Key v${active}:`, { ...counts, remaining });
+
+    return new Response(JSON.stringify({ success: true, keyVersion: active, ...counts, remaining: remaining || 0 }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[reencrypt-pii] Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
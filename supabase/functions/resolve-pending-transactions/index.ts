@@ -0,0 +1,228 @@
+/**
+ * RESOLVE PENDING TRANSACTIONS EDGE FUNCTION
+ * ==========================================
+ *
+ * Background resolver for purchases left in `pending_verification`, or stuck
+ * in `processing` because the purchase call never finished. Without it a
+ * customer who closes the app could wait indefinitely for a refund.
+ *
+ * ## Endpoints
+ *
+ * ### POST /resolve-pending-transactions
+ * Cron-triggered every 2 minutes via pg_cron.
+ *
+ * For each due purchase (claimed with `claim_pending_verifications`):
+ * 1. Re-queries the provider that handled it (`queryStatus`)
+ * 2. Completed or failed → settles via `finalize_pending_purchase`
+ *    (failed refunds the wallet) and notifies the user
+ * 3. Still unknown → retried with backoff (2m, 5m, 15m, 30m, 1h, 2h, 4h, 6h, 12h, 12h)
+ * 4. After the last attempt the purchase stays in `pending_verification` for
+ *    admin review (`metadata.verification_exhausted_at`) and the user is told
+ *
+ * @module resolve-pending-transactions
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getProvider, getProviderForNetwork } from "../_shared/providers/index.ts";
+import { createNotification } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const BATCH_SIZE = 50;
+/** Delay before each retry, indexed by attempts made so far. */
+const BACKOFF_MINUTES = [2, 5, 15, 30, 60, 120, 240, 360, 720, 720];
+const MAX_ATTEMPTS = BACKOFF_MINUTES.length + 1;
+/** A purchase still 'processing' after this long is assumed to have lost its caller. */
+const PROCESSING_TIMEOUT_SECONDS = 10 * 60;
+/** How long a claimed purchase is hidden from overlapping sweeps. */
+const LEASE_SECONDS = 5 * 60;
+
+const BUDGET_THRESHOLDS = [50, 75, 90, 100];
+
+function getCurrentMonthYear(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function recordSpendingAndUpdateBudget(adminClient: any, userId: string, transactionId: string, type: string, amount: number) {
+  const currentMonth = getCurrentMonthYear();
+  const category = type === 'airtime_purchase' ? 'AIRTIME' : 'DATA';
+
+  try {
+    await adminClient.from('spending_events').insert({
+      user_id: userId, transaction_id: transactionId, category, amount,
+    });
+
+    const { data: budget } = await adminClient
+      .from('user_budgets')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('month_year', currentMonth)
+      .maybeSingle();
+
+    if (!budget) return;
+
+    const newAmountSpent = Number(budget.amount_spent) + amount;
+    const budgetAmount = Number(budget.budget_amount);
+
+    await adminClient.from('user_budgets')
+      .update({ amount_spent: newAmountSpent, updated_at: new Date().toISOString() })
+      .eq('id', budget.id);
+
+    if (budgetAmount <= 0) return;
+
+    const percentageUsed = Math.round((newAmountSpent / budgetAmount) * 100);
+    const lastAlertLevel = budget.last_alert_level || 0;
+
+    for (const threshold of BUDGET_THRESHOLDS) {
+      if (percentageUsed >= threshold && lastAlertLevel < threshold) {
+        const isOver = threshold >= 100;
+        const remaining = Math.max(0, budgetAmount - newAmountSpent);
+
+        await createNotification(adminClient, userId, {
+          title: isOver ? 'Monthly Budget Exceeded' : `${threshold}% Budget Used`,
+          message: isOver
+            ? `You've exceeded your monthly budget of ₦${budgetAmount.toLocaleString()}.`
+            : `You've used ${threshold}% of your monthly budget. ₦${remaining.toLocaleString()} remaining.`,
+          type: isOver ? 'warning' : 'info',
+          category: 'budget',
+          metadata: { threshold, budgetAmount, amountSpent: newAmountSpent, percentageUsed, remaining },
+        });
+
+        await adminClient.from('user_budgets').update({ last_alert_level: threshold }).eq('id', budget.id);
+        break;
+      }
+    }
+  } catch (e) {
+    console.error('[budget] Error:', e);
+  }
+}
+
+/**
+ * Re-checks one claimed purchase with its provider and settles it if the
+ * provider has a definitive answer. Returns what happened.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function resolveTransaction(adminClient: any, tx: any): Promise<'completed' | 'failed' | 'retry' | 'exhausted' | 'skipped'> {
+  const provider = tx.provider ? getProvider(tx.provider) : getProviderForNetwork(tx.network || '');
+  const verification = await provider.queryStatus(tx.reference || tx.id);
+  const amount = Number(tx.amount);
+
+  if (verification.status === 'completed' || verification.status === 'failed') {
+    const { data: outcome, error } = await adminClient.rpc('finalize_pending_purchase', {
+      p_transaction_id: tx.id,
+      p_outcome: verification.status,
+      p_provider_reference: verification.providerReference || null,
+      p_details: verification.status === 'completed'
+        ? { provider_verification: verification.data, resolved_by: 'background' }
+        : { failure_reason: 'Provider verification confirmed failure', resolved_by: 'background' },
+    });
+    if (error || !outcome?.success) {
+      throw new Error(error?.message || outcome?.error || 'finalize_pending_purchase failed');
+    }
+    // Someone else (client verify, another sweep) settled it first
+    if (!outcome.finalized) return 'skipped';
+
+    if (outcome.status === 'completed') {
+      if (tx.type === 'airtime_purchase' || tx.type === 'data_purchase') {
+        await recordSpendingAndUpdateBudget(adminClient, tx.user_id, tx.id, tx.type, amount);
+      }
+      await createNotification(adminClient, tx.user_id, {
+        title: 'Purchase Confirmed',
+        message: `Your ₦${amount.toLocaleString()} ${tx.product_type || 'purchase'} to ${tx.phone_number || 'your number'} was delivered.`,
+        type: 'success', category: 'transaction',
+        metadata: { transactionId: tx.id, amount },
+      });
+      return 'completed';
+    }
+
+    await createNotification(adminClient, tx.user_id, {
+      title: 'Purchase Failed & Refunded',
+      message: `Your ₦${amount.toLocaleString()} purchase could not be delivered. ₦${Number(outcome.refunded).toLocaleString()} has been returned to your wallet.`,
+      type: 'error', category: 'transaction',
+      metadata: { transactionId: tx.id, amount, refunded: outcome.refunded },
+    });
+    return 'failed';
+  }
+
+  // Still inconclusive — back off, or give up and leave it to an admin
+  const attempts = Number(tx.verification_attempts);
+  if (attempts >= MAX_ATTEMPTS) {
+    await adminClient.from('transactions').update({
+      status: 'pending_verification',
+      next_verification_at: null,
+      metadata: {
+        ...(tx.metadata as Record<string, unknown>),
+        verification_exhausted_at: new Date().toISOString(),
+      },
+    }).eq('id', tx.id).in('status', ['processing', 'pending_verification']);
+
+    await createNotification(adminClient, tx.user_id, {
+      title: 'Purchase Under Review',
+      message: `We still can't confirm your ₦${amount.toLocaleString()} purchase with the network. Our team is reviewing it and will refund you if it wasn't delivered.`,
+      type: 'warning', category: 'transaction',
+      metadata: { transactionId: tx.id, amount },
+    });
+    return 'exhausted';
+  }
+
+  const nextAt = new Date(Date.now() + BACKOFF_MINUTES[attempts - 1] * 60 * 1000).toISOString();
+  await adminClient.from('transactions').update({
+    // A dead 'processing' call is now a verification case
+    status: 'pending_verification',
+    next_verification_at: nextAt,
+  }).eq('id', tx.id).in('status', ['processing', 'pending_verification']);
+  return 'retry';
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: due, error: claimError } = await adminClient.rpc('claim_pending_verifications', {
+      p_limit: BATCH_SIZE,
+      p_max_attempts: MAX_ATTEMPTS,
+      p_processing_timeout_seconds: PROCESSING_TIMEOUT_SECONDS,
+      p_lease_seconds: LEASE_SECONDS,
+    });
+
+    if (claimError) {
+      console.error('[resolve-pending-transactions] Claim error:', claimError);
+      return new Response(JSON.stringify({ error: 'Failed to claim transactions' }), {
+        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const counts = { completed: 0, failed: 0, retry: 0, exhausted: 0, skipped: 0, errors: 0 };
+    for (const tx of due || []) {
+      try {
+        counts[await resolveTransaction(adminClient, tx)]++;
+      } catch (e) {
+        // The lease expires on its own, so the next sweep retries it
+        counts.errors++;
+        console.error(`[resolve-pending-transactions] ${tx.reference}:`, e);
+      }
+    }
+
+    console.log(`[resolve-pending-transactions] Processed ${(due || []).length}:`, counts);
+
+    return new Response(JSON.stringify({ success: true, processed: (due || []).length, ...counts }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[resolve-pending-transactions] Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,205 @@
+/**
+ * SCHEDULED TOP-UP REMINDERS EDGE FUNCTION
+ * ========================================
+ *
+ * Tells users about scheduled top-ups before they run, and warns them when
+ * their wallet won't cover them (see `_shared/schedule-forecast`).
+ *
+ * ## Endpoints
+ *
+ * ### POST /scheduled-topup-reminders
+ * Cron-triggered every hour via pg_cron. For each user with a run due in the
+ * next 7 days:
+ * 1. Runs due in the next 24 hours are announced once each
+ *    (`scheduled_topups.reminder_sent_for`), with how much the wallet is
+ *    short by if the balance doesn't cover them. Runs being retried aren't;
+ *    the executor already told the user about those.
+ * 2. If the week's runs come to more than the balance, a low-balance
+ *    warning, at most once a day (not on top of a reminder that already
+ *    asked for funds)
+ *
+ * Notifications that ask for funds carry `metadata.action`
+ * (`{ type: 'fund_wallet', amount }`), which the app shows as a one-tap
+ * "Fund wallet" button.
+ *
+ * @module scheduled-topup-reminders
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { todayIn } from "../_shared/recurrence.ts";
+import { upcomingCharges, type UpcomingCharge } from "../_shared/schedule-forecast.ts";
+import { createNotification } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const PAGE_SIZE = 500;
+const USER_BATCH_SIZE = 100;
+
+/** "today at 7:00 am", "tomorrow at ..." or "on Friday at ..." in the user's timezone. */
+function describeWhen(charge: UpcomingCharge, now: Date): string {
+  const at = new Date(charge.at);
+  const { timeZone } = charge;
+  const time = at.toLocaleTimeString('en-NG', { timeZone, hour: 'numeric', minute: '2-digit' });
+  const day = todayIn(timeZone, at);
+  if (day === todayIn(timeZone, now)) return `today at ${time}`;
+  if (day === todayIn(timeZone, new Date(now.getTime() + DAY_MS))) return `tomorrow at ${time}`;
+  return `on ${at.toLocaleDateString('en-NG', { timeZone, weekday: 'long' })} at ${time}`;
+}
+
+const total = (charges: UpcomingCharge[]) => charges.reduce((sum, c) => sum + c.amount, 0);
+
+/**
+ * Sends the user's reminder and/or low-balance warning, if due.
+ * `schedules` are the user's schedules with a run in the next 7 days.
+ */
+async function remindUser(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, schedules: any[], charges: UpcomingCharge[], balance: number, recentlyWarned: boolean, now: Date,
+): Promise<{ reminded: boolean; warned: boolean }> {
+  const userId = schedules[0].user_id;
+  const dayEnd = now.getTime() + DAY_MS;
+  const today = charges.filter((c) => new Date(c.at).getTime() <= dayEnd);
+  const dueToday = total(today);
+  const todayShortfall = Math.max(0, dueToday - balance);
+
+  const unannounced = schedules.filter((s) =>
+    !s.retry_attempt
+    && new Date(s.next_execution_at) > now
+    && new Date(s.next_execution_at).getTime() <= dayEnd
+    && (!s.reminder_sent_for || new Date(s.reminder_sent_for).getTime() !== new Date(s.next_execution_at).getTime()));
+
+  let reminded = false;
+  if (unannounced.length > 0 && today.length > 0) {
+    const first = today[0];
+    const what = today.length === 1
+      ? `₦${dueToday.toLocaleString()} ${first.type} top-up for ${first.phoneNumber} due ${describeWhen(first, now)}`
+      : `₦${dueToday.toLocaleString()} in scheduled top-ups due in the next 24 hours, the first ${describeWhen(first, now)}`;
+
+    await createNotification(adminClient, userId, {
+      title: todayShortfall ? 'Fund Your Wallet for Scheduled Top-Ups' : 'Scheduled Top-Up Coming Up',
+      message: todayShortfall
+        ? `${what}, your wallet is short by ₦${todayShortfall.toLocaleString()}. Fund it so it doesn't fail.`
+        : `${what}. Your wallet balance covers it.`,
+      type: todayShortfall ? 'warning' : 'info',
+      category: 'schedule',
+      metadata: {
+        kind: 'schedule_reminder', dueAmount: dueToday, balance, shortfall: todayShortfall,
+        scheduleIds: [...new Set(today.map((c) => c.scheduleId))],
+        ...(todayShortfall ? { action: { type: 'fund_wallet', amount: todayShortfall } } : {}),
+      },
+    });
+
+    for (const s of unannounced) {
+      await adminClient.from('scheduled_topups')
+        .update({ reminder_sent_for: s.next_execution_at })
+        .eq('id', s.id)
+        .eq('next_execution_at', s.next_execution_at);
+    }
+    reminded = true;
+  }
+
+  const dueWeek = total(charges);
+  if (recentlyWarned || (reminded && todayShortfall) || dueWeek <= balance) return { reminded, warned: false };
+
+  // The first run the balance won't stretch to
+  let left = balance;
+  const firstShort = charges.find((c) => (left -= c.amount) < 0)!;
+  const shortfall = dueWeek - balance;
+
+  await createNotification(adminClient, userId, {
+    title: 'Low Balance for Scheduled Top-Ups',
+    message: `₦${dueWeek.toLocaleString()} in scheduled top-ups is due over the next 7 days, your wallet is short by ₦${shortfall.toLocaleString()}. Without more funds, the ${firstShort.type} top-up ${describeWhen(firstShort, now)} will be the first to fail.`,
+    type: 'warning',
+    category: 'schedule',
+    metadata: {
+      kind: 'schedule_low_balance', dueAmount: dueWeek, balance, shortfall, firstShortAt: firstShort.at,
+      action: { type: 'fund_wallet', amount: shortfall },
+    },
+  });
+  return { reminded, warned: true };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const weekEnd = new Date(now.getTime() + WEEK_MS);
+
+    // Every schedule with a run this week (later runs of sooner schedules come from their rules)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const byUser = new Map<string, any[]>();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await adminClient
+        .from('scheduled_topups')
+        .select('*')
+        .eq('status', 'active')
+        .not('pin_authorized_at', 'is', null)
+        .lte('next_execution_at', weekEnd.toISOString())
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(`Failed to load schedules: ${error.message}`);
+
+      for (const schedule of data || []) {
+        byUser.set(schedule.user_id, [...(byUser.get(schedule.user_id) || []), schedule]);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const counts = { users: byUser.size, reminded: 0, warned: 0, failed: 0 };
+    const userIds = [...byUser.keys()];
+
+    for (let i = 0; i < userIds.length; i += USER_BATCH_SIZE) {
+      const batch = userIds.slice(i, i + USER_BATCH_SIZE);
+      const [charges, { data: wallets }, { data: warnings }] = await Promise.all([
+        upcomingCharges(adminClient, batch.flatMap((id) => byUser.get(id)!), weekEnd, now),
+        adminClient.from('wallets').select('user_id, balance').in('user_id', batch),
+        adminClient.from('notifications').select('user_id')
+          .in('user_id', batch)
+          .eq('metadata->>kind', 'schedule_low_balance')
+          .gte('created_at', new Date(now.getTime() - DAY_MS).toISOString()),
+      ]);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const balances = new Map<string, number>((wallets || []).map((w: any) => [w.user_id, Number(w.balance)]));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const warned = new Set((warnings || []).map((n: any) => n.user_id));
+
+      for (const userId of batch) {
+        try {
+          const result = await remindUser(
+            adminClient, byUser.get(userId)!, charges.filter((c) => c.userId === userId),
+            balances.get(userId) ?? 0, warned.has(userId), now,
+          );
+          if (result.reminded) counts.reminded++;
+          if (result.warned) counts.warned++;
+        } catch (e) {
+          counts.failed++;
+          console.error(`[scheduled-topup-reminders] User ${userId}:`, e);
+        }
+      }
+    }
+
+    console.log('[scheduled-topup-reminders] Done:', counts);
+
+    return new Response(JSON.stringify({ success: true, ...counts }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[scheduled-topup-reminders] Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
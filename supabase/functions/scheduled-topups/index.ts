@@ -7,14 +7,57 @@
  * ## Endpoints
  * 
  * ### GET /scheduled-topups - List all schedules for the user
+ * ### GET /scheduled-topups?forecast=true - What active schedules will charge each day for the next 7 days
  * ### POST /scheduled-topups - Create a new schedule
+ * ### POST /scheduled-topups?preview=true - Next run times for a schedule, without saving it
  * ### PUT /scheduled-topups?id=<uuid> - Update a schedule
  * ### DELETE /scheduled-topups?id=<uuid> - Cancel a schedule
  * 
+ * ## Recurrence
+ * `schedule_type` with `recurring_interval`, `recurring_days_of_week`,
+ * `recurring_day_of_month`, `recurring_month_rule`, `starts_on` and `ends_on`
+ * (see `_shared/recurrence`). E.g. every other week on Mon and Fri:
+ * ```json
+ * { "schedule_type": "weekly", "recurring_time": "07:00", "recurring_interval": 2, "recurring_days_of_week": [1, 5] }
+ * ```
+ * 
+ * ## Transaction PIN
+ * Creating a schedule, changing what it buys (amount, network, type, plan,
+ * phone number), or changing how often it runs (recurrence, `ends_on`,
+ * `max_executions`) requires the user's transaction PIN (`pin`). The
+ * schedule records `pin_authorized_at` and then runs without a PIN.
+ * 
+ * ## Data plans
+ * `plan_id` must be an active plan in the `data_plans` catalog for the
+ * network. `plan_status` flags a schedule whose plan has since changed
+ * price or been discontinued (see `sync-data-plans`); it clears when what
+ * the schedule buys is next changed.
+ * 
+ * ## Retries
+ * `retry_interval_minutes` (null = no retries), `retry_window_hours` and
+ * `hold_until_funded` set what happens when a run fails on a low wallet or
+ * a provider error; see `execute-scheduled-topups`.
+ * 
+ * ## Forecast
+ * One entry per day in the user's timezone, starting today, with the total
+ * due and the wallet balance left after it if nothing is funded meanwhile
+ * (see `_shared/schedule-forecast`). `shortfall` is how much the balance
+ * falls short of the whole week.
+ * 
+ * ## Times
+ * `recurring_time` and a `scheduled_at` without an offset are wall-clock
+ * times in the user's timezone (`profiles.timezone`, default Africa/Lagos);
+ * see `_shared/recurrence`.
+ * 
  * @module scheduled-topups
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyTransactionPin } from "../_shared/pin.ts";
+import {
+  nextExecutionAt, parseDateTime, resolveTimeZone, todayIn, upcomingExecutions, validateRule, type RecurrenceRule,
+} from "../_shared/recurrence.ts";
+import { upcomingCharges } from "../_shared/schedule-forecast.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,51 +65,81 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
-/**
- * Calculates the next execution time based on schedule type.
- */
-function calculateNextExecution(
-  scheduleType: string,
-  scheduledAt?: string,
-  recurringTime?: string,
-  recurringDayOfWeek?: number,
-  recurringDayOfMonth?: number,
-): string | null {
-  const now = new Date();
-
-  if (scheduleType === 'one_time') {
-    if (!scheduledAt) return null;
-    const dt = new Date(scheduledAt);
-    return dt > now ? dt.toISOString() : null;
-  }
+const RULE_FIELDS = [
+  'schedule_type', 'scheduled_at', 'recurring_time', 'recurring_interval', 'recurring_days_of_week',
+  'recurring_day_of_week', 'recurring_day_of_month', 'recurring_month_rule', 'starts_on', 'ends_on',
+] as const;
+
+const PREVIEW_COUNT = 5;
+
+const FORECAST_DAYS = 7;
+
+/** Whether `planId` is a plan we currently sell on `network` (see `sync-data-plans`). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function isActivePlan(adminClient: any, network: string, planId: string): Promise<boolean> {
+  const { data } = await adminClient
+    .from('data_plans')
+    .select('id')
+    .eq('network', String(network).toUpperCase())
+    .eq('plan_id', planId)
+    .eq('is_active', true)
+    .maybeSingle();
+  return !!data;
+}
 
-  if (!recurringTime) return null;
-  const [hours, minutes] = recurringTime.split(':').map(Number);
+const RETRY_FIELDS = ['retry_interval_minutes', 'retry_window_hours', 'hold_until_funded'] as const;
 
-  if (scheduleType === 'daily') {
-    const next = new Date(now);
-    next.setHours(hours, minutes, 0, 0);
-    if (next <= now) next.setDate(next.getDate() + 1);
-    return next.toISOString();
+/** The retry policy columns set in `body`, or why they're invalid. */
+function retryColumns(body: Record<string, unknown>): { columns: Record<string, unknown> } | { error: string } {
+  const columns: Record<string, unknown> = {};
+  const interval = body.retry_interval_minutes;
+  if (interval !== undefined) {
+    if (interval !== null && (!Number.isInteger(interval) || (interval as number) < 5 || (interval as number) > 720)) {
+      return { error: 'retry_interval_minutes must be a whole number from 5 to 720, or null' };
+    }
+    columns.retry_interval_minutes = interval;
   }
-
-  if (scheduleType === 'weekly') {
-    const targetDay = recurringDayOfWeek ?? 0;
-    const next = new Date(now);
-    next.setHours(hours, minutes, 0, 0);
-    const daysUntil = (targetDay - now.getDay() + 7) % 7;
-    next.setDate(now.getDate() + (daysUntil === 0 && next <= now ? 7 : daysUntil));
-    return next.toISOString();
+  const window = body.retry_window_hours;
+  if (window !== undefined) {
+    if (!Number.isInteger(window) || (window as number) < 1 || (window as number) > 72) {
+      return { error: 'retry_window_hours must be a whole number from 1 to 72' };
+    }
+    columns.retry_window_hours = window;
+  }
+  if (body.hold_until_funded !== undefined) {
+    if (typeof body.hold_until_funded !== 'boolean') return { error: 'hold_until_funded must be true or false' };
+    columns.hold_until_funded = body.hold_until_funded;
   }
+  return { columns };
+}
 
-  if (scheduleType === 'monthly') {
-    const targetDay = recurringDayOfMonth ?? 1;
-    const next = new Date(now.getFullYear(), now.getMonth(), targetDay, hours, minutes, 0, 0);
-    if (next <= now) next.setMonth(next.getMonth() + 1);
-    return next.toISOString();
+function ruleFrom(source: Record<string, unknown>): RecurrenceRule {
+  const rule: Record<string, unknown> = {};
+  for (const field of RULE_FIELDS) {
+    if (source[field] !== undefined) rule[field] = source[field];
   }
+  return rule as unknown as RecurrenceRule;
+}
 
-  return null;
+/** The `scheduled_topups` columns for a validated rule; fields other types don't use are cleared. */
+function scheduleColumns(rule: RecurrenceRule, timeZone: string): Record<string, unknown> {
+  const type = rule.schedule_type;
+  const recurring = type !== 'one_time';
+  const monthRule = rule.recurring_month_rule || 'day_of_month';
+  return {
+    schedule_type: type,
+    scheduled_at: recurring ? null : parseDateTime(rule.scheduled_at!, timeZone)?.toISOString(),
+    recurring_time: recurring ? rule.recurring_time : null,
+    recurring_interval: recurring ? rule.recurring_interval || 1 : 1,
+    recurring_days_of_week: type === 'weekly'
+      ? rule.recurring_days_of_week?.length ? [...new Set(rule.recurring_days_of_week)].sort((a, b) => a - b) : [rule.recurring_day_of_week ?? 0]
+      : null,
+    recurring_day_of_week: null,
+    recurring_day_of_month: type === 'monthly' && monthRule !== 'last_business_day' ? rule.recurring_day_of_month ?? 1 : null,
+    recurring_month_rule: type === 'monthly' ? monthRule : 'day_of_month',
+    starts_on: recurring ? rule.starts_on || todayIn(timeZone) : null,
+    ends_on: recurring ? rule.ends_on || null : null,
+  };
 }
 
 Deno.serve(async (req) => {
@@ -100,6 +173,50 @@ Deno.serve(async (req) => {
     const adminClient = createClient(supabaseUrl, supabaseServiceKey);
     const url = new URL(req.url);
 
+    const { data: profile } = await adminClient
+      .from('profiles').select('timezone').eq('user_id', user.id).maybeSingle();
+    const timeZone = resolveTimeZone(profile?.timezone);
+
+    // =========================================================================
+    // GET ?forecast=true - Projected cash flow
+    // =========================================================================
+    if (req.method === 'GET' && url.searchParams.get('forecast') === 'true') {
+      const now = new Date();
+      const [y, m, d] = todayIn(timeZone, now).split('-').map(Number);
+      const dates = Array.from({ length: FORECAST_DAYS + 1 }, (_, i) => new Date(Date.UTC(y, m - 1, d + i)).toISOString().slice(0, 10));
+
+      const [{ data: schedules, error }, { data: wallet }] = await Promise.all([
+        adminClient.from('scheduled_topups').select('*').eq('user_id', user.id).eq('status', 'active'),
+        adminClient.from('wallets').select('balance').eq('user_id', user.id).maybeSingle(),
+      ]);
+
+      if (error) {
+        console.error('[scheduled-topups] Forecast error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to fetch schedules' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Up to the start of the day after the last one shown
+      const until = parseDateTime(`${dates[FORECAST_DAYS]}T00:00`, timeZone)!;
+      const charges = await upcomingCharges(adminClient, schedules || [], until, now);
+
+      const balance = Number(wallet?.balance ?? 0);
+      let left = balance;
+      const days = dates.slice(0, FORECAST_DAYS).map((date) => {
+        const due = charges.filter((c) => todayIn(timeZone, new Date(c.at)) === date);
+        const amount = due.reduce((sum, c) => sum + c.amount, 0);
+        left -= amount;
+        return { date, due: amount, runs: due.length, balance: left };
+      });
+
+      return new Response(JSON.stringify({
+        success: true, timeZone, balance, days, totalDue: balance - left, shortfall: Math.max(0, -left),
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // =========================================================================
     // GET - List scheduled top-ups
     // =========================================================================
@@ -125,9 +242,28 @@ Deno.serve(async (req) => {
     // =========================================================================
     // POST - Create scheduled top-up
     // =========================================================================
+    if (req.method === 'POST' && url.searchParams.get('preview') === 'true') {
+      const body = await req.json();
+      const rule = ruleFrom(body);
+      const invalid = validateRule(rule);
+      if (invalid) {
+        return new Response(JSON.stringify({ error: invalid }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const count = body.max_executions ? Math.min(PREVIEW_COUNT, Number(body.max_executions)) : PREVIEW_COUNT;
+      const runs = upcomingExecutions(scheduleColumns(rule, timeZone) as unknown as RecurrenceRule, count, timeZone);
+
+      return new Response(JSON.stringify({ success: true, runs, timeZone }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (req.method === 'POST') {
       const body = await req.json();
-      const { type, network, amount, plan_id, schedule_type, scheduled_at, recurring_time, recurring_day_of_week, recurring_day_of_month, max_executions, phone_number } = body;
+      const { type, network, amount, plan_id, schedule_type, max_executions, phone_number, pin } = body;
+      const rule = ruleFrom(body);
 
       // Validate required fields
       if (!type || !network || !amount || !schedule_type || !phone_number) {
@@ -158,25 +294,22 @@ Deno.serve(async (req) => {
         });
       }
 
-      if (!['one_time', 'daily', 'weekly', 'monthly'].includes(schedule_type)) {
-        return new Response(JSON.stringify({ error: 'Invalid schedule_type' }), {
+      if (type === 'data' && !(await isActivePlan(adminClient, network, plan_id))) {
+        return new Response(JSON.stringify({ error: 'That data package is no longer available. Please select another.' }), {
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
-      if (schedule_type === 'one_time' && !scheduled_at) {
-        return new Response(JSON.stringify({ error: 'scheduled_at is required for one_time schedules' }), {
+      const invalid = validateRule(rule);
+      const retry = retryColumns(body);
+      if (invalid || 'error' in retry) {
+        return new Response(JSON.stringify({ error: invalid || ('error' in retry && retry.error) }), {
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
-      if (['daily', 'weekly', 'monthly'].includes(schedule_type) && !recurring_time) {
-        return new Response(JSON.stringify({ error: 'recurring_time is required for recurring schedules' }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
-      const nextExecution = calculateNextExecution(schedule_type, scheduled_at, recurring_time, recurring_day_of_week, recurring_day_of_month);
+      const columns = scheduleColumns(rule, timeZone);
+      const nextExecution = nextExecutionAt(columns as unknown as RecurrenceRule, timeZone);
 
       if (!nextExecution) {
         return new Response(JSON.stringify({ error: 'Could not calculate next execution time. Ensure the scheduled time is in the future.' }), {
@@ -184,6 +317,13 @@ Deno.serve(async (req) => {
         });
       }
 
+      const pinCheck = await verifyTransactionPin(adminClient, user.id, pin);
+      if (!pinCheck.ok) {
+        return new Response(JSON.stringify(pinCheck), {
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       const { data, error } = await adminClient
         .from('scheduled_topups')
         .insert({
@@ -193,14 +333,12 @@ Deno.serve(async (req) => {
           network,
           amount,
           plan_id: plan_id || null,
-          schedule_type,
-          scheduled_at: schedule_type === 'one_time' ? scheduled_at : null,
-          recurring_time: ['daily', 'weekly', 'monthly'].includes(schedule_type) ? recurring_time : null,
-          recurring_day_of_week: schedule_type === 'weekly' ? recurring_day_of_week : null,
-          recurring_day_of_month: schedule_type === 'monthly' ? recurring_day_of_month : null,
+          ...columns,
+          ...retry.columns,
           max_executions: max_executions || null,
           next_execution_at: nextExecution,
           status: 'active',
+          pin_authorized_at: new Date().toISOString(),
         })
         .select('*')
         .single();
@@ -263,22 +401,65 @@ Deno.serve(async (req) => {
       if (body.status !== undefined && ['active', 'paused', 'cancelled'].includes(body.status)) {
         updates.status = body.status;
       }
+      if (RETRY_FIELDS.some((field) => body[field] !== undefined)) {
+        const retry = retryColumns(body);
+        if ('error' in retry) {
+          return new Response(JSON.stringify({ error: retry.error }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        Object.assign(updates, retry.columns);
+      }
+
+      // Changing what gets bought, or how often, needs a fresh PIN authorization
+      const purchaseFields = ['amount', 'network', 'type', 'plan_id', 'phone_number'];
+      const purchaseChanged = purchaseFields.some((field) => field in updates && updates[field] !== existing[field]);
+      const frequencyChanged = (updates.max_executions !== undefined && updates.max_executions !== existing.max_executions)
+        || RULE_FIELDS.some((field) => body[field] !== undefined && JSON.stringify(body[field]) !== JSON.stringify(existing[field]));
+      if (purchaseChanged || frequencyChanged) {
+        const plan = { ...existing, ...updates };
+        if (purchaseChanged && plan.type === 'data' && !(await isActivePlan(adminClient, plan.network, plan.plan_id))) {
+          return new Response(JSON.stringify({ error: 'That data package is no longer available. Please select another.' }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const pinCheck = await verifyTransactionPin(adminClient, user.id, body.pin);
+        if (!pinCheck.ok) {
+          return new Response(JSON.stringify(pinCheck), {
+            status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        updates.pin_authorized_at = new Date().toISOString();
+        // The user has now seen and authorized the plan as it is
+        updates.plan_status = null;
+        updates.plan_status_at = null;
+      }
 
       // Recalculate next execution if schedule params changed
-      if (body.scheduled_at || body.recurring_time || body.recurring_day_of_week !== undefined || body.recurring_day_of_month !== undefined) {
-        const schedType = body.schedule_type || existing.schedule_type;
-        const nextExec = calculateNextExecution(
-          schedType,
-          body.scheduled_at || existing.scheduled_at,
-          body.recurring_time || existing.recurring_time,
-          body.recurring_day_of_week ?? existing.recurring_day_of_week,
-          body.recurring_day_of_month ?? existing.recurring_day_of_month,
-        );
-        if (nextExec) updates.next_execution_at = nextExec;
-        if (body.scheduled_at) updates.scheduled_at = body.scheduled_at;
-        if (body.recurring_time) updates.recurring_time = body.recurring_time;
-        if (body.recurring_day_of_week !== undefined) updates.recurring_day_of_week = body.recurring_day_of_week;
-        if (body.recurring_day_of_month !== undefined) updates.recurring_day_of_month = body.recurring_day_of_month;
+      let rescheduled = false;
+      if (RULE_FIELDS.some((field) => body[field] !== undefined)) {
+        const rule = { ...ruleFrom(existing), ...ruleFrom(body) };
+        if (body.recurring_day_of_week !== undefined && body.recurring_days_of_week === undefined) {
+          rule.recurring_days_of_week = [body.recurring_day_of_week];
+        }
+        const invalid = validateRule(rule);
+        if (invalid) {
+          return new Response(JSON.stringify({ error: invalid }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const columns = scheduleColumns(rule, timeZone);
+        const nextExec = nextExecutionAt(columns as unknown as RecurrenceRule, timeZone);
+        if (!nextExec) {
+          return new Response(JSON.stringify({ error: 'Could not calculate next execution time. Ensure the schedule has a run in the future.' }), {
+            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        // A run being retried belongs to the old rule
+        Object.assign(updates, columns, { next_execution_at: nextExec, retry_attempt: 0, retry_until: null, held_since: null });
+        rescheduled = true;
       }
 
       const { data, error } = await adminClient
@@ -296,6 +477,14 @@ Deno.serve(async (req) => {
         });
       }
 
+      // Skipped/moved runs belonged to the old rule
+      if (rescheduled) {
+        const now = new Date().toISOString();
+        await adminClient.from('scheduled_topup_exceptions').delete()
+          .eq('scheduled_topup_id', id)
+          .or(`occurrence_at.gt.${now},moved_to.gt.${now}`);
+      }
+
       return new Response(JSON.stringify({ success: true, schedule: data }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
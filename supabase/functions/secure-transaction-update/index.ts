@@ -2,9 +2,10 @@
  * SECURE TRANSACTION UPDATE EDGE FUNCTION
  * ========================================
  *
- * Handles secure server-side transaction status updates and wallet funding.
- * Now uses atomic DB functions with wallet_ledger integration for full
- * audit trail compliance.
+ * Handles secure server-side transaction status updates and provider
+ * verification. Now uses atomic DB functions with wallet_ledger integration
+ * for full audit trail compliance. Wallet funding lives in the
+ * `wallet-funding` function (payment gateway + webhook).
  *
  * ## Endpoints
  *
@@ -12,25 +13,24 @@
  * Updates a transaction status (initiated/processing/pending → completed/failed).
  * Handles refunds for failed transactions and spending event recording.
  *
- * ### POST /fund-wallet
- * Adds funds using atomic fund_wallet_atomic DB function with ledger entry.
- *
  * ### POST /verify-transaction
- * Verifies a pending_verification transaction against the provider.
+ * Verifies a pending_verification transaction against the VTU provider that
+ * handled it (`transactions.provider`, else the network's primary provider).
+ * Settles through `finalize_pending_purchase`, shared with the background
+ * `resolve-pending-transactions` sweep.
  *
  * @module secure-transaction-update
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getProvider, getProviderForNetwork } from "../_shared/providers/index.ts";
+import { createNotification } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const PAYFLEX_API_KEY = Deno.env.get('PAYFLEX_API_KEY');
-const PAYFLEX_BASE_URL = 'https://api.payflexng.com/v1';
-
 const BUDGET_THRESHOLDS = [50, 75, 90, 100];
 
 function getCurrentMonthYear(): string {
@@ -38,15 +38,6 @@ function getCurrentMonthYear(): string {
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
 }
 
-// deno-lint-ignore no-explicit-any
-async function createNotification(adminClient: any, userId: string, notification: {
-  title: string; message: string; type: string; category: string; metadata?: Record<string, unknown>;
-}) {
-  try {
-    await adminClient.from("notifications").insert({ user_id: userId, ...notification, metadata: notification.metadata || {} });
-  } catch (e) { console.error("[notification] Failed:", e); }
-}
-
 // deno-lint-ignore no-explicit-any
 async function recordSpendingAndUpdateBudget(adminClient: any, userId: string, transactionId: string, transactionType: string, amount: number) {
   const currentMonth = getCurrentMonthYear();
@@ -147,6 +138,13 @@ Deno.serve(async (req) => {
         });
       }
 
+      // Deposits are settled only by the payment gateway (wallet-funding)
+      if (transaction.type === "deposit") {
+        return new Response(JSON.stringify({ success: false, error: "Deposits cannot be updated manually" }), {
+          status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
       // Only allow updates from transitional states
       const allowedFromStatuses = ["pending", "initiated", "processing", "pending_verification"];
       if (!allowedFromStatuses.includes(transaction.status)) {
@@ -167,10 +165,14 @@ Deno.serve(async (req) => {
       }
 
       // Handle failed purchase: auto-refund if wallet was already deducted
+      // (cashback spent on it is returned by settle_purchase_cashback as the status changes)
       if (status === "failed" && (transaction.type === "airtime_purchase" || transaction.type === "data_purchase")) {
-        const { data: refundResult } = await adminClient.rpc('refund_wallet', {
-          p_user_id: user.id, p_amount: Number(transaction.amount), p_reference: transaction.reference || transactionId,
-        });
+        const walletCharge = Number(transaction.amount) - Number(existingMetadata.cashback_used ?? 0);
+        const { data: refundResult } = walletCharge > 0
+          ? await adminClient.rpc('refund_wallet', {
+            p_user_id: user.id, p_amount: walletCharge, p_reference: transaction.reference || transactionId,
+          })
+          : { data: { success: true } };
 
         if (refundResult?.success) {
           await adminClient.from("transactions").update({
@@ -200,69 +202,6 @@ Deno.serve(async (req) => {
       });
     }
 
-    // =====================================================================
-    // POST /fund-wallet — Atomic wallet funding with ledger
-    // =====================================================================
-    if (action === "fund-wallet" && req.method === "POST") {
-      const { amount, reference } = await req.json();
-
-      if (!amount || amount <= 0) {
-        return new Response(JSON.stringify({ success: false, error: "Invalid amount" }), {
-          status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      if (amount < 5000) {
-        return new Response(JSON.stringify({ success: false, error: `Minimum top-up is ₦5,000` }), {
-          status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      const txReference = reference || `DEP-${Date.now()}`;
-
-      // Atomic funding with ledger entry
-      const { data: fundResult, error: fundError } = await adminClient
-        .rpc('fund_wallet_atomic', { p_user_id: user.id, p_amount: amount, p_reference: txReference });
-
-      if (fundError || !fundResult?.success) {
-        return new Response(JSON.stringify({ success: false, error: fundResult?.error || fundError?.message || "Funding failed" }), {
-          status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      // Create completed deposit transaction
-      const { data: txData, error: txError } = await adminClient
-        .from("transactions")
-        .insert({
-          wallet_id: fundResult.wallet_id,
-          user_id: user.id,
-          type: "deposit",
-          amount,
-          balance_before: fundResult.balance_before,
-          balance_after: fundResult.balance_after,
-          status: "completed",
-          reference: txReference,
-          description: "Wallet Funded",
-        })
-        .select()
-        .single();
-
-      if (txError) {
-        console.error("[fund-wallet] Transaction record failed:", txError);
-      }
-
-      await createNotification(adminClient, user.id, {
-        title: "Wallet Funded",
-        message: `₦${amount.toLocaleString()} added. New balance: ₦${fundResult.balance_after.toLocaleString()}`,
-        type: "success", category: "transaction",
-        metadata: { transactionId: txData?.id, amount, newBalance: fundResult.balance_after },
-      });
-
-      return new Response(JSON.stringify({
-        success: true, transactionId: txData?.id, newBalance: fundResult.balance_after,
-      }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-    }
-
     // =====================================================================
     // POST /verify-transaction — Verify pending_verification transactions
     // =====================================================================
@@ -283,28 +222,28 @@ Deno.serve(async (req) => {
         });
       }
 
-      // Query provider for transaction status
+      // Query the provider that handled the purchase for its status
       try {
-        const verifyResponse = await fetch(
-          `${PAYFLEX_BASE_URL}/transactions/verify?reference=${transaction.reference}`,
-          { headers: { 'Authorization': `Bearer ${PAYFLEX_API_KEY}`, 'Content-Type': 'application/json' } }
-        );
-
-        if (verifyResponse.ok) {
-          const verifyData = await verifyResponse.json();
-          const providerStatus = verifyData.status?.toLowerCase();
-
-          if (providerStatus === 'success' || providerStatus === 'completed') {
-            await adminClient.from("transactions").update({
-              status: "completed",
-              provider_reference: verifyData.reference || verifyData.transaction_id,
-              metadata: {
-                ...(transaction.metadata as Record<string, unknown>),
-                verified_at: new Date().toISOString(),
-                provider_verification: verifyData,
-              },
-            }).eq("id", transactionId);
+        const provider = transaction.provider
+          ? getProvider(transaction.provider)
+          : getProviderForNetwork(transaction.network || '');
+        const verification = await provider.queryStatus(transaction.reference || transactionId);
+
+        if (verification.status === 'completed' || verification.status === 'failed') {
+          // Settles at most once, even if the background resolver races us
+          const { data: outcome, error: finalizeError } = await adminClient.rpc('finalize_pending_purchase', {
+            p_transaction_id: transactionId,
+            p_outcome: verification.status,
+            p_provider_reference: verification.providerReference || null,
+            p_details: verification.status === 'completed'
+              ? { provider_verification: verification.data }
+              : { failure_reason: "Provider verification confirmed failure" },
+          });
+          if (finalizeError || !outcome?.success) {
+            throw new Error(finalizeError?.message || outcome?.error || "finalize_pending_purchase failed");
+          }
 
+          if (outcome.finalized && outcome.status === 'completed') {
             if (transaction.type === "airtime_purchase" || transaction.type === "data_purchase") {
               await recordSpendingAndUpdateBudget(adminClient, user.id, transactionId, transaction.type, Number(transaction.amount));
             }
@@ -313,37 +252,19 @@ Deno.serve(async (req) => {
               title: "Purchase Verified", message: `Your ₦${Number(transaction.amount).toLocaleString()} purchase was verified successfully.`,
               type: "success", category: "transaction",
             });
-
-            return new Response(JSON.stringify({ success: true, status: "completed" }), {
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
-
-          } else if (providerStatus === 'failed') {
-            // Refund
-            await adminClient.rpc('refund_wallet', {
-              p_user_id: user.id, p_amount: Number(transaction.amount), p_reference: transaction.reference || transactionId,
-            });
-
-            await adminClient.from("transactions").update({
-              status: "failed",
-              metadata: {
-                ...(transaction.metadata as Record<string, unknown>),
-                verified_at: new Date().toISOString(),
-                failure_reason: "Provider verification confirmed failure",
-                refunded: true,
-              },
-            }).eq("id", transactionId);
-
+          } else if (outcome.finalized) {
             await createNotification(adminClient, user.id, {
               title: "Purchase Failed & Refunded",
               message: `Your ₦${Number(transaction.amount).toLocaleString()} purchase failed. Wallet refunded.`,
               type: "error", category: "transaction",
             });
-
-            return new Response(JSON.stringify({ success: true, status: "failed", refunded: true }), {
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
           }
+
+          return new Response(JSON.stringify({
+            success: true, status: outcome.status, refunded: outcome.status === 'failed' ? true : undefined,
+          }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
         }
 
         return new Response(JSON.stringify({ success: false, status: "still_pending", message: "Verification inconclusive. Try again later." }), {
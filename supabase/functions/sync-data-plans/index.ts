@@ -0,0 +1,371 @@
+/**
+ * SYNC DATA PLANS EDGE FUNCTION
+ * =============================
+ *
+ * Keeps the `data_plans` catalog in step with what each network's VTU
+ * provider sells.
+ *
+ * ## Endpoints
+ *
+ * ### POST /sync-data-plans
+ * Cron-triggered every 6 hours via pg_cron. Syncs every network, or just one.
+ *
+ * **Request Body (optional):**
+ * ```json
+ * { "network": "mtn" }
+ * ```
+ *
+ * ## Syncing
+ * For each network, the primary provider's plan list is upserted by
+ * `(network, plan_id)`, with `final_price` at list price (the pricing rules
+ * for every KYC tier, see `_shared/pricing`). A changed cost price is
+ * written to `data_plan_price_history`. Plans the provider no longer lists
+ * are deactivated, not deleted, and come back if it lists them again. A
+ * network whose list can't be fetched, or comes back empty, is left as it
+ * is rather than deactivated wholesale.
+ *
+ * `category` and `tag` are curated by us: new plans get a category from
+ * their validity, and the sync never changes it after that.
+ *
+ * ## Fallback providers
+ * Each active plan also records the id of the same bundle (equal data amount
+ * and validity) at the network's other providers in `provider_plan_ids`, so
+ * purchases can fail over to them. A provider whose list can't be fetched
+ * keeps the ids it had; a plan it has no equivalent for is never sent to it.
+ *
+ * ## Affected schedules
+ * Active and paused data schedules on a plan that was discontinued, or
+ * whose cost changed so its price for the owner no longer matches the
+ * schedule's amount, get `scheduled_topups.plan_status` set and their owner
+ * is notified. The flag clears when the plan comes back at the scheduled
+ * price, or when the owner edits what the schedule buys.
+ *
+ * @module sync-data-plans
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getProviderChainForNetwork, getProviderForNetwork } from "../_shared/providers/index.ts";
+import type { ProviderPlan } from "../_shared/providers/index.ts";
+import { loadPricingRules, priceFor, type PricingRule } from "../_shared/pricing.ts";
+import { createNotification } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const NETWORKS = ['MTN', 'AIRTEL', 'GLO', '9MOBILE'];
+const CHUNK_SIZE = 200;
+
+type PlanStatus = 'price_changed' | 'discontinued';
+
+/** A plan whose price or availability changed in this sync. */
+interface ChangedPlan {
+  network: string;
+  planId: string;
+  name: string;
+  category: string;
+  costPrice: number;
+  finalPrice: number;
+  discontinued: boolean;
+}
+
+/** Category for a newly seen plan, from its validity ("Night", "1 Day", "7 days", "30 Days", "1 Month"). */
+function categoryFor(validity: string): string {
+  const text = validity.toLowerCase();
+  if (text.includes('night')) return 'Always-On';
+  if (text.includes('month')) return 'Monthly';
+  if (text.includes('week')) return 'Weekly';
+  const days = Number(text.match(/(\d+)\s*day/)?.[1]);
+  if (days === 1 || text.includes('24')) return 'Daily';
+  if (days && days <= 14) return 'Weekly';
+  return 'Monthly';
+}
+
+/** Matching key for the same bundle across providers: data amount and validity in days. */
+function bundleKey(dataAmount: string, validity: string): string | null {
+  const amount = dataAmount.toUpperCase().replace(/\s+/g, '');
+  const text = validity.toLowerCase();
+  const count = Number(text.match(/(\d+)/)?.[1] ?? 1);
+  let days: string | null = null;
+  if (text.includes('night')) days = 'night';
+  else if (/hr|hour/.test(text)) days = String(Math.ceil(count / 24));
+  else if (text.includes('day')) days = String(count);
+  else if (text.includes('week')) days = String(count * 7);
+  else if (text.includes('month')) days = String(count * 30);
+  return amount && days ? `${amount}|${days}` : null;
+}
+
+/**
+ * Records, for each active plan, the id of the same bundle at the network's
+ * other providers. Returns how many plans changed mapping.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function mapFallbackPlans(adminClient: any, network: string, primary: string): Promise<number> {
+  const others = getProviderChainForNetwork(network).filter((p) => p.name !== primary);
+  if (others.length === 0) return 0;
+
+  const listings = new Map<string, Map<string, string> | null>();
+  for (const provider of others) {
+    try {
+      const byBundle = new Map<string, string>();
+      for (const plan of await provider.listPlans(network)) {
+        const key = bundleKey(plan.dataAmount, plan.validity);
+        if (key && plan.id && !byBundle.has(key)) byBundle.set(key, plan.id);
+      }
+      listings.set(provider.name, byBundle);
+    } catch (e) {
+      console.warn(`[sync-data-plans] ${provider.name} ${network} plans unavailable, keeping its mapping:`, e);
+      listings.set(provider.name, null);
+    }
+  }
+
+  const { data: plans, error } = await adminClient.from('data_plans')
+    .select('id, data_amount, validity, provider_plan_ids')
+    .eq('network', network)
+    .eq('is_active', true);
+  if (error) throw new Error(`Failed to load plans: ${error.message}`);
+
+  let mapped = 0;
+  for (const plan of plans || []) {
+    const current: Record<string, string> = plan.provider_plan_ids || {};
+    const key = bundleKey(plan.data_amount, plan.validity);
+    const next: Record<string, string> = {};
+    for (const [name, byBundle] of listings) {
+      const id = byBundle ? (key ? byBundle.get(key) : undefined) : current[name];
+      if (id) next[name] = id;
+    }
+    const unchanged = Object.keys(next).length === Object.keys(current).length
+      && Object.entries(next).every(([name, id]) => current[name] === id);
+    if (unchanged) continue;
+
+    const { error: updateError } = await adminClient.from('data_plans').update({ provider_plan_ids: next }).eq('id', plan.id);
+    if (updateError) {
+      console.error(`[sync-data-plans] Failed to map ${network} plan ${plan.id}:`, updateError);
+      continue;
+    }
+    mapped++;
+  }
+  return mapped;
+}
+
+/** Syncs one network's plans; returns the plans whose price or availability changed. */
+async function syncNetwork(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any, network: string, rules: PricingRule[], now: string,
+): Promise<{ added: number; updated: number; repriced: number; deactivated: number; mapped: number; changed: ChangedPlan[] } | { error: string }> {
+  const provider = getProviderForNetwork(network);
+  let listed: ProviderPlan[];
+  try {
+    listed = await provider.listPlans(network);
+  } catch (e) {
+    return { error: `${provider.name}: ${e instanceof Error ? e.message : String(e)}` };
+  }
+  const byPlanId = new Map(listed.filter((p) => p.id && p.costPrice > 0).map((p) => [p.id, p]));
+  if (byPlanId.size === 0) return { error: `${provider.name} listed no plans` };
+
+  const { data: existing, error } = await adminClient.from('data_plans').select('*').eq('network', network);
+  if (error) return { error: `Failed to load plans: ${error.message}` };
+
+  const listPrice = (cost: number, planCategory: string) =>
+    priceFor(rules, { product: 'data', network, cost, planCategory }).price;
+
+  const counts = { added: 0, updated: 0, repriced: 0, deactivated: 0 };
+  const changed: ChangedPlan[] = [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const known = new Map<string, any>((existing || []).map((row: any) => [row.plan_id, row]));
+
+  const fresh = [...byPlanId.values()].filter((p) => !known.has(p.id));
+  if (fresh.length > 0) {
+    const { data: inserted, error: insertError } = await adminClient.from('data_plans').insert(fresh.map((p) => {
+      const category = categoryFor(p.validity);
+      return {
+        network, plan_id: p.id, provider: provider.name, name: p.name, data_amount: p.dataAmount, validity: p.validity,
+        category, cost_price: p.costPrice, final_price: listPrice(p.costPrice, category), last_seen_at: now,
+      };
+    })).select('id, cost_price, final_price');
+    if (insertError) return { error: `Failed to add plans: ${insertError.message}` };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await adminClient.from('data_plan_price_history').insert((inserted || []).map((row: any) => ({
+      data_plan_id: row.id, cost_price: row.cost_price, final_price: row.final_price,
+    })));
+    counts.added = fresh.length;
+  }
+
+  for (const [planId, plan] of byPlanId) {
+    const row = known.get(planId);
+    if (!row) continue;
+
+    const finalPrice = listPrice(plan.costPrice, row.category);
+    const repriced = Number(row.cost_price) !== plan.costPrice;
+    const { error: updateError } = await adminClient.from('data_plans').update({
+      provider: provider.name, name: plan.name, data_amount: plan.dataAmount, validity: plan.validity,
+      cost_price: plan.costPrice, final_price: finalPrice, is_active: true, deactivated_at: null, last_seen_at: now,
+    }).eq('id', row.id);
+    if (updateError) {
+      console.error(`[sync-data-plans] Failed to update ${network} ${planId}:`, updateError);
+      continue;
+    }
+    counts.updated++;
+
+    if (repriced) {
+      counts.repriced++;
+      await adminClient.from('data_plan_price_history').insert({
+        data_plan_id: row.id, cost_price: plan.costPrice, final_price: finalPrice, previous_cost_price: row.cost_price,
+      });
+    }
+    if (repriced || !row.is_active) {
+      changed.push({
+        network, planId, name: plan.name, category: row.category, costPrice: plan.costPrice, finalPrice,
+        discontinued: false,
+      });
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const gone = (existing || []).filter((row: any) => row.is_active && !byPlanId.has(row.plan_id));
+  for (const row of gone) {
+    const { error: deactivateError } = await adminClient.from('data_plans')
+      .update({ is_active: false, deactivated_at: now })
+      .eq('id', row.id);
+    if (deactivateError) {
+      console.error(`[sync-data-plans] Failed to deactivate ${network} ${row.plan_id}:`, deactivateError);
+      continue;
+    }
+    counts.deactivated++;
+    changed.push({
+      network, planId: row.plan_id, name: row.name, category: row.category, costPrice: Number(row.cost_price),
+      finalPrice: Number(row.final_price), discontinued: true,
+    });
+  }
+
+  let mapped = 0;
+  try {
+    mapped = await mapFallbackPlans(adminClient, network, provider.name);
+  } catch (e) {
+    console.error(`[sync-data-plans] Failed to map ${network} fallback plans:`, e);
+  }
+
+  return { ...counts, mapped, changed };
+}
+
+/** Flags (or clears) data schedules on changed plans and tells their owners. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function flagSchedules(adminClient: any, changed: ChangedPlan[], rules: PricingRule[], now: string): Promise<{ flagged: number; cleared: number }> {
+  const counts = { flagged: 0, cleared: 0 };
+  const byKey = new Map(changed.map((c) => [`${c.network}:${c.planId}`, c]));
+  const planIds = [...new Set(changed.map((c) => c.planId))];
+
+  for (let i = 0; i < planIds.length; i += CHUNK_SIZE) {
+    const { data: schedules, error } = await adminClient
+      .from('scheduled_topups')
+      .select('id, user_id, network, plan_id, amount, phone_number, plan_status')
+      .eq('type', 'data')
+      .in('status', ['active', 'paused'])
+      .in('plan_id', planIds.slice(i, i + CHUNK_SIZE));
+    if (error) throw new Error(`Failed to load schedules: ${error.message}`);
+
+    // Prices can differ by KYC tier, so compare against what each owner pays
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const userIds = [...new Set((schedules || []).map((s: any) => s.user_id))];
+    const { data: profiles } = userIds.length
+      ? await adminClient.from('profiles').select('user_id, kyc_tier').in('user_id', userIds)
+      : { data: [] };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const tiers = new Map<string, number>((profiles || []).map((p: any) => [p.user_id, p.kyc_tier ?? 1]));
+
+    for (const schedule of schedules || []) {
+      const plan = byKey.get(`${String(schedule.network).toUpperCase()}:${schedule.plan_id}`);
+      if (!plan) continue;
+
+      const price = plan.discontinued ? plan.finalPrice : priceFor(rules, {
+        product: 'data', network: plan.network, cost: plan.costPrice, planCategory: plan.category,
+        kycTier: tiers.get(schedule.user_id) ?? 1,
+      }).price;
+      const status: PlanStatus | null = plan.discontinued
+        ? 'discontinued'
+        : Number(schedule.amount) === price ? null : 'price_changed';
+      if (status === schedule.plan_status) continue;
+
+      const { error: updateError } = await adminClient.from('scheduled_topups')
+        .update({ plan_status: status, plan_status_at: status ? now : null })
+        .eq('id', schedule.id);
+      if (updateError) {
+        console.error(`[sync-data-plans] Failed to flag schedule ${schedule.id}:`, updateError);
+        continue;
+      }
+      if (!status) {
+        counts.cleared++;
+        continue;
+      }
+
+      counts.flagged++;
+      await createNotification(adminClient, schedule.user_id, status === 'discontinued' ? {
+        title: 'Data Plan Discontinued',
+        message: `${plan.network} ${plan.name}, used by your scheduled top-up for ${schedule.phone_number}, is no longer available. Edit the schedule to pick another plan.`,
+        type: 'warning',
+        category: 'schedule',
+        metadata: { kind: 'schedule_plan_status', scheduleId: schedule.id, planId: plan.planId, planStatus: status },
+      } : {
+        title: 'Data Plan Price Changed',
+        message: `${plan.network} ${plan.name}, used by your scheduled top-up for ${schedule.phone_number}, now costs ₦${price.toLocaleString()} (scheduled at ₦${Number(schedule.amount).toLocaleString()}). Edit the schedule to confirm the new price.`,
+        type: 'warning',
+        category: 'schedule',
+        metadata: { kind: 'schedule_plan_status', scheduleId: schedule.id, planId: plan.planId, planStatus: status, price },
+      });
+    }
+  }
+
+  return counts;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+    const networks = body.network ? [String(body.network).toUpperCase()] : NETWORKS;
+    if (!networks.every((network) => NETWORKS.includes(network))) {
+      return new Response(JSON.stringify({ error: `network must be one of ${NETWORKS.join(', ')}` }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date().toISOString();
+    const results: Record<string, unknown> = {};
+    const changed: ChangedPlan[] = [];
+    const rules = await loadPricingRules(adminClient);
+
+    for (const network of networks) {
+      const result = await syncNetwork(adminClient, network, rules, now);
+      if ('error' in result) {
+        console.warn(`[sync-data-plans] ${network} skipped:`, result.error);
+        results[network] = result;
+        continue;
+      }
+      const { changed: networkChanged, ...counts } = result;
+      changed.push(...networkChanged);
+      results[network] = counts;
+    }
+
+    const schedules = changed.length > 0 ? await flagSchedules(adminClient, changed, rules, now) : { flagged: 0, cleared: 0 };
+
+    console.log('[sync-data-plans] Done:', { networks: results, schedules });
+
+    return new Response(JSON.stringify({ success: true, networks: results, schedules }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[sync-data-plans] Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,251 @@
+/**
+ * TRANSACTION PIN EDGE FUNCTION
+ * =============================
+ *
+ * Manages the 4-digit transaction PIN that authorizes purchases. PINs are
+ * stored hashed in `transaction_pins` (see `_shared/pin`) and never leave
+ * the server.
+ *
+ * ## Endpoints
+ *
+ * ### POST /transaction-pin/status
+ * Whether the user has a PIN and whether it is locked. Authenticated.
+ *
+ * ### POST /transaction-pin/set
+ * Sets the PIN, or changes it (the current PIN is then required). Authenticated.
+ *
+ * **Request Body:**
+ * ```json
+ * { "pin": "4821", "currentPin": "1234" }
+ * ```
+ *
+ * ### POST /transaction-pin/reset
+ * Replaces a forgotten or locked PIN. Only accepted from a session signed in
+ * through the emailed reset link in the last 15 minutes, which proves the
+ * user controls the account email. Authenticated.
+ *
+ * ### POST /transaction-pin/authorize
+ * Authorizes an auto top-up rule or scheduled top-up with the PIN, so it can
+ * later run without the user present. Authenticated.
+ *
+ * **Request Body:**
+ * ```json
+ * { "target": "auto_topup_rule", "id": "<uuid>", "pin": "4821" }
+ * ```
+ *
+ * @module transaction-pin
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashPin, isValidPinFormat, verifyTransactionPin } from "../_shared/pin.ts";
+import { createNotification } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+/** How recent the email sign-in behind a PIN reset must be. */
+const RESET_WINDOW_SECONDS = 15 * 60;
+
+const AUTHORIZE_TARGETS: Record<string, string> = {
+  auto_topup_rule: 'auto_topup_rules',
+  scheduled_topup: 'scheduled_topups',
+};
+
+/** PINs that are too easy to guess. */
+const WEAK_PINS = new Set(['0000', '1111', '2222', '3333', '4444', '5555', '6666', '7777', '8888', '9999', '1234', '4321']);
+
+/**
+ * True when the session's JWT records an email link / OTP sign-in within the
+ * reset window. The token has already been verified by `auth.getUser()`.
+ */
+function hasRecentEmailSignIn(authHeader: string): boolean {
+  try {
+    const payload = JSON.parse(atob(authHeader.replace('Bearer ', '').split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    return (payload.amr || []).some((entry: { method: string; timestamp: number }) =>
+      ['otp', 'magiclink'].includes(entry.method) && nowSeconds - entry.timestamp <= RESET_WINDOW_SECONDS
+    );
+  } catch {
+    return false;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+    const url = new URL(req.url);
+    const action = url.pathname.split('/').pop();
+
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: existing } = await adminClient
+      .from('transaction_pins')
+      .select('user_id, locked_until')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    // =====================================================================
+    // POST /status — Whether a PIN is set / locked
+    // =====================================================================
+    if (action === 'status') {
+      const locked = !!existing?.locked_until && new Date(existing.locked_until) > new Date();
+      return new Response(JSON.stringify({
+        success: true,
+        hasPin: !!existing,
+        locked,
+        lockedUntil: locked ? existing!.locked_until : null,
+      }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // =====================================================================
+    // POST /set — Set or change the PIN
+    // POST /reset — Replace a forgotten PIN after email re-authentication
+    // =====================================================================
+    if (action === 'set' || action === 'reset') {
+      const { pin, currentPin } = await req.json();
+
+      if (!isValidPinFormat(pin)) {
+        return new Response(JSON.stringify({ error: 'PIN must be exactly 4 digits' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (WEAK_PINS.has(pin)) {
+        return new Response(JSON.stringify({ error: 'Choose a PIN that is harder to guess' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (action === 'set' && existing) {
+        const pinCheck = await verifyTransactionPin(adminClient, user.id, currentPin);
+        if (!pinCheck.ok) {
+          return new Response(JSON.stringify(pinCheck), {
+            status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      if (action === 'reset' && !hasRecentEmailSignIn(authHeader)) {
+        return new Response(JSON.stringify({
+          error: 'Open the PIN reset link we emailed you, then try again',
+          code: 'REAUTH_REQUIRED',
+        }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      const { error } = await adminClient.from('transaction_pins').upsert({
+        user_id: user.id,
+        pin_hash: await hashPin(pin),
+        failed_attempts: 0,
+        locked_until: null,
+      }, { onConflict: 'user_id' });
+
+      if (error) {
+        console.error('[transaction-pin] Save error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to save PIN' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      await createNotification(adminClient, user.id, {
+        title: existing ? 'Transaction PIN Changed' : 'Transaction PIN Set',
+        message: existing
+          ? "Your transaction PIN was changed. If this wasn't you, contact support immediately."
+          : 'Your transaction PIN is ready. You will need it to confirm purchases.',
+        type: existing ? 'warning' : 'success',
+        category: 'security',
+        metadata: { action },
+      });
+
+      console.log(`[transaction-pin] ${action} for user ${user.id}`);
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // =====================================================================
+    // POST /authorize — Authorize an auto or scheduled top-up
+    // =====================================================================
+    if (action === 'authorize') {
+      const { target, id, pin } = await req.json();
+      const table = AUTHORIZE_TARGETS[target];
+
+      if (!table || !id) {
+        return new Response(JSON.stringify({ error: 'target must be auto_topup_rule or scheduled_topup, with an id' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const pinCheck = await verifyTransactionPin(adminClient, user.id, pin);
+      if (!pinCheck.ok) {
+        return new Response(JSON.stringify(pinCheck), {
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data, error } = await adminClient
+        .from(table)
+        .update({ pin_authorized_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select('id, pin_authorized_at')
+        .maybeSingle();
+
+      if (error) {
+        console.error('[transaction-pin] Authorize error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to authorize' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (!data) {
+        return new Response(JSON.stringify({ error: 'Not found' }), {
+          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ success: true, pinAuthorizedAt: data.pin_authorized_at }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Invalid endpoint' }), {
+      status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('[transaction-pin] Error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
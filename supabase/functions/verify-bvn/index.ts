@@ -0,0 +1,244 @@
+/**
+ * BVN VERIFICATION EDGE FUNCTION
+ * ==============================
+ *
+ * A second way to pass KYC, for users who don't have their NIN slip to hand.
+ * The BVN is looked up through the configured identity provider and the name
+ * on the record is fuzzy-matched against `profiles.full_name`.
+ *
+ * ## Endpoints
+ *
+ * ### POST /verify-bvn
+ * Authenticated.
+ *
+ * **Request Body:**
+ * ```json
+ * { "bvn": "22212345678" }
+ * ```
+ *
+ * ## Outcomes (by name match score, 0–1)
+ * - `>= 0.85` — verified: KYC status `verified`, raised to KYC Tier 2
+ * - `>= 0.5` — queued in `bvn_reviews` for an admin; KYC status `in_review`
+ * - below — refused, nothing stored
+ *
+ * ## Security
+ * - Only an HMAC of the BVN is stored (`user_kyc.bvn_hash`, see
+ *   `_shared/identity/hash`); the number and the record's details never
+ *   reach the client
+ * - One BVN can verify one account
+ * - Lookups are paid, so each user gets `MAX_LOOKUPS_PER_DAY`
+ *
+ * @module verify-bvn
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getIdentityProvider, hashIdentifier, nameMatchScore } from "../_shared/identity/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const AUTO_VERIFY_SCORE = 0.85;
+const REVIEW_SCORE = 0.5;
+const MAX_LOOKUPS_PER_DAY = 3;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { bvn } = await req.json().catch(() => ({}));
+    const cleanBVN = typeof bvn === 'string' ? bvn.replace(/\D/g, '') : '';
+    if (!/^\d{11}$/.test(cleanBVN)) {
+      return new Response(JSON.stringify({ error: 'Invalid BVN. BVN must be 11 digits.' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: profile } = await adminClient
+      .from('profiles').select('full_name, kyc_status, kyc_tier, kyc_verified_at')
+      .eq('user_id', user.id).maybeSingle();
+    if (!profile?.full_name?.trim()) {
+      return new Response(JSON.stringify({ error: 'Add your full name to your profile before verifying your BVN' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ── Already verified or waiting on review ─────────────────────────────
+    const [{ data: existingKYC }, { data: openReview }] = await Promise.all([
+      adminClient.from('user_kyc').select('id, bvn_hash').eq('user_id', user.id).maybeSingle(),
+      adminClient.from('bvn_reviews').select('id').eq('user_id', user.id).eq('status', 'open').maybeSingle(),
+    ]);
+    if (existingKYC?.bvn_hash) {
+      return new Response(JSON.stringify({ error: 'Your BVN is already verified', status: 'verified' }), {
+        status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if (openReview) {
+      return new Response(JSON.stringify({ error: 'Your BVN is already being reviewed', status: 'in_review' }), {
+        status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ── Daily lookup cap ──────────────────────────────────────────────────
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { count: lookupsToday } = await adminClient
+      .from('bvn_lookups').select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id).gte('created_at', dayAgo);
+    if ((lookupsToday || 0) >= MAX_LOOKUPS_PER_DAY) {
+      return new Response(JSON.stringify({ error: 'Too many BVN attempts today. Please try again tomorrow or verify with your NIN.' }), {
+        status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ── One BVN, one account ──────────────────────────────────────────────
+    const bvnHash = await hashIdentifier(cleanBVN);
+    const [{ data: linkedKYC }, { data: linkedReview }] = await Promise.all([
+      adminClient.from('user_kyc').select('id').eq('bvn_hash', bvnHash).neq('user_id', user.id).maybeSingle(),
+      adminClient.from('bvn_reviews').select('id').eq('bvn_hash', bvnHash).eq('status', 'open')
+        .neq('user_id', user.id).limit(1).maybeSingle(),
+    ]);
+    if (linkedKYC || linkedReview) {
+      console.warn(`[verify-bvn] BVN already linked to another account (user ${user.id})`);
+      return new Response(JSON.stringify({ error: 'This BVN is already linked to another account' }), {
+        status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ── Provider lookup ───────────────────────────────────────────────────
+    const provider = getIdentityProvider();
+    let lookup;
+    try {
+      lookup = await provider.lookupBvn(cleanBVN);
+    } catch (err) {
+      console.error(`[verify-bvn] ${provider.name} lookup failed:`, err);
+      await adminClient.from('bvn_lookups').insert({ user_id: user.id, outcome: 'error' });
+      return new Response(JSON.stringify({ error: 'BVN verification is unavailable right now. Please try again later.' }), {
+        status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!lookup.found) {
+      await adminClient.from('bvn_lookups').insert({ user_id: user.id, outcome: 'not_found' });
+      return new Response(JSON.stringify({ error: 'No record was found for this BVN', status: 'not_found' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { record } = lookup;
+    const score = nameMatchScore(profile.full_name, record);
+    console.log(`[verify-bvn] ${provider.name} lookup for user ${user.id}: match score ${score}`);
+
+    // ── Full match: verify now ────────────────────────────────────────────
+    if (score >= AUTO_VERIFY_SCORE) {
+      const verifiedAt = new Date().toISOString();
+      const { error: kycError } = await adminClient.from('user_kyc').upsert({
+        user_id: user.id,
+        bvn_hash: bvnHash,
+        bvn_match_score: score,
+        bvn_verified_at: verifiedAt,
+        kyc_status: 'verified',
+        kyc_verified_at: profile.kyc_verified_at || verifiedAt,
+      }, { onConflict: 'user_id' });
+
+      if (kycError) {
+        // 23505: the BVN was linked to another account since the check above
+        const linked = kycError.code === '23505';
+        console.error('[verify-bvn] KYC upsert error:', kycError);
+        return new Response(JSON.stringify({
+          error: linked ? 'This BVN is already linked to another account' : 'Failed to store verification result',
+        }), { status: linked ? 409 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      // Same rule as NIN: raise to Tier 2, never lower an admin-granted tier
+      const kycTier = Math.max(profile.kyc_tier ?? 1, 2);
+      const { error: profileError } = await adminClient
+        .from('profiles')
+        .update({ kyc_status: 'verified', kyc_verified_at: profile.kyc_verified_at || verifiedAt, kyc_tier: kycTier })
+        .eq('user_id', user.id);
+      if (profileError) {
+        console.error('[verify-bvn] Profile update error:', profileError);
+        // KYC is stored, profile update can be retried
+      }
+
+      await adminClient.from('bvn_lookups').insert({ user_id: user.id, outcome: 'verified', match_score: score });
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'BVN verified successfully',
+        status: 'verified',
+        verifiedAt,
+        kycTier,
+      }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // ── Partial match: queue for review ───────────────────────────────────
+    if (score >= REVIEW_SCORE) {
+      const { error: reviewError } = await adminClient.from('bvn_reviews').insert({
+        user_id: user.id,
+        bvn_hash: bvnHash,
+        match_score: score,
+        profile_name: profile.full_name,
+        bvn_name: [record.firstName, record.middleName, record.lastName].filter(Boolean).join(' '),
+        provider: provider.name,
+        provider_reference: record.reference,
+      });
+      if (reviewError) {
+        console.error('[verify-bvn] Review insert error:', reviewError);
+        return new Response(JSON.stringify({ error: 'Failed to submit your BVN for review' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // A user already verified by NIN keeps that status while we review
+      if (profile.kyc_status !== 'verified') {
+        await adminClient.from('profiles').update({ kyc_status: 'in_review' }).eq('user_id', user.id);
+      }
+      await adminClient.from('bvn_lookups').insert({ user_id: user.id, outcome: 'review', match_score: score });
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: "The name on your BVN doesn't exactly match your profile, so our team will review it shortly",
+        status: 'in_review',
+      }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // ── No match ──────────────────────────────────────────────────────────
+    await adminClient.from('bvn_lookups').insert({ user_id: user.id, outcome: 'mismatch', match_score: score });
+    return new Response(JSON.stringify({
+      error: "The name on this BVN doesn't match the name on your profile",
+      status: 'mismatch',
+    }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (error) {
+    console.error('[verify-bvn] Unexpected error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
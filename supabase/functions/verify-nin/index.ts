@@ -5,12 +5,12 @@
  * 1. Receives NIN from authenticated client
  * 2. Validates NIN format
  * 3. Verifies NIN against NIMC API (mock for now, ready for production integration)
- * 4. Stores encrypted NIN in user_kyc table (INSERT only - users cannot read back)
- * 5. Updates profiles table with KYC status
+ * 4. Stores the NIN, envelope-encrypted, in user_kyc (see _shared/pii.ts)
+ * 5. Updates profiles table with KYC status and raises the user to KYC Tier 2
  * 
  * SECURITY MEASURES:
  * - Uses service_role key for database operations (bypasses RLS for authorized writes)
- * - NIN is encoded and hashed before storage
+ * - NIN is encrypted (AES-GCM, versioned keys) and hashed before storage
  * - NIN is never returned to the client
  * - Only authenticated users can submit verification requests
  * 
@@ -18,17 +18,13 @@
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+import { encryptPii, ninContext, piiKeyVersion } from '../_shared/pii.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Simple base64 encoding for NIN storage
-function encodeNIN(nin: string): string {
-  return btoa(nin);
-}
-
 // SHA-256 hash for NIN verification without exposing raw value
 async function hashNIN(nin: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -156,14 +152,15 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Check if user already has KYC submitted
+    // Check if user already has a NIN submitted. A row without one belongs
+    // to a user who verified by BVN; their NIN is added to it below.
     const { data: existingKYC } = await supabaseAdmin
       .from('user_kyc')
-      .select('id, kyc_status')
+      .select('id, kyc_status, nin_hash')
       .eq('user_id', user.id)
-      .single();
+      .maybeSingle();
 
-    if (existingKYC) {
+    if (existingKYC?.nin_hash) {
       return new Response(
         JSON.stringify({ 
           error: 'KYC already submitted',
@@ -177,11 +174,21 @@ Deno.serve(async (req) => {
     console.log(`[verify-nin] Verifying NIN for user ${user.id}`);
     const nimcResult = await verifyWithNIMC(cleanNIN);
 
+    if (!nimcResult.verified && existingKYC) {
+      // Already verified by BVN: report the failure without touching that status
+      return new Response(
+        JSON.stringify({ success: false, error: nimcResult.message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     if (!nimcResult.verified) {
       // Store failed verification attempt
+      const rejectedNIN = await encryptPii(cleanNIN, ninContext(user.id));
       await supabaseAdmin.from('user_kyc').insert({
         user_id: user.id,
-        nin_number_encrypted: encodeNIN(cleanNIN),
+        nin_number_encrypted: rejectedNIN,
+        nin_key_version: piiKeyVersion(rejectedNIN),
         nin_hash: await hashNIN(cleanNIN),
         kyc_status: 'rejected',
       });
@@ -203,18 +210,26 @@ Deno.serve(async (req) => {
     }
 
     // NIN verified - store securely
-    const ninEncoded = encodeNIN(cleanNIN);
+    const ninEncrypted = await encryptPii(cleanNIN, ninContext(user.id));
     const ninHash = await hashNIN(cleanNIN);
     const verifiedAt = new Date().toISOString();
 
-    // Insert into secure user_kyc table
-    const { error: kycError } = await supabaseAdmin.from('user_kyc').insert({
-      user_id: user.id,
-      nin_number_encrypted: ninEncoded,
-      nin_hash: ninHash,
-      kyc_status: 'verified',
-      kyc_verified_at: verifiedAt,
-    });
+    // Insert into secure user_kyc table (or add the NIN to a BVN user's row)
+    const { error: kycError } = existingKYC
+      ? await supabaseAdmin.from('user_kyc').update({
+          nin_number_encrypted: ninEncrypted,
+          nin_key_version: piiKeyVersion(ninEncrypted),
+          nin_hash: ninHash,
+          kyc_status: 'verified',
+        }).eq('id', existingKYC.id)
+      : await supabaseAdmin.from('user_kyc').insert({
+          user_id: user.id,
+          nin_number_encrypted: ninEncrypted,
+          nin_key_version: piiKeyVersion(ninEncrypted),
+          nin_hash: ninHash,
+          kyc_status: 'verified',
+          kyc_verified_at: verifiedAt,
+        });
 
     if (kycError) {
       console.error('[verify-nin] KYC insert error:', kycError);
@@ -224,12 +239,20 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Update profiles table with verification status
+    // Update profiles table with verification status. A verified NIN lifts the
+    // user to KYC Tier 2, but never lowers a tier an admin has already granted.
+    const { data: currentProfile } = await supabaseAdmin
+      .from('profiles')
+      .select('kyc_tier')
+      .eq('user_id', user.id)
+      .single();
+
     const { error: profileError } = await supabaseAdmin
       .from('profiles')
       .update({
         kyc_status: 'verified',
         kyc_verified_at: verifiedAt,
+        kyc_tier: Math.max(currentProfile?.kyc_tier ?? 1, 2),
       })
       .eq('user_id', user.id);
 
@@ -246,6 +269,7 @@ Deno.serve(async (req) => {
         message: 'NIN verified successfully',
         status: 'verified',
         verifiedAt,
+        kycTier: Math.max(currentProfile?.kyc_tier ?? 1, 2),
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,482 @@
+/**
+ * WALLET FUNDING EDGE FUNCTION
+ * ============================
+ *
+ * Funds wallets through a payment gateway (Paystack by default, see
+ * `_shared/gateways`). The wallet is only credited once the gateway confirms
+ * the payment, via a signed webhook or an explicit verify call.
+ *
+ * ## Endpoints
+ *
+ * ### POST /wallet-funding/initialize
+ * Creates a pending deposit and returns the gateway checkout URL. Authenticated.
+ * Rejected if it would take the wallet above the KYC tier's balance cap.
+ *
+ * **Request Body:**
+ * ```json
+ * { "amount": 10000, "channel": "card", "callbackUrl": "https://app.example/?funding=callback" }
+ * ```
+ *
+ * ### POST /wallet-funding/webhook
+ * Gateway webhook. Signature-verified; no JWT. Handles checkout payments and
+ * bank transfers into virtual accounts.
+ *
+ * ### POST /wallet-funding/verify
+ * Re-checks a deposit with the gateway after the customer returns from
+ * checkout, in case the webhook has not arrived yet. Authenticated.
+ *
+ * ### POST /wallet-funding/virtual-account
+ * Returns the wallet's reserved bank account, reserving one with the gateway
+ * on first call. Authenticated.
+ *
+ * ## Crediting
+ * Both webhook and verify settle through the `complete_deposit` DB function,
+ * which locks the deposit row and credits it at most once. The amount paid
+ * must match the pending deposit exactly.
+ *
+ * Virtual-account transfers settle through `credit_virtual_account_transfer`.
+ * Transfers to an unknown account, or that would push the wallet above the
+ * balance cap of the user's KYC tier, are parked in `funding_suspense` for admins.
+ *
+ * @module wallet-funding
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getGateway, getPaymentGateway } from "../_shared/gateways/index.ts";
+import type { GatewayVerification, InboundTransfer, PaymentChannel, PaymentGateway } from "../_shared/gateways/index.ts";
+import { createNotification } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const MIN_FUNDING_AMOUNT = 5000;
+const CHANNELS: PaymentChannel[] = ['card', 'bank_transfer'];
+
+/** Generates a unique deposit reference (also used as the gateway reference). */
+function generateReference(): string {
+  const now = new Date();
+  const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+  const rand = crypto.randomUUID().replace(/-/g, '').substring(0, 12);
+  return `dep_${date}_${rand}`;
+}
+
+/**
+ * Applies a gateway verdict to a pending deposit. Safe to call repeatedly:
+ * crediting is idempotent and failures only touch deposits still pending.
+ * Returns the deposit's resulting status.
+ */
+async function settleDeposit(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  deposit: any,
+  verification: GatewayVerification,
+  gateway: PaymentGateway,
+): Promise<string> {
+  if (verification.status === 'pending') return deposit.status;
+
+  if (verification.status === 'success') {
+    if (verification.amount === null || verification.amount !== Number(deposit.amount)) {
+      // Paid amount differs from what we initialized — never credit automatically
+      console.error(`[wallet-funding] Amount mismatch on ${deposit.reference}: paid ${verification.amount}, expected ${deposit.amount}`);
+      await adminClient.from('transactions').update({
+        status: 'pending_verification',
+        provider_reference: verification.gatewayReference || null,
+        metadata: {
+          ...(deposit.metadata as Record<string, unknown>),
+          credit_error: 'Amount mismatch',
+          amount_paid: verification.amount,
+        },
+      }).eq('id', deposit.id).eq('status', 'pending');
+      return 'pending_verification';
+    }
+
+    const { data: result, error } = await adminClient.rpc('complete_deposit', {
+      p_reference: deposit.reference,
+      p_gateway_reference: verification.gatewayReference || `${gateway.name}_${deposit.reference}`,
+    });
+
+    if (error) {
+      console.error(`[wallet-funding] complete_deposit failed for ${deposit.reference}:`, error);
+      return deposit.status;
+    }
+
+    if (result?.success && !result.already_processed) {
+      await createNotification(adminClient, deposit.user_id, {
+        title: 'Wallet Funded',
+        message: `₦${Number(deposit.amount).toLocaleString()} added. New balance: ₦${Number(result.balance_after).toLocaleString()}`,
+        type: 'success', category: 'transaction',
+        metadata: { transactionId: deposit.id, amount: Number(deposit.amount), newBalance: result.balance_after },
+      });
+      console.log(`[wallet-funding] CREDITED: ${deposit.reference}`);
+      return 'completed';
+    }
+
+    if (result?.held) {
+      await createNotification(adminClient, deposit.user_id, {
+        title: 'Deposit Under Review',
+        message: `Your ₦${Number(deposit.amount).toLocaleString()} payment was received but could not be credited (${result.error}). Our team will resolve it shortly.`,
+        type: 'warning', category: 'transaction',
+        metadata: { transactionId: deposit.id },
+      });
+      return 'pending_verification';
+    }
+
+    return result?.already_processed ? 'completed' : deposit.status;
+  }
+
+  // Gateway reports the payment failed or was abandoned
+  const { data: failed } = await adminClient.from('transactions').update({
+    status: 'failed',
+    metadata: {
+      ...(deposit.metadata as Record<string, unknown>),
+      failed_at: new Date().toISOString(),
+      gateway_status: verification.data?.status ?? 'failed',
+    },
+  }).eq('id', deposit.id).eq('status', 'pending').select('id');
+
+  if (failed?.length) {
+    await createNotification(adminClient, deposit.user_id, {
+      title: 'Wallet Funding Failed',
+      message: `Your ₦${Number(deposit.amount).toLocaleString()} payment was not completed. No money was added to your wallet.`,
+      type: 'error', category: 'transaction',
+      metadata: { transactionId: deposit.id },
+    });
+    return 'failed';
+  }
+  return deposit.status;
+}
+
+/** Credits a virtual-account transfer or parks it in the suspense queue. */
+async function settleTransfer(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adminClient: any,
+  transfer: InboundTransfer,
+  gateway: PaymentGateway,
+): Promise<string> {
+  const { data: result, error } = await adminClient.rpc('credit_virtual_account_transfer', {
+    p_provider: gateway.name,
+    p_account_number: transfer.accountNumber,
+    p_amount: transfer.amount,
+    p_gateway_reference: transfer.gatewayReference,
+    p_details: {
+      sender_name: transfer.senderName,
+      sender_bank: transfer.senderBank,
+      sender_account_number: transfer.senderAccountNumber,
+      narration: transfer.narration,
+      raw: transfer.data || {},
+    },
+  });
+
+  // Thrown so the gateway retries the webhook
+  if (error) throw new Error(`credit_virtual_account_transfer failed: ${error.message}`);
+  if (result.already_processed) return result.suspended ? 'suspended' : 'completed';
+
+  if (result.success) {
+    await createNotification(adminClient, result.user_id, {
+      title: 'Wallet Funded',
+      message: `₦${transfer.amount.toLocaleString()} received by bank transfer${transfer.senderName ? ` from ${transfer.senderName}` : ''}. New balance: ₦${Number(result.balance_after).toLocaleString()}`,
+      type: 'success', category: 'transaction',
+      metadata: { transactionId: result.transaction_id, amount: transfer.amount, newBalance: result.balance_after },
+    });
+    console.log(`[wallet-funding] TRANSFER CREDITED: ${transfer.gatewayReference}`);
+    return 'completed';
+  }
+
+  console.warn(`[wallet-funding] TRANSFER SUSPENDED (${result.reason}): ${transfer.gatewayReference}`);
+  if (result.user_id) {
+    const { data: limits } = await adminClient.rpc('get_kyc_limits', { p_user_id: result.user_id });
+    await createNotification(adminClient, result.user_id, {
+      title: 'Transfer Under Review',
+      message: `Your ₦${transfer.amount.toLocaleString()} transfer would take your wallet above the ₦${Number(limits?.max_balance).toLocaleString()} ${limits?.name} limit. Our team will contact you to resolve it, or verify your identity to raise it.`,
+      type: 'warning', category: 'transaction',
+      metadata: { suspenseId: result.suspense_id, amount: transfer.amount },
+    });
+  }
+  return 'suspended';
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const url = new URL(req.url);
+    const action = url.pathname.split('/').pop();
+
+    // =====================================================================
+    // POST /webhook — Gateway callback (signature-verified, no JWT)
+    // =====================================================================
+    if (action === 'webhook' && req.method === 'POST') {
+      const gateway = getPaymentGateway();
+      const rawBody = await req.text();
+
+      if (!(await gateway.verifyWebhookSignature(rawBody, req.headers))) {
+        console.warn(`[wallet-funding] Rejected ${gateway.name} webhook with invalid signature`);
+        return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+          status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const event = gateway.parseWebhook(rawBody);
+      if (!event) {
+        return new Response(JSON.stringify({ received: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (event.kind === 'transfer') {
+        const status = await settleTransfer(adminClient, event.transfer, gateway);
+        return new Response(JSON.stringify({ received: true, status }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const verification = event.payment;
+
+      const { data: deposit } = await adminClient
+        .from('transactions')
+        .select('*')
+        .eq('reference', verification.reference)
+        .eq('type', 'deposit')
+        .maybeSingle();
+
+      if (!deposit) {
+        // Acknowledge so the gateway stops retrying; nothing of ours to settle
+        console.warn(`[wallet-funding] Webhook for unknown reference ${verification.reference}`);
+        return new Response(JSON.stringify({ received: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const status = await settleDeposit(adminClient, deposit, verification, gateway);
+      return new Response(JSON.stringify({ received: true, status }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ── Authenticated routes ───────────────────────────────────────────────
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // =====================================================================
+    // POST /initialize — Create pending deposit, return checkout URL
+    // =====================================================================
+    if (action === 'initialize' && req.method === 'POST') {
+      const { amount, channel, callbackUrl } = await req.json();
+      const fundingAmount = Number(amount);
+
+      if (!fundingAmount || fundingAmount < MIN_FUNDING_AMOUNT) {
+        return new Response(JSON.stringify({ success: false, error: `Minimum top-up is ₦${MIN_FUNDING_AMOUNT.toLocaleString()}` }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (channel && !CHANNELS.includes(channel)) {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid payment channel' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: wallet } = await adminClient
+        .from('wallets').select('id, balance').eq('user_id', user.id).maybeSingle();
+      if (!wallet) {
+        return new Response(JSON.stringify({ success: false, error: 'Wallet not found' }), {
+          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // The balance cap depends on the user's KYC tier
+      const { data: limits, error: limitsError } = await adminClient
+        .rpc('get_kyc_limits', { p_user_id: user.id });
+      if (limitsError || !limits) {
+        return new Response(JSON.stringify({ success: false, error: 'Could not load account limits' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const balance = Number(wallet.balance);
+      const maxBalance = Number(limits.max_balance);
+      if (balance + fundingAmount > maxBalance) {
+        return new Response(JSON.stringify({
+          success: false,
+          code: 'KYC_BALANCE_LIMIT',
+          error: `Maximum wallet balance on ${limits.name} is ₦${maxBalance.toLocaleString()}. You can add up to ₦${Math.max(0, maxBalance - balance).toLocaleString()}.`,
+        }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      const gateway = getPaymentGateway();
+      const reference = generateReference();
+
+      // Pending deposit: balances are provisional until complete_deposit credits it
+      const { data: deposit, error: insertError } = await adminClient.from('transactions').insert({
+        wallet_id: wallet.id,
+        user_id: user.id,
+        type: 'deposit',
+        amount: fundingAmount,
+        balance_before: balance,
+        balance_after: balance,
+        status: 'pending',
+        reference,
+        provider: gateway.name,
+        description: 'Wallet Funding',
+        metadata: { gateway: gateway.name, channel: channel || null, initiated_at: new Date().toISOString() },
+      }).select().single();
+
+      if (insertError) {
+        console.error('[wallet-funding] Deposit insert failed:', insertError);
+        return new Response(JSON.stringify({ success: false, error: 'Failed to create deposit' }), {
+          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      try {
+        const checkout = await gateway.initializePayment({
+          reference,
+          amount: fundingAmount,
+          email: user.email || `${user.id}@users.noreply`,
+          callbackUrl,
+          channels: channel ? [channel] : undefined,
+        });
+
+        return new Response(JSON.stringify({
+          success: true, reference, transactionId: deposit.id, authorizationUrl: checkout.authorizationUrl,
+        }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      } catch (e) {
+        console.error(`[wallet-funding] ${gateway.name} initialize failed:`, e);
+        await adminClient.from('transactions').update({
+          status: 'failed',
+          metadata: { ...(deposit.metadata as Record<string, unknown>), failure_reason: 'Gateway initialization failed' },
+        }).eq('id', deposit.id);
+
+        return new Response(JSON.stringify({ success: false, error: 'Payment gateway unavailable. Please try again.' }), {
+          status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // =====================================================================
+    // POST /verify — Re-check a deposit after returning from checkout
+    // =====================================================================
+    if (action === 'verify' && req.method === 'POST') {
+      const { reference } = await req.json();
+      if (!reference) {
+        return new Response(JSON.stringify({ success: false, error: 'reference is required' }), {
+          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: deposit } = await adminClient
+        .from('transactions')
+        .select('*')
+        .eq('reference', reference)
+        .eq('user_id', user.id)
+        .eq('type', 'deposit')
+        .maybeSingle();
+
+      if (!deposit) {
+        return new Response(JSON.stringify({ success: false, error: 'Deposit not found' }), {
+          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      let status = deposit.status;
+      if (status === 'pending') {
+        const gateway = getGateway(deposit.provider || getPaymentGateway().name);
+        const verification = await gateway.verifyPayment(reference);
+        status = await settleDeposit(adminClient, deposit, verification, gateway);
+      }
+
+      return new Response(JSON.stringify({
+        success: true, reference, transactionId: deposit.id, status, amount: Number(deposit.amount),
+      }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // =====================================================================
+    // POST /virtual-account — Get (or reserve) the wallet's bank account
+    // =====================================================================
+    if (action === 'virtual-account' && req.method === 'POST') {
+      const { data: wallet } = await adminClient
+        .from('wallets').select('*').eq('user_id', user.id).maybeSingle();
+      if (!wallet) {
+        return new Response(JSON.stringify({ success: false, error: 'Wallet not found' }), {
+          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!wallet.virtual_account_number) {
+        const { data: profile } = await adminClient
+          .from('profiles').select('full_name, phone_number').eq('user_id', user.id).maybeSingle();
+
+        const gateway = getPaymentGateway();
+        try {
+          const account = await gateway.createVirtualAccount({
+            customerRef: user.id,
+            email: user.email || `${user.id}@users.noreply`,
+            fullName: profile?.full_name || 'Nava Customer',
+            phoneNumber: profile?.phone_number,
+          });
+
+          // Only the first reservation sticks if two requests race
+          const { data: updated } = await adminClient.from('wallets').update({
+            virtual_account_number: account.accountNumber,
+            virtual_account_name: account.accountName,
+            virtual_account_bank: account.bankName,
+            virtual_account_provider: gateway.name,
+            virtual_account_reference: account.providerReference || null,
+          }).eq('id', wallet.id).is('virtual_account_number', null).select().maybeSingle();
+
+          if (updated) {
+            Object.assign(wallet, updated);
+          } else {
+            const { data: current } = await adminClient.from('wallets').select('*').eq('id', wallet.id).single();
+            Object.assign(wallet, current);
+          }
+        } catch (e) {
+          console.error(`[wallet-funding] ${gateway.name} virtual account reservation failed:`, e);
+          return new Response(JSON.stringify({ success: false, error: 'Could not reserve a bank account. Please try again later.' }), {
+            status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        accountNumber: wallet.virtual_account_number,
+        accountName: wallet.virtual_account_name,
+        bankName: wallet.virtual_account_bank,
+      }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    return new Response(JSON.stringify({ error: 'Invalid endpoint' }), {
+      status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('[wallet-funding] Error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,72 @@
+
+-- Auto top-up rules need enough information to actually fire a purchase
+ALTER TABLE public.auto_topup_rules
+  ADD COLUMN IF NOT EXISTS network TEXT,
+  ADD COLUMN IF NOT EXISTS plan_id TEXT,
+  ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER NOT NULL DEFAULT 360 CHECK (cooldown_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS last_triggered_at TIMESTAMP WITH TIME ZONE;
+
+-- Balance/usage readings reported per phone number
+-- percentage_remaining = balance / baseline * 100 is compared against the rule threshold
+CREATE TABLE public.usage_readings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone_number_id UUID REFERENCES public.phone_numbers(id) ON DELETE CASCADE, -- null means primary phone
+  type TEXT NOT NULL CHECK (type IN ('airtime', 'data')),
+  balance NUMERIC NOT NULL CHECK (balance >= 0),
+  baseline NUMERIC NOT NULL CHECK (baseline > 0),
+  source TEXT NOT NULL DEFAULT 'client', -- 'client', 'ussd', 'provider'
+  processed_at TIMESTAMP WITH TIME ZONE,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Execution log for auditability (mirrors scheduled_topup_executions)
+CREATE TABLE public.auto_topup_executions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID NOT NULL REFERENCES public.auto_topup_rules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  reading_id UUID REFERENCES public.usage_readings(id) ON DELETE SET NULL,
+  transaction_id UUID REFERENCES public.transactions(id),
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed', 'pending_verification', 'skipped')),
+  failure_reason TEXT,
+  amount NUMERIC NOT NULL,
+  percentage_remaining NUMERIC,
+  executed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.usage_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.auto_topup_executions ENABLE ROW LEVEL SECURITY;
+
+-- RLS: read-only for users, service role writes via edge functions
+CREATE POLICY "Users can view their own usage readings"
+  ON public.usage_readings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own auto top-up executions"
+  ON public.auto_topup_executions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX idx_usage_readings_unprocessed ON public.usage_readings(recorded_at) WHERE processed_at IS NULL;
+CREATE INDEX idx_usage_readings_user_id ON public.usage_readings(user_id);
+CREATE INDEX idx_auto_topup_executions_rule_id ON public.auto_topup_executions(rule_id);
+
+-- Atomically claim a rule for firing. Returns false while the rule is still in its
+-- cooldown window, so overlapping executor runs cannot fire the same rule twice.
+CREATE OR REPLACE FUNCTION claim_auto_topup_rule(p_rule_id uuid)
+RETURNS boolean LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_claimed uuid;
+BEGIN
+  UPDATE auto_topup_rules
+  SET last_triggered_at = now()
+  WHERE id = p_rule_id
+    AND is_enabled = true
+    AND (last_triggered_at IS NULL OR last_triggered_at <= now() - make_interval(mins => cooldown_minutes))
+  RETURNING id INTO v_claimed;
+  RETURN v_claimed IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_auto_topup_rule(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,91 @@
+-- Record which VTU provider actually fulfilled each purchase
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS provider TEXT;
+CREATE INDEX IF NOT EXISTS idx_transactions_provider ON public.transactions(provider, created_at) WHERE provider IS NOT NULL;
+
+-- Circuit breaker state per provider and network.
+-- Outcomes are counted in a rolling window; once enough calls fail the breaker
+-- opens and purchases are routed to the next provider until opened_until passes.
+CREATE TABLE public.provider_health (
+  provider TEXT NOT NULL,
+  network TEXT NOT NULL,
+  state TEXT NOT NULL DEFAULT 'closed' CHECK (state IN ('closed', 'open')),
+  success_count INTEGER NOT NULL DEFAULT 0,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  window_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  opened_until TIMESTAMP WITH TIME ZONE,
+  last_failure_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, network)
+);
+
+-- Enable RLS (writes only through record_provider_outcome)
+ALTER TABLE public.provider_health ENABLE ROW LEVEL SECURITY;
+
+-- Admins can inspect breaker state
+CREATE POLICY "Admins can view provider health"
+  ON public.provider_health FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Records a provider call outcome and returns the resulting breaker state.
+-- Window: 5 minutes. Trips when at least 5 calls were seen and >= 50% failed.
+-- An open breaker stays open for 2 minutes; the first call after that is a trial:
+-- success closes it, failure re-opens it immediately.
+CREATE OR REPLACE FUNCTION record_provider_outcome(p_provider text, p_network text, p_success boolean)
+RETURNS text LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_health provider_health%ROWTYPE;
+  v_window interval := interval '5 minutes';
+  v_cooldown interval := interval '2 minutes';
+  v_min_calls integer := 5;
+  v_failure_rate numeric := 0.5;
+BEGIN
+  INSERT INTO provider_health (provider, network)
+  VALUES (lower(p_provider), lower(p_network))
+  ON CONFLICT (provider, network) DO NOTHING;
+
+  SELECT * INTO v_health FROM provider_health
+  WHERE provider = lower(p_provider) AND network = lower(p_network)
+  FOR UPDATE;
+
+  IF v_health.window_started_at < now() - v_window THEN
+    v_health.success_count := 0;
+    v_health.failure_count := 0;
+    v_health.window_started_at := now();
+  END IF;
+
+  IF p_success THEN
+    v_health.success_count := v_health.success_count + 1;
+    IF v_health.state = 'open' THEN
+      -- Trial call succeeded: close and start a fresh window
+      v_health.state := 'closed';
+      v_health.opened_until := NULL;
+      v_health.success_count := 1;
+      v_health.failure_count := 0;
+      v_health.window_started_at := now();
+    END IF;
+  ELSE
+    v_health.failure_count := v_health.failure_count + 1;
+    v_health.last_failure_at := now();
+    IF v_health.state = 'open'
+       OR (v_health.success_count + v_health.failure_count >= v_min_calls
+           AND v_health.failure_count >= (v_health.success_count + v_health.failure_count) * v_failure_rate) THEN
+      v_health.state := 'open';
+      v_health.opened_until := now() + v_cooldown;
+    END IF;
+  END IF;
+
+  UPDATE provider_health SET
+    state = v_health.state,
+    success_count = v_health.success_count,
+    failure_count = v_health.failure_count,
+    window_started_at = v_health.window_started_at,
+    opened_until = v_health.opened_until,
+    last_failure_at = v_health.last_failure_at,
+    updated_at = now()
+  WHERE provider = v_health.provider AND network = v_health.network;
+
+  RETURN v_health.state;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_provider_outcome(text, text, boolean) FROM PUBLIC, anon, authenticated;
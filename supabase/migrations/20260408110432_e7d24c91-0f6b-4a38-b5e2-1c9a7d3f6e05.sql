@@ -0,0 +1,60 @@
+-- A gateway payment can only ever credit one deposit
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_deposit_provider_reference
+  ON public.transactions(provider_reference)
+  WHERE type = 'deposit' AND provider_reference IS NOT NULL;
+
+-- Credits a pending gateway deposit exactly once.
+-- The deposit row is locked, so a webhook and a client-side verify racing each
+-- other cannot both credit. A deposit that would break the balance cap is held
+-- in pending_verification for admin review instead of being credited.
+CREATE OR REPLACE FUNCTION complete_deposit(p_reference text, p_gateway_reference text)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_tx transactions%ROWTYPE;
+  v_fund jsonb;
+BEGIN
+  SELECT * INTO v_tx FROM transactions
+  WHERE reference = p_reference AND type = 'deposit'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Deposit not found');
+  END IF;
+
+  IF v_tx.status = 'completed' THEN
+    RETURN jsonb_build_object('success', true, 'already_processed', true,
+      'transaction_id', v_tx.id, 'user_id', v_tx.user_id, 'balance_after', v_tx.balance_after);
+  END IF;
+  IF v_tx.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Deposit is ' || v_tx.status);
+  END IF;
+
+  v_fund := fund_wallet_atomic(v_tx.user_id, v_tx.amount, v_tx.reference);
+
+  IF NOT (v_fund->>'success')::boolean THEN
+    UPDATE transactions SET
+      status = 'pending_verification',
+      provider_reference = p_gateway_reference,
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('credit_error', v_fund->>'error', 'held_at', now()),
+      updated_at = now()
+    WHERE id = v_tx.id;
+    RETURN jsonb_build_object('success', false, 'held', true, 'error', v_fund->>'error',
+      'transaction_id', v_tx.id, 'user_id', v_tx.user_id);
+  END IF;
+
+  UPDATE transactions SET
+    status = 'completed',
+    balance_before = (v_fund->>'balance_before')::numeric,
+    balance_after = (v_fund->>'balance_after')::numeric,
+    provider_reference = p_gateway_reference,
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('credited_at', now()),
+    updated_at = now()
+  WHERE id = v_tx.id;
+
+  RETURN jsonb_build_object('success', true, 'already_processed', false,
+    'transaction_id', v_tx.id, 'user_id', v_tx.user_id, 'amount', v_tx.amount,
+    'balance_after', (v_fund->>'balance_after')::numeric);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_deposit(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fund_wallet_atomic(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
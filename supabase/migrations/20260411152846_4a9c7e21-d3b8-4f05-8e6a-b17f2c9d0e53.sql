@@ -0,0 +1,158 @@
+-- Reserved virtual bank account (NUBAN) per wallet for transfer-based funding
+ALTER TABLE public.wallets
+  ADD COLUMN IF NOT EXISTS virtual_account_number TEXT,
+  ADD COLUMN IF NOT EXISTS virtual_account_name TEXT,
+  ADD COLUMN IF NOT EXISTS virtual_account_bank TEXT,
+  ADD COLUMN IF NOT EXISTS virtual_account_provider TEXT,
+  ADD COLUMN IF NOT EXISTS virtual_account_reference TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallets_virtual_account_number
+  ON public.wallets(virtual_account_number) WHERE virtual_account_number IS NOT NULL;
+
+-- Suspense queue: inbound transfers that could not be credited automatically
+CREATE TABLE public.funding_suspense (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  provider_reference TEXT NOT NULL,
+  account_number TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('unmatched_account', 'over_limit')),
+  matched_user_id UUID, -- wallet owner when the account matched but the credit was blocked
+  sender_name TEXT,
+  sender_bank TEXT,
+  sender_account_number TEXT,
+  narration TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'credited', 'refunded', 'dismissed')),
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  transaction_id UUID REFERENCES public.transactions(id),
+  raw_payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_reference)
+);
+
+ALTER TABLE public.funding_suspense ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view funding suspense"
+  ON public.funding_suspense FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_funding_suspense_open ON public.funding_suspense(received_at) WHERE status = 'open';
+
+-- Credits an inbound virtual-account transfer, or parks it in funding_suspense.
+-- Idempotent on the gateway reference: a replayed webhook returns already_processed.
+CREATE OR REPLACE FUNCTION credit_virtual_account_transfer(
+  p_provider text,
+  p_account_number text,
+  p_amount numeric,
+  p_gateway_reference text,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_existing uuid;
+  v_reason text;
+  v_reference text := 'vat_' || p_gateway_reference;
+  v_fund jsonb;
+  v_tx_id uuid;
+BEGIN
+  SELECT id INTO v_existing FROM transactions
+  WHERE type = 'deposit' AND provider_reference = p_gateway_reference;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'already_processed', true, 'transaction_id', v_existing);
+  END IF;
+
+  SELECT id INTO v_existing FROM funding_suspense
+  WHERE provider = p_provider AND provider_reference = p_gateway_reference;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', false, 'already_processed', true, 'suspended', true, 'suspense_id', v_existing);
+  END IF;
+
+  SELECT * INTO v_wallet FROM wallets WHERE virtual_account_number = p_account_number FOR UPDATE;
+  IF NOT FOUND THEN
+    v_reason := 'unmatched_account';
+  ELSIF v_wallet.balance + p_amount > 8000000 THEN
+    v_reason := 'over_limit';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO funding_suspense (
+      provider, provider_reference, account_number, amount, reason, matched_user_id,
+      sender_name, sender_bank, sender_account_number, narration, raw_payload
+    ) VALUES (
+      p_provider, p_gateway_reference, p_account_number, p_amount, v_reason, v_wallet.user_id,
+      p_details->>'sender_name', p_details->>'sender_bank', p_details->>'sender_account_number',
+      p_details->>'narration', COALESCE(p_details->'raw', '{}'::jsonb)
+    ) RETURNING id INTO v_existing;
+    RETURN jsonb_build_object('success', false, 'suspended', true, 'reason', v_reason,
+      'suspense_id', v_existing, 'user_id', v_wallet.user_id);
+  END IF;
+
+  v_fund := fund_wallet_atomic(v_wallet.user_id, p_amount, v_reference);
+  IF NOT (v_fund->>'success')::boolean THEN
+    RAISE EXCEPTION 'Virtual account credit failed: %', v_fund->>'error';
+  END IF;
+
+  INSERT INTO transactions (
+    wallet_id, user_id, type, amount, balance_before, balance_after, status,
+    reference, provider, provider_reference, description, metadata
+  ) VALUES (
+    v_wallet.id, v_wallet.user_id, 'deposit', p_amount,
+    (v_fund->>'balance_before')::numeric, (v_fund->>'balance_after')::numeric, 'completed',
+    v_reference, p_provider, p_gateway_reference, 'Bank Transfer',
+    jsonb_build_object('channel', 'bank_transfer', 'account_number', p_account_number) || (p_details - 'raw')
+  ) RETURNING id INTO v_tx_id;
+
+  RETURN jsonb_build_object('success', true, 'already_processed', false, 'transaction_id', v_tx_id,
+    'user_id', v_wallet.user_id, 'balance_after', (v_fund->>'balance_after')::numeric);
+END;
+$$;
+
+-- Admin resolution: credits a suspended transfer to a chosen user's wallet.
+CREATE OR REPLACE FUNCTION credit_funding_suspense(p_suspense_id uuid, p_user_id uuid, p_admin_id uuid, p_note text)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_item funding_suspense%ROWTYPE;
+  v_reference text;
+  v_fund jsonb;
+  v_tx_id uuid;
+BEGIN
+  SELECT * INTO v_item FROM funding_suspense WHERE id = p_suspense_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Suspense item not found');
+  END IF;
+  IF v_item.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Suspense item is already ' || v_item.status);
+  END IF;
+
+  v_reference := 'vat_' || v_item.provider_reference;
+  v_fund := fund_wallet_atomic(p_user_id, v_item.amount, v_reference);
+  IF NOT (v_fund->>'success')::boolean THEN
+    RETURN jsonb_build_object('success', false, 'error', v_fund->>'error');
+  END IF;
+
+  INSERT INTO transactions (
+    wallet_id, user_id, type, amount, balance_before, balance_after, status,
+    reference, provider, provider_reference, description, metadata
+  ) VALUES (
+    (v_fund->>'wallet_id')::uuid, p_user_id, 'deposit', v_item.amount,
+    (v_fund->>'balance_before')::numeric, (v_fund->>'balance_after')::numeric, 'completed',
+    v_reference, v_item.provider, v_item.provider_reference, 'Bank Transfer',
+    jsonb_build_object('channel', 'bank_transfer', 'account_number', v_item.account_number,
+      'suspense_id', v_item.id, 'resolved_by', p_admin_id)
+  ) RETURNING id INTO v_tx_id;
+
+  UPDATE funding_suspense SET
+    status = 'credited', matched_user_id = p_user_id, transaction_id = v_tx_id,
+    resolved_by = p_admin_id, resolved_at = now(), resolution_note = p_note
+  WHERE id = v_item.id;
+
+  RETURN jsonb_build_object('success', true, 'transaction_id', v_tx_id,
+    'balance_after', (v_fund->>'balance_after')::numeric);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_virtual_account_transfer(text, text, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.credit_funding_suspense(uuid, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
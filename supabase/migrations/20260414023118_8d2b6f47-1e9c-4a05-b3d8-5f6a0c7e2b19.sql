@@ -0,0 +1,111 @@
+-- One row per provider per reconciled day
+CREATE TABLE public.reconciliation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_date DATE NOT NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  provider_entries INTEGER NOT NULL DEFAULT 0,
+  local_transactions INTEGER NOT NULL DEFAULT 0,
+  mismatches INTEGER NOT NULL DEFAULT 0,
+  unmatched_provider_entries INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (run_date, provider)
+);
+
+ALTER TABLE public.reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation runs"
+  ON public.reconciliation_runs FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Mismatches between our records and the provider's report
+CREATE TABLE public.reconciliation_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.reconciliation_runs(id) ON DELETE CASCADE,
+  run_date DATE NOT NULL,
+  provider TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('charged_not_delivered', 'delivered_but_refunded', 'amount_drift')),
+  match_key TEXT NOT NULL, -- our reference, or the provider reference when ours is unknown
+  transaction_id UUID REFERENCES public.transactions(id),
+  user_id UUID,
+  reference TEXT,
+  provider_reference TEXT,
+  local_status TEXT,
+  provider_status TEXT, -- NULL when the provider has no record
+  local_amount NUMERIC,
+  provider_amount NUMERIC,
+  ledger_net NUMERIC, -- credits minus debits in wallet_ledger for the reference
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'refunded', 'resolved', 'ignored')),
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Re-running a day never re-opens or duplicates an item
+  UNIQUE (provider, kind, match_key)
+);
+
+ALTER TABLE public.reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation items"
+  ON public.reconciliation_items FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_reconciliation_items_open
+  ON public.reconciliation_items(created_at DESC) WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_reference
+  ON public.wallet_ledger(transaction_reference);
+
+-- Refund a charged-but-not-delivered purchase from the reconciliation queue.
+-- Refuses if the reference has already been refunded (ledger no longer net debit).
+CREATE OR REPLACE FUNCTION public.refund_reconciliation_item(p_item_id UUID, p_admin_id UUID, p_note TEXT)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_item reconciliation_items%ROWTYPE;
+  v_tx transactions%ROWTYPE;
+  v_ledger_net numeric;
+  v_refund jsonb;
+BEGIN
+  SELECT * INTO v_item FROM reconciliation_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reconciliation item not found');
+  END IF;
+  IF v_item.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reconciliation item is already ' || v_item.status);
+  END IF;
+  IF v_item.kind <> 'charged_not_delivered' OR v_item.transaction_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only charged-but-not-delivered purchases can be refunded');
+  END IF;
+
+  SELECT * INTO v_tx FROM transactions WHERE id = v_item.transaction_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END), 0) INTO v_ledger_net
+  FROM wallet_ledger WHERE transaction_reference = v_tx.reference;
+  IF v_ledger_net >= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Purchase has already been refunded');
+  END IF;
+
+  v_refund := refund_wallet(v_tx.user_id, -v_ledger_net, v_tx.reference);
+  IF NOT (v_refund->>'success')::boolean THEN
+    RETURN jsonb_build_object('success', false, 'error', v_refund->>'error');
+  END IF;
+
+  UPDATE transactions SET
+    status = 'refunded',
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+      'refunded_at', now(), 'refund_reason', 'reconciliation', 'reconciliation_item_id', v_item.id),
+    updated_at = now()
+  WHERE id = v_tx.id;
+
+  UPDATE reconciliation_items SET
+    status = 'refunded', resolved_by = p_admin_id, resolved_at = now(), resolution_note = p_note
+  WHERE id = v_item.id;
+
+  RETURN jsonb_build_object('success', true, 'amount', -v_ledger_net, 'balance_after', v_refund->'balance_after');
+END;
+$$;
+
+-- Only admin-api calls this, with the signed-in admin as p_admin_id
+REVOKE EXECUTE ON FUNCTION public.refund_reconciliation_item(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
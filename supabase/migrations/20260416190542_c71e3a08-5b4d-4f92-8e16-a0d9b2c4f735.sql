@@ -0,0 +1,105 @@
+-- Background verification of purchases stuck in processing / pending_verification
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS verification_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_verification_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_unresolved
+  ON public.transactions(next_verification_at)
+  WHERE status IN ('processing', 'pending_verification');
+
+-- Claims a batch of due purchases and leases them for p_lease_seconds so an
+-- overlapping sweep skips them. Purchases still 'processing' are only picked
+-- up once older than p_processing_timeout_seconds (the purchase call died).
+CREATE OR REPLACE FUNCTION public.claim_pending_verifications(
+  p_limit INTEGER,
+  p_max_attempts INTEGER,
+  p_processing_timeout_seconds INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF public.transactions LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE transactions t SET
+    verification_attempts = t.verification_attempts + 1,
+    next_verification_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE t.id IN (
+    SELECT id FROM transactions
+    WHERE type IN ('airtime_purchase', 'data_purchase', 'auto_topup')
+      AND verification_attempts < p_max_attempts
+      AND (next_verification_at IS NULL OR next_verification_at <= now())
+      AND (
+        status = 'pending_verification'
+        OR (status = 'processing' AND created_at < now() - make_interval(secs => p_processing_timeout_seconds))
+      )
+    ORDER BY COALESCE(next_verification_at, created_at)
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING t.*;
+END;
+$$;
+
+-- Settles an unresolved purchase exactly once. 'failed' refunds whatever is
+-- still debited for the reference in wallet_ledger, so a purchase can never be
+-- refunded twice. Returns finalized = false if another caller got there first.
+CREATE OR REPLACE FUNCTION public.finalize_pending_purchase(
+  p_transaction_id UUID,
+  p_outcome TEXT,
+  p_provider_reference TEXT,
+  p_details JSONB
+)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_tx transactions%ROWTYPE;
+  v_ledger_net numeric;
+  v_refund jsonb;
+  v_refunded numeric := 0;
+BEGIN
+  IF p_outcome NOT IN ('completed', 'failed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid outcome');
+  END IF;
+
+  SELECT * INTO v_tx FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+  IF v_tx.status NOT IN ('processing', 'pending_verification') THEN
+    RETURN jsonb_build_object('success', true, 'finalized', false, 'status', v_tx.status);
+  END IF;
+
+  IF p_outcome = 'completed' THEN
+    UPDATE transactions SET
+      status = 'completed',
+      provider_reference = COALESCE(p_provider_reference, provider_reference),
+      next_verification_at = NULL,
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('verified_at', now()) || COALESCE(p_details, '{}'::jsonb)
+    WHERE id = v_tx.id;
+    RETURN jsonb_build_object('success', true, 'finalized', true, 'status', 'completed');
+  END IF;
+
+  SELECT COALESCE(SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END), 0) INTO v_ledger_net
+  FROM wallet_ledger WHERE transaction_reference = v_tx.reference;
+
+  IF v_ledger_net < 0 THEN
+    v_refund := refund_wallet(v_tx.user_id, -v_ledger_net, v_tx.reference);
+    IF NOT (v_refund->>'success')::boolean THEN
+      RETURN jsonb_build_object('success', false, 'error', v_refund->>'error');
+    END IF;
+    v_refunded := -v_ledger_net;
+  END IF;
+
+  UPDATE transactions SET
+    status = 'failed',
+    provider_reference = COALESCE(p_provider_reference, provider_reference),
+    next_verification_at = NULL,
+    metadata = COALESCE(metadata, '{}'::jsonb)
+      || jsonb_build_object('verified_at', now(), 'refunded', v_refunded > 0, 'refund_amount', v_refunded)
+      || COALESCE(p_details, '{}'::jsonb)
+  WHERE id = v_tx.id;
+
+  RETURN jsonb_build_object('success', true, 'finalized', true, 'status', 'failed', 'refunded', v_refunded);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_pending_verifications(integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finalize_pending_purchase(uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
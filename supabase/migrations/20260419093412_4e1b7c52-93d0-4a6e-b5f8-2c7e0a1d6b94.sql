@@ -0,0 +1,104 @@
+-- Transaction PINs: hashed server-side, only readable by edge functions
+CREATE TABLE public.transaction_pins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: clients never see PIN hashes
+ALTER TABLE public.transaction_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_transaction_pins_updated_at
+BEFORE UPDATE ON public.transaction_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Counts a wrong PIN atomically, so parallel guesses can't skip the lockout.
+-- Reaching p_max_attempts locks the PIN and starts a fresh count for when the
+-- lock expires. locked_until is only returned when this attempt set the lock.
+CREATE OR REPLACE FUNCTION public.register_pin_failure(
+  p_user_id UUID,
+  p_max_attempts INTEGER,
+  p_lock_minutes INTEGER
+)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_attempts integer;
+BEGIN
+  UPDATE transaction_pins SET failed_attempts = failed_attempts + 1
+  WHERE user_id = p_user_id
+  RETURNING failed_attempts INTO v_attempts;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('failed_attempts', 0);
+  END IF;
+
+  IF v_attempts >= p_max_attempts THEN
+    UPDATE transaction_pins SET
+      failed_attempts = 0,
+      locked_until = now() + make_interval(mins => p_lock_minutes)
+    WHERE user_id = p_user_id;
+    RETURN jsonb_build_object('failed_attempts', v_attempts, 'locked_until', now() + make_interval(mins => p_lock_minutes));
+  END IF;
+
+  RETURN jsonb_build_object('failed_attempts', v_attempts);
+END;
+$$;
+
+-- Scheduled and auto top-ups run without the user present, so they carry the
+-- PIN authorization given when they were set up. Existing rules predate PINs
+-- and stay authorized.
+ALTER TABLE public.scheduled_topups ADD COLUMN IF NOT EXISTS pin_authorized_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.auto_topup_rules ADD COLUMN IF NOT EXISTS pin_authorized_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.scheduled_topups SET pin_authorized_at = created_at WHERE pin_authorized_at IS NULL;
+UPDATE public.auto_topup_rules SET pin_authorized_at = created_at WHERE pin_authorized_at IS NULL;
+
+-- Clients can write these tables directly, so they must not be able to grant
+-- themselves an authorization, or keep one after changing what gets bought.
+CREATE OR REPLACE FUNCTION public.guard_topup_pin_authorization()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.pin_authorized_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'scheduled_topups' THEN
+    IF (NEW.amount, NEW.type, NEW.network, NEW.plan_id, NEW.phone_number, NEW.phone_number_id)
+       IS DISTINCT FROM (OLD.amount, OLD.type, OLD.network, OLD.plan_id, OLD.phone_number, OLD.phone_number_id) THEN
+      NEW.pin_authorized_at := NULL;
+    ELSE
+      NEW.pin_authorized_at := OLD.pin_authorized_at;
+    END IF;
+  ELSE
+    IF (NEW.topup_amount, NEW.type, NEW.network, NEW.plan_id, NEW.phone_number_id)
+       IS DISTINCT FROM (OLD.topup_amount, OLD.type, OLD.network, OLD.plan_id, OLD.phone_number_id) THEN
+      NEW.pin_authorized_at := NULL;
+    ELSE
+      NEW.pin_authorized_at := OLD.pin_authorized_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_scheduled_topups_pin_authorization
+BEFORE INSERT OR UPDATE ON public.scheduled_topups
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_topup_pin_authorization();
+
+CREATE TRIGGER guard_auto_topup_rules_pin_authorization
+BEFORE INSERT OR UPDATE ON public.auto_topup_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_topup_pin_authorization();
+
+REVOKE EXECUTE ON FUNCTION public.register_pin_failure(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
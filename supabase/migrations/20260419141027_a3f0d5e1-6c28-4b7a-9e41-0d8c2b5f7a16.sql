@@ -0,0 +1,101 @@
+-- One-time SMS codes for phone verification. Codes are stored hashed and
+-- only ever touched by the phone-verification edge function.
+CREATE TABLE public.phone_verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL means the primary number on the profile
+  phone_number_id UUID REFERENCES public.phone_numbers(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  sender TEXT,
+  sender_message_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_phone_verifications_user_created ON public.phone_verifications(user_id, created_at DESC);
+
+-- No policies: clients never see codes
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Verification flags can only be earned through the OTP flow. Clients may
+-- still edit their numbers, but changing a number drops its verification.
+-- Numbers verified before this migration keep their flag.
+CREATE OR REPLACE FUNCTION public.guard_phone_verification()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'profiles' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.phone_verified := false;
+    ELSIF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+      NEW.phone_verified := false;
+    ELSE
+      NEW.phone_verified := OLD.phone_verified;
+    END IF;
+  ELSE
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_verified := false;
+    ELSIF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+      NEW.is_verified := false;
+    ELSE
+      NEW.is_verified := OLD.is_verified;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profiles_phone_verification
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_phone_verification();
+
+CREATE TRIGGER guard_phone_numbers_verification
+BEFORE INSERT OR UPDATE ON public.phone_numbers
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_phone_verification();
+
+-- Auto top-up spends money on a number without asking, so the number must be
+-- verified before a rule for it can be enabled.
+CREATE OR REPLACE FUNCTION public.require_verified_phone_for_auto_topup()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_verified boolean;
+BEGIN
+  IF NOT NEW.is_enabled THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.is_enabled
+     AND NEW.phone_number_id IS NOT DISTINCT FROM OLD.phone_number_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.phone_number_id IS NULL THEN
+    SELECT phone_verified INTO v_verified FROM profiles WHERE user_id = NEW.user_id;
+  ELSE
+    SELECT is_verified INTO v_verified FROM phone_numbers
+    WHERE id = NEW.phone_number_id AND user_id = NEW.user_id;
+  END IF;
+
+  IF NOT COALESCE(v_verified, false) THEN
+    RAISE EXCEPTION 'Verify this phone number before setting up auto top-up'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_verified_phone_for_auto_topup
+BEFORE INSERT OR UPDATE OF is_enabled, phone_number_id ON public.auto_topup_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.require_verified_phone_for_auto_topup();
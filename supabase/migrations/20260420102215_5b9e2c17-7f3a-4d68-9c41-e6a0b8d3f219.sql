@@ -0,0 +1,275 @@
+-- KYC tiers: what a user may hold and spend depends on how far they have
+-- verified their identity. Limits live in a table so compliance can tune
+-- them without a deploy; amounts are in NGN.
+CREATE TABLE public.kyc_tiers (
+  tier SMALLINT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  requirements TEXT NOT NULL,
+  max_balance NUMERIC NOT NULL CHECK (max_balance > 0 AND max_balance <= 8000000),
+  daily_spend_limit NUMERIC NOT NULL CHECK (daily_spend_limit > 0),
+  single_transaction_limit NUMERIC NOT NULL CHECK (single_transaction_limit > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.kyc_tiers (tier, name, requirements, max_balance, daily_spend_limit, single_transaction_limit) VALUES
+  (1, 'Tier 1', 'Email and phone number', 300000, 50000, 50000),
+  (2, 'Tier 2', 'Verified NIN', 500000, 200000, 100000),
+  (3, 'Tier 3', 'Verified BVN and proof of address', 8000000, 5000000, 1000000);
+
+ALTER TABLE public.kyc_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view KYC tiers"
+ON public.kyc_tiers FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_kyc_tiers_updated_at
+BEFORE UPDATE ON public.kyc_tiers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.profiles
+  ADD COLUMN kyc_tier SMALLINT NOT NULL DEFAULT 1 REFERENCES public.kyc_tiers(tier);
+
+UPDATE public.profiles SET kyc_tier = 2 WHERE kyc_status = 'verified';
+
+-- Audit trail of tier changes made by admins (e.g. Tier 3 after reviewing BVN and address)
+CREATE TABLE public.kyc_tier_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_tier SMALLINT NOT NULL,
+  to_tier SMALLINT NOT NULL REFERENCES public.kyc_tiers(tier),
+  changed_by UUID REFERENCES auth.users(id),
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_kyc_tier_changes_user ON public.kyc_tier_changes(user_id, created_at DESC);
+
+-- No policies: written and read by admin-api only
+ALTER TABLE public.kyc_tier_changes ENABLE ROW LEVEL SECURITY;
+
+-- KYC status and tier are only ever set by verification functions and admins
+CREATE OR REPLACE FUNCTION public.guard_profile_kyc()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.kyc_status := 'pending';
+    NEW.kyc_verified_at := NULL;
+    NEW.kyc_tier := 1;
+  ELSE
+    NEW.kyc_status := OLD.kyc_status;
+    NEW.kyc_verified_at := OLD.kyc_verified_at;
+    NEW.kyc_tier := OLD.kyc_tier;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profiles_kyc
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_profile_kyc();
+
+-- A user's tier limits plus what they have already spent today (Lagos time).
+-- Failed purchases were refunded, so they don't count. Debits whose
+-- transaction row isn't written yet are counted from the ledger.
+CREATE OR REPLACE FUNCTION public.get_kyc_limits(p_user_id uuid)
+RETURNS jsonb LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_tier kyc_tiers%ROWTYPE;
+  v_day_start timestamptz := date_trunc('day', now() AT TIME ZONE 'Africa/Lagos') AT TIME ZONE 'Africa/Lagos';
+  v_spent numeric;
+BEGIN
+  SELECT t.* INTO v_tier
+  FROM kyc_tiers t
+  JOIN profiles p ON p.kyc_tier = t.tier
+  WHERE p.user_id = p_user_id;
+  IF NOT FOUND THEN
+    SELECT * INTO v_tier FROM kyc_tiers WHERE tier = 1;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_spent
+  FROM transactions
+  WHERE user_id = p_user_id
+    AND type IN ('airtime_purchase', 'data_purchase', 'auto_topup')
+    AND status NOT IN ('failed', 'refunded')
+    AND created_at >= v_day_start;
+
+  v_spent := v_spent + COALESCE((
+    SELECT SUM(l.amount) FROM wallet_ledger l
+    WHERE l.user_id = p_user_id
+      AND l.type = 'debit'
+      AND l.description = 'Purchase deduction'
+      AND l.created_at >= v_day_start
+      AND NOT EXISTS (SELECT 1 FROM transactions t WHERE t.reference = l.transaction_reference)
+  ), 0);
+
+  RETURN jsonb_build_object(
+    'tier', v_tier.tier,
+    'name', v_tier.name,
+    'max_balance', v_tier.max_balance,
+    'daily_spend_limit', v_tier.daily_spend_limit,
+    'single_transaction_limit', v_tier.single_transaction_limit,
+    'spent_today', v_spent,
+    'remaining_today', GREATEST(v_tier.daily_spend_limit - v_spent, 0)
+  );
+END;
+$$;
+
+-- Checks a purchase against the single-transaction and daily caps
+CREATE OR REPLACE FUNCTION public.check_spend_limits(p_user_id uuid, p_amount numeric)
+RETURNS jsonb LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_limits jsonb := get_kyc_limits(p_user_id);
+BEGIN
+  IF p_amount > (v_limits->>'single_transaction_limit')::numeric THEN
+    RETURN jsonb_build_object('allowed', false, 'code', 'KYC_SINGLE_LIMIT',
+      'error', format('%s allows up to ₦%s per purchase', v_limits->>'name',
+        to_char((v_limits->>'single_transaction_limit')::numeric, 'FM999,999,999')),
+      'limits', v_limits);
+  END IF;
+
+  IF p_amount > (v_limits->>'remaining_today')::numeric THEN
+    RETURN jsonb_build_object('allowed', false, 'code', 'KYC_DAILY_LIMIT',
+      'error', format('%s allows ₦%s of purchases per day; ₦%s left today', v_limits->>'name',
+        to_char((v_limits->>'daily_spend_limit')::numeric, 'FM999,999,999'),
+        to_char((v_limits->>'remaining_today')::numeric, 'FM999,999,999')),
+      'limits', v_limits);
+  END IF;
+
+  RETURN jsonb_build_object('allowed', true, 'limits', v_limits);
+END;
+$$;
+
+-- Purchase deduction with the tier's spend limits checked under the wallet
+-- lock, so concurrent purchases can't both slip under the daily cap.
+CREATE OR REPLACE FUNCTION public.lock_and_deduct_purchase(p_user_id uuid, p_amount numeric, p_reference text)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_check jsonb;
+BEGIN
+  PERFORM 1 FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wallet not found');
+  END IF;
+
+  v_check := check_spend_limits(p_user_id, p_amount);
+  IF NOT (v_check->>'allowed')::boolean THEN
+    RETURN jsonb_build_object('success', false, 'code', v_check->>'code',
+      'error', v_check->>'error', 'limits', v_check->'limits');
+  END IF;
+
+  RETURN lock_and_deduct_wallet(p_user_id, p_amount, p_reference);
+END;
+$$;
+
+-- Funding now stops at the tier's balance cap instead of the flat ₦8,000,000.
+-- Balances already above a lower cap are left alone; they just can't grow.
+CREATE OR REPLACE FUNCTION fund_wallet_atomic(p_user_id uuid, p_amount numeric, p_reference text)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_new_balance numeric;
+  v_limits jsonb;
+BEGIN
+  SELECT * INTO v_wallet FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wallet not found');
+  END IF;
+  v_limits := get_kyc_limits(p_user_id);
+  IF v_wallet.balance + p_amount > (v_limits->>'max_balance')::numeric THEN
+    RETURN jsonb_build_object('success', false, 'code', 'KYC_BALANCE_LIMIT',
+      'error', format('Maximum wallet balance of %s for %s exceeded', v_limits->>'max_balance', v_limits->>'name'));
+  END IF;
+  v_new_balance := v_wallet.balance + p_amount;
+  UPDATE wallets SET balance = v_new_balance, updated_at = now() WHERE id = v_wallet.id;
+  INSERT INTO wallet_ledger (user_id, wallet_id, transaction_reference, type, amount, balance_after, description)
+  VALUES (p_user_id, v_wallet.id, p_reference, 'credit', p_amount, v_new_balance, 'Wallet funding');
+  RETURN jsonb_build_object('success', true, 'wallet_id', v_wallet.id, 'balance_before', v_wallet.balance, 'balance_after', v_new_balance);
+END;
+$$;
+
+-- Virtual account transfers that would break the tier's cap go to suspense
+CREATE OR REPLACE FUNCTION credit_virtual_account_transfer(
+  p_provider text,
+  p_account_number text,
+  p_amount numeric,
+  p_gateway_reference text,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_existing uuid;
+  v_reason text;
+  v_reference text := 'vat_' || p_gateway_reference;
+  v_fund jsonb;
+  v_tx_id uuid;
+BEGIN
+  SELECT id INTO v_existing FROM transactions
+  WHERE type = 'deposit' AND provider_reference = p_gateway_reference;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'already_processed', true, 'transaction_id', v_existing);
+  END IF;
+
+  SELECT id INTO v_existing FROM funding_suspense
+  WHERE provider = p_provider AND provider_reference = p_gateway_reference;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', false, 'already_processed', true, 'suspended', true, 'suspense_id', v_existing);
+  END IF;
+
+  SELECT * INTO v_wallet FROM wallets WHERE virtual_account_number = p_account_number FOR UPDATE;
+  IF NOT FOUND THEN
+    v_reason := 'unmatched_account';
+  ELSIF v_wallet.balance + p_amount > (get_kyc_limits(v_wallet.user_id)->>'max_balance')::numeric THEN
+    v_reason := 'over_limit';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO funding_suspense (
+      provider, provider_reference, account_number, amount, reason, matched_user_id,
+      sender_name, sender_bank, sender_account_number, narration, raw_payload
+    ) VALUES (
+      p_provider, p_gateway_reference, p_account_number, p_amount, v_reason, v_wallet.user_id,
+      p_details->>'sender_name', p_details->>'sender_bank', p_details->>'sender_account_number',
+      p_details->>'narration', COALESCE(p_details->'raw', '{}'::jsonb)
+    ) RETURNING id INTO v_existing;
+    RETURN jsonb_build_object('success', false, 'suspended', true, 'reason', v_reason,
+      'suspense_id', v_existing, 'user_id', v_wallet.user_id);
+  END IF;
+
+  v_fund := fund_wallet_atomic(v_wallet.user_id, p_amount, v_reference);
+  IF NOT (v_fund->>'success')::boolean THEN
+    RAISE EXCEPTION 'Virtual account credit failed: %', v_fund->>'error';
+  END IF;
+
+  INSERT INTO transactions (
+    wallet_id, user_id, type, amount, balance_before, balance_after, status,
+    reference, provider, provider_reference, description, metadata
+  ) VALUES (
+    v_wallet.id, v_wallet.user_id, 'deposit', p_amount,
+    (v_fund->>'balance_before')::numeric, (v_fund->>'balance_after')::numeric, 'completed',
+    v_reference, p_provider, p_gateway_reference, 'Bank Transfer',
+    jsonb_build_object('channel', 'bank_transfer', 'account_number', p_account_number) || (p_details - 'raw')
+  ) RETURNING id INTO v_tx_id;
+
+  RETURN jsonb_build_object('success', true, 'already_processed', false, 'transaction_id', v_tx_id,
+    'user_id', v_wallet.user_id, 'balance_after', (v_fund->>'balance_after')::numeric);
+END;
+$$;
+
+-- Limit checks take any user id, so only the service role may call them
+REVOKE EXECUTE ON FUNCTION public.get_kyc_limits(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_spend_limits(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_and_deduct_purchase(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+
+-- Crediting functions redefined above stay service-role only
+REVOKE EXECUTE ON FUNCTION public.fund_wallet_atomic(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.credit_virtual_account_transfer(text, text, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,119 @@
+-- BVN verification as a second KYC method, alongside NIN.
+-- Only keyed hashes of the BVN are stored; partial name matches wait in
+-- bvn_reviews for an admin.
+
+-- A BVN-only user has no NIN on file
+ALTER TABLE public.user_kyc
+  ALTER COLUMN nin_number_encrypted DROP NOT NULL,
+  ALTER COLUMN nin_hash DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS bvn_hash TEXT,
+  ADD COLUMN IF NOT EXISTS bvn_match_score NUMERIC(3,2),
+  ADD COLUMN IF NOT EXISTS bvn_verified_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.user_kyc.bvn_hash IS 'HMAC-SHA256 of the BVN under KYC_HASH_SECRET. The BVN itself is never stored.';
+COMMENT ON COLUMN public.user_kyc.bvn_match_score IS 'Name match score (0-1) between the BVN record and profiles.full_name.';
+
+-- One BVN can verify one account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_kyc_bvn_hash
+  ON public.user_kyc(bvn_hash) WHERE bvn_hash IS NOT NULL;
+
+-- Either identity number now earns Tier 2
+UPDATE public.kyc_tiers SET requirements = 'Verified NIN or BVN' WHERE tier = 2;
+
+-- A partial match is waiting on an admin
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_kyc_status_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_kyc_status_check
+  CHECK (kyc_status IN ('pending', 'in_review', 'verified', 'rejected'));
+
+-- Review queue: BVN lookups whose name only partly matched the profile
+CREATE TABLE public.bvn_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bvn_hash TEXT NOT NULL,
+  match_score NUMERIC(3,2) NOT NULL,
+  profile_name TEXT NOT NULL, -- profiles.full_name when submitted
+  bvn_name TEXT NOT NULL, -- name on the BVN record
+  provider TEXT NOT NULL,
+  provider_reference TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'approved', 'rejected')),
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bvn_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view BVN reviews"
+  ON public.bvn_reviews FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_bvn_reviews_open ON public.bvn_reviews(created_at) WHERE status = 'open';
+CREATE UNIQUE INDEX idx_bvn_reviews_one_open_per_user ON public.bvn_reviews(user_id) WHERE status = 'open';
+
+-- Every paid lookup, so verify-bvn can cap them per user per day
+CREATE TABLE public.bvn_lookups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('verified', 'review', 'mismatch', 'not_found', 'error')),
+  match_score NUMERIC(3,2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Service role only: no client policies
+ALTER TABLE public.bvn_lookups ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_bvn_lookups_user ON public.bvn_lookups(user_id, created_at DESC);
+
+-- Admin resolution of a BVN review. Approval records the BVN on user_kyc and
+-- lifts the user to Tier 2 (never lowering a higher tier); rejection returns
+-- an unverified user to 'pending' so they can try again or use NIN.
+CREATE OR REPLACE FUNCTION public.resolve_bvn_review(p_review_id uuid, p_admin_id uuid, p_approve boolean, p_note text)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_review bvn_reviews%ROWTYPE;
+  v_tier smallint;
+BEGIN
+  SELECT * INTO v_review FROM bvn_reviews WHERE id = p_review_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Review not found');
+  END IF;
+  IF v_review.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Review is already ' || v_review.status);
+  END IF;
+
+  IF p_approve THEN
+    IF EXISTS (SELECT 1 FROM user_kyc WHERE bvn_hash = v_review.bvn_hash AND user_id <> v_review.user_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'This BVN already verifies another account');
+    END IF;
+
+    INSERT INTO user_kyc (user_id, bvn_hash, bvn_match_score, bvn_verified_at, kyc_status, kyc_verified_at)
+    VALUES (v_review.user_id, v_review.bvn_hash, v_review.match_score, now(), 'verified', now())
+    ON CONFLICT (user_id) DO UPDATE SET
+      bvn_hash = EXCLUDED.bvn_hash,
+      bvn_match_score = EXCLUDED.bvn_match_score,
+      bvn_verified_at = EXCLUDED.bvn_verified_at,
+      kyc_status = 'verified',
+      kyc_verified_at = COALESCE(user_kyc.kyc_verified_at, EXCLUDED.kyc_verified_at);
+
+    UPDATE profiles SET
+      kyc_status = 'verified',
+      kyc_verified_at = COALESCE(kyc_verified_at, now()),
+      kyc_tier = GREATEST(kyc_tier, 2)
+    WHERE user_id = v_review.user_id
+    RETURNING kyc_tier INTO v_tier;
+  ELSE
+    UPDATE profiles SET kyc_status = 'pending'
+    WHERE user_id = v_review.user_id AND kyc_status = 'in_review';
+  END IF;
+
+  UPDATE bvn_reviews SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    resolved_by = p_admin_id, resolved_at = now(), resolution_note = p_note
+  WHERE id = v_review.id;
+
+  RETURN jsonb_build_object('success', true, 'kyc_tier', v_tier);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_bvn_review(uuid, uuid, boolean, text) FROM PUBLIC, anon, authenticated;
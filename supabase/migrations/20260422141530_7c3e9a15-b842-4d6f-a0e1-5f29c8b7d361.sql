@@ -0,0 +1,29 @@
+-- NIN moves from base64 to AES-GCM envelope encryption (see _shared/pii.ts).
+-- Existing rows are upgraded by the reencrypt-pii job.
+
+ALTER TABLE public.user_kyc
+  ADD COLUMN IF NOT EXISTS nin_key_version SMALLINT;
+
+COMMENT ON COLUMN public.user_kyc.nin_number_encrypted IS 'NIN, envelope-encrypted: pii1:<key version>:<wrapped data key>:<iv>:<ciphertext>. Legacy rows are plain base64 until reencrypt-pii runs.';
+COMMENT ON COLUMN public.user_kyc.nin_key_version IS 'Key version nin_number_encrypted is wrapped with; NULL for legacy base64. Lets reencrypt-pii find rows to rotate.';
+
+CREATE INDEX IF NOT EXISTS idx_user_kyc_nin_key_version
+  ON public.user_kyc(nin_key_version) WHERE nin_number_encrypted IS NOT NULL;
+
+-- Every admin decryption of PII, written before the value is returned
+CREATE TABLE public.pii_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_id UUID NOT NULL,
+  subject_user_id UUID NOT NULL,
+  field TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pii_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view PII access log"
+  ON public.pii_access_log FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_pii_access_log_subject ON public.pii_access_log(subject_user_id, created_at DESC);
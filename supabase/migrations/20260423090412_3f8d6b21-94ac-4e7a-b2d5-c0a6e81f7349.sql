@@ -0,0 +1,26 @@
+-- Scheduled top-up times are wall-clock times in the user's timezone
+-- (see _shared/recurrence.ts). Africa/Lagos unless the user picks another.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Africa/Lagos';
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA timezone for scheduled top-up times. Unknown zones fall back to Africa/Lagos.';
+
+-- Recurring schedules were computed in the edge runtime's UTC, so "07:00"
+-- was stored as 07:00 UTC (08:00 WAT). Move pending runs to 07:00 WAT.
+-- Rows whose UTC time doesn't equal recurring_time weren't computed the
+-- old way and are left alone.
+UPDATE public.scheduled_topups
+SET next_execution_at = next_execution_at - interval '1 hour'
+WHERE status = 'active'
+  AND schedule_type IN ('daily', 'weekly', 'monthly')
+  AND recurring_time IS NOT NULL
+  AND next_execution_at IS NOT NULL
+  AND (next_execution_at AT TIME ZONE 'UTC')::time = recurring_time;
+
+-- Monthly schedules may now pick the 29th–31st; shorter months clamp to
+-- their last day.
+ALTER TABLE public.scheduled_topups
+  DROP CONSTRAINT IF EXISTS scheduled_topups_recurring_day_of_month_check;
+ALTER TABLE public.scheduled_topups
+  ADD CONSTRAINT scheduled_topups_recurring_day_of_month_check
+  CHECK (recurring_day_of_month BETWEEN 1 AND 31);
@@ -0,0 +1,37 @@
+-- Richer recurrence for scheduled top-ups, modelled on iCalendar RRULE
+-- (see _shared/recurrence.ts):
+--   recurring_interval      every N days / weeks / months (INTERVAL)
+--   recurring_days_of_week  several weekdays for weekly schedules (BYDAY)
+--   recurring_month_rule    which day a monthly schedule runs on
+--   starts_on / ends_on     first and last day it may run (UNTIL)
+ALTER TABLE public.scheduled_topups
+  ADD COLUMN IF NOT EXISTS recurring_interval INTEGER NOT NULL DEFAULT 1
+    CHECK (recurring_interval BETWEEN 1 AND 365),
+  ADD COLUMN IF NOT EXISTS recurring_days_of_week SMALLINT[]
+    CHECK (cardinality(recurring_days_of_week) > 0 AND recurring_days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  ADD COLUMN IF NOT EXISTS recurring_month_rule TEXT NOT NULL DEFAULT 'day_of_month'
+    CHECK (recurring_month_rule IN ('day_of_month', 'last_business_day', 'payday')),
+  ADD COLUMN IF NOT EXISTS starts_on DATE,
+  ADD COLUMN IF NOT EXISTS ends_on DATE;
+
+ALTER TABLE public.scheduled_topups
+  ADD CONSTRAINT scheduled_topups_ends_on_check CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on);
+
+COMMENT ON COLUMN public.scheduled_topups.recurring_interval IS 'Runs every N days (daily), weeks (weekly) or months (monthly), counted from starts_on.';
+COMMENT ON COLUMN public.scheduled_topups.recurring_days_of_week IS 'Weekly: days it runs on, 0 = Sunday. Replaces recurring_day_of_week.';
+COMMENT ON COLUMN public.scheduled_topups.recurring_month_rule IS 'Monthly: day_of_month (clamped to month end), last_business_day, or payday (recurring_day_of_month, or the Friday before if a weekend).';
+COMMENT ON COLUMN public.scheduled_topups.starts_on IS 'First day a recurring schedule may run, in the user''s timezone.';
+COMMENT ON COLUMN public.scheduled_topups.ends_on IS 'Last day it may run (inclusive), in the user''s timezone. Null runs until max_executions.';
+
+-- Existing weekly schedules keep their single day
+UPDATE public.scheduled_topups
+SET recurring_days_of_week = ARRAY[recurring_day_of_week]::SMALLINT[]
+WHERE schedule_type = 'weekly'
+  AND recurring_day_of_week IS NOT NULL
+  AND recurring_days_of_week IS NULL;
+
+-- Intervals count from starts_on; every profile is still on Africa/Lagos
+UPDATE public.scheduled_topups
+SET starts_on = (created_at AT TIME ZONE 'Africa/Lagos')::date
+WHERE schedule_type <> 'one_time'
+  AND starts_on IS NULL;
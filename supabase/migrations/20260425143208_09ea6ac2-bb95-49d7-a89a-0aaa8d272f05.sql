@@ -0,0 +1,31 @@
+-- Per-occurrence changes to a scheduled top-up, without altering the series
+-- (see cancel-managed-topup). An occurrence is identified by the time the
+-- rule would run it:
+--   skip  the occurrence doesn't run
+--   move  it runs at moved_to instead (snooze, or moved to another date)
+CREATE TABLE public.scheduled_topup_exceptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scheduled_topup_id UUID NOT NULL REFERENCES public.scheduled_topups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  occurrence_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('skip', 'move')),
+  moved_to TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((kind = 'move') = (moved_to IS NOT NULL)),
+  UNIQUE (scheduled_topup_id, occurrence_at)
+);
+
+ALTER TABLE public.scheduled_topup_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users, service role writes
+CREATE POLICY "Users can view their own schedule exceptions"
+  ON public.scheduled_topup_exceptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_scheduled_topup_exceptions_topup_id ON public.scheduled_topup_exceptions(scheduled_topup_id);
+
+CREATE TRIGGER update_scheduled_topup_exceptions_updated_at
+  BEFORE UPDATE ON public.scheduled_topup_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,57 @@
+-- Retries for scheduled top-ups that fail on a low wallet or a provider
+-- error (see execute-scheduled-topups):
+--   retry_interval_minutes  retry this often; null = don't retry
+--   retry_window_hours      how long to keep trying a run (never past the next run)
+--   hold_until_funded       on a low wallet, wait for a funding instead of
+--                           polling; fund_wallet_atomic releases the run
+-- and the state of the run being retried.
+ALTER TABLE public.scheduled_topups
+  ADD COLUMN IF NOT EXISTS retry_interval_minutes INTEGER CHECK (retry_interval_minutes BETWEEN 5 AND 720),
+  ADD COLUMN IF NOT EXISTS retry_window_hours INTEGER NOT NULL DEFAULT 6 CHECK (retry_window_hours BETWEEN 1 AND 72),
+  ADD COLUMN IF NOT EXISTS hold_until_funded BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS retry_attempt INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS retry_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS held_since TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.scheduled_topups.retry_attempt IS 'Failed attempts at the current run; 0 when it is not being retried.';
+COMMENT ON COLUMN public.scheduled_topups.retry_until IS 'When retrying the current run stops and it is given up.';
+COMMENT ON COLUMN public.scheduled_topups.held_since IS 'Set while the current run waits for the wallet to be funded.';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_topups_held ON public.scheduled_topups(user_id) WHERE held_since IS NOT NULL;
+
+-- Same as before, plus: runs held for funds that the new balance covers are
+-- made due, so the next execute-scheduled-topups pass picks them up.
+CREATE OR REPLACE FUNCTION fund_wallet_atomic(p_user_id uuid, p_amount numeric, p_reference text)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_new_balance numeric;
+  v_limits jsonb;
+BEGIN
+  SELECT * INTO v_wallet FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wallet not found');
+  END IF;
+  v_limits := get_kyc_limits(p_user_id);
+  IF v_wallet.balance + p_amount > (v_limits->>'max_balance')::numeric THEN
+    RETURN jsonb_build_object('success', false, 'code', 'KYC_BALANCE_LIMIT',
+      'error', format('Maximum wallet balance of %s for %s exceeded', v_limits->>'max_balance', v_limits->>'name'));
+  END IF;
+  v_new_balance := v_wallet.balance + p_amount;
+  UPDATE wallets SET balance = v_new_balance, updated_at = now() WHERE id = v_wallet.id;
+  INSERT INTO wallet_ledger (user_id, wallet_id, transaction_reference, type, amount, balance_after, description)
+  VALUES (p_user_id, v_wallet.id, p_reference, 'credit', p_amount, v_new_balance, 'Wallet funding');
+
+  UPDATE scheduled_topups
+  SET next_execution_at = now()
+  WHERE user_id = p_user_id
+    AND status = 'active'
+    AND held_since IS NOT NULL
+    AND amount <= v_new_balance
+    AND next_execution_at > now();
+
+  RETURN jsonb_build_object('success', true, 'wallet_id', v_wallet.id, 'balance_before', v_wallet.balance, 'balance_after', v_new_balance);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fund_wallet_atomic(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+-- Leases on due schedules, so overlapping execute-scheduled-topups runs (and
+-- the workers inside one run) never pick up the same schedule at once.
+ALTER TABLE public.scheduled_topups
+  ADD COLUMN IF NOT EXISTS lease_token UUID,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.scheduled_topups.lease_token IS 'Set while an executor works on the schedule; its updates are conditional on it.';
+COMMENT ON COLUMN public.scheduled_topups.lease_expires_at IS 'After this the lease is abandoned (the executor died) and the schedule can be claimed again.';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_topups_due
+  ON public.scheduled_topups(next_execution_at) WHERE status = 'active';
+
+-- Executions are written before charging ('processing') and keyed by the run
+-- they're for. The unique index lets each run charge at most once; failed
+-- attempts don't hold the key, so retries can take it again.
+ALTER TABLE public.scheduled_topup_executions
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+ALTER TABLE public.scheduled_topup_executions
+  DROP CONSTRAINT IF EXISTS scheduled_topup_executions_status_check;
+ALTER TABLE public.scheduled_topup_executions
+  ADD CONSTRAINT scheduled_topup_executions_status_check
+  CHECK (status IN ('processing', 'success', 'pending_verification', 'failed', 'skipped'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_topup_executions_idempotency
+  ON public.scheduled_topup_executions(idempotency_key)
+  WHERE status IN ('processing', 'success', 'pending_verification');
+
+-- Claims up to p_limit due schedules for p_lease_seconds. Rows another
+-- transaction is claiming are skipped rather than waited on, and rows under a
+-- live lease aren't returned, so concurrent callers get disjoint batches.
+CREATE OR REPLACE FUNCTION public.claim_due_scheduled_topups(p_limit integer, p_lease_seconds integer)
+RETURNS SETOF public.scheduled_topups LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE scheduled_topups s
+  SET lease_token = gen_random_uuid(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE s.id IN (
+    SELECT id FROM scheduled_topups
+    WHERE status = 'active'
+      -- Authorized with the user's PIN at creation (or last purchase change)
+      AND pin_authorized_at IS NOT NULL
+      AND next_execution_at <= now()
+      AND (lease_expires_at IS NULL OR lease_expires_at <= now())
+    ORDER BY next_execution_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_scheduled_topups(integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Pre-run reminders (see scheduled-topup-reminders): the run a schedule was
+-- last reminded about, so each run is only announced once.
+ALTER TABLE public.scheduled_topups
+  ADD COLUMN IF NOT EXISTS reminder_sent_for TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.scheduled_topups.reminder_sent_for IS 'next_execution_at of the run the user was last reminded about.';
@@ -0,0 +1,128 @@
+-- Data plan catalog: the plans we sell, kept in step with the VTU provider
+-- by sync-data-plans. plan_id is the provider's id, sent with purchases.
+-- category and tag are ours to curate; the sync only sets category when it
+-- first sees a plan.
+CREATE TABLE public.data_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  network TEXT NOT NULL,
+  plan_id TEXT NOT NULL,
+  provider TEXT,
+  name TEXT NOT NULL,
+  data_amount TEXT NOT NULL,
+  validity TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('HOT', 'Daily', 'Weekly', 'Monthly', 'Always-On')),
+  tag TEXT,
+  cost_price NUMERIC NOT NULL CHECK (cost_price >= 0),
+  final_price NUMERIC NOT NULL CHECK (final_price >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  deactivated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (network, plan_id)
+);
+
+COMMENT ON COLUMN public.data_plans.network IS 'Upper case: MTN, AIRTEL, GLO or 9MOBILE.';
+COMMENT ON COLUMN public.data_plans.provider IS 'Provider that last listed the plan; null for plans not yet seen by a sync.';
+COMMENT ON COLUMN public.data_plans.is_active IS 'False once the provider stops listing the plan. Rows are kept for history and existing schedules.';
+
+CREATE INDEX idx_data_plans_network_active ON public.data_plans (network, is_active);
+
+ALTER TABLE public.data_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view data plans"
+ON public.data_plans FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_data_plans_updated_at
+BEFORE UPDATE ON public.data_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every cost price a plan has had, written by the sync when it changes.
+CREATE TABLE public.data_plan_price_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  data_plan_id UUID NOT NULL REFERENCES public.data_plans(id) ON DELETE CASCADE,
+  cost_price NUMERIC NOT NULL,
+  final_price NUMERIC NOT NULL,
+  previous_cost_price NUMERIC,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_data_plan_price_history_plan ON public.data_plan_price_history (data_plan_id, recorded_at DESC);
+
+ALTER TABLE public.data_plan_price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view data plan price history"
+ON public.data_plan_price_history FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Schedules whose plan changed under them, until the owner edits the schedule.
+ALTER TABLE public.scheduled_topups
+  ADD COLUMN IF NOT EXISTS plan_status TEXT CHECK (plan_status IN ('price_changed', 'discontinued')),
+  ADD COLUMN IF NOT EXISTS plan_status_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.scheduled_topups.plan_status IS 'Set by sync-data-plans when the data plan''s price no longer matches amount, or the plan is discontinued.';
+
+-- The catalog the app shipped with, so existing purchases and schedules keep
+-- resolving until the first sync replaces it.
+INSERT INTO public.data_plans (network, plan_id, name, data_amount, validity, category, tag, cost_price, final_price) VALUES
+  ('MTN', 'mtn-hot-1', '1GB 1 Day', '1GB', '1 Day', 'HOT', 'Best Seller', 271, 285),
+  ('MTN', 'mtn-hot-2', '2GB 2 Days', '2GB', '2 Days', 'HOT', 'Popular', 542, 570),
+  ('MTN', 'mtn-hot-3', '3.5GB 7 Days', '3.5GB', '7 Days', 'HOT', 'Best Price', 950, 998),
+  ('MTN', 'mtn-daily-1', '100MB 1 Day', '100MB', '1 Day', 'Daily', NULL, 95, 100),
+  ('MTN', 'mtn-daily-2', '200MB 1 Day', '200MB', '1 Day', 'Daily', NULL, 190, 200),
+  ('MTN', 'mtn-daily-3', '1GB 1 Day', '1GB', '1 Day', 'Daily', NULL, 285, 300),
+  ('MTN', 'mtn-daily-4', '2GB 1 Day', '2GB', '1 Day', 'Daily', NULL, 475, 499),
+  ('MTN', 'mtn-weekly-1', '750MB 7 Days', '750MB', '7 Days', 'Weekly', NULL, 475, 499),
+  ('MTN', 'mtn-weekly-2', '1.5GB 7 Days', '1.5GB', '7 Days', 'Weekly', NULL, 950, 998),
+  ('MTN', 'mtn-weekly-3', '3GB 7 Days', '3GB', '7 Days', 'Weekly', NULL, 1425, 1497),
+  ('MTN', 'mtn-weekly-4', '6GB 7 Days', '6GB', '7 Days', 'Weekly', 'Best Price', 2375, 2494),
+  ('MTN', 'mtn-monthly-1', '1.5GB 30 Days', '1.5GB', '30 Days', 'Monthly', NULL, 950, 998),
+  ('MTN', 'mtn-monthly-2', '3GB 30 Days', '3GB', '30 Days', 'Monthly', NULL, 1425, 1497),
+  ('MTN', 'mtn-monthly-3', '6GB 30 Days', '6GB', '30 Days', 'Monthly', 'Popular', 2375, 2494),
+  ('MTN', 'mtn-monthly-4', '10GB 30 Days', '10GB', '30 Days', 'Monthly', 'Best Seller', 3325, 3492),
+  ('MTN', 'mtn-monthly-5', '25GB 30 Days', '25GB', '30 Days', 'Monthly', NULL, 6175, 6484),
+  ('MTN', 'mtn-monthly-6', '40GB 30 Days', '40GB', '30 Days', 'Monthly', NULL, 9500, 9975),
+  ('MTN', 'mtn-always-1', '1GB Night', '1GB', 'Night', 'Always-On', 'Night Plan', 238, 250),
+  ('MTN', 'mtn-always-2', '2GB Night', '2GB', 'Night', 'Always-On', 'Night Plan', 475, 499),
+  ('AIRTEL', 'airtel-hot-1', '1GB 1 Day', '1GB', '1 Day', 'HOT', 'Best Seller', 271, 285),
+  ('AIRTEL', 'airtel-hot-2', '2GB 2 Days', '2GB', '2 Days', 'HOT', 'Popular', 475, 499),
+  ('AIRTEL', 'airtel-hot-3', '3GB 7 Days', '3GB', '7 Days', 'HOT', 'Best Price', 855, 898),
+  ('AIRTEL', 'airtel-daily-1', '100MB 1 Day', '100MB', '1 Day', 'Daily', NULL, 95, 100),
+  ('AIRTEL', 'airtel-daily-2', '200MB 1 Day', '200MB', '1 Day', 'Daily', NULL, 190, 200),
+  ('AIRTEL', 'airtel-daily-3', '1GB 1 Day', '1GB', '1 Day', 'Daily', NULL, 285, 300),
+  ('AIRTEL', 'airtel-weekly-1', '1GB 7 Days', '1GB', '7 Days', 'Weekly', NULL, 475, 499),
+  ('AIRTEL', 'airtel-weekly-2', '2GB 7 Days', '2GB', '7 Days', 'Weekly', NULL, 855, 898),
+  ('AIRTEL', 'airtel-weekly-3', '3GB 7 Days', '3GB', '7 Days', 'Weekly', NULL, 1140, 1197),
+  ('AIRTEL', 'airtel-monthly-1', '1.5GB 30 Days', '1.5GB', '30 Days', 'Monthly', NULL, 950, 998),
+  ('AIRTEL', 'airtel-monthly-2', '3GB 30 Days', '3GB', '30 Days', 'Monthly', NULL, 1425, 1497),
+  ('AIRTEL', 'airtel-monthly-3', '6GB 30 Days', '6GB', '30 Days', 'Monthly', 'Popular', 2375, 2494),
+  ('AIRTEL', 'airtel-monthly-4', '10GB 30 Days', '10GB', '30 Days', 'Monthly', NULL, 3325, 3492),
+  ('AIRTEL', 'airtel-always-1', '500MB Night', '500MB', 'Night', 'Always-On', 'Night Plan', 238, 250),
+  ('GLO', 'glo-hot-1', '1.35GB 14 Days', '1.35GB', '14 Days', 'HOT', 'Best Seller', 475, 499),
+  ('GLO', 'glo-hot-2', '2.9GB 30 Days', '2.9GB', '30 Days', 'HOT', 'Best Price', 950, 998),
+  ('GLO', 'glo-daily-1', '150MB 1 Day', '150MB', '1 Day', 'Daily', NULL, 95, 100),
+  ('GLO', 'glo-daily-2', '350MB 1 Day', '350MB', '1 Day', 'Daily', NULL, 190, 200),
+  ('GLO', 'glo-daily-3', '1GB 1 Day', '1GB', '1 Day', 'Daily', NULL, 285, 300),
+  ('GLO', 'glo-weekly-1', '1.35GB 14 Days', '1.35GB', '14 Days', 'Weekly', NULL, 475, 499),
+  ('GLO', 'glo-weekly-2', '2.5GB 7 Days', '2.5GB', '7 Days', 'Weekly', NULL, 950, 998),
+  ('GLO', 'glo-monthly-1', '2.9GB 30 Days', '2.9GB', '30 Days', 'Monthly', NULL, 950, 998),
+  ('GLO', 'glo-monthly-2', '5.8GB 30 Days', '5.8GB', '30 Days', 'Monthly', NULL, 1900, 1995),
+  ('GLO', 'glo-monthly-3', '7.7GB 30 Days', '7.7GB', '30 Days', 'Monthly', 'Popular', 2375, 2494),
+  ('GLO', 'glo-monthly-4', '10GB 30 Days', '10GB', '30 Days', 'Monthly', NULL, 2850, 2993),
+  ('GLO', 'glo-always-1', '1GB Night', '1GB', 'Night', 'Always-On', 'Night Plan', 190, 200),
+  ('9MOBILE', '9mobile-hot-1', '1GB 1 Day', '1GB', '1 Day', 'HOT', 'Best Seller', 285, 300),
+  ('9MOBILE', '9mobile-hot-2', '2.5GB 30 Days', '2.5GB', '30 Days', 'HOT', 'Best Price', 950, 998),
+  ('9MOBILE', '9mobile-daily-1', '100MB 1 Day', '100MB', '1 Day', 'Daily', NULL, 95, 100),
+  ('9MOBILE', '9mobile-daily-2', '650MB 1 Day', '650MB', '1 Day', 'Daily', NULL, 190, 200),
+  ('9MOBILE', '9mobile-daily-3', '1GB 1 Day', '1GB', '1 Day', 'Daily', NULL, 285, 300),
+  ('9MOBILE', '9mobile-weekly-1', '1.5GB 7 Days', '1.5GB', '7 Days', 'Weekly', NULL, 475, 499),
+  ('9MOBILE', '9mobile-weekly-2', '2GB 7 Days', '2GB', '7 Days', 'Weekly', NULL, 855, 898),
+  ('9MOBILE', '9mobile-monthly-1', '2.5GB 30 Days', '2.5GB', '30 Days', 'Monthly', NULL, 950, 998),
+  ('9MOBILE', '9mobile-monthly-2', '4GB 30 Days', '4GB', '30 Days', 'Monthly', NULL, 1425, 1497),
+  ('9MOBILE', '9mobile-monthly-3', '11GB 30 Days', '11GB', '30 Days', 'Monthly', 'Popular', 3325, 3492),
+  ('9MOBILE', '9mobile-always-1', '1GB Night', '1GB', 'Night', 'Always-On', 'Night Plan', 190, 200);
+
+INSERT INTO public.data_plan_price_history (data_plan_id, cost_price, final_price)
+SELECT id, cost_price, final_price FROM public.data_plans;
@@ -0,0 +1,47 @@
+-- Pricing rules: what we charge on top of what a product costs us, owned by
+-- the server so finance can change margins without a deploy. A null match
+-- column matches anything; see _shared/pricing for how the winning rule is
+-- picked and applied.
+CREATE TABLE public.pricing_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  product TEXT CHECK (product IN ('airtime', 'data')),
+  network TEXT CHECK (network IN ('MTN', 'AIRTEL', 'GLO', '9MOBILE')),
+  plan_category TEXT CHECK (plan_category IN ('HOT', 'Daily', 'Weekly', 'Monthly', 'Always-On')),
+  kyc_tier SMALLINT REFERENCES public.kyc_tiers(tier),
+  margin_percent NUMERIC NOT NULL DEFAULT 0 CHECK (margin_percent >= 0 AND margin_percent <= 100),
+  fixed_fee NUMERIC NOT NULL DEFAULT 0 CHECK (fixed_fee >= 0),
+  min_markup NUMERIC CHECK (min_markup >= 0),
+  max_markup NUMERIC CHECK (max_markup >= 0),
+  priority INTEGER NOT NULL DEFAULT 0,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (min_markup IS NULL OR max_markup IS NULL OR min_markup <= max_markup),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at),
+  CHECK (plan_category IS NULL OR product = 'data')
+);
+
+COMMENT ON COLUMN public.pricing_rules.margin_percent IS 'Percentage of the cost (airtime face value, or the data plan''s cost price) added to the price.';
+COMMENT ON COLUMN public.pricing_rules.min_markup IS 'Least the margin and fee together may come to, in NGN.';
+COMMENT ON COLUMN public.pricing_rules.max_markup IS 'Most the margin and fee together may come to, in NGN.';
+COMMENT ON COLUMN public.pricing_rules.priority IS 'Higher wins; among equal priorities the more specific rule wins. Give time-boxed overrides a higher priority than the rules they override.';
+
+CREATE INDEX idx_pricing_rules_active ON public.pricing_rules (is_active, priority DESC);
+
+ALTER TABLE public.pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view pricing rules"
+ON public.pricing_rules FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_pricing_rules_updated_at
+BEFORE UPDATE ON public.pricing_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The flat margin every price used until now
+INSERT INTO public.pricing_rules (name, margin_percent) VALUES ('Default margin', 5);
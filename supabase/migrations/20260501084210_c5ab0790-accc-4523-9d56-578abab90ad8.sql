@@ -0,0 +1,42 @@
+-- Price quotes: a price held for one purchase for a few minutes, so what the
+-- user confirms is exactly what they're charged. Issued by the pricing
+-- function and signed over everything that decides the charge (see
+-- _shared/quotes); purchases claim a quote once and link it to their
+-- transaction.
+CREATE TABLE public.price_quotes (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product TEXT NOT NULL CHECK (product IN ('airtime', 'data')),
+  network TEXT NOT NULL CHECK (network IN ('MTN', 'AIRTEL', 'GLO', '9MOBILE')),
+  face_value NUMERIC,
+  plan_id TEXT,
+  cost_price NUMERIC NOT NULL,
+  margin NUMERIC NOT NULL,
+  fee NUMERIC NOT NULL,
+  price NUMERIC NOT NULL CHECK (price > 0),
+  pricing_rule_id UUID REFERENCES public.pricing_rules(id) ON DELETE SET NULL,
+  signature TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (product = 'airtime' AND face_value IS NOT NULL AND plan_id IS NULL)
+    OR (product = 'data' AND plan_id IS NOT NULL AND face_value IS NULL)
+  )
+);
+
+COMMENT ON COLUMN public.price_quotes.signature IS 'Hex HMAC-SHA256 under QUOTE_SIGNING_SECRET; a row that no longer matches it is refused.';
+COMMENT ON COLUMN public.price_quotes.used_at IS 'When a purchase claimed the quote; each quote pays for at most one purchase.';
+
+CREATE INDEX idx_price_quotes_user ON public.price_quotes (user_id, created_at DESC);
+
+ALTER TABLE public.price_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own price quotes"
+ON public.price_quotes FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all price quotes"
+ON public.price_quotes FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,151 @@
+-- Promo codes: admin-created discounts taken off a purchase's quoted price.
+-- A code is applied when the quote is issued (see _shared/promos) and
+-- redeemed when the purchase claims the quote; redemptions of failed or
+-- refunded purchases don't count towards the limits.
+CREATE TABLE public.promo_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value NUMERIC NOT NULL CHECK (discount_value > 0),
+  max_discount NUMERIC CHECK (max_discount > 0),
+  min_purchase NUMERIC NOT NULL DEFAULT 0 CHECK (min_purchase >= 0),
+  product TEXT CHECK (product IN ('airtime', 'data')),
+  network TEXT CHECK (network IN ('MTN', 'AIRTEL', 'GLO', '9MOBILE')),
+  first_purchase_only BOOLEAN NOT NULL DEFAULT false,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  max_redemptions_per_user INTEGER DEFAULT 1 CHECK (max_redemptions_per_user > 0),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (discount_type = 'fixed' OR discount_value <= 100),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+COMMENT ON COLUMN public.promo_codes.discount_value IS 'Percentage of the price for percent codes, NGN for fixed codes.';
+COMMENT ON COLUMN public.promo_codes.max_discount IS 'Most a percent code takes off one purchase, in NGN.';
+COMMENT ON COLUMN public.promo_codes.min_purchase IS 'Least the price before discount must be, in NGN.';
+COMMENT ON COLUMN public.promo_codes.max_redemptions IS 'Redemptions across all users; null for no limit.';
+COMMENT ON COLUMN public.promo_codes.max_redemptions_per_user IS 'Redemptions per user; null for no limit.';
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view promo codes"
+ON public.promo_codes FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_promo_codes_updated_at
+BEFORE UPDATE ON public.promo_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A quote carries the code it was priced with; price is after the discount
+ALTER TABLE public.price_quotes
+  ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id),
+  ADD COLUMN discount NUMERIC NOT NULL DEFAULT 0 CHECK (discount >= 0);
+
+CREATE TABLE public.promo_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  promo_code_id UUID NOT NULL REFERENCES public.promo_codes(id),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL UNIQUE REFERENCES public.price_quotes(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  discount NUMERIC NOT NULL CHECK (discount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_promo_redemptions_code ON public.promo_redemptions (promo_code_id, user_id);
+
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own promo redemptions"
+ON public.promo_redemptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all promo redemptions"
+ON public.promo_redemptions FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The purchase debit records the promo it was discounted by
+ALTER TABLE public.wallet_ledger
+  ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id),
+  ADD COLUMN discount NUMERIC CHECK (discount > 0);
+
+COMMENT ON COLUMN public.wallet_ledger.discount IS 'Promo discount already taken off this debit, in NGN.';
+
+-- Whether a user can redeem a code right now: active, inside its window,
+-- under its limits, and (for first-purchase codes) before any purchase.
+CREATE OR REPLACE FUNCTION public.check_promo_code(p_promo_code_id UUID, p_user_id UUID)
+RETURNS jsonb LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+  v_used INTEGER;
+  v_used_by_user INTEGER;
+BEGIN
+  SELECT * INTO v_promo FROM promo_codes WHERE id = p_promo_code_id;
+  IF NOT FOUND OR NOT v_promo.is_active
+     OR (v_promo.starts_at IS NOT NULL AND v_promo.starts_at > now())
+     OR (v_promo.ends_at IS NOT NULL AND v_promo.ends_at <= now()) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'PROMO_EXPIRED', 'error', 'This promo code is no longer active');
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE r.user_id = p_user_id)
+  INTO v_used, v_used_by_user
+  FROM promo_redemptions r
+  LEFT JOIN transactions t ON t.id = r.transaction_id
+  WHERE r.promo_code_id = p_promo_code_id
+    AND (t.id IS NULL OR t.status NOT IN ('failed', 'refunded'));
+
+  IF v_promo.max_redemptions IS NOT NULL AND v_used >= v_promo.max_redemptions THEN
+    RETURN jsonb_build_object('success', false, 'code', 'PROMO_LIMIT_REACHED', 'error', 'This promo code has been fully redeemed');
+  END IF;
+  IF v_promo.max_redemptions_per_user IS NOT NULL AND v_used_by_user >= v_promo.max_redemptions_per_user THEN
+    RETURN jsonb_build_object('success', false, 'code', 'PROMO_LIMIT_REACHED', 'error', 'You have already used this promo code');
+  END IF;
+
+  IF v_promo.first_purchase_only AND EXISTS (
+    SELECT 1 FROM transactions
+    WHERE user_id = p_user_id
+      AND type IN ('airtime_purchase', 'data_purchase', 'auto_topup')
+      AND status NOT IN ('failed', 'refunded')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'PROMO_FIRST_PURCHASE_ONLY', 'error', 'This promo code is for your first purchase only');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Redeems the promo on a claimed quote. Redemptions of one code are
+-- serialised on its row, so its limits hold under concurrent purchases.
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(p_quote_id UUID)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_quote price_quotes%ROWTYPE;
+  v_check jsonb;
+BEGIN
+  SELECT * INTO v_quote FROM price_quotes WHERE id = p_quote_id;
+  IF NOT FOUND OR v_quote.promo_code_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'PROMO_NOT_FOUND', 'error', 'No promo code on this quote');
+  END IF;
+
+  PERFORM 1 FROM promo_codes WHERE id = v_quote.promo_code_id FOR UPDATE;
+
+  v_check := check_promo_code(v_quote.promo_code_id, v_quote.user_id);
+  IF NOT (v_check->>'success')::boolean THEN
+    RETURN v_check;
+  END IF;
+
+  INSERT INTO promo_redemptions (promo_code_id, user_id, quote_id, discount)
+  VALUES (v_quote.promo_code_id, v_quote.user_id, v_quote.id, v_quote.discount)
+  ON CONFLICT (quote_id) DO NOTHING;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_promo_code(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.redeem_promo_code(uuid) FROM PUBLIC, anon, authenticated;
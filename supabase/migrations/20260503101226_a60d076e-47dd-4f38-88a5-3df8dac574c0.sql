@@ -0,0 +1,304 @@
+-- Cashback: a separate balance on the wallet, earned on completed purchases
+-- by the rules in cashback_rules and spendable towards purchases. Its
+-- movements are wallet_ledger entries on the 'cashback' account, under the
+-- purchase's reference prefixed 'cb_' so they never count towards the
+-- purchase's own (main account) refund arithmetic.
+ALTER TABLE public.wallets
+  ADD COLUMN cashback_balance NUMERIC NOT NULL DEFAULT 0 CHECK (cashback_balance >= 0);
+
+ALTER TABLE public.wallet_ledger
+  ADD COLUMN account TEXT NOT NULL DEFAULT 'main' CHECK (account IN ('main', 'cashback'));
+
+COMMENT ON COLUMN public.wallet_ledger.account IS 'Balance the entry moves; balance_after is that balance.';
+
+CREATE TABLE public.cashback_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  product TEXT CHECK (product IN ('airtime', 'data')),
+  network TEXT CHECK (network IN ('MTN', 'AIRTEL', 'GLO', '9MOBILE')),
+  min_amount NUMERIC NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+  percent NUMERIC NOT NULL DEFAULT 0 CHECK (percent >= 0 AND percent <= 100),
+  fixed_amount NUMERIC NOT NULL DEFAULT 0 CHECK (fixed_amount >= 0),
+  max_cashback NUMERIC CHECK (max_cashback > 0),
+  priority INTEGER NOT NULL DEFAULT 0,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+COMMENT ON COLUMN public.cashback_rules.min_amount IS 'Least a purchase must cost, in NGN, to earn cashback under this rule.';
+COMMENT ON COLUMN public.cashback_rules.priority IS 'Higher wins; among equal priorities the newest rule wins. Only one rule applies to a purchase.';
+
+ALTER TABLE public.cashback_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view cashback rules"
+ON public.cashback_rules FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_cashback_rules_updated_at
+BEFORE UPDATE ON public.cashback_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- What the airtime plans have advertised: 1% back from ₦500
+INSERT INTO public.cashback_rules (name, product, min_amount, percent)
+VALUES ('Airtime 1% from ₦500', 'airtime', 500, 1);
+
+-- Cashback a purchase of p_amount earns, in whole naira, and the rule behind it
+CREATE OR REPLACE FUNCTION public.cashback_for(p_product TEXT, p_network TEXT, p_amount NUMERIC)
+RETURNS jsonb LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_rule cashback_rules%ROWTYPE;
+  v_amount numeric;
+BEGIN
+  SELECT * INTO v_rule FROM cashback_rules
+  WHERE is_active
+    AND (product IS NULL OR product = p_product)
+    AND (network IS NULL OR network = upper(p_network))
+    AND p_amount >= min_amount
+    AND (starts_at IS NULL OR starts_at <= now())
+    AND (ends_at IS NULL OR ends_at > now())
+  ORDER BY priority DESC, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('amount', 0, 'rule_id', NULL);
+  END IF;
+
+  v_amount := p_amount * v_rule.percent / 100 + v_rule.fixed_amount;
+  IF v_rule.max_cashback IS NOT NULL THEN
+    v_amount := LEAST(v_amount, v_rule.max_cashback);
+  END IF;
+  RETURN jsonb_build_object('amount', floor(v_amount), 'rule_id', v_rule.id);
+END;
+$$;
+
+-- Cashback for several amounts at once, for price lists
+CREATE OR REPLACE FUNCTION public.cashback_for_amounts(p_product TEXT, p_network TEXT, p_amounts NUMERIC[])
+RETURNS TABLE (amount NUMERIC, cashback NUMERIC)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT a, (cashback_for(p_product, p_network, a)->>'amount')::numeric
+  FROM unnest(p_amounts) AS a;
+$$;
+
+CREATE OR REPLACE FUNCTION public.credit_cashback(p_user_id UUID, p_amount NUMERIC, p_reference TEXT, p_description TEXT)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_new_balance numeric;
+BEGIN
+  SELECT * INTO v_wallet FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wallet not found');
+  END IF;
+  v_new_balance := v_wallet.cashback_balance + p_amount;
+  UPDATE wallets SET cashback_balance = v_new_balance, updated_at = now() WHERE id = v_wallet.id;
+  INSERT INTO wallet_ledger (user_id, wallet_id, transaction_reference, type, amount, balance_after, description, account)
+  VALUES (p_user_id, v_wallet.id, p_reference, 'credit', p_amount, v_new_balance, p_description, 'cashback');
+  RETURN jsonb_build_object('success', true, 'wallet_id', v_wallet.id, 'cashback_balance', v_new_balance);
+END;
+$$;
+
+-- Takes cashback off the balance; refuses rather than going below zero.
+-- Returns the main balance too, for purchases paid entirely in cashback.
+CREATE OR REPLACE FUNCTION public.debit_cashback(p_user_id UUID, p_amount NUMERIC, p_reference TEXT, p_description TEXT)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_new_balance numeric;
+BEGIN
+  SELECT * INTO v_wallet FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wallet not found');
+  END IF;
+  IF v_wallet.cashback_balance < p_amount THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Insufficient cashback balance', 'cashback_balance', v_wallet.cashback_balance);
+  END IF;
+  v_new_balance := v_wallet.cashback_balance - p_amount;
+  UPDATE wallets SET cashback_balance = v_new_balance, updated_at = now() WHERE id = v_wallet.id;
+  INSERT INTO wallet_ledger (user_id, wallet_id, transaction_reference, type, amount, balance_after, description, account)
+  VALUES (p_user_id, v_wallet.id, p_reference, 'debit', p_amount, v_new_balance, p_description, 'cashback');
+  RETURN jsonb_build_object('success', true, 'wallet_id', v_wallet.id, 'balance', v_wallet.balance, 'cashback_balance', v_new_balance);
+END;
+$$;
+
+-- Purchase deduction that spends up to p_cashback of the cashback balance
+-- first and takes the rest from the main balance, all under one wallet lock.
+-- Spend limits apply to the whole amount, however it's paid.
+CREATE OR REPLACE FUNCTION public.lock_and_deduct_purchase_with_cashback(
+  p_user_id uuid, p_amount numeric, p_cashback numeric, p_reference text
+)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_check jsonb;
+  v_cashback numeric;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_wallet FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wallet not found');
+  END IF;
+
+  v_check := check_spend_limits(p_user_id, p_amount);
+  IF NOT (v_check->>'allowed')::boolean THEN
+    RETURN jsonb_build_object('success', false, 'code', v_check->>'code',
+      'error', v_check->>'error', 'limits', v_check->'limits');
+  END IF;
+
+  v_cashback := GREATEST(0, LEAST(p_cashback, v_wallet.cashback_balance, p_amount));
+  IF v_wallet.balance < p_amount - v_cashback THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Insufficient balance', 'balance', v_wallet.balance);
+  END IF;
+
+  IF v_cashback > 0 THEN
+    PERFORM debit_cashback(p_user_id, v_cashback, 'cb_' || p_reference, 'Cashback spent');
+  END IF;
+
+  IF p_amount - v_cashback > 0 THEN
+    v_result := lock_and_deduct_wallet(p_user_id, p_amount - v_cashback, p_reference);
+  ELSE
+    v_result := jsonb_build_object('success', true, 'wallet_id', v_wallet.id,
+      'balance_before', v_wallet.balance, 'balance_after', v_wallet.balance);
+  END IF;
+  RETURN v_result || jsonb_build_object('cashback_used', v_cashback);
+END;
+$$;
+
+-- Earns cashback when a purchase completes. When a purchase fails or is
+-- refunded, brings its cashback back to zero: cashback it earned is clawed
+-- back (as far as the balance allows) and cashback spent on it is returned.
+CREATE OR REPLACE FUNCTION public.settle_purchase_cashback()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_reference text := 'cb_' || NEW.reference;
+  v_product text;
+  v_cashback jsonb;
+  v_net numeric;
+  v_balance numeric;
+BEGIN
+  IF NEW.type NOT IN ('airtime_purchase', 'data_purchase', 'auto_topup') OR NEW.reference IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status <> 'completed') THEN
+    IF EXISTS (
+      SELECT 1 FROM wallet_ledger
+      WHERE transaction_reference = v_reference AND account = 'cashback' AND description = 'Cashback earned'
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    v_product := COALESCE(NEW.product_type, CASE NEW.type WHEN 'data_purchase' THEN 'data' ELSE 'airtime' END);
+    -- Only what was paid from the main balance earns cashback
+    v_cashback := cashback_for(v_product, NEW.network,
+      NEW.amount - COALESCE((NEW.metadata->>'cashback_used')::numeric, 0));
+    IF (v_cashback->>'amount')::numeric > 0 THEN
+      PERFORM credit_cashback(NEW.user_id, (v_cashback->>'amount')::numeric, v_reference, 'Cashback earned');
+      INSERT INTO notifications (user_id, title, message, type, category, metadata)
+      VALUES (
+        NEW.user_id, 'Cashback Earned',
+        'You earned ₦' || to_char((v_cashback->>'amount')::numeric, 'FM999,999,990') || ' cashback on your purchase.',
+        'success', 'transaction',
+        jsonb_build_object('transactionId', NEW.id, 'cashback', (v_cashback->>'amount')::numeric, 'ruleId', v_cashback->>'rule_id')
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('failed', 'refunded') AND TG_OP = 'UPDATE' AND OLD.status NOT IN ('failed', 'refunded') THEN
+    SELECT COALESCE(SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END), 0) INTO v_net
+    FROM wallet_ledger WHERE transaction_reference = v_reference AND account = 'cashback';
+
+    IF v_net < 0 THEN
+      PERFORM credit_cashback(NEW.user_id, -v_net, v_reference, 'Cashback returned');
+    ELSIF v_net > 0 THEN
+      SELECT cashback_balance INTO v_balance FROM wallets WHERE user_id = NEW.user_id FOR UPDATE;
+      IF LEAST(v_net, v_balance) > 0 THEN
+        PERFORM debit_cashback(NEW.user_id, LEAST(v_net, v_balance), v_reference, 'Cashback clawed back');
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_purchase_cashback
+AFTER INSERT OR UPDATE OF status ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_purchase_cashback();
+
+REVOKE EXECUTE ON FUNCTION public.cashback_for(text, text, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cashback_for_amounts(text, text, numeric[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.credit_cashback(uuid, numeric, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.debit_cashback(uuid, numeric, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_and_deduct_purchase_with_cashback(uuid, numeric, numeric, text) FROM PUBLIC, anon, authenticated;
+
+-- Reconciliation refunds now include cashback spent on the purchase, which
+-- goes back to the cashback balance. Cashback the purchase earned is clawed
+-- back by settle_purchase_cashback as the status changes to 'refunded'.
+CREATE OR REPLACE FUNCTION public.refund_reconciliation_item(p_item_id UUID, p_admin_id UUID, p_note TEXT)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_item reconciliation_items%ROWTYPE;
+  v_tx transactions%ROWTYPE;
+  v_ledger_net numeric;
+  v_cashback_net numeric;
+  v_refund jsonb;
+BEGIN
+  SELECT * INTO v_item FROM reconciliation_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reconciliation item not found');
+  END IF;
+  IF v_item.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reconciliation item is already ' || v_item.status);
+  END IF;
+  IF v_item.kind <> 'charged_not_delivered' OR v_item.transaction_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only charged-but-not-delivered purchases can be refunded');
+  END IF;
+
+  SELECT * INTO v_tx FROM transactions WHERE id = v_item.transaction_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END), 0) INTO v_ledger_net
+  FROM wallet_ledger WHERE transaction_reference = v_tx.reference;
+  SELECT COALESCE(SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END), 0) INTO v_cashback_net
+  FROM wallet_ledger
+  WHERE transaction_reference = 'cb_' || v_tx.reference AND account = 'cashback'
+    AND description IN ('Cashback spent', 'Cashback returned');
+  IF v_ledger_net >= 0 AND v_cashback_net >= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Purchase has already been refunded');
+  END IF;
+
+  IF v_ledger_net < 0 THEN
+    v_refund := refund_wallet(v_tx.user_id, -v_ledger_net, v_tx.reference);
+    IF NOT (v_refund->>'success')::boolean THEN
+      RETURN jsonb_build_object('success', false, 'error', v_refund->>'error');
+    END IF;
+  END IF;
+  IF v_cashback_net < 0 THEN
+    PERFORM credit_cashback(v_tx.user_id, -v_cashback_net, 'cb_' || v_tx.reference, 'Cashback returned');
+  END IF;
+
+  UPDATE transactions SET
+    status = 'refunded',
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+      'refunded_at', now(), 'refund_reason', 'reconciliation', 'reconciliation_item_id', v_item.id),
+    updated_at = now()
+  WHERE id = v_tx.id;
+
+  UPDATE reconciliation_items SET
+    status = 'refunded', resolved_by = p_admin_id, resolved_at = now(), resolution_note = p_note
+  WHERE id = v_item.id;
+
+  RETURN jsonb_build_object('success', true,
+    'amount', -LEAST(v_ledger_net, 0), 'cashback', -LEAST(v_cashback_net, 0),
+    'balance_after', v_refund->'balance_after');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_reconciliation_item(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,278 @@
+-- Referrals: every profile gets a shareable code; a user who signs up with
+-- one is attributed to its owner. Both are rewarded (to their cashback
+-- balance) once the referee has completed KYC and a qualifying purchase,
+-- unless the two accounts look like the same person: a shared device, a
+-- shared phone number or the same NIN.
+
+-- Unambiguous characters only (no 0/O, 1/I/L), so codes survive being read out
+CREATE OR REPLACE FUNCTION public.generate_referral_code()
+RETURNS text LANGUAGE plpgsql VOLATILE SET search_path = public AS $$
+DECLARE
+  v_alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code text;
+BEGIN
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1), '')
+    INTO v_code FROM generate_series(1, 8);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM profiles WHERE referral_code = v_code);
+  END LOOP;
+  RETURN v_code;
+END;
+$$;
+
+ALTER TABLE public.profiles ADD COLUMN referral_code TEXT;
+UPDATE public.profiles SET referral_code = public.generate_referral_code() WHERE referral_code IS NULL;
+ALTER TABLE public.profiles
+  ALTER COLUMN referral_code SET NOT NULL,
+  ADD CONSTRAINT profiles_referral_code_key UNIQUE (referral_code);
+
+-- Codes are issued on insert, never chosen or edited by clients
+CREATE OR REPLACE FUNCTION public.guard_profile_referral_code()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.referral_code := generate_referral_code();
+  ELSIF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.referral_code := OLD.referral_code;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profiles_referral_code
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_profile_referral_code();
+
+-- Devices each user has signed up or signed in on, by a hash of the app's
+-- per-install device id. Used to spot one person behind several accounts.
+CREATE TABLE public.user_devices (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_hash TEXT NOT NULL,
+  first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, device_hash)
+);
+
+CREATE INDEX idx_user_devices_device ON public.user_devices(device_hash);
+
+-- No policies: written by record_user_device and the signup trigger only
+ALTER TABLE public.user_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.referrals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  referrer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  referee_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  referral_code TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'rewarded', 'rejected')),
+  rejection_reason TEXT CHECK (rejection_reason IN ('same_device', 'same_phone', 'same_nin')),
+  qualifying_transaction_id UUID REFERENCES public.transactions(id),
+  referrer_reward NUMERIC NOT NULL DEFAULT 0,
+  referee_reward NUMERIC NOT NULL DEFAULT 0,
+  rewarded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (referrer_id <> referee_id)
+);
+
+CREATE INDEX idx_referrals_referrer ON public.referrals(referrer_id, created_at DESC);
+
+ALTER TABLE public.referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own referrals"
+ON public.referrals FOR SELECT
+USING (auth.uid() = referrer_id OR auth.uid() = referee_id);
+
+CREATE POLICY "Admins can view all referrals"
+ON public.referrals FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_referrals_updated_at
+BEFORE UPDATE ON public.referrals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.hash_device_id(p_device_id text)
+RETURNS text LANGUAGE sql IMMUTABLE AS $$
+  SELECT encode(sha256(convert_to(p_device_id, 'UTF8')), 'hex');
+$$;
+
+-- Records the device the signed-in user is on
+CREATE OR REPLACE FUNCTION public.record_user_device(p_device_id text)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF auth.uid() IS NULL OR p_device_id IS NULL OR length(p_device_id) NOT BETWEEN 16 AND 64 THEN
+    RETURN;
+  END IF;
+  INSERT INTO user_devices (user_id, device_hash)
+  VALUES (auth.uid(), hash_device_id(p_device_id))
+  ON CONFLICT (user_id, device_hash) DO UPDATE SET last_seen_at = now();
+END;
+$$;
+
+-- Why the referee can't earn a reward for the referrer, or NULL if nothing
+-- ties the two accounts together
+CREATE OR REPLACE FUNCTION public.referral_fraud_reason(p_referrer_id uuid, p_referee_id uuid)
+RETURNS text LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM user_devices a JOIN user_devices b ON a.device_hash = b.device_hash
+    WHERE a.user_id = p_referrer_id AND b.user_id = p_referee_id
+  ) THEN
+    RETURN 'same_device';
+  END IF;
+
+  IF EXISTS (
+    WITH phones AS (
+      SELECT user_id, right(regexp_replace(phone_number, '\D', '', 'g'), 10) AS phone
+      FROM profiles WHERE user_id IN (p_referrer_id, p_referee_id) AND phone_number IS NOT NULL
+      UNION
+      SELECT user_id, right(regexp_replace(phone_number, '\D', '', 'g'), 10)
+      FROM phone_numbers WHERE user_id IN (p_referrer_id, p_referee_id)
+    )
+    SELECT 1 FROM phones a JOIN phones b ON a.phone = b.phone
+    WHERE a.user_id = p_referrer_id AND b.user_id = p_referee_id AND length(a.phone) = 10
+  ) THEN
+    RETURN 'same_phone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM user_kyc a JOIN user_kyc b ON a.nin_hash = b.nin_hash
+    WHERE a.user_id = p_referrer_id AND b.user_id = p_referee_id
+  ) THEN
+    RETURN 'same_nin';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Rewards a pending referral once the referee is KYC-verified and has a
+-- completed purchase of at least ₦500, or rejects it if the accounts are
+-- tied together. Safe to call at any time; does nothing until both hold.
+CREATE OR REPLACE FUNCTION public.settle_referral(p_referee_id uuid)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  c_referrer_reward constant numeric := 500;
+  c_referee_reward constant numeric := 200;
+  c_min_purchase constant numeric := 500;
+  v_referral referrals%ROWTYPE;
+  v_transaction_id uuid;
+  v_reason text;
+BEGIN
+  SELECT * INTO v_referral FROM referrals
+  WHERE referee_id = p_referee_id AND status = 'pending' FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = p_referee_id AND kyc_status = 'verified') THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_transaction_id FROM transactions
+  WHERE user_id = p_referee_id AND status = 'completed'
+    AND type IN ('airtime_purchase', 'data_purchase', 'auto_topup')
+    AND amount >= c_min_purchase
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_transaction_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_reason := referral_fraud_reason(v_referral.referrer_id, p_referee_id);
+  IF v_reason IS NOT NULL THEN
+    UPDATE referrals SET status = 'rejected', rejection_reason = v_reason WHERE id = v_referral.id;
+    RETURN;
+  END IF;
+
+  PERFORM credit_cashback(v_referral.referrer_id, c_referrer_reward, 'ref_' || v_referral.id, 'Referral reward');
+  PERFORM credit_cashback(p_referee_id, c_referee_reward, 'ref_' || v_referral.id, 'Referral welcome reward');
+  UPDATE referrals SET
+    status = 'rewarded',
+    qualifying_transaction_id = v_transaction_id,
+    referrer_reward = c_referrer_reward,
+    referee_reward = c_referee_reward,
+    rewarded_at = now()
+  WHERE id = v_referral.id;
+
+  INSERT INTO notifications (user_id, title, message, type, category, metadata) VALUES
+    (v_referral.referrer_id, 'Referral Reward',
+     'Someone you invited made their first purchase. ₦' || c_referrer_reward || ' has been added to your cashback.',
+     'success', 'general', jsonb_build_object('referralId', v_referral.id, 'reward', c_referrer_reward)),
+    (p_referee_id, 'Welcome Reward',
+     '₦' || c_referee_reward || ' has been added to your cashback for joining with a referral code.',
+     'success', 'general', jsonb_build_object('referralId', v_referral.id, 'reward', c_referee_reward));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_referral_on_purchase()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status <> 'completed') THEN
+    PERFORM settle_referral(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_referral_on_purchase
+AFTER INSERT OR UPDATE OF status ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_referral_on_purchase();
+
+CREATE OR REPLACE FUNCTION public.settle_referral_on_kyc()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.kyc_status = 'verified' AND OLD.kyc_status IS DISTINCT FROM 'verified' THEN
+    PERFORM settle_referral(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_referral_on_kyc
+AFTER UPDATE OF kyc_status ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_referral_on_kyc();
+
+-- New users: profile as before, plus the signup device and the referral
+-- they signed up with, if its code is valid. Signup never fails over a bad code.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_code text := upper(trim(new.raw_user_meta_data ->> 'referral_code'));
+  v_device_id text := new.raw_user_meta_data ->> 'device_id';
+  v_referrer_id uuid;
+  v_reason text;
+BEGIN
+  INSERT INTO public.profiles (user_id, full_name)
+  VALUES (new.id, new.raw_user_meta_data ->> 'full_name');
+
+  IF v_device_id IS NOT NULL AND length(v_device_id) BETWEEN 16 AND 64 THEN
+    INSERT INTO user_devices (user_id, device_hash)
+    VALUES (new.id, hash_device_id(v_device_id))
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF v_code IS NOT NULL AND v_code <> '' THEN
+    SELECT user_id INTO v_referrer_id FROM profiles WHERE referral_code = v_code AND user_id <> new.id;
+    IF v_referrer_id IS NOT NULL THEN
+      v_reason := referral_fraud_reason(v_referrer_id, new.id);
+      INSERT INTO referrals (referrer_id, referee_id, referral_code, status, rejection_reason)
+      VALUES (v_referrer_id, new.id, v_code,
+        CASE WHEN v_reason IS NULL THEN 'pending' ELSE 'rejected' END, v_reason);
+    END IF;
+  END IF;
+
+  RETURN new;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.referral_fraud_reason(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_referral(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_user_device(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_user_device(text) TO authenticated;
@@ -0,0 +1,207 @@
+-- Notification delivery: every notification still lands in the app, and is
+-- also queued for email, SMS and web push according to the user's
+-- preferences for its category. deliver-notifications sends the queue and
+-- retries failures; notification_deliveries is the delivery log.
+
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('transaction', 'budget', 'schedule', 'security')),
+  email BOOLEAN NOT NULL,
+  sms BOOLEAN NOT NULL,
+  push BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, category)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences"
+ON public.notification_preferences FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Browsers the user has allowed to show push notifications
+CREATE TABLE public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- One row per notification and channel. The notification link is kept
+-- nullable so the log survives the user deleting the notification.
+CREATE TABLE public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'push')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  transport TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (notification_id, channel)
+);
+
+CREATE INDEX idx_notification_deliveries_due ON public.notification_deliveries(next_attempt_at)
+WHERE status = 'pending';
+CREATE INDEX idx_notification_deliveries_user ON public.notification_deliveries(user_id, created_at DESC);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all notification deliveries"
+ON public.notification_deliveries FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+BEFORE UPDATE ON public.notification_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Channels used for a category until the user chooses: anything that needs
+-- acting on away from the app (a schedule that failed, account security)
+-- goes everywhere; routine purchases only as a push.
+CREATE OR REPLACE FUNCTION public.default_notification_channels(p_category text)
+RETURNS TABLE (email boolean, sms boolean, push boolean) LANGUAGE sql IMMUTABLE AS $$
+  SELECT d.email, d.sms, d.push FROM (VALUES
+    ('transaction', false, false, true),
+    ('budget', true, false, true),
+    ('schedule', true, true, true),
+    ('security', true, true, true)
+  ) AS d(category, email, sms, push)
+  WHERE d.category = p_category;
+$$;
+
+-- The signed-in user's channels for every category, defaults filled in
+CREATE OR REPLACE FUNCTION public.get_notification_preferences()
+RETURNS TABLE (category text, email boolean, sms boolean, push boolean)
+LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT c.category,
+    COALESCE(p.email, d.email), COALESCE(p.sms, d.sms), COALESCE(p.push, d.push)
+  FROM unnest(ARRAY['transaction', 'budget', 'schedule', 'security']) AS c(category)
+  CROSS JOIN LATERAL default_notification_channels(c.category) d
+  LEFT JOIN notification_preferences p ON p.user_id = auth.uid() AND p.category = c.category;
+$$;
+
+-- Registers this browser's push subscription to the signed-in user, taking
+-- it over if another account used the same browser before
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  p_endpoint text, p_p256dh text, p_auth text, p_user_agent text
+)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_endpoint !~ '^https://' OR length(p_endpoint) > 1000 THEN
+    RAISE EXCEPTION 'Invalid push endpoint';
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, left(p_user_agent, 300))
+  ON CONFLICT (endpoint) DO UPDATE SET
+    user_id = EXCLUDED.user_id,
+    p256dh = EXCLUDED.p256dh,
+    auth = EXCLUDED.auth,
+    user_agent = EXCLUDED.user_agent;
+END;
+$$;
+
+-- Notifications now go out by SMS and email word for word, so only edge
+-- functions may create them; the original policy let any client insert one
+-- for any user.
+DROP POLICY IF EXISTS "Service role can insert notifications" ON public.notifications;
+CREATE POLICY "Service role can insert notifications"
+ON public.notifications
+FOR INSERT
+TO service_role
+WITH CHECK (true);
+
+-- Queues a new notification on each channel the user wants for its
+-- category. Categories without channels ('general', 'kyc') stay in the app.
+CREATE OR REPLACE FUNCTION public.enqueue_notification_deliveries()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_email boolean;
+  v_sms boolean;
+  v_push boolean;
+BEGIN
+  SELECT COALESCE(p.email, d.email), COALESCE(p.sms, d.sms), COALESCE(p.push, d.push)
+  INTO v_email, v_sms, v_push
+  FROM default_notification_channels(NEW.category) d
+  LEFT JOIN notification_preferences p ON p.user_id = NEW.user_id AND p.category = NEW.category;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notification_deliveries (notification_id, user_id, channel)
+  SELECT NEW.id, NEW.user_id, c.channel
+  FROM (VALUES ('email', v_email), ('sms', v_sms), ('push', v_push)) AS c(channel, enabled)
+  WHERE c.enabled;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_notification_deliveries
+AFTER INSERT ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.enqueue_notification_deliveries();
+
+-- Leases due deliveries to one deliver-notifications run
+CREATE OR REPLACE FUNCTION public.claim_due_notification_deliveries(p_limit integer, p_lease_seconds integer)
+RETURNS SETOF public.notification_deliveries LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_deliveries d
+  SET lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE d.id IN (
+    SELECT id FROM notification_deliveries
+    WHERE status = 'pending'
+      AND next_attempt_at <= now()
+      AND (lease_expires_at IS NULL OR lease_expires_at <= now())
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_notification_deliveries(integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) TO authenticated;
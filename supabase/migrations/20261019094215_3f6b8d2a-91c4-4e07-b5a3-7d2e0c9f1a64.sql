@@ -0,0 +1,7 @@
+-- The id of each catalog plan at the network's other VTU providers, so data
+-- purchases can fail over to a provider selling the same bundle. plan_id
+-- stays the id at the provider that listed it (data_plans.provider).
+ALTER TABLE public.data_plans
+  ADD COLUMN IF NOT EXISTS provider_plan_ids JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.data_plans.provider_plan_ids IS 'Provider name → that provider''s id for the same bundle. Kept by sync-data-plans; providers missing here are not offered the plan.';
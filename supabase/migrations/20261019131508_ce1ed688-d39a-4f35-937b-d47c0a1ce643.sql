@@ -0,0 +1,42 @@
+-- A PIN authorization also covers how often a top-up runs: changing a
+-- schedule's recurrence or run limit, or an auto top-up rule's threshold or
+-- cooldown, can multiply spend just like changing the amount.
+CREATE OR REPLACE FUNCTION public.guard_topup_pin_authorization()
+RETURNS TRIGGER LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.pin_authorized_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'scheduled_topups' THEN
+    IF (NEW.amount, NEW.type, NEW.network, NEW.plan_id, NEW.phone_number, NEW.phone_number_id,
+        NEW.schedule_type, NEW.scheduled_at, NEW.recurring_time, NEW.recurring_day_of_week,
+        NEW.recurring_days_of_week, NEW.recurring_day_of_month, NEW.recurring_month_rule,
+        NEW.recurring_interval, NEW.starts_on, NEW.ends_on, NEW.max_executions)
+       IS DISTINCT FROM (OLD.amount, OLD.type, OLD.network, OLD.plan_id, OLD.phone_number, OLD.phone_number_id,
+        OLD.schedule_type, OLD.scheduled_at, OLD.recurring_time, OLD.recurring_day_of_week,
+        OLD.recurring_days_of_week, OLD.recurring_day_of_month, OLD.recurring_month_rule,
+        OLD.recurring_interval, OLD.starts_on, OLD.ends_on, OLD.max_executions) THEN
+      NEW.pin_authorized_at := NULL;
+    ELSE
+      NEW.pin_authorized_at := OLD.pin_authorized_at;
+    END IF;
+  ELSE
+    IF (NEW.topup_amount, NEW.type, NEW.network, NEW.plan_id, NEW.phone_number_id,
+        NEW.threshold_percentage, NEW.cooldown_minutes)
+       IS DISTINCT FROM (OLD.topup_amount, OLD.type, OLD.network, OLD.plan_id, OLD.phone_number_id,
+        OLD.threshold_percentage, OLD.cooldown_minutes) THEN
+      NEW.pin_authorized_at := NULL;
+    ELSE
+      NEW.pin_authorized_at := OLD.pin_authorized_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
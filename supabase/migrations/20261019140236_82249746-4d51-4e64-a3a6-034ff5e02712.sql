@@ -0,0 +1,52 @@
+-- What a held run needs from the wallet: its charge when it was held, which
+-- for data is the plan's selling price rather than the stored amount.
+ALTER TABLE public.scheduled_topups
+  ADD COLUMN IF NOT EXISTS held_amount NUMERIC;
+
+COMMENT ON COLUMN public.scheduled_topups.held_amount IS 'Charge the held run is waiting for the wallet to cover. Only meaningful while held_since is set.';
+
+-- Same as before, but held runs are released in next_execution_at order,
+-- and only while the new balance covers them together with every held run
+-- ahead of them, so a funding that covers one run doesn't release (and fail)
+-- all of them.
+CREATE OR REPLACE FUNCTION fund_wallet_atomic(p_user_id uuid, p_amount numeric, p_reference text)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_wallet wallets%ROWTYPE;
+  v_new_balance numeric;
+  v_limits jsonb;
+BEGIN
+  SELECT * INTO v_wallet FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wallet not found');
+  END IF;
+  v_limits := get_kyc_limits(p_user_id);
+  IF v_wallet.balance + p_amount > (v_limits->>'max_balance')::numeric THEN
+    RETURN jsonb_build_object('success', false, 'code', 'KYC_BALANCE_LIMIT',
+      'error', format('Maximum wallet balance of %s for %s exceeded', v_limits->>'max_balance', v_limits->>'name'));
+  END IF;
+  v_new_balance := v_wallet.balance + p_amount;
+  UPDATE wallets SET balance = v_new_balance, updated_at = now() WHERE id = v_wallet.id;
+  INSERT INTO wallet_ledger (user_id, wallet_id, transaction_reference, type, amount, balance_after, description)
+  VALUES (p_user_id, v_wallet.id, p_reference, 'credit', p_amount, v_new_balance, 'Wallet funding');
+
+  -- Held runs already due count against the balance but are left as they are
+  UPDATE scheduled_topups s
+  SET next_execution_at = now()
+  FROM (
+    SELECT id, next_execution_at,
+      SUM(COALESCE(held_amount, amount)) OVER (ORDER BY next_execution_at, id) AS running_total
+    FROM scheduled_topups
+    WHERE user_id = p_user_id
+      AND status = 'active'
+      AND held_since IS NOT NULL
+  ) held
+  WHERE s.id = held.id
+    AND held.running_total <= v_new_balance
+    AND held.next_execution_at > now();
+
+  RETURN jsonb_build_object('success', true, 'wallet_id', v_wallet.id, 'balance_before', v_wallet.balance, 'balance_after', v_new_balance);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fund_wallet_atomic(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
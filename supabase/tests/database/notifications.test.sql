@@ -0,0 +1,56 @@
+-- Only edge functions (service_role) may create notifications: each one is
+-- delivered by SMS and email as written. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object('sub', '00000000-0000-0000-0000-00000000a77a', 'role', 'authenticated')::text, true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.notifications (user_id, title, message, category)
+     VALUES ('00000000-0000-0000-0000-0000000000b1', 'Account locked', 'Verify at https://example.com', 'security') $$,
+  '42501', NULL,
+  'an authenticated user cannot create a notification for another user'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.notifications (user_id, title, message, category)
+     VALUES ('00000000-0000-0000-0000-00000000a77a', 'Hello', 'Hello', 'security') $$,
+  '42501', NULL,
+  'an authenticated user cannot create a notification for themselves'
+);
+
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', json_build_object('role', 'anon')::text, true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.notifications (user_id, title, message, category)
+     VALUES ('00000000-0000-0000-0000-0000000000b1', 'Account locked', 'Verify at https://example.com', 'security') $$,
+  '42501', NULL,
+  'an anonymous client cannot create a notification'
+);
+
+RESET ROLE;
+SET LOCAL ROLE service_role;
+SELECT set_config('request.jwt.claims', json_build_object('role', 'service_role')::text, true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.notifications (user_id, title, message, category)
+     VALUES ('00000000-0000-0000-0000-0000000000b1', 'New sign-in', 'A new device signed in', 'security') $$,
+  'the service role can create a notification'
+);
+
+RESET ROLE;
+
+-- Security notifications go out by email, SMS and push by default
+SELECT is(
+  (SELECT count(*) FROM public.notification_deliveries WHERE user_id = '00000000-0000-0000-0000-0000000000b1'),
+  3::bigint,
+  'only the service role''s notification is queued for delivery'
+);
+
+SELECT * FROM finish();
+ROLLBACK;